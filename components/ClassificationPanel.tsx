@@ -0,0 +1,151 @@
+import React from 'react';
+import { useState } from 'react';
+import {
+  Typography,
+  Button,
+  Box,
+  Stack,
+  Card,
+  CardContent,
+  CardHeader,
+  Divider,
+  CircularProgress,
+  Chip,
+  LinearProgress,
+  MenuItem,
+  TextField,
+} from '@mui/material';
+import { Replay } from '@mui/icons-material';
+
+// Define the classification returned with a parsed invoice
+export interface InvoiceClassification {
+  type: string;
+  confidence: number;
+  possibleTypes?: string[]; // Other types the document could be, most likely first
+  metadata?: Record<string, unknown>; // E.g. the indicators that decided the type
+}
+
+interface ClassificationPanelProps {
+  classification?: InvoiceClassification; // Missing when classification was skipped
+  isParsing: boolean;
+  onReparse: (documentType: string) => void;
+}
+
+// Invoice types a document can be parsed as
+const INVOICE_TYPES = [
+  { value: 'standard', label: 'Invoice' },
+  { value: 'credit_note', label: 'Credit Note' },
+  { value: 'proforma', label: 'Proforma Invoice' },
+  { value: 'purchase_order', label: 'Purchase Order' },
+  { value: 'receipt', label: 'Receipt' },
+  { value: 'unknown', label: 'Unknown' }
+];
+
+const typeLabel = (type: string) => INVOICE_TYPES.find(({ value }) => value === type)?.label || type;
+
+// Show metadata values as plain text
+const formatMetadata = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return value.map(formatMetadata).join(', ');
+  }
+  if (value !== null && typeof value === 'object') {
+    return JSON.stringify(value);
+  }
+  return String(value);
+};
+
+export default function ClassificationPanel({ classification, isParsing, onReparse }: ClassificationPanelProps) {
+  const [documentType, setDocumentType] = useState<string>(classification?.type || 'standard');
+
+  const confidence = Math.round((classification?.confidence || 0) * 100);
+  const overridden = classification?.metadata?.overridden === true;
+  const metadata = Object.entries(classification?.metadata || {}).filter(([key]) => key !== 'overridden');
+
+  return (
+    <Card sx={{ mt: 4 }}>
+      <CardHeader title="Classification" />
+      <Divider />
+      <CardContent>
+        <Stack spacing={2}>
+          {classification ? (
+            <>
+              <Stack direction="row" spacing={1} alignItems="center">
+                <Typography variant="h6">{typeLabel(classification.type)}</Typography>
+                {overridden && <Chip label="Chosen by you" size="small" />}
+              </Stack>
+
+              {!overridden && (
+                <Box>
+                  <Stack direction="row" justifyContent="space-between">
+                    <Typography variant="body2" color="text.secondary">Confidence</Typography>
+                    <Typography variant="body2">{confidence}%</Typography>
+                  </Stack>
+                  <LinearProgress
+                    variant="determinate"
+                    value={confidence}
+                    color={confidence >= 80 ? 'success' : confidence >= 50 ? 'warning' : 'error'}
+                    sx={{ height: 8, borderRadius: 1 }}
+                  />
+                </Box>
+              )}
+
+              {classification.possibleTypes && classification.possibleTypes.length > 0 && (
+                <Stack direction="row" spacing={1} alignItems="center" flexWrap="wrap" useFlexGap>
+                  <Typography variant="body2" color="text.secondary">Could also be:</Typography>
+                  {classification.possibleTypes.map(type => (
+                    <Chip
+                      key={type}
+                      label={typeLabel(type)}
+                      size="small"
+                      variant="outlined"
+                      disabled={isParsing}
+                      onClick={() => onReparse(type)}
+                    />
+                  ))}
+                </Stack>
+              )}
+
+              {metadata.length > 0 && (
+                <Box component="dl" sx={{ m: 0, display: 'grid', gridTemplateColumns: 'auto 1fr', columnGap: 2, rowGap: 0.5 }}>
+                  {metadata.map(([key, value]) => (
+                    <React.Fragment key={key}>
+                      <Typography component="dt" variant="body2" color="text.secondary">{key}</Typography>
+                      <Typography component="dd" variant="body2" sx={{ m: 0 }}>{formatMetadata(value)}</Typography>
+                    </React.Fragment>
+                  ))}
+                </Box>
+              )}
+            </>
+          ) : (
+            <Typography variant="body2" color="text.secondary">
+              Classification was skipped, so the invoice was parsed without type-specific fields.
+            </Typography>
+          )}
+
+          <Stack direction={{ xs: 'column', sm: 'row' }} spacing={2}>
+            <TextField
+              select
+              label="Parse as"
+              size="small"
+              value={documentType}
+              onChange={event => setDocumentType(event.target.value)}
+              sx={{ minWidth: 200 }}
+            >
+              {INVOICE_TYPES.map(({ value, label }) => (
+                <MenuItem key={value} value={value}>{label}</MenuItem>
+              ))}
+            </TextField>
+            <Button
+              variant="outlined"
+              disabled={isParsing}
+              onClick={() => onReparse(documentType)}
+              startIcon={isParsing ? <CircularProgress size={20} color="inherit" /> : <Replay />}
+            >
+              {isParsing ? 'Parsing...' : 'Parse Again'}
+            </Button>
+          </Stack>
+        </Stack>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,553 @@
+import React from 'react';
+import { useState } from 'react';
+import { useForm, useFieldArray, Controller } from 'react-hook-form';
+import axios from 'axios';
+import {
+  Typography,
+  TextField,
+  Button,
+  Box,
+  Stack,
+  Card,
+  CardContent,
+  CardHeader,
+  Divider,
+  CircularProgress,
+  Alert,
+  AlertTitle,
+  Chip,
+  IconButton,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+} from '@mui/material';
+import { alpha, SxProps, Theme } from '@mui/material/styles';
+import { Add, Delete, Save } from '@mui/icons-material';
+
+// Define the parsed invoice interfaces the review works on
+export interface InvoiceData {
+  invoiceNumber: string;
+  invoiceDate: string;
+  dueDate?: string;
+  vendorName: string;
+  vendorAddress?: string;
+  customerName?: string;
+  customerAddress?: string;
+  items: InvoiceItem[];
+  subtotal: number;
+  taxAmount?: number;
+  totalAmount: number;
+  currency: string;
+  paymentTerms?: string;
+  purchaseOrderNumber?: string;
+  classification?: InvoiceClassification;
+  typeDetails?: { type: string; shippingAmount?: number; insuranceAmount?: number };
+  validation?: ValidationReport;
+  fieldProvenance?: Record<string, FieldProvenance>;
+  paymentSchedule?: { dueDateDerived: boolean };
+}
+
+export interface InvoiceItem {
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  amount: number;
+  provenance?: FieldProvenance;
+}
+
+// Define where a value was read, with its box normalized to 0-1 of the page
+export interface FieldProvenance {
+  confidence: number;
+  source?: { kind: string; page?: number; region?: BoundingRegion };
+}
+
+export interface BoundingRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface InvoiceClassification {
+  type: string;
+  confidence: number;
+}
+
+interface ValidationReport {
+  valid: boolean;
+  issues: { code: string; severity: string; field: string; message: string }[];
+  defaultedFields: string[];
+}
+
+// Define the stored document returned when corrections are saved
+export interface StoredInvoice {
+  id: string;
+  version: number;
+  data: InvoiceData;
+}
+
+// Define the review form; numbers are '' while their field is empty
+interface ReviewItem {
+  description: string;
+  quantity: number | '';
+  unitPrice: number | '';
+  amount: number | '';
+}
+
+interface ReviewFormInput {
+  invoiceNumber: string;
+  invoiceDate: string;
+  dueDate: string;
+  vendorName: string;
+  vendorAddress: string;
+  customerName: string;
+  customerAddress: string;
+  currency: string;
+  paymentTerms: string;
+  purchaseOrderNumber: string;
+  subtotal: number | '';
+  taxAmount: number | '';
+  totalAmount: number | '';
+  items: ReviewItem[];
+}
+
+// Define a box on the preview and the form field it belongs to
+interface ImageRegion {
+  field: string; // Header field name or 'items[0]'
+  label: string;
+  region: BoundingRegion;
+}
+
+type TextFieldName = Exclude<keyof ReviewFormInput, 'subtotal' | 'taxAmount' | 'totalAmount' | 'items'>;
+type AmountFieldName = 'subtotal' | 'taxAmount' | 'totalAmount';
+
+interface ReviewWorkspaceProps {
+  invoice: InvoiceData;
+  documentId?: string; // Missing when the parse result couldn't be stored
+  version?: number;
+  image?: { data: string; mimeType: string }; // Base64 upload the invoice was parsed from
+  onSaved: (document: StoredInvoice) => void;
+}
+
+// Header fields in the order they are shown
+const TEXT_FIELDS: { name: TextFieldName; label: string; multiline?: boolean }[] = [
+  { name: 'invoiceNumber', label: 'Invoice Number' },
+  { name: 'invoiceDate', label: 'Invoice Date' },
+  { name: 'dueDate', label: 'Due Date' },
+  { name: 'vendorName', label: 'Vendor' },
+  { name: 'vendorAddress', label: 'Vendor Address', multiline: true },
+  { name: 'customerName', label: 'Customer' },
+  { name: 'customerAddress', label: 'Customer Address', multiline: true },
+  { name: 'currency', label: 'Currency' },
+  { name: 'paymentTerms', label: 'Payment Terms' },
+  { name: 'purchaseOrderNumber', label: 'PO Number' }
+];
+
+const AMOUNT_FIELDS: { name: AmountFieldName; label: string }[] = [
+  { name: 'subtotal', label: 'Subtotal' },
+  { name: 'taxAmount', label: 'Tax' },
+  { name: 'totalAmount', label: 'Total' }
+];
+
+const REQUIRED_FIELDS = ['invoiceNumber', 'invoiceDate', 'vendorName', 'subtotal', 'totalAmount', 'currency'];
+
+// Values below this confidence are worth a second look
+const LOW_CONFIDENCE = 0.5;
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+const toFormNumber = (value: string): number | '' => (value === '' || !Number.isFinite(Number(value)) ? '' : Number(value));
+
+// Fill the form from the parsed invoice, with empty strings for missing values
+const toFormInput = (invoice: InvoiceData): ReviewFormInput => ({
+  ...Object.fromEntries(TEXT_FIELDS.map(({ name }) => [name, invoice[name] ?? ''])) as Record<TextFieldName, string>,
+  subtotal: invoice.subtotal ?? '',
+  taxAmount: invoice.taxAmount ?? '',
+  totalAmount: invoice.totalAmount ?? '',
+  items: (invoice.items || []).map(({ description, quantity, unitPrice, amount }) => ({ description, quantity, unitPrice, amount }))
+});
+
+// Send cleared fields as null so the API removes them
+const toCorrection = (values: ReviewFormInput) => ({
+  ...Object.fromEntries(TEXT_FIELDS.map(({ name }) => [name, values[name].trim() || null])),
+  ...Object.fromEntries(AMOUNT_FIELDS.map(({ name }) => [name, values[name] === '' ? null : values[name]])),
+  items: values.items.map(item => ({
+    description: item.description,
+    quantity: item.quantity === '' ? 0 : item.quantity,
+    unitPrice: item.unitPrice === '' ? 0 : item.unitPrice,
+    amount: item.amount === '' ? 0 : item.amount
+  }))
+});
+
+const ITEM_PATTERN = /^items\[(\d+)\]$/;
+
+// Tint a field that needs attention
+const highlight = (severity?: 'error' | 'warning'): SxProps<Theme> | undefined =>
+  severity && ((theme: Theme) => ({ '& .MuiOutlinedInput-root': { backgroundColor: alpha(theme.palette[severity].main, 0.08) } }));
+
+export default function ReviewWorkspace({ invoice, documentId, version, image, onSaved }: ReviewWorkspaceProps) {
+  const { control, handleSubmit, getValues, setValue, setFocus, formState: { dirtyFields, isDirty } } = useForm<ReviewFormInput>({
+    defaultValues: toFormInput(invoice)
+  });
+  const { fields: items, append, remove } = useFieldArray({ control, name: 'items' });
+  const [isSaving, setIsSaving] = useState<boolean>(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [activeField, setActiveField] = useState<string | null>(null); // Field hovered or focused in the form
+  const [hoveredRegion, setHoveredRegion] = useState<string | null>(null); // Field whose box is hovered on the preview
+
+  // Proforma shipping and insurance are part of the total besides subtotal and tax
+  const otherCharges = (invoice.typeDetails?.shippingAmount || 0) + (invoice.typeDetails?.insuranceAmount || 0);
+
+  // Explain why a field of the parse result needs a look, until the reviewer changes it
+  const getFieldStatus = (field: string, dirty?: boolean): { severity: 'error' | 'warning'; message: string } | undefined => {
+    if (dirty) {
+      return undefined;
+    }
+    const value = (invoice as unknown as Record<string, unknown>)[field];
+    if (invoice.validation?.defaultedFields.includes(field)) {
+      return { severity: 'warning', message: 'Not found in the document, filled with a default' };
+    }
+    if (value === 'UNKNOWN' || (REQUIRED_FIELDS.includes(field) && (value === undefined || value === null || value === ''))) {
+      return { severity: 'error', message: 'Missing from the document' };
+    }
+    const issue = invoice.validation?.issues.find(candidate => candidate.field === field);
+    if (issue) {
+      return { severity: issue.severity === 'error' ? 'error' : 'warning', message: issue.message };
+    }
+    if (field === 'dueDate' && invoice.paymentSchedule?.dueDateDerived) {
+      return { severity: 'warning', message: 'Computed from the payment terms' };
+    }
+    const confidence = invoice.fieldProvenance?.[field]?.confidence;
+    if (value !== undefined && confidence !== undefined && confidence < LOW_CONFIDENCE) {
+      return { severity: 'warning', message: `Low confidence (${Math.round(confidence * 100)}%)` };
+    }
+    return undefined;
+  };
+
+  // Boxes the model reported on the page; the preview shows the first page. Items come first so header boxes stay on top.
+  const regions: ImageRegion[] = [
+    ...(invoice.items || []).map((item, index) => ({ field: `items[${index}]`, label: `Item ${index + 1}`, source: item.provenance?.source })),
+    ...[...TEXT_FIELDS, ...AMOUNT_FIELDS].map(({ name, label }) => ({ field: name, label, source: invoice.fieldProvenance?.[name]?.source }))
+  ].flatMap(({ field, label, source }) =>
+    source?.kind === 'image' && (source.page ?? 1) === 1 && source.region ? [{ field, label, region: source.region }] : []
+  );
+
+  // Show a field's box on the preview while it is hovered or focused in the form
+  const trackField = (field: string) => ({
+    onMouseEnter: () => setActiveField(field),
+    onMouseLeave: () => setActiveField(null),
+    onFocus: () => setActiveField(field),
+    onBlur: () => setActiveField(null)
+  });
+
+  // Focus the form field of a clicked box, the description for a line item
+  const focusField = (field: string) => {
+    const item = ITEM_PATTERN.exec(field);
+    if (!item) {
+      setFocus(field as TextFieldName | AmountFieldName);
+    } else if (Number(item[1]) < getValues('items').length) {
+      setFocus(`items.${Number(item[1])}.description`);
+    }
+  };
+
+  // Recalculate the total from the subtotal and tax
+  const recalculateTotal = () => {
+    const subtotal = Number(getValues('subtotal')) || 0;
+    const taxAmount = Number(getValues('taxAmount')) || 0;
+    setValue('totalAmount', roundCents(subtotal + taxAmount + otherCharges), { shouldDirty: true });
+  };
+
+  // Recalculate the subtotal from the line items, then the total
+  const recalculateSubtotal = () => {
+    const lines = getValues('items');
+    if (lines.length > 0) {
+      setValue('subtotal', roundCents(lines.reduce((sum, line) => sum + (Number(line.amount) || 0), 0)), { shouldDirty: true });
+    }
+    recalculateTotal();
+  };
+
+  // Recalculate a line amount from its quantity and unit price
+  const recalculateLine = (index: number) => {
+    const quantity = Number(getValues(`items.${index}.quantity`)) || 0;
+    const unitPrice = Number(getValues(`items.${index}.unitPrice`)) || 0;
+    setValue(`items.${index}.amount`, roundCents(quantity * unitPrice), { shouldDirty: true });
+    recalculateSubtotal();
+  };
+
+  // Save the corrections as a new version of the stored document
+  const onSave = async (values: ReviewFormInput) => {
+    if (!documentId) return;
+
+    setIsSaving(true);
+    setSaveError(null);
+
+    try {
+      const response = await axios.put(`/api/documents/${documentId}`, { data: toCorrection(values) }, { validateStatus: () => true });
+      if (response.status !== 201) {
+        setSaveError(response.data.error || 'Failed to save corrections');
+        return;
+      }
+      onSaved(response.data.data);
+    } catch (error) {
+      console.error('Error saving corrections:', error);
+      setSaveError(error instanceof Error ? error.message : 'An unknown error occurred');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const issues = invoice.validation?.issues || [];
+
+  return (
+    <Card sx={{ mt: 4 }}>
+      <CardHeader
+        title="Review Invoice"
+        subheader={documentId ? `Version ${version || 1}` : 'Not stored, corrections can not be saved'}
+        action={invoice.classification && (
+          <Chip
+            label={`${invoice.classification.type} (${Math.round(invoice.classification.confidence * 100)}%)`}
+            size="small"
+            sx={{ mt: 1, mr: 1 }}
+          />
+        )}
+      />
+      <Divider />
+      <CardContent>
+        <Stack direction={{ xs: 'column', md: 'row' }} spacing={3} alignItems="flex-start">
+          {image && (
+            <Box sx={{ width: { xs: '100%', md: '40%' }, position: { md: 'sticky' }, top: { md: 16 }, flexShrink: 0 }}>
+              {image.mimeType === 'application/pdf' ? (
+                <Box
+                  component="object"
+                  data={`data:${image.mimeType};base64,${image.data}`}
+                  type={image.mimeType}
+                  sx={{ width: '100%', height: 600, border: '1px solid', borderColor: 'grey.300' }}
+                />
+              ) : (
+                <Box sx={{ position: 'relative' }}>
+                  <Box
+                    component="img"
+                    src={`data:${image.mimeType};base64,${image.data}`}
+                    alt="Uploaded invoice"
+                    sx={{ width: '100%', border: '1px solid', borderColor: 'grey.300', display: 'block' }}
+                  />
+                  {regions.map(({ field, label, region }) => {
+                    const active = field === activeField || field === hoveredRegion;
+                    return (
+                      <Box
+                        key={field}
+                        title={label}
+                        onMouseEnter={() => setHoveredRegion(field)}
+                        onMouseLeave={() => setHoveredRegion(null)}
+                        onClick={() => focusField(field)}
+                        sx={(theme) => ({
+                          position: 'absolute',
+                          left: `${region.x * 100}%`,
+                          top: `${region.y * 100}%`,
+                          width: `${region.width * 100}%`,
+                          height: `${region.height * 100}%`,
+                          cursor: 'pointer',
+                          border: '1px solid',
+                          borderColor: alpha(theme.palette.primary.main, active ? 1 : 0.4),
+                          backgroundColor: alpha(theme.palette.primary.main, active ? 0.25 : 0.04)
+                        })}
+                      />
+                    );
+                  })}
+                </Box>
+              )}
+              {regions.length > 0 && image.mimeType !== 'application/pdf' && (
+                <Typography variant="caption" color="text.secondary">
+                  Hover a field to see where it was read, or click a box to edit its value.
+                </Typography>
+              )}
+            </Box>
+          )}
+
+          <Box component="form" noValidate onSubmit={handleSubmit(onSave)} sx={{ flexGrow: 1, minWidth: 0, width: '100%' }}>
+            <Stack spacing={3}>
+              {issues.length > 0 && (
+                <Alert severity={invoice.validation?.valid ? 'warning' : 'error'}>
+                  <AlertTitle>{invoice.validation?.valid ? 'Check these values' : 'The extracted values are inconsistent'}</AlertTitle>
+                  <Box component="ul" sx={{ m: 0, pl: 2 }}>
+                    {issues.map((issue, index) => (
+                      <li key={`${issue.code}-${issue.field}-${index}`}>{issue.message}</li>
+                    ))}
+                  </Box>
+                </Alert>
+              )}
+
+              <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', sm: '1fr 1fr' }, gap: 2 }}>
+                {TEXT_FIELDS.map(({ name, label, multiline }) => {
+                  const status = getFieldStatus(name, dirtyFields[name]);
+                  return (
+                    <Box key={name} {...trackField(name)}>
+                      <Controller
+                        name={name}
+                        control={control}
+                        render={({ field: { ref, ...field } }) => (
+                          <TextField
+                            {...field}
+                            inputRef={ref}
+                            label={label}
+                            size="small"
+                            fullWidth
+                            multiline={multiline}
+                            focused={hoveredRegion === name || undefined}
+                            error={status?.severity === 'error'}
+                            helperText={status?.message}
+                            sx={highlight(status?.severity)}
+                          />
+                        )}
+                      />
+                    </Box>
+                  );
+                })}
+              </Box>
+
+              <Box>
+                <Typography variant="subtitle1" gutterBottom>
+                  Line Items
+                </Typography>
+                <Table size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>Description</TableCell>
+                      <TableCell align="right" sx={{ width: 90 }}>Qty</TableCell>
+                      <TableCell align="right" sx={{ width: 120 }}>Unit Price</TableCell>
+                      <TableCell align="right" sx={{ width: 120 }}>Amount</TableCell>
+                      <TableCell sx={{ width: 40 }} />
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {items.map((item, index) => {
+                      const original = invoice.items?.[index];
+                      const lowConfidence = original?.provenance !== undefined && original.provenance.confidence < LOW_CONFIDENCE;
+                      const rowDirty = dirtyFields.items?.[index] !== undefined;
+                      const itemStatus = (key: keyof ReviewItem) =>
+                        getFieldStatus(`items[${index}].${key}`, dirtyFields.items?.[index]?.[key])
+                          || (lowConfidence && !rowDirty ? { severity: 'warning' as const, message: '' } : undefined);
+                      return (
+                        <TableRow key={item.id} selected={hoveredRegion === `items[${index}]`} {...trackField(`items[${index}]`)}>
+                          <TableCell>
+                            <Controller
+                              name={`items.${index}.description`}
+                              control={control}
+                              render={({ field: { ref, ...field } }) => (
+                                <TextField {...field} inputRef={ref} size="small" fullWidth sx={highlight(itemStatus('description')?.severity)} />
+                              )}
+                            />
+                          </TableCell>
+                          {(['quantity', 'unitPrice', 'amount'] as const).map(key => {
+                            const status = itemStatus(key);
+                            return (
+                              <TableCell key={key} align="right">
+                                <Controller
+                                  name={`items.${index}.${key}`}
+                                  control={control}
+                                  render={({ field }) => (
+                                    <TextField
+                                      {...field}
+                                      type="number"
+                                      size="small"
+                                      error={status?.severity === 'error'}
+                                      title={status?.message}
+                                      sx={highlight(status?.severity)}
+                                      onChange={event => {
+                                        field.onChange(toFormNumber(event.target.value));
+                                        if (key === 'amount') {
+                                          recalculateSubtotal();
+                                        } else {
+                                          recalculateLine(index);
+                                        }
+                                      }}
+                                    />
+                                  )}
+                                />
+                              </TableCell>
+                            );
+                          })}
+                          <TableCell>
+                            <IconButton
+                              size="small"
+                              aria-label="Remove item"
+                              onClick={() => {
+                                remove(index);
+                                recalculateSubtotal();
+                              }}
+                            >
+                              <Delete fontSize="small" />
+                            </IconButton>
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+                <Button
+                  size="small"
+                  startIcon={<Add />}
+                  sx={{ mt: 1 }}
+                  onClick={() => append({ description: '', quantity: 1, unitPrice: 0, amount: 0 })}
+                >
+                  Add Item
+                </Button>
+              </Box>
+
+              <Stack direction={{ xs: 'column', sm: 'row' }} spacing={2} justifyContent="flex-end">
+                {AMOUNT_FIELDS.map(({ name, label }) => {
+                  const status = getFieldStatus(name, dirtyFields[name]);
+                  return (
+                    <Box key={name} {...trackField(name)}>
+                      <Controller
+                        name={name}
+                        control={control}
+                        render={({ field: { ref, ...field } }) => (
+                          <TextField
+                            {...field}
+                            inputRef={ref}
+                            label={label}
+                            type="number"
+                            size="small"
+                            focused={hoveredRegion === name || undefined}
+                            error={status?.severity === 'error'}
+                            helperText={status?.message}
+                            sx={highlight(status?.severity)}
+                            onChange={event => {
+                              field.onChange(toFormNumber(event.target.value));
+                              if (name !== 'totalAmount') {
+                                recalculateTotal();
+                              }
+                            }}
+                          />
+                        )}
+                      />
+                    </Box>
+                  );
+                })}
+              </Stack>
+
+              {saveError && (
+                <Alert severity="error">
+                  <AlertTitle>Error</AlertTitle>
+                  {saveError}
+                </Alert>
+              )}
+
+              <Button
+                type="submit"
+                variant="contained"
+                disabled={!documentId || !isDirty || isSaving}
+                startIcon={isSaving ? <CircularProgress size={20} color="inherit" /> : <Save />}
+              >
+                {isSaving ? 'Saving...' : 'Save Corrections'}
+              </Button>
+            </Stack>
+          </Box>
+        </Stack>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,6 +1,8 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   reactStrictMode: true,
+  // pdf-parse loads pdf.js and a native canvas at runtime, so keep them out of the server bundle
+  serverExternalPackages: ['pdf-parse', '@napi-rs/canvas'],
 }
 
 module.exports = nextConfig
@@ -0,0 +1,52 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { createDocumentStore } from '../../src/documentStore';
+import { CashPlan, summarizeCashPlan } from '../../src/paymentTerms';
+
+// Define response types
+type SuccessResponse = {
+  success: true;
+  data: CashPlan;
+};
+
+type ErrorResponse = {
+  success: false;
+  error: string;
+};
+
+type ApiResponse = SuccessResponse | ErrorResponse;
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse>
+) {
+  // Only allow GET requests
+  if (req.method !== 'GET') {
+    return res.status(405).json({
+      success: false,
+      error: 'Method not allowed. Use GET instead.'
+    });
+  }
+
+  try {
+    const { asOf } = req.query;
+
+    // The plan starts today unless another date is given
+    if (asOf !== undefined && (typeof asOf !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(asOf) || Number.isNaN(Date.parse(asOf)))) {
+      return res.status(400).json({
+        success: false,
+        error: 'asOf must be a date in YYYY-MM-DD format'
+      });
+    }
+
+    return res.status(200).json({
+      success: true,
+      data: summarizeCashPlan(createDocumentStore().all(), asOf)
+    });
+  } catch (error) {
+    console.error('Error building cash plan:', error);
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    });
+  }
+}
@@ -0,0 +1,102 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { createDocumentStore, DocumentSummary, StoredDocument, toDocumentSummary } from '../../../src/documentStore';
+import { applyInvoiceCorrections, toInvoiceCorrection } from '../../../src/corrections';
+
+// Define response types
+type SuccessResponse = {
+  success: true;
+  data: StoredDocument;
+  versions?: DocumentSummary[]; // Every version of the document, oldest first
+};
+
+type DeletedResponse = {
+  success: true;
+};
+
+type ErrorResponse = {
+  success: false;
+  error: string;
+};
+
+type ApiResponse = SuccessResponse | DeletedResponse | ErrorResponse;
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse>
+) {
+  // GET returns the document, PUT saves corrections as a new version, DELETE removes it with all its versions
+  if (req.method !== 'GET' && req.method !== 'PUT' && req.method !== 'DELETE') {
+    return res.status(405).json({
+      success: false,
+      error: 'Method not allowed. Use GET, PUT or DELETE instead.'
+    });
+  }
+
+  try {
+    const { id } = req.query;
+    const store = createDocumentStore();
+    const document = typeof id === 'string' ? store.get(id) : undefined;
+
+    if (!document) {
+      return res.status(404).json({
+        success: false,
+        error: `Document ${id} not found`
+      });
+    }
+
+    if (req.method === 'GET') {
+      return res.status(200).json({
+        success: true,
+        data: document,
+        versions: store.versions(document.id).map(toDocumentSummary)
+      });
+    }
+
+    if (req.method === 'PUT') {
+      if ('documentType' in document.data) {
+        return res.status(422).json({
+          success: false,
+          error: `Only invoices can be corrected, document ${document.id} is a ${document.documentType}`
+        });
+      }
+
+      // Corrections build on the latest version, so none are lost
+      const versions = store.versions(document.id);
+      const latest = versions[versions.length - 1];
+      if (latest.id !== document.id) {
+        return res.status(409).json({
+          success: false,
+          error: `Document ${document.id} was already corrected in version ${latest.version} (${latest.id})`
+        });
+      }
+
+      const correction = toInvoiceCorrection(req.body?.data);
+      if (typeof correction === 'string') {
+        return res.status(400).json({ success: false, error: correction });
+      }
+      const { data, corrections } = applyInvoiceCorrections(document.data, correction);
+      if (corrections.length === 0) {
+        return res.status(400).json({
+          success: false,
+          error: 'The corrections do not change the document'
+        });
+      }
+
+      const saved = store.saveVersion(document, data, corrections);
+      return res.status(201).json({
+        success: true,
+        data: saved,
+        versions: [...versions, saved].map(toDocumentSummary)
+      });
+    }
+
+    store.delete(document.id);
+    return res.status(200).json({ success: true });
+  } catch (error) {
+    console.error('Error handling document request:', error);
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    });
+  }
+}
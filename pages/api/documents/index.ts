@@ -0,0 +1,81 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { createDocumentStore, DocumentFilter, DocumentList } from '../../../src/documentStore';
+
+// Define response types
+type SuccessResponse = {
+  success: true;
+  data: DocumentList;
+};
+
+type ErrorResponse = {
+  success: false;
+  error: string;
+};
+
+type ApiResponse = SuccessResponse | ErrorResponse;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const MAX_LIMIT = 500;
+
+/**
+ * Read the filters from the query string
+ * @param query The request query
+ * @returns The filters, or an error message for the first invalid one
+ */
+function toDocumentFilter(query: NextApiRequest['query']): DocumentFilter | string {
+  const value = (name: string) => (typeof query[name] === 'string' && query[name] !== '' ? query[name] as string : undefined);
+  const filter: DocumentFilter = { vendor: value('vendor'), type: value('type') };
+
+  for (const name of ['dateFrom', 'dateTo'] as const) {
+    const date = value(name);
+    if (date !== undefined && !DATE_PATTERN.test(date)) {
+      return `${name} must be a YYYY-MM-DD date`;
+    }
+    filter[name] = date;
+  }
+
+  for (const name of ['minAmount', 'maxAmount', 'limit', 'offset'] as const) {
+    const number = value(name);
+    if (number !== undefined && !Number.isFinite(Number(number))) {
+      return `${name} must be a number`;
+    }
+    filter[name] = number !== undefined ? Number(number) : undefined;
+  }
+
+  if (filter.limit !== undefined && (filter.limit < 1 || filter.limit > MAX_LIMIT)) {
+    return `limit must be between 1 and ${MAX_LIMIT}`;
+  }
+  return filter;
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse>
+) {
+  // Only allow GET requests
+  if (req.method !== 'GET') {
+    return res.status(405).json({
+      success: false,
+      error: 'Method not allowed. Use GET instead.'
+    });
+  }
+
+  try {
+    const filter = toDocumentFilter(req.query);
+    if (typeof filter === 'string') {
+      return res.status(400).json({ success: false, error: filter });
+    }
+
+    // List the matching documents, newest first
+    return res.status(200).json({
+      success: true,
+      data: createDocumentStore().list(filter)
+    });
+  } catch (error) {
+    console.error('Error listing documents:', error);
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    });
+  }
+}
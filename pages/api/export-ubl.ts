@@ -0,0 +1,94 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { InvoiceData } from '../../src/invoiceParser';
+import { exportUbl, MissingBusinessTerm, UblExportOptions } from '../../src/ublExport';
+import { isRecord } from '../../src/valueUtils';
+
+// Define response types
+type ErrorResponse = {
+  success: false;
+  error: string;
+  missingTerms?: MissingBusinessTerm[];
+};
+
+// The XML document on success
+type ApiResponse = string | ErrorResponse;
+
+// Export options that may be passed in the request body
+const OPTION_KEYS: Array<keyof UblExportOptions> = [
+  'sellerEndpoint',
+  'buyerEndpoint',
+  'buyerReference',
+  'orderReference',
+  'sellerVatId',
+  'buyerVatId',
+  'sellerCountryCode',
+  'buyerCountryCode'
+];
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse>
+) {
+  // Only allow POST requests
+  if (req.method !== 'POST') {
+    return res.status(405).json({
+      success: false,
+      error: 'Method not allowed. Use POST instead.'
+    });
+  }
+
+  try {
+    // Extract the parsed invoice and the Peppol details from request body
+    const { invoice, options = {} } = req.body;
+
+    // Validate required fields
+    if (!isRecord(invoice) || !Array.isArray(invoice.items)) {
+      return res.status(400).json({
+        success: false,
+        error: 'invoice is required and must be a parsed invoice object'
+      });
+    }
+    if (!isRecord(options)) {
+      return res.status(400).json({
+        success: false,
+        error: 'If provided, options must be an object'
+      });
+    }
+
+    const exportOptions: UblExportOptions = {};
+    for (const key of OPTION_KEYS) {
+      const value = options[key];
+      if (value !== undefined && value !== '' && typeof value !== 'string') {
+        return res.status(400).json({
+          success: false,
+          error: `If provided, options.${key} must be a string`
+        });
+      }
+      if (value) {
+        exportOptions[key] = value;
+      }
+    }
+
+    const result = exportUbl(invoice as InvoiceData, exportOptions);
+
+    // Report what is missing rather than sending an invalid document
+    if (!result.xml) {
+      return res.status(422).json({
+        success: false,
+        error: 'The invoice is missing business terms required by Peppol BIS Billing 3.0',
+        missingTerms: result.missingTerms
+      });
+    }
+
+    const fileName = `${String(invoice.invoiceNumber).replace(/[^\w.-]+/g, '_')}.xml`;
+    res.setHeader('Content-Type', 'application/xml; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+    return res.status(200).send(result.xml);
+  } catch (error) {
+    console.error('Error exporting UBL:', error);
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    });
+  }
+}
@@ -0,0 +1,66 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getJobQueue, isJobFinished, Job, JobStatus } from '../../../src/jobQueue';
+
+// Define response types
+type SuccessResponse = {
+  success: true;
+  data: Job;
+};
+
+type ErrorResponse = {
+  success: false;
+  error: string;
+};
+
+type ApiResponse = SuccessResponse | ErrorResponse;
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse>
+) {
+  // GET reports the job, DELETE cancels it
+  if (req.method !== 'GET' && req.method !== 'DELETE') {
+    return res.status(405).json({
+      success: false,
+      error: 'Method not allowed. Use GET or DELETE instead.'
+    });
+  }
+
+  try {
+    const { id } = req.query;
+    const queue = getJobQueue();
+    const job = typeof id === 'string' ? queue.get(id) : undefined;
+
+    if (!job) {
+      return res.status(404).json({
+        success: false,
+        error: `Job ${id} not found`
+      });
+    }
+
+    if (req.method === 'GET') {
+      return res.status(200).json({
+        success: true,
+        data: job
+      });
+    }
+
+    if (isJobFinished(job)) {
+      return res.status(409).json({
+        success: false,
+        error: `Job ${job.id} has already ${job.status === JobStatus.CANCELLED ? 'been cancelled' : 'finished'}`
+      });
+    }
+
+    return res.status(200).json({
+      success: true,
+      data: queue.cancel(job.id) as Job
+    });
+  } catch (error) {
+    console.error('Error handling job request:', error);
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    });
+  }
+}
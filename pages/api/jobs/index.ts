@@ -0,0 +1,134 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { ParserErrorCode } from '../../../src/errors';
+import { getJobQueue, Job, JobDocument, JobKind } from '../../../src/jobQueue';
+import { getUploadLimits, inspectUpload, UPLOAD_PROBLEM_STATUS, UploadLimits } from '../../../src/uploads';
+
+// Define response types
+type SuccessResponse = {
+  success: true;
+  data: Job;
+};
+
+type ErrorResponse = {
+  success: false;
+  error: string;
+  code?: ParserErrorCode; // Machine-readable reason, e.g. invalid_input
+};
+
+type ApiResponse = SuccessResponse | ErrorResponse;
+
+// A document the job can't be created with, and the status to answer with
+type DocumentProblem = {
+  status: number;
+  error: string;
+};
+
+// Upper bound on the documents of one batch job
+const MAX_BATCH_DOCUMENTS = 50;
+
+/**
+ * Check one document of a job request
+ * Images are checked like uploads to /api/parse-invoice-image; a mimeType sent along is ignored in favour of the detected type.
+ * @param document Request body or batch entry
+ * @param limits Size and pixel limits of images
+ * @param label Prefix for error messages
+ * @returns The document, or the problem with it
+ */
+function toJobDocument(document: Record<string, unknown> | undefined, limits: UploadLimits, label = ''): JobDocument | DocumentProblem {
+  const { invoiceText, skipClassification, base64Image } = document || {};
+
+  if (invoiceText !== undefined) {
+    if (!invoiceText || typeof invoiceText !== 'string') {
+      return { status: 400, error: `${label}Invoice text must be a non-empty string` };
+    }
+    return { invoiceText, skipClassification: skipClassification === true };
+  }
+
+  if (!base64Image || typeof base64Image !== 'string') {
+    return { status: 400, error: `${label}Either invoiceText or base64Image is required and must be a string` };
+  }
+
+  // Check the real file type and size before the job is queued
+  const inspection = inspectUpload(Buffer.from(base64Image, 'base64'), limits);
+  if (inspection.problem) {
+    return { status: UPLOAD_PROBLEM_STATUS[inspection.problem], error: `${label}${inspection.message || 'The file was rejected'}` };
+  }
+  return { base64Image, mimeType: inspection.format };
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse>
+) {
+  // Only allow POST requests
+  if (req.method !== 'POST') {
+    return res.status(405).json({
+      success: false,
+      error: 'Method not allowed. Use POST instead.'
+    });
+  }
+
+  try {
+    const { documents } = req.body || {};
+    const limits = getUploadLimits();
+    let kind: JobKind;
+    const jobDocuments: JobDocument[] = [];
+
+    if (documents !== undefined) {
+      // Batch of text and image documents
+      if (!Array.isArray(documents) || documents.length === 0) {
+        return res.status(400).json({
+          success: false,
+          error: 'documents must be a non-empty array of { invoiceText } or { base64Image, mimeType } objects'
+        });
+      }
+      if (documents.length > MAX_BATCH_DOCUMENTS) {
+        return res.status(400).json({
+          success: false,
+          error: `At most ${MAX_BATCH_DOCUMENTS} documents can be parsed in one job`
+        });
+      }
+
+      kind = JobKind.BATCH;
+      for (const [index, document] of documents.entries()) {
+        const jobDocument = toJobDocument(document, limits, `Document ${index + 1}: `);
+        if ('error' in jobDocument) {
+          return res.status(jobDocument.status).json({ success: false, code: ParserErrorCode.INVALID_INPUT, error: jobDocument.error });
+        }
+        jobDocuments.push(jobDocument);
+      }
+    } else {
+      // Single invoice text or image
+      const jobDocument = toJobDocument(req.body, limits);
+      if ('error' in jobDocument) {
+        return res.status(jobDocument.status).json({ success: false, code: ParserErrorCode.INVALID_INPUT, error: jobDocument.error });
+      }
+
+      kind = jobDocument.invoiceText !== undefined ? JobKind.TEXT : JobKind.IMAGE;
+      jobDocuments.push(jobDocument);
+    }
+
+    // Queue the job and answer right away, clients poll GET /api/jobs/[id]
+    const job = getJobQueue().submit(kind, jobDocuments);
+    res.setHeader('Location', `/api/jobs/${job.id}`);
+    return res.status(202).json({
+      success: true,
+      data: job
+    });
+  } catch (error) {
+    console.error('Error creating job:', error);
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    });
+  }
+}
+
+// Configure Next.js API route to handle larger payloads for images and batches
+export const config = {
+  api: {
+    bodyParser: {
+      sizeLimit: '40mb',
+    },
+  },
+};
@@ -0,0 +1,71 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { createDocumentStore } from '../../src/documentStore';
+import { buildVendorLedgers, getVendorLedger, summarizeVendorLedger, VendorLedger, VendorLedgerSummary } from '../../src/vendorLedger';
+
+// Define response types
+type SummaryResponse = {
+  success: true;
+  data: VendorLedgerSummary[];
+};
+
+type LedgerResponse = {
+  success: true;
+  data: VendorLedger;
+};
+
+type ErrorResponse = {
+  success: false;
+  error: string;
+};
+
+type ApiResponse = SummaryResponse | LedgerResponse | ErrorResponse;
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse>
+) {
+  // Only allow GET requests
+  if (req.method !== 'GET') {
+    return res.status(405).json({
+      success: false,
+      error: 'Method not allowed. Use GET instead.'
+    });
+  }
+
+  try {
+    const { vendor } = req.query;
+    const documents = createDocumentStore().all();
+
+    // Without a vendor, list every vendor's balance
+    if (vendor === undefined || vendor === '') {
+      return res.status(200).json({
+        success: true,
+        data: buildVendorLedgers(documents).map(summarizeVendorLedger)
+      });
+    }
+    if (typeof vendor !== 'string') {
+      return res.status(400).json({
+        success: false,
+        error: 'vendor must be a single value'
+      });
+    }
+
+    const ledger = getVendorLedger(documents, vendor);
+    if (!ledger) {
+      return res.status(404).json({
+        success: false,
+        error: `No invoices, credit notes or receipts found for vendor ${vendor}`
+      });
+    }
+    return res.status(200).json({
+      success: true,
+      data: ledger
+    });
+  } catch (error) {
+    console.error('Error building vendor ledger:', error);
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    });
+  }
+}
@@ -0,0 +1,117 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { createDocumentStore } from '../../src/documentStore';
+import { MatchReport, MatchTolerances, matchStoredInvoice } from '../../src/threeWayMatching';
+import { InvoiceData, InvoiceType } from '../../src/types';
+import { isRecord } from '../../src/valueUtils';
+
+// Define response types
+type SuccessResponse = {
+  success: true;
+  data: MatchReport;
+};
+
+type ErrorResponse = {
+  success: false;
+  error: string;
+};
+
+type ApiResponse = SuccessResponse | ErrorResponse;
+
+// Tolerances that may be passed in the request body
+const TOLERANCE_KEYS: Array<keyof MatchTolerances> = ['unitPrice', 'quantity', 'amount'];
+
+// Document types that bill against a purchase order
+const MATCHABLE_TYPES: string[] = [InvoiceType.STANDARD, InvoiceType.PROFORMA, InvoiceType.UNKNOWN];
+
+/**
+ * Read the tolerances from the request body
+ * @param tolerances The tolerances object, if any
+ * @returns The tolerances, or an error message for the first invalid one
+ */
+function toMatchTolerances(tolerances: unknown): MatchTolerances | string {
+  if (tolerances === undefined) {
+    return {};
+  }
+  if (!isRecord(tolerances)) {
+    return 'If provided, tolerances must be an object';
+  }
+
+  const result: MatchTolerances = {};
+  for (const key of TOLERANCE_KEYS) {
+    const value = tolerances[key];
+    if (value === undefined) {
+      continue;
+    }
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+      return `If provided, tolerances.${key} must be a non-negative number`;
+    }
+    result[key] = value;
+  }
+  return result;
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse>
+) {
+  // Only allow POST requests
+  if (req.method !== 'POST') {
+    return res.status(405).json({
+      success: false,
+      error: 'Method not allowed. Use POST instead.'
+    });
+  }
+
+  try {
+    // Match a stored invoice, or a parsed invoice passed in the request body
+    const { documentId, invoice, tolerances } = req.body;
+
+    if ((documentId === undefined) === (invoice === undefined)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Either documentId or invoice is required'
+      });
+    }
+    if (invoice !== undefined && (!isRecord(invoice) || !Array.isArray(invoice.items))) {
+      return res.status(400).json({
+        success: false,
+        error: 'If provided, invoice must be a parsed invoice object'
+      });
+    }
+
+    const matchTolerances = toMatchTolerances(tolerances);
+    if (typeof matchTolerances === 'string') {
+      return res.status(400).json({ success: false, error: matchTolerances });
+    }
+
+    const store = createDocumentStore();
+    let invoiceData = invoice as InvoiceData | undefined;
+    if (documentId !== undefined) {
+      const document = typeof documentId === 'string' ? store.get(documentId) : undefined;
+      if (!document) {
+        return res.status(404).json({
+          success: false,
+          error: `Document ${documentId} not found`
+        });
+      }
+      if (!MATCHABLE_TYPES.includes(document.documentType) || 'documentType' in document.data) {
+        return res.status(422).json({
+          success: false,
+          error: `Only invoices can be matched, document ${documentId} is a ${document.documentType}`
+        });
+      }
+      invoiceData = document.data;
+    }
+
+    return res.status(200).json({
+      success: true,
+      data: matchStoredInvoice(invoiceData as InvoiceData, store, matchTolerances)
+    });
+  } catch (error) {
+    console.error('Error matching invoice:', error);
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    });
+  }
+}
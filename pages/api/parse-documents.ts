@@ -0,0 +1,160 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { DocumentParsingResult, DocumentUpload, parseDocumentUploads } from '../../src/imageParser';
+import { createProvider } from '../../src/llmProvider';
+import { LLMProvider } from '../../src/llmTypes';
+import { getUploadLimits, inspectUpload, readMultipartFiles, readRequestBody } from '../../src/uploads';
+import { saveParsedDocument } from '../../src/documentStore';
+import { detectStructuredFormat } from '../../src/structuredImport';
+import { InvoiceType } from '../../src/types';
+
+// Define the events streamed back, one per finished file and a summary at the end
+type ResultEvent = {
+  type: 'result';
+  index: number;
+  total: number;
+  result: DocumentParsingResult;
+  documentId?: string; // ID in the document store for parsed files
+};
+
+type SummaryEvent = {
+  type: 'summary';
+  total: number;
+  succeeded: number;
+  failed: number;
+};
+
+type ErrorResponse = {
+  success: false;
+  error: string;
+};
+
+// Upper bounds on one upload, every file costs at least two model calls
+const MAX_FILES = 100;
+const MAX_UPLOAD_BYTES = 200 * 1024 * 1024;
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ErrorResponse>
+) {
+  // Only allow POST requests
+  if (req.method !== 'POST') {
+    return res.status(405).json({
+      success: false,
+      error: 'Method not allowed. Use POST instead.'
+    });
+  }
+
+  const contentType = req.headers['content-type'] || '';
+  if (!contentType.startsWith('multipart/form-data')) {
+    return res.status(415).json({
+      success: false,
+      error: 'Upload the documents as multipart/form-data'
+    });
+  }
+
+  let uploads: DocumentUpload[];
+  try {
+    const body = await readRequestBody(req, MAX_UPLOAD_BYTES);
+    if (!body) {
+      return res.status(413).json({
+        success: false,
+        error: `The upload exceeds ${MAX_UPLOAD_BYTES / 1024 / 1024} MB`
+      });
+    }
+    uploads = await readMultipartFiles(body, contentType);
+  } catch (error) {
+    console.error('Error reading document upload:', error);
+    return res.status(400).json({
+      success: false,
+      error: 'The multipart body could not be read'
+    });
+  }
+
+  // Validate the files
+  if (uploads.length === 0) {
+    return res.status(400).json({
+      success: false,
+      error: 'At least one file is required'
+    });
+  }
+
+  if (uploads.length > MAX_FILES) {
+    return res.status(400).json({
+      success: false,
+      error: `At most ${MAX_FILES} files can be parsed in one upload`
+    });
+  }
+
+  // Create the LLM provider configured by environment variables
+  let provider: LLMProvider;
+  try {
+    provider = createProvider();
+  } catch (error) {
+    console.error('Error creating LLM provider:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to initialize LLM provider. Check if OPENAI_API_KEY (or OPENAI_BASE_URL) is set.'
+    });
+  }
+
+  // Stream Server-Sent Events when asked for, NDJSON otherwise
+  const useEventStream = req.query.format === 'sse' || (req.headers.accept || '').includes('text/event-stream');
+  const writeEvent = (event: ResultEvent | SummaryEvent) => {
+    res.write(useEventStream
+      ? `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`
+      : `${JSON.stringify(event)}\n`);
+  };
+
+  res.writeHead(200, {
+    'Content-Type': useEventStream ? 'text/event-stream' : 'application/x-ndjson',
+    // no-transform keeps compression and proxies from holding back the events
+    'Cache-Control': 'no-cache, no-transform',
+    'X-Accel-Buffering': 'no'
+  });
+
+  try {
+    // Check the real type and size of each file before it is sent to the model; e-invoices are imported
+    // without the model, so only they skip the check. A rejected file is reported with its error.
+    const limits = getUploadLimits();
+    const accepted: { index: number; upload: DocumentUpload }[] = [];
+    let rejected = 0;
+    uploads.forEach((upload, index) => {
+      const inspection = detectStructuredFormat(upload.data) ? undefined : inspectUpload(upload.data, limits);
+      if (inspection?.problem) {
+        rejected++;
+        const result: DocumentParsingResult = {
+          filePath: upload.fileName,
+          classification: { documentType: InvoiceType.UNKNOWN, confidence: 0 },
+          error: inspection.message || 'The file was rejected'
+        };
+        writeEvent({ type: 'result', index, total: uploads.length, result });
+        return;
+      }
+      accepted.push({ index, upload: inspection ? { ...upload, mimeType: inspection.format } : upload });
+    });
+
+    // Files that fail are reported with their error, the rest of the batch carries on
+    const results = await parseDocumentUploads(accepted.map(({ upload }) => upload), provider, (result, position) => {
+      const { index, upload } = accepted[position];
+      const document = result.parsedData
+        ? saveParsedDocument({ input: upload.data, data: result.parsedData, source: upload.fileName })
+        : undefined;
+      writeEvent({ type: 'result', index, total: uploads.length, result, documentId: document?.id });
+    });
+
+    const failed = rejected + results.filter(result => result.error).length;
+    writeEvent({ type: 'summary', total: uploads.length, succeeded: uploads.length - failed, failed });
+  } catch (error) {
+    console.error('Error parsing documents:', error);
+  } finally {
+    res.end();
+  }
+}
+
+// The multipart body is read by the route itself, and the streamed results can exceed the default response limit
+export const config = {
+  api: {
+    bodyParser: false,
+    responseLimit: false,
+  },
+};
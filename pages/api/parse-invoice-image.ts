@@ -1,79 +1,145 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
+import { describeError, ParserErrorCode } from '../../src/errors';
 import { parseInvoiceImageBase64 } from '../../src/imageParser';
 import { InvoiceData } from '../../src/invoiceParser';
-import OpenAI from 'openai';
+import { saveParsedDocument } from '../../src/documentStore';
+import { getUploadLimits, inspectUpload, readMultipartFiles, readRequestBody, UPLOAD_PROBLEM_STATUS } from '../../src/uploads';
 
 // Define response types
 type SuccessResponse = {
   success: true;
   data: InvoiceData;
+  documentId?: string; // ID in the document store, missing if the result couldn't be saved
 };
 
 type ErrorResponse = {
   success: false;
   error: string;
+  code?: ParserErrorCode; // Machine-readable reason, e.g. rate_limited
 };
 
 type ApiResponse = SuccessResponse | ErrorResponse;
 
+// Room for the multipart framing or JSON around the file
+const BODY_OVERHEAD_BYTES = 64 * 1024;
+
 export default async function handler(
   req: NextApiRequest,
   res: NextApiResponse<ApiResponse>
 ) {
   // Only allow POST requests
   if (req.method !== 'POST') {
-    return res.status(405).json({ 
-      success: false, 
-      error: 'Method not allowed. Use POST instead.' 
+    return res.status(405).json({
+      success: false,
+      error: 'Method not allowed. Use POST instead.'
     });
   }
 
   try {
-    // Extract base64 image data from request body
-    const { base64Image, mimeType } = req.body;
+    const limits = getUploadLimits();
+    const contentType = req.headers['content-type'] || '';
+    const isMultipart = contentType.startsWith('multipart/form-data');
 
-    // Validate required fields
-    if (!base64Image || typeof base64Image !== 'string') {
-      return res.status(400).json({ 
-        success: false, 
-        error: 'Base64 image data is required and must be a string' 
+    if (!isMultipart && !contentType.startsWith('application/json')) {
+      return res.status(415).json({
+        success: false,
+        code: ParserErrorCode.INVALID_INPUT,
+        error: 'Send the image as multipart/form-data or as base64 in a JSON body'
       });
     }
 
-    // Validate mime type if provided
-    if (mimeType && typeof mimeType !== 'string') {
-      return res.status(400).json({
+    // Base64 takes a third more room than the file itself
+    const body = await readRequestBody(req, Math.ceil(limits.maxBytes * 4 / 3) + BODY_OVERHEAD_BYTES);
+    if (!body) {
+      return res.status(413).json({
         success: false,
-        error: 'If provided, mimeType must be a string'
+        code: ParserErrorCode.INVALID_INPUT,
+        error: `The upload exceeds the ${(limits.maxBytes / 1024 / 1024).toFixed(1)} MB limit`
+      });
+    }
+
+    let fileData: Buffer;
+    let fileName: string | undefined;
+    if (isMultipart) {
+      // Take the first file of the form, whatever its field name
+      const [upload] = await readMultipartFiles(body, contentType).catch(() => []);
+      if (!upload) {
+        return res.status(400).json({
+          success: false,
+          code: ParserErrorCode.INVALID_INPUT,
+          error: 'The multipart body must contain an image or PDF file'
+        });
+      }
+      fileData = upload.data;
+      fileName = upload.fileName;
+    } else {
+      // Extract base64 image data from request body
+      let base64Image: unknown;
+      try {
+        ({ base64Image } = JSON.parse(body.toString('utf8')));
+      } catch {
+        return res.status(400).json({
+          success: false,
+          code: ParserErrorCode.INVALID_INPUT,
+          error: 'The request body is not valid JSON'
+        });
+      }
+
+      // Validate required fields; a mimeType sent along is ignored in favour of the detected type
+      if (!base64Image || typeof base64Image !== 'string') {
+        return res.status(400).json({
+          success: false,
+          code: ParserErrorCode.INVALID_INPUT,
+          error: 'Base64 image data is required and must be a string'
+        });
+      }
+      fileData = Buffer.from(base64Image, 'base64');
+    }
+
+    // Check the real file type and size before anything is sent to the model
+    const inspection = inspectUpload(fileData, limits);
+    if (inspection.problem) {
+      return res.status(UPLOAD_PROBLEM_STATUS[inspection.problem]).json({
+        success: false,
+        code: ParserErrorCode.INVALID_INPUT,
+        error: inspection.message || 'The file was rejected'
       });
     }
 
     // Parse the invoice from the base64 image
     const parsedInvoice = await parseInvoiceImageBase64(
-      base64Image,
+      fileData.toString('base64'),
       undefined,
-      mimeType
+      inspection.format
     );
 
+    // Keep the result for the document history
+    const document = saveParsedDocument({ input: fileData, data: parsedInvoice, source: fileName || 'image' });
+
     // Return the parsed invoice data
     return res.status(200).json({
       success: true,
-      data: parsedInvoice
+      data: parsedInvoice,
+      documentId: document?.id
     });
   } catch (error) {
     console.error('Error parsing invoice image:', error);
-    return res.status(500).json({ 
-      success: false, 
-      error: error instanceof Error ? error.message : 'Unknown error occurred' 
+    // Answer with the status and code of the typed error, telling rate-limited clients when to retry
+    const { status, code, message, retryAfterSeconds } = describeError(error);
+    if (retryAfterSeconds !== undefined) {
+      res.setHeader('Retry-After', String(retryAfterSeconds));
+    }
+    return res.status(status).json({
+      success: false,
+      error: message,
+      code
     });
   }
 }
 
-// Configure Next.js API route to handle larger payloads for image data
+// The body is read by the route itself so it can take multipart uploads and apply the configured size limit
 export const config = {
   api: {
-    bodyParser: {
-      sizeLimit: '10mb', // Increase the body size limit for image uploads
-    },
+    bodyParser: false,
   },
 };
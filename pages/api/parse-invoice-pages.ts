@@ -0,0 +1,120 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { describeError, ParserErrorCode } from '../../src/errors';
+import { InvoiceImage, parseInvoicePages } from '../../src/imageParser';
+import { InvoiceData } from '../../src/invoiceParser';
+import { saveParsedDocument } from '../../src/documentStore';
+import { FileFormat, getUploadLimits, inspectUpload } from '../../src/uploads';
+
+// Define response types
+type SuccessResponse = {
+  success: true;
+  data: InvoiceData;
+  documentId?: string; // ID in the document store, missing if the result couldn't be saved
+};
+
+type ErrorResponse = {
+  success: false;
+  error: string;
+  code?: ParserErrorCode; // Machine-readable reason, e.g. rate_limited
+};
+
+type ApiResponse = SuccessResponse | ErrorResponse;
+
+// Upper bound on the pages of one document, each page costs a model call
+const MAX_PAGES = 20;
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse>
+) {
+  // Only allow POST requests
+  if (req.method !== 'POST') {
+    return res.status(405).json({ 
+      success: false, 
+      error: 'Method not allowed. Use POST instead.' 
+    });
+  }
+
+  try {
+    // Extract the ordered page images from request body
+    const { pages } = req.body;
+
+    // Validate required fields
+    if (!Array.isArray(pages) || pages.length === 0) {
+      return res.status(400).json({
+        success: false,
+        code: ParserErrorCode.INVALID_INPUT,
+        error: 'pages is required and must be a non-empty array of { base64Image } objects'
+      });
+    }
+
+    if (pages.length > MAX_PAGES) {
+      return res.status(400).json({
+        success: false,
+        code: ParserErrorCode.INVALID_INPUT,
+        error: `At most ${MAX_PAGES} pages can be parsed as one document`
+      });
+    }
+
+    const limits = getUploadLimits();
+    const images: InvoiceImage[] = [];
+    for (const [index, page] of pages.entries()) {
+      if (!page || typeof page.base64Image !== 'string' || !page.base64Image) {
+        return res.status(400).json({
+          success: false,
+          code: ParserErrorCode.INVALID_INPUT,
+          error: `Page ${index + 1}: base64Image is required and must be a string`
+        });
+      }
+
+      // Check the real file type and size of every page; a mimeType sent along is ignored in favour of the detected type
+      const inspection = inspectUpload(Buffer.from(page.base64Image, 'base64'), limits);
+      if (inspection.problem || !inspection.format || inspection.format === FileFormat.PDF) {
+        return res.status(400).json({
+          success: false,
+          code: ParserErrorCode.INVALID_INPUT,
+          error: `Page ${index + 1}: ${inspection.message || 'pages must be images, send PDFs to /api/parse-invoice-image'}`
+        });
+      }
+      images.push({ data: page.base64Image, mimeType: inspection.format });
+    }
+
+    // Parse the pages as one invoice
+    const parsedInvoice = await parseInvoicePages(images);
+
+    // Keep the result for the document history, keyed by all pages in order
+    const document = saveParsedDocument({
+      input: images.map(image => image.data).join('\n'),
+      data: parsedInvoice,
+      source: 'pages'
+    });
+
+    // Return the parsed invoice data
+    return res.status(200).json({
+      success: true,
+      data: parsedInvoice,
+      documentId: document?.id
+    });
+  } catch (error) {
+    console.error('Error parsing invoice pages:', error);
+    // Answer with the status and code of the typed error, telling rate-limited clients when to retry
+    const { status, code, message, retryAfterSeconds } = describeError(error);
+    if (retryAfterSeconds !== undefined) {
+      res.setHeader('Retry-After', String(retryAfterSeconds));
+    }
+    return res.status(status).json({
+      success: false,
+      error: message,
+      code
+    });
+  }
+}
+
+// Configure Next.js API route to handle larger payloads for several page images
+export const config = {
+  api: {
+    bodyParser: {
+      sizeLimit: '40mb',
+    },
+  },
+};
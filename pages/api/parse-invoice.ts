@@ -1,16 +1,22 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
-import { createOpenAIClient, parseInvoice, InvoiceData } from '../../src/invoiceParser';
-import OpenAI from 'openai';
+import { describeError, ParserErrorCode } from '../../src/errors';
+import { parseInvoice, InvoiceData, InvoiceType } from '../../src/invoiceParser';
+import { createProvider } from '../../src/llmProvider';
+import { LLMProvider } from '../../src/llmTypes';
+import { findReplacedDocument, saveParsedDocument } from '../../src/documentStore';
 
 // Define response types
 type SuccessResponse = {
   success: true;
   data: InvoiceData;
+  documentId?: string; // ID in the document store, missing if the result couldn't be saved
+  documentVersion?: number; // More than 1 when the parse replaced an earlier result
 };
 
 type ErrorResponse = {
   success: false;
   error: string;
+  code?: ParserErrorCode; // Machine-readable reason, e.g. rate_limited
 };
 
 type ApiResponse = SuccessResponse | ErrorResponse;
@@ -29,45 +35,78 @@ export default async function handler(
 
   try {
     // Extract invoice text from request body
-    const { invoiceText, skipClassification } = req.body;
+    const { invoiceText, skipClassification, documentType, documentId } = req.body;
 
     // Validate required fields
     if (!invoiceText || typeof invoiceText !== 'string') {
       return res.status(400).json({ 
         success: false, 
+        code: ParserErrorCode.INVALID_INPUT,
         error: 'Invoice text is required and must be a string' 
       });
     }
 
-    // Create OpenAI client
-    let client: OpenAI;
+    // A type chosen by the user replaces the classification
+    if (documentType !== undefined && !Object.values(InvoiceType).includes(documentType)) {
+      return res.status(400).json({
+        success: false,
+        code: ParserErrorCode.INVALID_INPUT,
+        error: `documentType must be one of: ${Object.values(InvoiceType).join(', ')}`
+      });
+    }
+
+    // Parsing the same text again, e.g. as another type, replaces the earlier result instead of adding a document
+    const previous = typeof documentId === 'string' ? findReplacedDocument(documentId, invoiceText) : undefined;
+    if (documentId !== undefined && !previous) {
+      return res.status(404).json({
+        success: false,
+        code: ParserErrorCode.INVALID_INPUT,
+        error: `Document ${documentId} not found for this invoice text`
+      });
+    }
+
+    // Create the LLM provider configured by environment variables
+    let provider: LLMProvider;
     try {
-      client = createOpenAIClient();
+      provider = createProvider();
     } catch (error) {
-      console.error('Error creating OpenAI client:', error);
+      console.error('Error creating LLM provider:', error);
       return res.status(500).json({ 
         success: false, 
-        error: 'Failed to initialize OpenAI client. Check if OPENAI_API_KEY is set.' 
+        code: ParserErrorCode.INTERNAL_ERROR,
+        error: 'Failed to initialize LLM provider. Check if OPENAI_API_KEY (or OPENAI_BASE_URL) is set.' 
       });
     }
 
     // Parse the invoice
     const parsedInvoice = await parseInvoice(
-      client, 
+      provider, 
       invoiceText, 
-      skipClassification === true
+      skipClassification === true,
+      documentType
     );
 
+    // Keep the result for the document history
+    const document = saveParsedDocument({ input: invoiceText, data: parsedInvoice, source: 'text' }, undefined, previous);
+
     // Return the parsed invoice data
     return res.status(200).json({
       success: true,
-      data: parsedInvoice
+      data: parsedInvoice,
+      documentId: document?.id,
+      documentVersion: document?.version
     });
   } catch (error) {
     console.error('Error parsing invoice:', error);
-    return res.status(500).json({ 
-      success: false, 
-      error: error instanceof Error ? error.message : 'Unknown error occurred' 
+    // Answer with the status and code of the typed error, telling rate-limited clients when to retry
+    const { status, code, message, retryAfterSeconds } = describeError(error);
+    if (retryAfterSeconds !== undefined) {
+      res.setHeader('Retry-After', String(retryAfterSeconds));
+    }
+    return res.status(status).json({
+      success: false,
+      error: message,
+      code
     });
   }
 }
@@ -0,0 +1,410 @@
+import React from 'react';
+import { useForm, Controller } from 'react-hook-form';
+import { useState, useEffect } from 'react';
+import axios from 'axios';
+import {
+  Container,
+  Typography,
+  TextField,
+  Button,
+  Box,
+  Paper,
+  Stack,
+  Card,
+  CardContent,
+  CardHeader,
+  Divider,
+  CircularProgress,
+  Alert,
+  AlertTitle,
+  Chip,
+  MenuItem,
+  IconButton,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+} from '@mui/material';
+import { AccountBalance, ArrowBack, CompareArrows, Delete, Search, Visibility } from '@mui/icons-material';
+
+// Define the history filter interface
+interface HistoryFilterInput {
+  vendor: string;
+  type: string;
+  dateFrom: string;
+  dateTo: string;
+  minAmount: string;
+  maxAmount: string;
+}
+
+// Define the stored document interfaces returned by /api/documents
+interface DocumentSummary {
+  id: string;
+  documentType: string;
+  documentNumber?: string;
+  vendor?: string;
+  date?: string;
+  totalAmount?: number;
+  currency?: string;
+  createdAt: string;
+  version: number; // Increases with every saved review
+}
+
+interface StoredDocument {
+  id: string;
+  inputHash: string;
+  documentType: string;
+  data: Record<string, unknown>;
+  source?: string;
+  createdAt: string;
+}
+
+// Define the three-way match report interfaces returned by /api/match-invoice
+interface LineMatch {
+  line: number;
+  description: string;
+  status: string;
+  findings: string[];
+  invoicedQuantity: number;
+  orderedQuantity?: number;
+  receivedQuantity?: number;
+  invoicedUnitPrice: number;
+  orderedUnitPrice?: number;
+}
+
+interface MatchReport {
+  status: string;
+  findings: string[];
+  invoiceNumber: string;
+  purchaseOrderNumber?: string;
+  receiptIds: string[];
+  lines: LineMatch[];
+}
+
+// Labels and colors of the match statuses
+const MATCH_STATUSES: Record<string, { label: string; color: 'success' | 'warning' | 'error' }> = {
+  matched: { label: 'Matched', color: 'success' },
+  price_variance: { label: 'Price Variance', color: 'warning' },
+  quantity_variance: { label: 'Quantity Variance', color: 'warning' },
+  missing_receipt: { label: 'Missing Receipt', color: 'error' },
+  over_billed: { label: 'Over-Billed', color: 'error' },
+  missing_purchase_order: { label: 'Missing PO', color: 'error' }
+};
+
+// Document types that bill against a purchase order and can be matched
+const MATCHABLE_TYPES = ['standard', 'proforma', 'unknown'];
+
+// Document types that can be filtered on
+const DOCUMENT_TYPES = [
+  { value: 'standard', label: 'Invoice' },
+  { value: 'credit_note', label: 'Credit Note' },
+  { value: 'proforma', label: 'Proforma Invoice' },
+  { value: 'purchase_order', label: 'Purchase Order' },
+  { value: 'receipt', label: 'Receipt' },
+  { value: 'BILL_OF_LADING', label: 'Bill of Lading' },
+  { value: 'DELIVERY_RECEIPT', label: 'Delivery Receipt' },
+  { value: 'unknown', label: 'Unknown' }
+];
+
+export default function History() {
+  // Filter form state
+  const { control, handleSubmit } = useForm<HistoryFilterInput>({
+    defaultValues: { vendor: '', type: '', dateFrom: '', dateTo: '', minAmount: '', maxAmount: '' }
+  });
+  const [documents, setDocuments] = useState<DocumentSummary[]>([]);
+  const [total, setTotal] = useState<number>(0);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedDocument, setSelectedDocument] = useState<StoredDocument | null>(null);
+  const [matchReport, setMatchReport] = useState<MatchReport | null>(null);
+
+  // Load the documents matching the filters; empty filters are left out
+  const loadDocuments = async (filters: Partial<HistoryFilterInput> = {}) => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const params = Object.fromEntries(Object.entries(filters).filter(([, value]) => value));
+      const response = await axios.get('/api/documents', { params, validateStatus: () => true });
+      if (response.data.success) {
+        setDocuments(response.data.data.documents);
+        setTotal(response.data.data.total);
+      } else {
+        setError(response.data.error || 'Failed to load documents');
+      }
+    } catch (error) {
+      console.error('Error loading documents:', error);
+      setError(error instanceof Error ? error.message : 'An unknown error occurred');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Show the full parse result of a document
+  const viewDocument = async (id: string) => {
+    try {
+      const response = await axios.get(`/api/documents/${id}`);
+      setSelectedDocument(response.data.data);
+    } catch (error) {
+      console.error('Error loading document:', error);
+      setError(error instanceof Error ? error.message : 'An unknown error occurred');
+    }
+  };
+
+  // Match an invoice against its purchase order and delivery receipts
+  const matchDocument = async (id: string) => {
+    try {
+      const response = await axios.post('/api/match-invoice', { documentId: id }, { validateStatus: () => true });
+      if (response.data.success) {
+        setMatchReport(response.data.data);
+      } else {
+        setError(response.data.error || 'Failed to match invoice');
+      }
+    } catch (error) {
+      console.error('Error matching invoice:', error);
+      setError(error instanceof Error ? error.message : 'An unknown error occurred');
+    }
+  };
+
+  // Delete a document and drop it from the table
+  const deleteDocument = async (id: string) => {
+    try {
+      await axios.delete(`/api/documents/${id}`);
+      setDocuments(current => current.filter(document => document.id !== id));
+      setTotal(current => current - 1);
+      if (selectedDocument?.id === id) {
+        setSelectedDocument(null);
+      }
+    } catch (error) {
+      console.error('Error deleting document:', error);
+      setError(error instanceof Error ? error.message : 'An unknown error occurred');
+    }
+  };
+
+  // Load the most recent documents on first render
+  useEffect(() => {
+    loadDocuments();
+  }, []);
+
+  return (
+    <Container maxWidth="lg" sx={{ py: 4 }}>
+      <Paper elevation={3} sx={{ p: 4, borderRadius: 2 }}>
+        <Stack direction="row" alignItems="center" justifyContent="space-between" sx={{ mb: 4 }}>
+          <Typography variant="h4" component="h1">
+            Document History
+          </Typography>
+          <Stack direction="row" spacing={1}>
+            <Button href="/ledger" startIcon={<AccountBalance />}>
+              Vendor Ledger
+            </Button>
+            <Button href="/" startIcon={<ArrowBack />}>
+              Invoice Parser
+            </Button>
+          </Stack>
+        </Stack>
+
+        <Box component="form" noValidate onSubmit={handleSubmit(loadDocuments)}>
+          <Stack spacing={2}>
+            <Stack direction={{ xs: 'column', sm: 'row' }} spacing={2}>
+              <Controller
+                name="vendor"
+                control={control}
+                render={({ field }) => (
+                  <TextField {...field} label="Vendor" fullWidth size="small" />
+                )}
+              />
+              <Controller
+                name="type"
+                control={control}
+                render={({ field }) => (
+                  <TextField {...field} select label="Type" fullWidth size="small">
+                    <MenuItem value="">All types</MenuItem>
+                    {DOCUMENT_TYPES.map(type => (
+                      <MenuItem key={type.value} value={type.value}>{type.label}</MenuItem>
+                    ))}
+                  </TextField>
+                )}
+              />
+            </Stack>
+            <Stack direction={{ xs: 'column', sm: 'row' }} spacing={2}>
+              <Controller
+                name="dateFrom"
+                control={control}
+                render={({ field }) => (
+                  <TextField {...field} type="date" label="From" fullWidth size="small" slotProps={{ inputLabel: { shrink: true } }} />
+                )}
+              />
+              <Controller
+                name="dateTo"
+                control={control}
+                render={({ field }) => (
+                  <TextField {...field} type="date" label="To" fullWidth size="small" slotProps={{ inputLabel: { shrink: true } }} />
+                )}
+              />
+              <Controller
+                name="minAmount"
+                control={control}
+                render={({ field }) => (
+                  <TextField {...field} type="number" label="Min Amount" fullWidth size="small" />
+                )}
+              />
+              <Controller
+                name="maxAmount"
+                control={control}
+                render={({ field }) => (
+                  <TextField {...field} type="number" label="Max Amount" fullWidth size="small" />
+                )}
+              />
+            </Stack>
+            <Button
+              type="submit"
+              variant="contained"
+              disabled={isLoading}
+              startIcon={isLoading ? <CircularProgress size={20} color="inherit" /> : <Search />}
+            >
+              Search
+            </Button>
+          </Stack>
+        </Box>
+
+        {error && (
+          <Alert severity="error" sx={{ mt: 4 }}>
+            <AlertTitle>Error</AlertTitle>
+            {error}
+          </Alert>
+        )}
+
+        <Typography variant="body2" color="text.secondary" sx={{ mt: 4, mb: 1 }}>
+          {total === 1 ? '1 document' : `${total} documents`}
+        </Typography>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Date</TableCell>
+              <TableCell>Type</TableCell>
+              <TableCell>Document No.</TableCell>
+              <TableCell>Vendor</TableCell>
+              <TableCell align="right">Amount</TableCell>
+              <TableCell>Parsed</TableCell>
+              <TableCell />
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {documents.map(document => (
+              <TableRow key={document.id} hover selected={selectedDocument?.id === document.id}>
+                <TableCell>{document.date}</TableCell>
+                <TableCell>{DOCUMENT_TYPES.find(type => type.value === document.documentType)?.label || document.documentType}</TableCell>
+                <TableCell>
+                  {document.documentNumber}
+                  {document.version > 1 && (
+                    <Typography component="span" variant="caption" color="text.secondary"> (v{document.version})</Typography>
+                  )}
+                </TableCell>
+                <TableCell>{document.vendor}</TableCell>
+                <TableCell align="right">
+                  {document.totalAmount !== undefined && `${document.totalAmount.toFixed(2)} ${document.currency || ''}`}
+                </TableCell>
+                <TableCell>{new Date(document.createdAt).toLocaleString()}</TableCell>
+                <TableCell align="right" sx={{ whiteSpace: 'nowrap' }}>
+                  <IconButton size="small" aria-label="View" onClick={() => viewDocument(document.id)}>
+                    <Visibility fontSize="small" />
+                  </IconButton>
+                  {MATCHABLE_TYPES.includes(document.documentType) && (
+                    <IconButton size="small" aria-label="Match" onClick={() => matchDocument(document.id)}>
+                      <CompareArrows fontSize="small" />
+                    </IconButton>
+                  )}
+                  <IconButton size="small" aria-label="Delete" onClick={() => deleteDocument(document.id)}>
+                    <Delete fontSize="small" />
+                  </IconButton>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </Paper>
+
+      {matchReport && (
+        <Card sx={{ mt: 4 }}>
+          <CardHeader
+            title={`Three-Way Match: ${matchReport.invoiceNumber}`}
+            subheader={matchReport.purchaseOrderNumber
+              ? `PO ${matchReport.purchaseOrderNumber}, ${matchReport.receiptIds.length === 1 ? '1 receipt' : `${matchReport.receiptIds.length} receipts`}`
+              : 'No purchase order'}
+            action={
+              <Chip
+                label={MATCH_STATUSES[matchReport.status]?.label || matchReport.status}
+                color={MATCH_STATUSES[matchReport.status]?.color || 'default'}
+              />
+            }
+          />
+          <Divider />
+          <CardContent>
+            {matchReport.findings.map(finding => (
+              <Typography key={finding} variant="body2" sx={{ mb: 1 }}>{finding}</Typography>
+            ))}
+            {matchReport.lines.length > 0 && (
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Item</TableCell>
+                    <TableCell align="right">Billed</TableCell>
+                    <TableCell align="right">Ordered</TableCell>
+                    <TableCell align="right">Received</TableCell>
+                    <TableCell align="right">Price</TableCell>
+                    <TableCell align="right">PO Price</TableCell>
+                    <TableCell>Status</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {matchReport.lines.map(line => (
+                    <TableRow key={line.line}>
+                      <TableCell>{line.description}</TableCell>
+                      <TableCell align="right">{line.invoicedQuantity}</TableCell>
+                      <TableCell align="right">{line.orderedQuantity ?? '–'}</TableCell>
+                      <TableCell align="right">{line.receivedQuantity ?? '–'}</TableCell>
+                      <TableCell align="right">{line.invoicedUnitPrice.toFixed(2)}</TableCell>
+                      <TableCell align="right">{line.orderedUnitPrice?.toFixed(2) ?? '–'}</TableCell>
+                      <TableCell title={line.findings.join('\n')}>
+                        <Chip
+                          size="small"
+                          label={MATCH_STATUSES[line.status]?.label || line.status}
+                          color={MATCH_STATUSES[line.status]?.color || 'default'}
+                        />
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {selectedDocument && (
+        <Card sx={{ mt: 4 }}>
+          <CardHeader
+            title={`Document ${selectedDocument.id}`}
+            subheader={`${selectedDocument.source || 'Unknown source'}, parsed ${new Date(selectedDocument.createdAt).toLocaleString()}`}
+          />
+          <Divider />
+          <CardContent>
+            <Box
+              component="pre"
+              sx={{
+                backgroundColor: '#f5f5f5',
+                p: 2,
+                borderRadius: 1,
+                overflow: 'auto',
+                fontSize: '0.875rem'
+              }}
+            >
+              {JSON.stringify(selectedDocument.data, null, 2)}
+            </Box>
+          </CardContent>
+        </Card>
+      )}
+    </Container>
+  );
+}
@@ -18,13 +18,33 @@ import {
   CircularProgress,
   Alert,
   AlertTitle,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  LinearProgress,
+  Tabs,
+  Tab,
+  FormControlLabel,
+  Switch,
 } from '@mui/material';
-import { CloudUpload, ReceiptLong } from '@mui/icons-material';
+import { CloudUpload, Download, History, ReceiptLong, TextSnippet, UploadFile } from '@mui/icons-material';
+import ReviewWorkspace, { InvoiceData, StoredInvoice } from '../components/ReviewWorkspace';
+import ClassificationPanel, { InvoiceClassification } from '../components/ClassificationPanel';
 
 // Define the invoice parser interface
 interface InvoiceFormInput {
   invoiceText: string;
   skipClassification?: boolean;
+  documentType?: string; // Type to parse as instead of classifying
+  documentId?: string; // Earlier result of the same text that the parse replaces
+}
+
+// Define the last parsed text, kept to parse it again as another type
+interface ParsedText {
+  input: InvoiceFormInput;
+  classification?: InvoiceClassification;
 }
 
 // Define the invoice image parser interface
@@ -33,56 +53,113 @@ interface InvoiceImageFormInput {
   mimeType: string;
 }
 
-// Define the invoice data interface
-interface InvoiceData {
+// Define the parsed invoice interface, with what was found against earlier documents
+interface ParsedInvoice extends InvoiceData {
+  possibleDuplicates?: PossibleDuplicate[];
+  creditApplication?: CreditApplication;
+}
+
+// Define how a credit note was applied to the invoice it references
+interface CreditApplication {
+  status: string;
+  message: string;
+}
+
+// Define an earlier parsed invoice that may be the same invoice
+interface PossibleDuplicate {
+  documentId: string;
+  score: number;
   invoiceNumber: string;
-  invoiceDate: string;
-  dueDate?: string;
   vendorName: string;
-  vendorAddress?: string;
-  customerName?: string;
-  customerAddress?: string;
-  items: InvoiceItem[];
-  subtotal: number;
-  taxAmount?: number;
   totalAmount: number;
   currency: string;
-  paymentTerms?: string;
-  classification?: InvoiceClassification;
+  invoiceDate: string;
+  parsedAt: string;
 }
 
-interface InvoiceItem {
-  description: string;
-  quantity: number;
-  unitPrice: number;
-  amount: number;
+// Define the Peppol details the UBL export needs besides the invoice
+interface UblExportFormInput {
+  sellerEndpoint: string;
+  buyerEndpoint: string;
+  buyerReference: string;
+  sellerVatId: string;
 }
 
-interface InvoiceClassification {
-  type: string;
-  confidence: number;
+interface MissingBusinessTerm {
+  term: string;
+  name: string;
+  message: string;
+}
+
+// Define the per-file result streamed by the batch upload
+interface DocumentResult {
+  filePath: string;
+  classification: {
+    documentType: string;
+    confidence: number;
+    metadata?: { documentId?: string };
+  };
+  parsedData?: {
+    invoiceNumber?: string;
+    bolNumber?: string;
+    receiptNumber?: string;
+  };
+  error?: string;
+}
+
+interface BatchRow {
+  fileName: string;
+  status: 'waiting' | 'parsing' | 'done' | 'failed';
+  result?: DocumentResult;
 }
 
 export default function Home() {
   // Invoice parser form state
-  const { control: invoiceControl, handleSubmit: handleInvoiceSubmit, formState: { errors: invoiceErrors } } = useForm<InvoiceFormInput>();
-  const [invoiceResult, setInvoiceResult] = useState<InvoiceData | null>(null);
+  const { control: invoiceControl, handleSubmit: handleInvoiceSubmit, formState: { errors: invoiceErrors } } = useForm<InvoiceFormInput>({
+    defaultValues: { invoiceText: '', skipClassification: false }
+  });
+  const [inputMode, setInputMode] = useState<'image' | 'text'>('image');
+  const [parsedText, setParsedText] = useState<ParsedText | null>(null);
+  const [invoiceResult, setInvoiceResult] = useState<ParsedInvoice | null>(null);
+  const [documentId, setDocumentId] = useState<string | undefined>(undefined);
+  const [documentVersion, setDocumentVersion] = useState<number>(1);
+  const [reviewImage, setReviewImage] = useState<{ data: string; mimeType: string } | undefined>(undefined);
   const [isParsingInvoice, setIsParsingInvoice] = useState<boolean>(false);
   const [parsingError, setParsingError] = useState<string | null>(null);
   const [invoiceImage, setInvoiceImage] = useState<string | null>(null);
   const [invoiceImageType, setInvoiceImageType] = useState<string>('');
   const [isParsingImage, setIsParsingImage] = useState<boolean>(false);
 
+  // UBL export form state
+  const { control: ublControl, handleSubmit: handleUblSubmit } = useForm<UblExportFormInput>({
+    defaultValues: { sellerEndpoint: '', buyerEndpoint: '', buyerReference: '', sellerVatId: '' }
+  });
+  const [isExporting, setIsExporting] = useState<boolean>(false);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const [missingTerms, setMissingTerms] = useState<MissingBusinessTerm[]>([]);
+
+  // Batch upload state
+  const [batchFiles, setBatchFiles] = useState<File[]>([]);
+  const [batchRows, setBatchRows] = useState<BatchRow[]>([]);
+  const [isParsingBatch, setIsParsingBatch] = useState<boolean>(false);
+  const [batchError, setBatchError] = useState<string | null>(null);
+
   // Handle invoice parsing submission
   const onInvoiceSubmit = async (data: InvoiceFormInput) => {
     setIsParsingInvoice(true);
     setParsingError(null);
     setInvoiceResult(null);
+    setExportError(null);
+    setMissingTerms([]);
     
     try {
       const response = await axios.post('/api/parse-invoice', data);
       if (response.data.success) {
         setInvoiceResult(response.data.data);
+        setDocumentId(response.data.documentId);
+        setDocumentVersion(response.data.documentVersion || 1);
+        setReviewImage(undefined);
+        setParsedText({ input: data, classification: response.data.data.classification });
       } else {
         setParsingError(response.data.error || 'Failed to parse invoice');
       }
@@ -106,6 +183,9 @@ export default function Home() {
     setIsParsingImage(true);
     setParsingError(null);
     setInvoiceResult(null);
+    setParsedText(null);
+    setExportError(null);
+    setMissingTerms([]);
     
     try {
       const response = await axios.post('/api/parse-invoice-image', {
@@ -115,6 +195,9 @@ export default function Home() {
       
       if (response.data.success) {
         setInvoiceResult(response.data.data);
+        setDocumentId(response.data.documentId);
+        setDocumentVersion(1);
+        setReviewImage({ data: invoiceImage, mimeType: invoiceImageType });
       } else {
         setParsingError(response.data.error || 'Failed to parse invoice image');
       }
@@ -128,6 +211,115 @@ export default function Home() {
     }
   };
   
+  // Parse the last text again as the type the user chose, replacing its stored result
+  const reparseInvoiceText = (documentType: string) => {
+    if (parsedText) {
+      onInvoiceSubmit({ ...parsedText.input, documentType, documentId });
+    }
+  };
+
+  // Show the corrected invoice saved from the review
+  const onReviewSaved = (document: StoredInvoice) => {
+    setInvoiceResult(document.data);
+    setDocumentId(document.id);
+    setDocumentVersion(document.version);
+    setExportError(null);
+    setMissingTerms([]);
+  };
+
+  // Handle the UBL export, downloading the XML or listing the missing business terms
+  const onUblExport = async (options: UblExportFormInput) => {
+    if (!invoiceResult) return;
+
+    setIsExporting(true);
+    setExportError(null);
+    setMissingTerms([]);
+
+    try {
+      const response = await axios.post('/api/export-ubl', { invoice: invoiceResult, options }, {
+        responseType: 'text',
+        validateStatus: () => true
+      });
+
+      if (response.status !== 200) {
+        const body = JSON.parse(response.data);
+        setExportError(body.error || 'Failed to export invoice');
+        setMissingTerms(body.missingTerms || []);
+        return;
+      }
+
+      // Save the XML through a temporary link
+      const url = URL.createObjectURL(new Blob([response.data], { type: 'application/xml' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${invoiceResult.invoiceNumber || 'invoice'}.xml`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Error exporting invoice:', error);
+      setExportError(
+        error instanceof Error ? error.message : 'An unknown error occurred'
+      );
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  // Handle the batch upload, updating the table as each file's result streams in
+  const processDocumentBatch = async () => {
+    if (batchFiles.length === 0) return;
+
+    setIsParsingBatch(true);
+    setBatchError(null);
+    setBatchRows(batchFiles.map((file, index) => ({ fileName: file.name, status: index === 0 ? 'parsing' : 'waiting' })));
+
+    const formData = new FormData();
+    batchFiles.forEach(file => formData.append('files', file));
+
+    try {
+      const response = await fetch('/api/parse-documents', { method: 'POST', body: formData });
+      if (!response.ok || !response.body) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error || `Upload failed with status ${response.status}`);
+      }
+
+      // Read the NDJSON stream line by line; files are parsed in upload order
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffered = '';
+      for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+        buffered += decoder.decode(chunk.value, { stream: true });
+        const lines = buffered.split('\n');
+        buffered = lines.pop() || '';
+
+        for (const line of lines.filter(Boolean)) {
+          const event = JSON.parse(line);
+          if (event.type !== 'result') continue;
+          const result: DocumentResult = event.result;
+          setBatchRows(rows => rows.map((row, index) => {
+            if (index === event.index) return { ...row, status: result.error ? 'failed' : 'done', result };
+            if (index === event.index + 1) return { ...row, status: 'parsing' };
+            return row;
+          }));
+        }
+      }
+    } catch (error) {
+      console.error('Error parsing documents:', error);
+      setBatchError(error instanceof Error ? error.message : 'An unknown error occurred');
+    } finally {
+      // Files without a result were never reached
+      setBatchRows(rows => rows.map(row => row.result ? row : { ...row, status: 'waiting' }));
+      setIsParsingBatch(false);
+    }
+  };
+
+  // Handle batch file selection
+  const handleBatchChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    setBatchFiles(Array.from(event.target.files || []));
+    setBatchRows([]);
+    setBatchError(null);
+  };
+
   // Handle image file selection
   const handleImageChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
@@ -135,6 +327,8 @@ export default function Home() {
     
     // Reset previous results
     setInvoiceResult(null);
+    setExportError(null);
+    setMissingTerms([]);
     setParsingError(null);
     
     // Get file type
@@ -155,69 +349,236 @@ export default function Home() {
 
 
   return (
-    <Container maxWidth="md" sx={{ py: 4 }}>
-      <Paper elevation={3} sx={{ p: 4, borderRadius: 2 }}>
-        <Typography variant="h4" component="h1" gutterBottom align="center" sx={{ mb: 4 }}>
+    <Container maxWidth="lg" sx={{ py: 4 }}>
+      <Paper elevation={3} sx={{ p: 4, borderRadius: 2, maxWidth: 'md', mx: 'auto' }}>
+        <Typography variant="h4" component="h1" gutterBottom align="center">
           Invoice Parser
         </Typography>
+        <Box sx={{ textAlign: 'center', mb: 4 }}>
+          <Button href="/history" size="small" startIcon={<History />}>
+            Document History
+          </Button>
+        </Box>
         
-        <Box 
-          component="form" 
-          noValidate
-        >
-          <Stack spacing={3}>
-            <Typography variant="h6" gutterBottom>
-              Upload Invoice Image
-            </Typography>
+        <Tabs value={inputMode} onChange={(_, mode) => setInputMode(mode)} sx={{ mb: 3 }}>
+          <Tab value="image" label="Image or PDF" icon={<CloudUpload />} iconPosition="start" />
+          <Tab value="text" label="Paste Text" icon={<TextSnippet />} iconPosition="start" />
+        </Tabs>
+
+        {inputMode === 'image' && (
+          <Box 
+            component="form" 
+            noValidate
+          >
+            <Stack spacing={3}>
+              <Typography variant="h6" gutterBottom>
+                Upload Invoice Image
+              </Typography>
             
-            <Box sx={{ border: '1px dashed', borderColor: 'grey.400', borderRadius: 1, p: 3 }}>
-              <input
-                accept="image/*"
-                style={{ display: 'none' }}
-                id="invoice-image-upload"
-                type="file"
-                onChange={handleImageChange}
-              />
-              <label htmlFor="invoice-image-upload">
-                <Button
-                  variant="outlined"
-                  component="span"
-                  fullWidth
-                  startIcon={<CloudUpload />}
-                >
-                  Select Invoice Image
-                </Button>
-              </label>
+              <Box sx={{ border: '1px dashed', borderColor: 'grey.400', borderRadius: 1, p: 3 }}>
+                <input
+                  accept="image/*,application/pdf"
+                  style={{ display: 'none' }}
+                  id="invoice-image-upload"
+                  type="file"
+                  onChange={handleImageChange}
+                />
+                <label htmlFor="invoice-image-upload">
+                  <Button
+                    variant="outlined"
+                    component="span"
+                    fullWidth
+                    startIcon={<CloudUpload />}
+                  >
+                    Select Invoice Image or PDF
+                  </Button>
+                </label>
               
-              {invoiceImage && (
-                <Box sx={{ mt: 2, textAlign: 'center' }}>
-                  <Typography variant="body2" color="text.secondary" gutterBottom>
-                    Image selected
-                  </Typography>
-                  <img 
-                    src={`data:${invoiceImageType};base64,${invoiceImage}`} 
-                    alt="Selected invoice" 
-                    style={{ maxWidth: '100%', maxHeight: '200px', objectFit: 'contain' }} 
-                  />
-                </Box>
-              )}
-            </Box>
+                {invoiceImage && (
+                  <Box sx={{ mt: 2, textAlign: 'center' }}>
+                    <Typography variant="body2" color="text.secondary" gutterBottom>
+                      {invoiceImageType === 'application/pdf' ? 'PDF selected' : 'Image selected'}
+                    </Typography>
+                    {invoiceImageType !== 'application/pdf' && (
+                      <img 
+                        src={`data:${invoiceImageType};base64,${invoiceImage}`} 
+                        alt="Selected invoice" 
+                        style={{ maxWidth: '100%', maxHeight: '200px', objectFit: 'contain' }} 
+                      />
+                    )}
+                  </Box>
+                )}
+              </Box>
             
-            <Button 
-              variant="contained" 
-              color="secondary" 
-              fullWidth
-              size="large"
-              disabled={!invoiceImage || isParsingImage}
-              onClick={processInvoiceImage}
-              startIcon={isParsingImage ? <CircularProgress size={24} color="inherit" /> : <ReceiptLong />}
-            >
-              {isParsingImage ? 'Parsing Image...' : 'Parse Invoice Image'}
-            </Button>
-          </Stack>
-        </Box>
+              <Button 
+                variant="contained" 
+                color="secondary" 
+                fullWidth
+                size="large"
+                disabled={!invoiceImage || isParsingImage}
+                onClick={processInvoiceImage}
+                startIcon={isParsingImage ? <CircularProgress size={24} color="inherit" /> : <ReceiptLong />}
+              >
+                {isParsingImage ? 'Parsing Image...' : 'Parse Invoice Image'}
+              </Button>
+            </Stack>
+          </Box>
+        )}
+
+        {inputMode === 'text' && (
+          <Box component="form" noValidate onSubmit={handleInvoiceSubmit(onInvoiceSubmit)}>
+            <Stack spacing={3}>
+              <Typography variant="h6" gutterBottom>
+                Paste Invoice Text
+              </Typography>
+              <Controller
+                name="invoiceText"
+                control={invoiceControl}
+                rules={{ validate: value => value.trim() !== '' || 'Paste the text of an invoice' }}
+                render={({ field }) => (
+                  <TextField
+                    {...field}
+                    label="Invoice Text"
+                    placeholder="Paste the invoice text, or UBL, CII or X12 810 content"
+                    multiline
+                    minRows={10}
+                    fullWidth
+                    error={!!invoiceErrors.invoiceText}
+                    helperText={invoiceErrors.invoiceText?.message}
+                  />
+                )}
+              />
+              <Controller
+                name="skipClassification"
+                control={invoiceControl}
+                render={({ field: { value, onChange } }) => (
+                  <FormControlLabel
+                    control={<Switch checked={!!value} onChange={event => onChange(event.target.checked)} />}
+                    label="Skip classification (parse as a generic invoice)"
+                  />
+                )}
+              />
+              <Button
+                type="submit"
+                variant="contained"
+                color="secondary"
+                fullWidth
+                size="large"
+                disabled={isParsingInvoice}
+                startIcon={isParsingInvoice ? <CircularProgress size={24} color="inherit" /> : <ReceiptLong />}
+              >
+                {isParsingInvoice ? 'Parsing Invoice...' : 'Parse Invoice Text'}
+              </Button>
+            </Stack>
+          </Box>
+        )}
+
+        <Divider sx={{ my: 4 }} />
+
+        <Stack spacing={3}>
+          <Typography variant="h6" gutterBottom>
+            Upload Document Batch
+          </Typography>
+          <Typography variant="body2" color="text.secondary">
+            Invoices, bills of lading and delivery receipts are classified and parsed one after another.
+          </Typography>
+
+          <Box sx={{ border: '1px dashed', borderColor: 'grey.400', borderRadius: 1, p: 3 }}>
+            <input
+              accept="image/*,application/pdf,.xml,.edi,.x12"
+              style={{ display: 'none' }}
+              id="document-batch-upload"
+              type="file"
+              multiple
+              onChange={handleBatchChange}
+            />
+            <label htmlFor="document-batch-upload">
+              <Button
+                variant="outlined"
+                component="span"
+                fullWidth
+                startIcon={<UploadFile />}
+              >
+                {batchFiles.length > 0 ? `${batchFiles.length} Files Selected` : 'Select Documents'}
+              </Button>
+            </label>
+          </Box>
+
+          <Button
+            variant="contained"
+            color="secondary"
+            fullWidth
+            size="large"
+            disabled={batchFiles.length === 0 || isParsingBatch}
+            onClick={processDocumentBatch}
+            startIcon={isParsingBatch ? <CircularProgress size={24} color="inherit" /> : <ReceiptLong />}
+          >
+            {isParsingBatch ? 'Parsing Documents...' : 'Parse Documents'}
+          </Button>
+
+          {batchError && (
+            <Alert severity="error">
+              <AlertTitle>Error</AlertTitle>
+              {batchError}
+            </Alert>
+          )}
+
+          {batchRows.length > 0 && (
+            <>
+              <LinearProgress
+                variant="determinate"
+                value={100 * batchRows.filter(row => row.result).length / batchRows.length}
+              />
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>File</TableCell>
+                    <TableCell>Status</TableCell>
+                    <TableCell>Type</TableCell>
+                    <TableCell align="right">Confidence</TableCell>
+                    <TableCell>Document No.</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {batchRows.map((row, index) => (
+                    <TableRow key={`${row.fileName}-${index}`}>
+                      <TableCell sx={{ wordBreak: 'break-all' }}>{row.fileName}</TableCell>
+                      <TableCell>
+                        {row.status === 'parsing' && <CircularProgress size={16} />}
+                        {row.status === 'waiting' && 'Waiting'}
+                        {row.status === 'done' && 'Parsed'}
+                        {row.status === 'failed' && (
+                          <Typography variant="body2" color="error">{row.result?.error}</Typography>
+                        )}
+                      </TableCell>
+                      <TableCell>{row.result?.classification.documentType}</TableCell>
+                      <TableCell align="right">
+                        {row.result && `${Math.round(row.result.classification.confidence * 100)}%`}
+                      </TableCell>
+                      <TableCell>
+                        {row.result?.parsedData?.invoiceNumber
+                          || row.result?.parsedData?.bolNumber
+                          || row.result?.parsedData?.receiptNumber
+                          || row.result?.classification.metadata?.documentId}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </>
+          )}
+        </Stack>
       </Paper>
       
+      {parsedText && (
+        <ClassificationPanel
+          key={`${documentId}-${parsedText.classification?.type}`}
+          classification={parsedText.classification}
+          isParsing={isParsingInvoice}
+          onReparse={reparseInvoiceText}
+        />
+      )}
+
       {/* Invoice Parser Results */}
       {(parsingError || invoiceResult) && (
         <>
@@ -228,22 +589,102 @@ export default function Home() {
             </Alert>
           )}
           
+          {invoiceResult?.possibleDuplicates && invoiceResult.possibleDuplicates.length > 0 && (
+            <Alert severity="warning" sx={{ mt: 4 }}>
+              <AlertTitle>Possible duplicate</AlertTitle>
+              This invoice looks like {invoiceResult.possibleDuplicates.length === 1 ? 'an invoice' : 'invoices'} parsed before:
+              <Box component="ul" sx={{ m: 0, pl: 2 }}>
+                {invoiceResult.possibleDuplicates.map(duplicate => (
+                  <li key={duplicate.documentId}>
+                    {duplicate.invoiceNumber} from {duplicate.vendorName}, {duplicate.totalAmount} {duplicate.currency} on {duplicate.invoiceDate}
+                    {' '}({Math.round(duplicate.score * 100)}% similar, parsed {new Date(duplicate.parsedAt).toLocaleDateString()})
+                  </li>
+                ))}
+              </Box>
+            </Alert>
+          )}
+
+          {invoiceResult?.creditApplication && (
+            <Alert severity={invoiceResult.creditApplication.status === 'applied' ? 'info' : 'warning'} sx={{ mt: 4 }}>
+              <AlertTitle>{invoiceResult.creditApplication.status === 'applied' ? 'Credit applied' : 'Credit needs review'}</AlertTitle>
+              {invoiceResult.creditApplication.message}
+            </Alert>
+          )}
+
+          {invoiceResult && (
+            <ReviewWorkspace
+              key={`${documentId}-${documentVersion}`}
+              invoice={invoiceResult}
+              documentId={documentId}
+              version={documentVersion}
+              image={reviewImage}
+              onSaved={onReviewSaved}
+            />
+          )}
+
           {invoiceResult && (
             <Card sx={{ mt: 4 }}>
-              <CardHeader title="Parsed Invoice Data" />
-              <Divider />
               <CardContent>
-                <Box 
-                  component="pre"
-                  sx={{
-                    backgroundColor: '#f5f5f5',
-                    p: 2,
-                    borderRadius: 1,
-                    overflow: 'auto',
-                    fontSize: '0.875rem'
-                  }}
-                >
-                  {JSON.stringify(invoiceResult, null, 2)}
+                <Box component="form" noValidate onSubmit={handleUblSubmit(onUblExport)}>
+                  <Stack spacing={2}>
+                    <Typography variant="h6">
+                      Export as Peppol UBL
+                    </Typography>
+                    <Stack direction={{ xs: 'column', sm: 'row' }} spacing={2}>
+                      <Controller
+                        name="sellerEndpoint"
+                        control={ublControl}
+                        render={({ field }) => (
+                          <TextField {...field} label="Seller Peppol ID" placeholder="0088:7300010000001" fullWidth size="small" />
+                        )}
+                      />
+                      <Controller
+                        name="buyerEndpoint"
+                        control={ublControl}
+                        render={({ field }) => (
+                          <TextField {...field} label="Buyer Peppol ID" placeholder="0192:987654321" fullWidth size="small" />
+                        )}
+                      />
+                    </Stack>
+                    <Stack direction={{ xs: 'column', sm: 'row' }} spacing={2}>
+                      <Controller
+                        name="buyerReference"
+                        control={ublControl}
+                        render={({ field }) => (
+                          <TextField {...field} label="Buyer Reference" fullWidth size="small" />
+                        )}
+                      />
+                      <Controller
+                        name="sellerVatId"
+                        control={ublControl}
+                        render={({ field }) => (
+                          <TextField {...field} label="Seller VAT ID" fullWidth size="small" />
+                        )}
+                      />
+                    </Stack>
+                    <Button
+                      type="submit"
+                      variant="outlined"
+                      disabled={isExporting}
+                      startIcon={isExporting ? <CircularProgress size={20} color="inherit" /> : <Download />}
+                    >
+                      {invoiceResult.classification?.type === 'credit_note' ? 'Download UBL Credit Note' : 'Download UBL Invoice'}
+                    </Button>
+                    {exportError && (
+                      <Alert severity="warning">
+                        <AlertTitle>{exportError}</AlertTitle>
+                        {missingTerms.length > 0 && (
+                          <Box component="ul" sx={{ m: 0, pl: 2 }}>
+                            {missingTerms.map((term, index) => (
+                              <li key={`${term.term}-${index}`}>
+                                {term.term} {term.name}: {term.message}
+                              </li>
+                            ))}
+                          </Box>
+                        )}
+                      </Alert>
+                    )}
+                  </Stack>
                 </Box>
               </CardContent>
             </Card>
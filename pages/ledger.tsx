@@ -0,0 +1,321 @@
+import React from 'react';
+import { useState, useEffect } from 'react';
+import axios from 'axios';
+import {
+  Container,
+  Typography,
+  Button,
+  Paper,
+  Stack,
+  Card,
+  CardContent,
+  CardHeader,
+  Divider,
+  CircularProgress,
+  Alert,
+  AlertTitle,
+  Chip,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+} from '@mui/material';
+import { ArrowBack } from '@mui/icons-material';
+
+// Define the vendor ledger interfaces returned by /api/ledger
+interface VendorLedgerSummary {
+  vendorKey: string;
+  vendor: string;
+  balances: Record<string, number>;
+  needsReview: number;
+  invoices: number;
+  creditNotes: number;
+  receipts: number;
+}
+
+interface CreditApplication {
+  status: string;
+  referencedInvoiceNumber?: string;
+  message: string;
+}
+
+interface LedgerEntry {
+  documentId: string;
+  kind: string;
+  documentNumber: string;
+  date: string;
+  currency: string;
+  amount: number;
+  balance: number;
+  openBalance?: number;
+  creditApplication?: CreditApplication;
+  reviewReasons: string[];
+}
+
+interface VendorLedger {
+  vendorKey: string;
+  vendor: string;
+  entries: LedgerEntry[];
+  balances: Record<string, number>;
+  needsReview: number;
+}
+
+// Define the cash plan interfaces returned by /api/cash-plan
+interface CashPlanPayment {
+  documentId: string;
+  vendor: string;
+  documentNumber: string;
+  currency: string;
+  amount: number;
+  dueDate?: string;
+  description: string;
+}
+
+interface CashPlanPeriod {
+  label: string;
+  until?: string;
+  payments: CashPlanPayment[];
+  totals: Record<string, number>;
+}
+
+interface DiscountOpportunity {
+  documentId: string;
+  vendor: string;
+  documentNumber: string;
+  currency: string;
+  deadline: string;
+  savings: number;
+  payAmount: number;
+}
+
+interface CashPlan {
+  asOf: string;
+  periods: CashPlanPeriod[];
+  unscheduled: CashPlanPayment[];
+  discounts: DiscountOpportunity[];
+}
+
+// Labels of the ledger entry kinds
+const ENTRY_KINDS: Record<string, string> = {
+  invoice: 'Invoice',
+  credit_note: 'Credit Note',
+  receipt: 'Receipt'
+};
+
+// Show balances in every currency the vendor bills in
+const formatBalances = (balances: Record<string, number>) =>
+  Object.entries(balances).map(([currency, balance]) => `${balance.toFixed(2)} ${currency}`).join(', ');
+
+export default function Ledger() {
+  const [vendors, setVendors] = useState<VendorLedgerSummary[]>([]);
+  const [ledger, setLedger] = useState<VendorLedger | null>(null);
+  const [cashPlan, setCashPlan] = useState<CashPlan | null>(null);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load the balance of every vendor
+  const loadVendors = async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const [ledgerResponse, cashPlanResponse] = await Promise.all([
+        axios.get('/api/ledger'),
+        axios.get('/api/cash-plan')
+      ]);
+      setVendors(ledgerResponse.data.data);
+      setCashPlan(cashPlanResponse.data.data);
+    } catch (error) {
+      console.error('Error loading vendors:', error);
+      setError(error instanceof Error ? error.message : 'An unknown error occurred');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Show the entries of one vendor
+  const viewLedger = async (vendorKey: string) => {
+    try {
+      const response = await axios.get('/api/ledger', { params: { vendor: vendorKey } });
+      setLedger(response.data.data);
+    } catch (error) {
+      console.error('Error loading ledger:', error);
+      setError(error instanceof Error ? error.message : 'An unknown error occurred');
+    }
+  };
+
+  // Load the vendors on first render
+  useEffect(() => {
+    loadVendors();
+  }, []);
+
+  return (
+    <Container maxWidth="lg" sx={{ py: 4 }}>
+      <Paper elevation={3} sx={{ p: 4, borderRadius: 2 }}>
+        <Stack direction="row" alignItems="center" justifyContent="space-between" sx={{ mb: 4 }}>
+          <Typography variant="h4" component="h1">
+            Vendor Ledger
+          </Typography>
+          <Button href="/history" startIcon={<ArrowBack />}>
+            Document History
+          </Button>
+        </Stack>
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 4 }}>
+            <AlertTitle>Error</AlertTitle>
+            {error}
+          </Alert>
+        )}
+
+        {isLoading ? (
+          <CircularProgress />
+        ) : (
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Vendor</TableCell>
+                <TableCell align="right">Invoices</TableCell>
+                <TableCell align="right">Credit Notes</TableCell>
+                <TableCell align="right">Receipts</TableCell>
+                <TableCell align="right">Balance</TableCell>
+                <TableCell />
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {vendors.map(vendor => (
+                <TableRow
+                  key={vendor.vendorKey}
+                  hover
+                  selected={ledger?.vendorKey === vendor.vendorKey}
+                  onClick={() => viewLedger(vendor.vendorKey)}
+                  sx={{ cursor: 'pointer' }}
+                >
+                  <TableCell>{vendor.vendor}</TableCell>
+                  <TableCell align="right">{vendor.invoices}</TableCell>
+                  <TableCell align="right">{vendor.creditNotes}</TableCell>
+                  <TableCell align="right">{vendor.receipts}</TableCell>
+                  <TableCell align="right">{formatBalances(vendor.balances)}</TableCell>
+                  <TableCell align="right">
+                    {vendor.needsReview > 0 && (
+                      <Chip size="small" color="warning" label={`${vendor.needsReview} to review`} />
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </Paper>
+
+      {cashPlan && (
+        <Card sx={{ mt: 4 }}>
+          <CardHeader title="Cash Plan" subheader={`Payments still open as of ${cashPlan.asOf}`} />
+          <Divider />
+          <CardContent>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Due</TableCell>
+                  <TableCell>Vendor</TableCell>
+                  <TableCell>Document No.</TableCell>
+                  <TableCell>Terms</TableCell>
+                  <TableCell align="right">Amount</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {cashPlan.periods.filter(period => period.payments.length > 0).map(period => (
+                  <React.Fragment key={period.label}>
+                    <TableRow sx={period.label === 'Overdue' ? { backgroundColor: 'warning.light' } : { backgroundColor: 'action.hover' }}>
+                      <TableCell colSpan={4}>
+                        <strong>{period.label}</strong>
+                      </TableCell>
+                      <TableCell align="right">
+                        <strong>{formatBalances(period.totals)}</strong>
+                      </TableCell>
+                    </TableRow>
+                    {period.payments.map((payment, index) => (
+                      <TableRow key={`${payment.documentId}-${index}`}>
+                        <TableCell>{payment.dueDate}</TableCell>
+                        <TableCell>{payment.vendor}</TableCell>
+                        <TableCell>{payment.documentNumber}</TableCell>
+                        <TableCell>{payment.description}</TableCell>
+                        <TableCell align="right">{payment.amount.toFixed(2)} {payment.currency}</TableCell>
+                      </TableRow>
+                    ))}
+                  </React.Fragment>
+                ))}
+                {cashPlan.unscheduled.length > 0 && (
+                  <TableRow sx={{ backgroundColor: 'action.hover' }}>
+                    <TableCell colSpan={5}>
+                      <strong>Not yet scheduled</strong>
+                    </TableCell>
+                  </TableRow>
+                )}
+                {cashPlan.unscheduled.map((payment, index) => (
+                  <TableRow key={`${payment.documentId}-unscheduled-${index}`}>
+                    <TableCell />
+                    <TableCell>{payment.vendor}</TableCell>
+                    <TableCell>{payment.documentNumber}</TableCell>
+                    <TableCell>{payment.description}</TableCell>
+                    <TableCell align="right">{payment.amount.toFixed(2)} {payment.currency}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            {cashPlan.discounts.length > 0 && (
+              <Alert severity="info" sx={{ mt: 2 }}>
+                <AlertTitle>Early-payment discounts</AlertTitle>
+                {cashPlan.discounts.map(discount => (
+                  <div key={discount.documentId}>
+                    Pay {discount.payAmount.toFixed(2)} {discount.currency} to {discount.vendor} for {discount.documentNumber} by {discount.deadline} to save {discount.savings.toFixed(2)} {discount.currency}
+                  </div>
+                ))}
+              </Alert>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {ledger && (
+        <Card sx={{ mt: 4 }}>
+          <CardHeader title={ledger.vendor} subheader={`Remaining balance: ${formatBalances(ledger.balances)}`} />
+          <Divider />
+          <CardContent>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Date</TableCell>
+                  <TableCell>Type</TableCell>
+                  <TableCell>Document No.</TableCell>
+                  <TableCell align="right">Amount</TableCell>
+                  <TableCell align="right">Open</TableCell>
+                  <TableCell align="right">Balance</TableCell>
+                  <TableCell>Notes</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {ledger.entries.map(entry => (
+                  <TableRow key={entry.documentId} sx={entry.reviewReasons.length > 0 ? { backgroundColor: 'warning.light' } : undefined}>
+                    <TableCell>{entry.date}</TableCell>
+                    <TableCell>{ENTRY_KINDS[entry.kind] || entry.kind}</TableCell>
+                    <TableCell>{entry.documentNumber}</TableCell>
+                    <TableCell align="right">{entry.amount.toFixed(2)} {entry.currency}</TableCell>
+                    <TableCell align="right">{entry.openBalance?.toFixed(2)}</TableCell>
+                    <TableCell align="right">{entry.balance.toFixed(2)}</TableCell>
+                    <TableCell>
+                      {entry.reviewReasons.length > 0
+                        ? entry.reviewReasons.join('; ')
+                        : entry.creditApplication?.message}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+    </Container>
+  );
+}
@@ -0,0 +1,155 @@
+import { ExitCode, OutputFormat, CliCommand, CliRecord, parseCliArguments, runCli } from '../cli';
+import { createFakeProvider, fakeResponder } from '../fakeProvider';
+import { CompletionRequest, LLMTask } from '../llmTypes';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+
+const INVOICE = {
+  invoiceNumber: 'INV-1',
+  invoiceDate: '2023-04-15',
+  vendorName: 'Acme Supplies, Inc.',
+  items: [{ description: 'Widget', quantity: 2, unitPrice: 10, amount: 20 }],
+  subtotal: 20,
+  totalAmount: 20,
+  currency: 'USD'
+};
+
+/**
+ * Answer extraction requests with INVOICE, or with a total that doesn't add up for texts mentioning INV-2
+ */
+const responder = (request: CompletionRequest): string => {
+  const text = JSON.stringify(request.messages);
+
+  switch (request.task) {
+    case LLMTask.EXTRACTION:
+      return JSON.stringify(text.includes('INV-2') ? { ...INVOICE, invoiceNumber: 'INV-2', totalAmount: 25 } : INVOICE);
+    case LLMTask.IMAGE_EXTRACTION:
+      return JSON.stringify({ ...INVOICE, invoiceNumber: 'IMG-1' });
+    case LLMTask.DOCUMENT_CLASSIFICATION:
+      // The unreadable scan is sent as the base64 of "unreadable"
+      return text.includes(Buffer.from('unreadable').toString('base64')) ? 'not json' : JSON.stringify({ documentType: 'standard', confidence: 0.9 });
+    default:
+      return fakeResponder(request);
+  }
+};
+
+describe('CLI', () => {
+  let directory: string;
+  let stdout: string;
+  let stderr: string;
+
+  const run = (...argv: string[]) => runCli(argv, {
+    stdout: chunk => { stdout += chunk; },
+    stderr: chunk => { stderr += chunk; },
+    provider: createFakeProvider(responder)
+  });
+
+  beforeEach(() => {
+    directory = mkdtempSync(path.join(tmpdir(), 'invoice-cli-'));
+    stdout = '';
+    stderr = '';
+
+    writeFileSync(path.join(directory, 'a-invoice.txt'), 'INVOICE\nInvoice #: INV-1\nTotal: $20.00');
+    writeFileSync(path.join(directory, 'b-receipt.txt'), 'RECEIPT\nTransaction #: 55\nThank you for your purchase');
+    writeFileSync(path.join(directory, 'notes.csv'), 'not an invoice');
+    writeFileSync(path.join(directory, '.hidden.txt'), 'INVOICE');
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  describe('parseCliArguments', () => {
+    it('should read the command, inputs and options', () => {
+      expect(parseCliArguments(['parse', '-f', 'csv', '--concurrency', '8', '--model', 'gpt-4o-mini', '--skip-classification', 'a.txt', 'scans/']))
+        .toEqual({
+          command: CliCommand.PARSE,
+          paths: ['a.txt', 'scans/'],
+          format: OutputFormat.CSV,
+          concurrency: 8,
+          model: 'gpt-4o-mini',
+          skipClassification: true
+        });
+      expect(parseCliArguments(['batch', 'a.txt'])).toMatchObject({ format: OutputFormat.JSON, concurrency: 4, skipClassification: false });
+    });
+
+    it('should reject invalid arguments', () => {
+      expect(() => parseCliArguments(['convert', 'a.txt'])).toThrow('Unknown command: convert');
+      expect(() => parseCliArguments(['parse'])).toThrow('At least one file or directory is required');
+      expect(() => parseCliArguments(['parse', '--format', 'xml', 'a.txt'])).toThrow('Unknown output format: xml');
+      expect(() => parseCliArguments(['parse', '--concurrency', '0', 'a.txt'])).toThrow('Concurrency must be a positive integer');
+    });
+  });
+
+  it('should classify the supported files of a directory', async () => {
+    const code = await run('classify', directory);
+
+    const records = JSON.parse(stdout) as CliRecord[];
+    expect(code).toBe(ExitCode.SUCCESS);
+    expect(records.map(record => [path.basename(record.file), record.documentType])).toEqual([
+      ['a-invoice.txt', 'standard'],
+      ['b-receipt.txt', 'receipt']
+    ]);
+  });
+
+  it('should exit with a validation failure when an invoice does not add up', async () => {
+    writeFileSync(path.join(directory, 'c-invoice.txt'), 'INVOICE\nInvoice #: INV-2');
+
+    const code = await run('parse', '--format', 'ndjson', '--concurrency', '2', '--skip-classification', directory);
+
+    const records = stdout.trim().split('\n').map(line => JSON.parse(line) as CliRecord);
+    expect(code).toBe(ExitCode.VALIDATION_FAILED);
+    expect(records.map(record => [path.basename(record.file), record.valid])).toEqual([
+      ['a-invoice.txt', true],
+      ['b-receipt.txt', true],
+      ['c-invoice.txt', false]
+    ]);
+  });
+
+  it('should write CSV rows and keep going when a file fails', async () => {
+    const scans = path.join(directory, 'scans');
+    mkdirSync(scans);
+    writeFileSync(path.join(scans, 'scan-1.png'), 'image');
+    writeFileSync(path.join(scans, 'scan-2.png'), 'unreadable');
+
+    const code = await run('batch', '--format', 'csv', scans, path.join(directory, 'a-invoice.txt'));
+
+    const [header, ...rows] = stdout.trim().split('\n');
+    expect(code).toBe(ExitCode.PROCESSING_FAILED);
+    expect(header).toBe('file,documentType,confidence,documentNumber,documentDate,vendorName,customerName,currency,totalAmount,valid,issues,error');
+    expect(rows).toHaveLength(3);
+    expect(rows[0]).toBe(`${path.join(scans, 'scan-1.png')},standard,0.9,IMG-1,2023-04-15,"Acme Supplies, Inc.",,USD,20,true,,`);
+    expect(rows[1]).toMatch(/scan-2\.png,unknown,0,,,,,,,,,".*JSON.*"$/);
+    expect(rows[2]).toMatch(/a-invoice\.txt,standard,0\.8,INV-1,/);
+  });
+
+  it('should send WebP scans with their MIME type', async () => {
+    const scan = path.join(directory, 'scan.webp');
+    writeFileSync(scan, 'image');
+    const mimeTypes: string[] = [];
+    const provider = createFakeProvider(request => {
+      for (const message of request.messages) {
+        if (Array.isArray(message.content)) {
+          mimeTypes.push(...message.content.flatMap(part => (part.type === 'image' ? [part.mimeType] : [])));
+        }
+      }
+      return responder(request);
+    });
+    const output = { stdout: () => undefined, stderr: () => undefined, provider };
+
+    expect(await runCli(['parse', scan], output)).toBe(ExitCode.SUCCESS);
+    expect(await runCli(['batch', scan], output)).toBe(ExitCode.SUCCESS);
+    expect(mimeTypes.length).toBeGreaterThanOrEqual(2);
+    expect(new Set(mimeTypes)).toEqual(new Set(['image/webp']));
+  });
+
+  it('should report usage errors', async () => {
+    const code = await run('parse', path.join(directory, 'missing.txt'));
+
+    expect(code).toBe(ExitCode.USAGE_ERROR);
+    expect(stdout).toBe('');
+    expect(stderr).toContain('No such file or directory');
+    expect(stderr).toContain('Usage:');
+  });
+});
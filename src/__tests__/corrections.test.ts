@@ -0,0 +1,101 @@
+import { applyInvoiceCorrections, toInvoiceCorrection } from '../corrections';
+import { normalizeInvoiceData, NormalizationKind } from '../normalization';
+import { validateInvoiceData, ValidationCode } from '../validation';
+import { InvoiceData } from '../types';
+import { createTestInvoice } from './fixtures/invoices';
+
+const createInvoice = (overrides: Partial<InvoiceData> = {}): InvoiceData => createTestInvoice({
+  vendorName: 'UNKNOWN',
+  items: [
+    { description: 'Widget', quantity: 2, unitPrice: 50, amount: 100, provenance: { confidence: 0.9, sourceText: 'Widget 2 x 50.00' } },
+    { description: 'Bolt', quantity: 10, unitPrice: 2, amount: 20, provenance: { confidence: 0.8, sourceText: 'Bolt 10 x 2.00' } }
+  ],
+  subtotal: 120,
+  totalAmount: 120,
+  fieldProvenance: { vendorName: { confidence: 0 }, invoiceNumber: { confidence: 0.95, sourceText: 'Invoice #INV-12345' } },
+  ...overrides
+});
+
+describe('Invoice Corrections', () => {
+  it('should apply reviewed values and record what changed', () => {
+    const original = createInvoice();
+    original.validation = validateInvoiceData(original, { defaultedFields: ['vendorName'] });
+
+    const { data, corrections } = applyInvoiceCorrections(original, {
+      invoiceNumber: 'INV-12345',
+      vendorName: 'Acme Supplies Inc. ',
+      customerName: 'Globex',
+      items: [
+        { description: 'Widget', quantity: 2, unitPrice: 50, amount: 100 },
+        { description: 'Bolt', quantity: 12, unitPrice: 2, amount: 24 },
+        { description: 'Freight', quantity: 1, unitPrice: 15, amount: 15 }
+      ],
+      subtotal: 139,
+      totalAmount: 139
+    });
+
+    expect(corrections).toEqual([
+      { field: 'vendorName', original: 'UNKNOWN', corrected: 'Acme Supplies Inc.' },
+      { field: 'customerName', original: null, corrected: 'Globex' },
+      { field: 'subtotal', original: 120, corrected: 139 },
+      { field: 'totalAmount', original: 120, corrected: 139 },
+      { field: 'items[1].quantity', original: 10, corrected: 12 },
+      { field: 'items[1].amount', original: 20, corrected: 24 },
+      { field: 'items[2].description', original: null, corrected: 'Freight' },
+      { field: 'items[2].quantity', original: null, corrected: 1 },
+      { field: 'items[2].unitPrice', original: null, corrected: 15 },
+      { field: 'items[2].amount', original: null, corrected: 15 }
+    ]);
+    expect(data.vendorName).toBe('Acme Supplies Inc.');
+    expect(data.fieldProvenance).toEqual({
+      vendorName: { confidence: 1 },
+      customerName: { confidence: 1 },
+      subtotal: { confidence: 1 },
+      totalAmount: { confidence: 1 },
+      invoiceNumber: { confidence: 0.95, sourceText: 'Invoice #INV-12345' }
+    });
+    // Unchanged items keep their source
+    expect(data.items[0]).toBe(original.items[0]);
+    expect(data.items[1].provenance).toEqual({ confidence: 1 });
+    expect(data.validation).toEqual({ valid: true, issues: [], defaultedFields: [] });
+    // The parse result itself is left as it was
+    expect(original.vendorName).toBe('UNKNOWN');
+    expect(original.items).toHaveLength(2);
+  });
+
+  it('should report removed items and re-derive the due date', () => {
+    const original = createInvoice({ vendorName: 'Acme', paymentTerms: 'Net 30' });
+    normalizeInvoiceData(original);
+    expect(original.dueDate).toBe('2024-03-31');
+
+    const { data, corrections } = applyInvoiceCorrections(original, {
+      paymentTerms: 'Net 45',
+      items: [{ description: 'Widget', quantity: 2, unitPrice: 50, amount: 100 }]
+    });
+
+    expect(corrections).toEqual([
+      { field: 'paymentTerms', original: 'Net 30', corrected: 'Net 45' },
+      { field: 'items[1]', original: 'Bolt', corrected: null }
+    ]);
+    expect(data.dueDate).toBe('2024-04-15');
+    expect(data.paymentSchedule).toMatchObject({ terms: 'Net 45', dueDateDerived: true });
+    expect(data.normalizations).toEqual([expect.objectContaining({ kind: NormalizationKind.DUE_DATE, normalized: '2024-04-15' })]);
+    expect(data.validation?.issues).toContainEqual(expect.objectContaining({ code: ValidationCode.SUBTOTAL_MISMATCH }));
+
+    // A due date the reviewer sets is kept
+    expect(applyInvoiceCorrections(original, { paymentTerms: 'Net 45', dueDate: '2024-05-01' }).data).toMatchObject({
+      dueDate: '2024-05-01',
+      paymentSchedule: { dueDate: '2024-05-01', dueDateDerived: false }
+    });
+    expect(applyInvoiceCorrections(original, { vendorName: ' Acme' }).corrections).toEqual([]);
+  });
+
+  it('should reject malformed corrections', () => {
+    expect(toInvoiceCorrection('INV-1')).toBe('data must be an object with the corrected invoice fields');
+    expect(toInvoiceCorrection({ totalAmount: '120' })).toBe('totalAmount must be a number');
+    expect(toInvoiceCorrection({ vendorName: 42 })).toBe('vendorName must be a string');
+    expect(toInvoiceCorrection({ items: [{ description: 'Widget', quantity: '2', unitPrice: 50, amount: 100 }] }))
+      .toBe('items[0] must have a description, and quantity, unitPrice and amount as numbers');
+    expect(toInvoiceCorrection({ vendorName: 'Acme', dueDate: null, classification: 'ignored' })).toEqual({ vendorName: 'Acme', dueDate: null });
+  });
+});
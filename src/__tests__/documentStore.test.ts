@@ -0,0 +1,184 @@
+import { createDocumentStore, findReplacedDocument, saveParsedDocument, toDocumentSummary } from '../documentStore';
+import { BillOfLadingData, InvoiceData, InvoiceType, LogisticsDocumentType } from '../types';
+import { createHash } from 'crypto';
+import { mkdtempSync, readdirSync, rmSync, writeFileSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { createTestInvoice } from './fixtures/invoices';
+
+const createInvoice = (overrides: Partial<InvoiceData> = {}): InvoiceData =>
+  createTestInvoice({ invoiceNumber: 'INV-1', vendorName: 'Acme Supplies', subtotal: 100, totalAmount: 120, ...overrides });
+
+const BILL_OF_LADING: BillOfLadingData = {
+  documentType: LogisticsDocumentType.BILL_OF_LADING,
+  bolNumber: 'BOL-77',
+  shipDate: '2024-03-05',
+  shipper: { name: 'Acme Warehouse' },
+  consignee: { name: 'Globex' },
+  carrier: { name: 'Fast Freight' },
+  handlingUnits: [],
+  hazmat: false
+};
+
+describe('Document Store', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(path.join(os.tmpdir(), 'documents-'));
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should save, read and delete documents', () => {
+    const store = createDocumentStore(directory);
+
+    const saved = store.save({ input: 'INVOICE INV-1', data: createInvoice(), source: 'text' });
+
+    expect(saved).toMatchObject({
+      inputHash: createHash('sha256').update('INVOICE INV-1').digest('hex'),
+      documentType: InvoiceType.STANDARD,
+      classification: { type: InvoiceType.STANDARD, confidence: 0.9 },
+      source: 'text'
+    });
+    // A second store on the same directory, as another API route would create
+    expect(createDocumentStore(directory).get(saved.id)).toEqual(saved);
+    expect(readdirSync(directory)).toEqual([`${saved.id}.json`]);
+
+    expect(store.delete(saved.id)).toBe(true);
+    expect(store.get(saved.id)).toBeUndefined();
+    expect(store.delete(saved.id)).toBe(false);
+    expect(store.get('../outside')).toBeUndefined();
+  });
+
+  it('should summarize invoices and logistics documents', () => {
+    const store = createDocumentStore(directory);
+
+    expect(toDocumentSummary(store.save({ input: 'a', data: BILL_OF_LADING }))).toEqual({
+      id: expect.any(String),
+      documentType: LogisticsDocumentType.BILL_OF_LADING,
+      documentNumber: 'BOL-77',
+      vendor: 'Acme Warehouse',
+      date: '2024-03-05',
+      version: 1,
+      createdAt: expect.any(String)
+    });
+    expect(toDocumentSummary(store.save({ input: 'b', data: createInvoice({ classification: undefined }) }))).toMatchObject({
+      documentType: InvoiceType.UNKNOWN,
+      documentNumber: 'INV-1',
+      totalAmount: 120,
+      currency: 'USD'
+    });
+  });
+
+  it('should filter by vendor, type, date and amount', () => {
+    const store = createDocumentStore(directory);
+    store.save({ input: '1', data: createInvoice({ invoiceNumber: 'INV-1', invoiceDate: '2024-01-10', totalAmount: 50 }) });
+    store.save({ input: '2', data: createInvoice({ invoiceNumber: 'INV-2', invoiceDate: '2024-02-10', totalAmount: 500 }) });
+    store.save({
+      input: '3',
+      data: createInvoice({
+        invoiceNumber: 'CN-3',
+        vendorName: 'Globex',
+        invoiceDate: '2024-02-20',
+        totalAmount: -80,
+        classification: { type: InvoiceType.CREDIT_NOTE, confidence: 0.9 }
+      })
+    });
+    store.save({ input: '4', data: BILL_OF_LADING });
+
+    const numbers = (filter: Parameters<typeof store.list>[0]) =>
+      store.list(filter).documents.map(document => document.documentNumber).sort();
+
+    expect(store.list().total).toBe(4);
+    expect(numbers({ vendor: 'acme' })).toEqual(['BOL-77', 'INV-1', 'INV-2']);
+    expect(numbers({ type: InvoiceType.CREDIT_NOTE })).toEqual(['CN-3']);
+    expect(numbers({ dateFrom: '2024-02-01', dateTo: '2024-02-29' })).toEqual(['CN-3', 'INV-2']);
+    expect(numbers({ minAmount: 0, maxAmount: 100 })).toEqual(['INV-1']);
+    expect(numbers({ maxAmount: 0 })).toEqual(['CN-3']);
+
+    const page = store.list({ limit: 3, offset: 2 });
+    expect(page.total).toBe(4);
+    expect(page.documents).toHaveLength(2);
+  });
+
+  it('should keep corrections as new versions of a document', () => {
+    const store = createDocumentStore(directory);
+    const parsed = store.save({ input: 'INVOICE INV-1', data: createInvoice() });
+    const other = store.save({ input: 'other', data: createInvoice({ invoiceNumber: 'INV-2' }) });
+    const corrections = [{ field: 'vendorName', original: 'Acme Supplies', corrected: 'Acme Supplies Inc.' }];
+
+    const second = store.saveVersion(parsed, createInvoice({ vendorName: 'Acme Supplies Inc.' }), corrections);
+    expect(second).toMatchObject({
+      inputHash: parsed.inputHash,
+      documentType: InvoiceType.STANDARD,
+      version: 2,
+      previousVersionId: parsed.id,
+      corrections
+    });
+    const third = store.saveVersion(second, createInvoice({ vendorName: 'Acme Supplies Inc.', totalAmount: 121 }), []);
+
+    expect(store.versions(second.id).map(document => document.version)).toEqual([1, 2, 3]);
+    expect(store.versions(parsed.id).map(document => document.id)).toEqual([parsed.id, second.id, third.id]);
+    expect(store.versions(other.id)).toEqual([other]);
+    // Earlier versions stay readable but aren't listed
+    expect(store.get(parsed.id)).toEqual(parsed);
+    expect(store.all().map(document => document.id).sort()).toEqual([other.id, third.id].sort());
+    expect(store.list().documents.find(document => document.documentNumber === 'INV-1')).toMatchObject({ id: third.id, version: 3 });
+  });
+
+  it('should delete every version of a corrected document', () => {
+    const store = createDocumentStore(directory);
+    const parsed = store.save({ input: 'INVOICE INV-1', data: createInvoice() });
+    const other = store.save({ input: 'other', data: createInvoice({ invoiceNumber: 'INV-2' }) });
+    const second = store.saveVersion(parsed, createInvoice({ totalAmount: 121 }), []);
+    const third = store.saveVersion(second, createInvoice({ totalAmount: 122 }), []);
+
+    // Deleting the middle version doesn't leave two halves of the chain behind
+    expect(store.delete(second.id)).toBe(true);
+    expect([parsed, second, third].map(version => store.get(version.id))).toEqual([undefined, undefined, undefined]);
+    expect(store.all()).toEqual([other]);
+
+    const corrected = store.saveVersion(other, createInvoice({ invoiceNumber: 'INV-2', totalAmount: 99 }), []);
+    expect(store.delete(corrected.id)).toBe(true);
+    expect(store.all()).toEqual([]);
+    expect(store.delete(corrected.id)).toBe(false);
+  });
+
+  it('should save a parse of the same input as the next version of the earlier result', () => {
+    const store = createDocumentStore(directory);
+    const misclassified = store.save({ input: 'INVOICE INV-1', data: createInvoice({
+      classification: { type: InvoiceType.RECEIPT, confidence: 0.6 }
+    }) });
+
+    // Only an earlier parse of the same input can be replaced
+    expect(findReplacedDocument(misclassified.id, 'other text', store)).toBeUndefined();
+    const previous = findReplacedDocument(misclassified.id, 'INVOICE INV-1', store);
+    expect(previous).toEqual(misclassified);
+
+    const reparsed = saveParsedDocument({ input: 'INVOICE INV-1', data: createInvoice() }, store, previous);
+
+    expect(reparsed).toMatchObject({
+      documentType: InvoiceType.STANDARD,
+      version: 2,
+      previousVersionId: misclassified.id,
+      corrections: [{ field: 'documentType', original: InvoiceType.RECEIPT, corrected: InvoiceType.STANDARD }]
+    });
+    expect(reparsed?.data).toMatchObject({ possibleDuplicates: [] });
+    expect(store.all()).toEqual([reparsed]);
+  });
+
+  it('should skip unreadable files and report failed saves without throwing', () => {
+    writeFileSync(path.join(directory, 'broken.json'), '{');
+    const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(createDocumentStore(directory).list().total).toBe(0);
+
+    // A file where the directory should be makes every save fail
+    const blocked = path.join(directory, 'blocked');
+    writeFileSync(blocked, '');
+    expect(saveParsedDocument({ input: 'x', data: createInvoice() }, createDocumentStore(blocked))).toBeUndefined();
+    expect(error).toHaveBeenCalledWith('Error saving parsed document:', expect.anything());
+  });
+});
@@ -0,0 +1,117 @@
+import { DuplicateReason, findPossibleDuplicates, fingerprintInvoice } from '../duplicateDetection';
+import { createDocumentStore, saveParsedDocument, StoredDocument } from '../documentStore';
+import { InvoiceData, InvoiceType, LogisticsDocumentType } from '../types';
+import { mkdtempSync, rmSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { createTestInvoice } from './fixtures/invoices';
+
+const createInvoice = (overrides: Partial<InvoiceData> = {}): InvoiceData =>
+  createTestInvoice({ invoiceNumber: 'INV-0042', subtotal: 100, totalAmount: 120, ...overrides });
+
+const createStored = (data: StoredDocument['data'], overrides: Partial<StoredDocument> = {}): StoredDocument => ({
+  id: 'stored-1',
+  inputHash: 'previous-hash',
+  documentType: 'documentType' in data ? data.documentType : data.classification?.type || InvoiceType.UNKNOWN,
+  data,
+  version: 1,
+  createdAt: '2024-03-02T10:00:00.000Z',
+  updatedAt: '2024-03-02T10:00:00.000Z',
+  ...overrides
+});
+
+describe('Duplicate Detection', () => {
+  it('should fingerprint invoices regardless of formatting', () => {
+    const fingerprint = fingerprintInvoice(createInvoice());
+
+    expect(fingerprint).toMatchObject({ vendor: 'acme supplies', invoiceNumber: 'INV42', totalAmount: 120, currency: 'USD' });
+    expect(fingerprintInvoice(createInvoice({ vendorName: 'ACME Supplies', invoiceNumber: 'inv 42', currency: 'usd' })).key)
+      .toBe(fingerprint.key);
+    expect(fingerprintInvoice(createInvoice({ invoiceNumber: 'INV-43' })).key).not.toBe(fingerprint.key);
+  });
+
+  it('should report repeated inputs and re-scans with the same fields as exact duplicates', () => {
+    const stored = createStored(createInvoice());
+
+    expect(findPossibleDuplicates(createInvoice({ totalAmount: 999 }), [stored], 'previous-hash')).toEqual([{
+      documentId: 'stored-1',
+      score: 1,
+      reasons: [DuplicateReason.SAME_INPUT],
+      invoiceNumber: 'INV-0042',
+      vendorName: 'Acme Supplies Inc.',
+      totalAmount: 120,
+      currency: 'USD',
+      invoiceDate: '2024-03-01',
+      parsedAt: '2024-03-02T10:00:00.000Z'
+    }]);
+    expect(findPossibleDuplicates(createInvoice({ vendorName: 'ACME SUPPLIES' }), [stored], 'scan-hash')).toMatchObject([
+      { score: 1, reasons: [DuplicateReason.SAME_FINGERPRINT] }
+    ]);
+  });
+
+  it('should score near-duplicates by the signals they share', () => {
+    const stored = createStored(createInvoice());
+
+    // Same number written differently, read a day apart
+    const [renumbered] = findPossibleDuplicates(createInvoice({ invoiceNumber: 'inv.42', invoiceDate: '2024-03-02' }), [stored]);
+    expect(renumbered.reasons).toEqual([
+      DuplicateReason.SAME_INVOICE_NUMBER,
+      DuplicateReason.SAME_VENDOR,
+      DuplicateReason.SAME_AMOUNT,
+      DuplicateReason.CLOSE_DATE
+    ]);
+    expect(renumbered.score).toBeGreaterThan(0.9);
+
+    // Only the digits of the number match
+    const [similar] = findPossibleDuplicates(createInvoice({ invoiceNumber: 'AC-0042-B' }), [createStored(createInvoice({ invoiceNumber: 'INV-0042' }))]);
+    expect(similar.reasons).toContain(DuplicateReason.SAME_VENDOR);
+    expect(similar.reasons).not.toContain(DuplicateReason.SIMILAR_INVOICE_NUMBER);
+    const [digits] = findPossibleDuplicates(createInvoice({ invoiceNumber: 'AC-2024-0042' }), [createStored(createInvoice({ invoiceNumber: '2024/0042' }))]);
+    expect(digits.reasons).toContain(DuplicateReason.SIMILAR_INVOICE_NUMBER);
+
+    // Same vendor and amount a few days apart, with a number the model read differently
+    const [resent] = findPossibleDuplicates(createInvoice({ invoiceNumber: 'UNKNOWN', invoiceDate: '2024-03-04' }), [stored]);
+    expect(resent.reasons).toEqual([DuplicateReason.SAME_VENDOR, DuplicateReason.SAME_AMOUNT, DuplicateReason.CLOSE_DATE]);
+    expect(resent.score).toBeGreaterThanOrEqual(0.5);
+    expect(resent.score).toBeLessThan(0.6);
+
+    // Same vendor and amount a month later is a recurring charge, not a duplicate
+    expect(findPossibleDuplicates(createInvoice({ invoiceNumber: 'INV-0043', invoiceDate: '2024-04-01' }), [stored])).toEqual([]);
+  });
+
+  it('should keep credit notes and logistics documents apart from invoices', () => {
+    const creditNote = createInvoice({ totalAmount: -120, classification: { type: InvoiceType.CREDIT_NOTE, confidence: 0.9 } });
+    const documents = [
+      createStored(creditNote, { id: 'credit' }),
+      createStored({
+        documentType: LogisticsDocumentType.BILL_OF_LADING,
+        bolNumber: 'INV-0042',
+        shipDate: '2024-03-01',
+        shipper: { name: 'Acme Supplies Inc.' },
+        consignee: { name: 'Globex' },
+        carrier: { name: 'Fast Freight' },
+        handlingUnits: [],
+        hazmat: false
+      }, { id: 'bol', inputHash: 'same' })
+    ];
+
+    expect(findPossibleDuplicates(createInvoice(), documents, 'same')).toEqual([]);
+    expect(findPossibleDuplicates(creditNote, documents).map(duplicate => duplicate.documentId)).toEqual(['credit']);
+  });
+
+  it('should attach possible duplicates when saving a parsed invoice', () => {
+    const directory = mkdtempSync(path.join(os.tmpdir(), 'duplicates-'));
+    try {
+      const store = createDocumentStore(directory);
+      const first = saveParsedDocument({ input: 'INVOICE INV-0042', data: createInvoice() }, store);
+      expect(first?.data).toMatchObject({ possibleDuplicates: [] });
+
+      const second = saveParsedDocument({ input: 'INVOICE INV-0042', data: createInvoice() }, store);
+      expect(second?.data).toMatchObject({
+        possibleDuplicates: [{ documentId: first?.id, score: 1, reasons: [DuplicateReason.SAME_INPUT] }]
+      });
+    } finally {
+      rmSync(directory, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,19 @@
+import path from 'path';
+import { createProvider } from '../../llmProvider';
+import { FixtureMode, LLMProvider } from '../../llmTypes';
+
+// Recorded model responses for the end-to-end suites
+export const FIXTURE_DIRECTORY = path.join(__dirname, 'llm');
+
+/**
+ * Create the provider for suites that exercise the real prompts
+ * Responses are replayed from the recorded fixtures, so no network or API key is needed.
+ * Run with LLM_FIXTURE_MODE=record and a configured backend to record them again after changing a prompt.
+ * @returns Provider serving or recording fixtures
+ */
+export function createFixtureProvider(): LLMProvider {
+  return createProvider({
+    fixtureMode: (process.env.LLM_FIXTURE_MODE as FixtureMode | undefined) || FixtureMode.REPLAY,
+    fixtureDirectory: FIXTURE_DIRECTORY
+  });
+}
@@ -0,0 +1,20 @@
+import { InvoiceData, InvoiceType } from '../../types';
+
+/**
+ * Create a consistent standard invoice for the suites that need parsed data without a model
+ * @param overrides Fields that differ from the defaults
+ * @returns Invoice data
+ */
+export function createTestInvoice(overrides: Partial<InvoiceData> = {}): InvoiceData {
+  return {
+    invoiceNumber: 'INV-12345',
+    invoiceDate: '2024-03-01',
+    vendorName: 'Acme Supplies Inc.',
+    items: [],
+    subtotal: 1000,
+    totalAmount: 1000,
+    currency: 'USD',
+    classification: { type: InvoiceType.STANDARD, confidence: 0.9 },
+    ...overrides
+  };
+}
@@ -1,6 +1,8 @@
 import dotenv from 'dotenv';
-import { createOpenAIClient, classifyInvoice, InvoiceClassification, InvoiceType, parseInvoice } from '../invoiceParser';
-import OpenAI from 'openai';
+import { classifyInvoice, InvoiceType, parseInvoice } from '../invoiceParser';
+import { CompletionRequest, LLMProvider, LLMTask } from '../llmTypes';
+import { createFakeProvider } from '../fakeProvider';
+import { createFixtureProvider } from './fixtures/fixtureProvider';
 
 // Load environment variables from .env file
 dotenv.config();
@@ -143,171 +145,82 @@ const SAMPLE_INVOICES = {
   `
 };
 
-// Only mock OpenAI if we don't have a real API key
-const hasRealApiKey = !!process.env.OPENAI_API_KEY;
+describe('Invoice Classification', () => {
+  let provider: LLMProvider;
 
-if (!hasRealApiKey) {
-  console.log('No API key found, using mocks for tests');
-  // Mock the OpenAI client
-  jest.mock('openai', () => {
-    return jest.fn().mockImplementation(() => {
-      return {
-        chat: {
-          completions: {
-            create: jest.fn().mockResolvedValue({
-              choices: [
-                {
-                  message: {
-                    content: JSON.stringify({
-                      type: "unknown",
-                      confidence: 0
-                    })
-                  }
-                }
-              ]
-            })
-          }
-        }
-      };
-    });
-  });
-} else {
-  console.log('Using real OpenAI API key for tests');
-}
+  // Recording calls the real API, which can be slow
+  jest.setTimeout(30000);
 
-describe('Invoice Classification', () => {
-  let client: OpenAI;
-  const isRealApiTest = !!process.env.OPENAI_API_KEY;
-  
-  // Use longer timeout when using real API
-  jest.setTimeout(isRealApiTest ? 30000 : 5000);
-  
   beforeEach(() => {
-    // Use the API key from .env, or fall back to a fake key for testing
-    const apiKey = process.env.OPENAI_API_KEY || 'fake-api-key';
-    client = createOpenAIClient(apiKey);
-    
-    // Only clear mocks if we're not using a real API key
-    if (!isRealApiTest) {
-      jest.clearAllMocks();
-    }
+    // Replays recorded responses unless LLM_FIXTURE_MODE=record is set
+    provider = createFixtureProvider();
   });
-  
+
   it('should correctly classify a standard invoice', async () => {
-    const result = await classifyInvoice(client, SAMPLE_INVOICES.standard);
-    console.log(result);
-    
-    if (isRealApiTest) {
-      // With real API, just verify we get a reasonable classification with confidence
-      expect(result.type).toBeDefined();
-      expect(result.confidence).toBeGreaterThanOrEqual(0);
-    } else {
-      // With mocks, we test the expected implementation
-      expect(result.type).toBe(InvoiceType.STANDARD);
-      expect(result.confidence).toBeGreaterThan(0.7);
-    }
+    const result = await classifyInvoice(provider, SAMPLE_INVOICES.standard);
+
+    expect(result.type).toBe(InvoiceType.STANDARD);
+    expect(result.confidence).toBeGreaterThan(0.7);
   });
-  
+
   it('should correctly classify a purchase order', async () => {
-    const result = await classifyInvoice(client, SAMPLE_INVOICES.purchase_order);
-    
-    if (isRealApiTest) {
-      // With real API, just verify we get a reasonable classification with confidence
-      expect(result.type).toBeDefined();
-      expect(result.confidence).toBeGreaterThanOrEqual(0);
-    } else {
-      // With mocks, we test the expected implementation
-      expect(result.type).toBe(InvoiceType.PURCHASE_ORDER);
-      expect(result.confidence).toBeGreaterThan(0.7);
-    }
+    const result = await classifyInvoice(provider, SAMPLE_INVOICES.purchase_order);
+
+    expect(result.type).toBe(InvoiceType.PURCHASE_ORDER);
+    expect(result.confidence).toBeGreaterThan(0.7);
   });
-  
+
   it('should correctly classify a receipt', async () => {
-    const result = await classifyInvoice(client, SAMPLE_INVOICES.receipt);
-    
-    if (isRealApiTest) {
-      // With real API, just verify we get a reasonable classification with confidence
-      expect(result.type).toBeDefined();
-      expect(result.confidence).toBeGreaterThanOrEqual(0);
-    } else {
-      // With mocks, we test the expected implementation
-      expect(result.type).toBe(InvoiceType.RECEIPT);
-      expect(result.confidence).toBeGreaterThan(0.7);
-    }
+    const result = await classifyInvoice(provider, SAMPLE_INVOICES.receipt);
+
+    expect(result.type).toBe(InvoiceType.RECEIPT);
+    expect(result.confidence).toBeGreaterThan(0.7);
   });
-  
+
   it('should correctly classify a proforma invoice', async () => {
-    const result = await classifyInvoice(client, SAMPLE_INVOICES.proforma);
-    
-    if (isRealApiTest) {
-      // With real API, just verify we get a reasonable classification with confidence
-      expect(result.type).toBeDefined();
-      expect(result.confidence).toBeGreaterThanOrEqual(0);
-    } else {
-      // With mocks, we test the expected implementation
-      expect(result.type).toBe(InvoiceType.PROFORMA);
-      expect(result.confidence).toBeGreaterThan(0.7);
-    }
+    const result = await classifyInvoice(provider, SAMPLE_INVOICES.proforma);
+
+    expect(result.type).toBe(InvoiceType.PROFORMA);
+    expect(result.confidence).toBeGreaterThan(0.7);
+    // A proforma reads much like a standard invoice
+    expect(result.possibleTypes).toEqual([InvoiceType.STANDARD]);
+    expect(result.metadata?.indicators).toContain('PROFORMA INVOICE');
   });
-  
+
   it('should correctly classify a credit note', async () => {
-    const result = await classifyInvoice(client, SAMPLE_INVOICES.credit_note);
-    
-    if (isRealApiTest) {
-      // With real API, just verify we get a reasonable classification with confidence
-      expect(result.type).toBeDefined();
-      expect(result.confidence).toBeGreaterThanOrEqual(0);
-    } else {
-      // With mocks, we test the expected implementation
-      expect(result.type).toBe(InvoiceType.CREDIT_NOTE);
-      expect(result.confidence).toBeGreaterThan(0.7);
-    }
+    const result = await classifyInvoice(provider, SAMPLE_INVOICES.credit_note);
+
+    expect(result.type).toBe(InvoiceType.CREDIT_NOTE);
+    expect(result.confidence).toBeGreaterThan(0.7);
   });
-  
+
   // This test verifies that classification is integrated with parsing
   it('should include classification data in parsed invoice', async () => {
-    // Set up a standard invoice for testing
-    const invoiceText = SAMPLE_INVOICES.standard;
-    
-    if (isRealApiTest) {
-      // When using a real API key, test the actual integration
-      // First classify the invoice
-      const classificationResult = await classifyInvoice(client, invoiceText);
-      expect(classificationResult).toBeDefined();
-      
-      // Then parse the invoice with classification
-      const parseResult = await parseInvoice(client, invoiceText, false);
-      
-      // Verify classification data is attached to the parsed result
-      expect(parseResult.classification).toBeDefined();
-      if (parseResult.classification) {
-        expect(parseResult.classification.type).toBeDefined();
-        expect(parseResult.classification.confidence).toBeGreaterThanOrEqual(0);
-      }
-    } else {
-      // Mock the classifyInvoice function to return a specific classification
-      jest.spyOn(require('../invoiceParser'), 'classifyInvoice').mockImplementation(() => {
-        return Promise.resolve({
-          type: InvoiceType.STANDARD,
-          confidence: 0.9,
-          metadata: { source: 'test' }
-        });
-      });
-      
-      // Import parseInvoice dynamically to get the mocked version
-      const { parseInvoice } = require('../invoiceParser');
-      
-      // Parse the invoice
-      const result = await parseInvoice(client, invoiceText);
-      
-      // Verify the classification data is included in the result
-      expect(result.classification).toBeDefined();
-      expect(result.classification?.type).toBe(InvoiceType.STANDARD);
-      expect(result.classification?.confidence).toBe(0.9);
-      expect(result.classification?.metadata).toEqual({ source: 'test' });
-      
-      // Restore the original implementation
-      jest.restoreAllMocks();
-    }
+    const result = await parseInvoice(provider, SAMPLE_INVOICES.standard);
+
+    // Verify the classification data is included in the result
+    expect(result.classification).toBeDefined();
+    expect(result.classification?.type).toBe(InvoiceType.STANDARD);
+    expect(result.classification?.confidence).toBeGreaterThan(0.7);
+
+    // Verify the extraction ran on the same document
+    expect(result.invoiceNumber).toBe('INV-12345');
+    expect(result.vendorName).toBe('Acme Supplies');
+    expect(result.totalAmount).toBe(10800);
+    expect(result.validation?.valid).toBe(true);
+  });
+
+  it('should parse as the given type without classifying', async () => {
+    const requests: CompletionRequest[] = [];
+    const fake = createFakeProvider(request => {
+      requests.push(request);
+      return JSON.stringify({ invoiceNumber: 'PF-789', vendorName: 'Acme Supplies', totalAmount: 1080, currency: 'USD', items: [] });
+    });
+
+    const result = await parseInvoice(fake, SAMPLE_INVOICES.standard, false, InvoiceType.PROFORMA);
+
+    expect(requests.map(request => request.task)).toEqual([LLMTask.EXTRACTION]);
+    expect(requests[0].messages[0].content).toContain('This is a PROFORMA type invoice.');
+    expect(result.classification).toEqual({ type: InvoiceType.PROFORMA, confidence: 1, metadata: { overridden: true } });
   });
 });
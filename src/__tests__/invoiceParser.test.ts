@@ -7,11 +7,15 @@ jest.mock('openai', () => {
     return {
       chat: {
         completions: {
-          create: jest.fn().mockResolvedValue({
+          // Classification requests get a classification, extraction requests the invoice
+          create: jest.fn().mockImplementation(async ({ messages }: { messages: Array<{ content: unknown }> }) => ({
             choices: [
               {
                 message: {
-                  content: JSON.stringify({
+                  content: String(messages[0].content).includes('invoice classifier') ? JSON.stringify({
+                    type: 'standard',
+                    confidence: 0.95
+                  }) : JSON.stringify({
                     invoiceNumber: 'INV-12345',
                     invoiceDate: '2023-04-15',
                     dueDate: '2023-05-15',
@@ -42,7 +46,7 @@ jest.mock('openai', () => {
                 }
               }
             ]
-          })
+          }))
         }
       }
     };
@@ -125,6 +129,6 @@ describe('Invoice Parser', () => {
     const mockClient = createOpenAIClient('fake-api-key');
     const invoiceText = 'Invalid invoice content';
     
-    await expect(parseInvoice(mockClient, invoiceText)).rejects.toThrow('No content returned from OpenAI');
+    await expect(parseInvoice(mockClient, invoiceText)).rejects.toThrow('No content returned from the openai provider for the classification request');
   });
 });
@@ -0,0 +1,192 @@
+import { createJobQueue, JobKind, JobStatus } from '../jobQueue';
+import { createDocumentStore } from '../documentStore';
+import { fakeResponder } from '../fakeProvider';
+import { CompletionRequest, LLMProvider, ProviderKind } from '../llmTypes';
+import { mkdtempSync, readdirSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import os from 'os';
+import path from 'path';
+
+const INVOICE_TEXT = 'INVOICE\nInvoice #: INV-100\nDate: 2024-01-15\nTotal: $120.00';
+
+/**
+ * Create a provider whose responses are released by the test, one request at a time
+ */
+const createControlledProvider = () => {
+  const releases: Array<() => void> = [];
+  const provider: LLMProvider = {
+    kind: ProviderKind.FAKE,
+    complete: jest.fn((request: CompletionRequest) => new Promise(resolve => {
+      releases.push(() => resolve({ content: fakeResponder(request), model: 'fake' }));
+    }))
+  };
+  const releaseAll = async () => {
+    // Each document makes several calls, so keep releasing until the queue stops asking
+    for (let round = 0; round < 20; round++) {
+      releases.splice(0).forEach(release => release());
+      await new Promise(resolve => setImmediate(resolve));
+    }
+  };
+  return { provider, releases, releaseAll };
+};
+
+/**
+ * Let pending promise callbacks run
+ */
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+describe('Job Queue', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(path.join(os.tmpdir(), 'jobs-'));
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should run a text job and persist its result without the input', async () => {
+    const { provider, releaseAll } = createControlledProvider();
+    const queue = createJobQueue({ directory, client: provider });
+
+    const job = queue.submit(JobKind.TEXT, [{ invoiceText: INVOICE_TEXT }]);
+    expect(job.progress).toEqual({ completed: 0, total: 1 });
+
+    await flush();
+    expect(queue.get(job.id)?.status).toBe(JobStatus.RUNNING);
+
+    await releaseAll();
+    await queue.idle();
+
+    const finished = queue.get(job.id);
+    expect(finished?.status).toBe(JobStatus.SUCCEEDED);
+    expect(finished?.progress).toEqual({ completed: 1, total: 1 });
+    expect(finished?.results[0].data?.invoiceNumber).toBe('INV-100');
+
+    const stored = JSON.parse(readFileSync(path.join(directory, `${job.id}.json`), 'utf8'));
+    expect(stored.status).toBe(JobStatus.SUCCEEDED);
+    expect(stored.documents).toBeUndefined();
+    expect(readdirSync(directory)).toEqual([`${job.id}.json`]);
+  });
+
+  it('should report per-document errors without failing a batch and keep parsed documents', async () => {
+    const provider: LLMProvider = {
+      kind: ProviderKind.FAKE,
+      complete: async (request: CompletionRequest) => {
+        if (JSON.stringify(request.messages).includes('BROKEN')) {
+          throw new Error('Upstream error');
+        }
+        return { content: fakeResponder(request), model: 'fake' };
+      }
+    };
+    const store = createDocumentStore(path.join(directory, 'documents'));
+    const queue = createJobQueue({ directory, client: provider, store });
+
+    const batch = queue.submit(JobKind.BATCH, [
+      { invoiceText: INVOICE_TEXT },
+      { invoiceText: 'BROKEN', skipClassification: true },
+      { invoiceText: INVOICE_TEXT.replace('INV-100', 'INV-101') },
+      // Queued without a MIME type, so its content is checked before it reaches the model
+      { base64Image: Buffer.from('not an image').toString('base64') }
+    ]);
+    const single = queue.submit(JobKind.TEXT, [{ invoiceText: 'BROKEN', skipClassification: true }]);
+    await queue.idle();
+
+    const finishedBatch = queue.get(batch.id);
+    expect(finishedBatch?.status).toBe(JobStatus.SUCCEEDED);
+    expect(finishedBatch?.results.map(result => result.data?.invoiceNumber ?? result.error)).toEqual([
+      'INV-100',
+      'Upstream error',
+      'INV-101',
+      'The file is not a PNG, JPEG, GIF, WebP, TIFF, HEIC or PDF file'
+    ]);
+    expect(queue.get(single.id)).toMatchObject({ status: JobStatus.FAILED, error: 'Upstream error' });
+
+    // Parsed documents are kept in the store, failed ones are not
+    const documentId = finishedBatch?.results[0].documentId as string;
+    expect(store.get(documentId)?.source).toBe(`job ${batch.id}`);
+    expect(finishedBatch?.results[1].documentId).toBeUndefined();
+    expect(store.list().total).toBe(2);
+  });
+
+  it('should limit concurrency and cancel queued and running jobs', async () => {
+    const { provider, releases, releaseAll } = createControlledProvider();
+    const queue = createJobQueue({ directory, client: provider, concurrency: 1 });
+
+    const first = queue.submit(JobKind.BATCH, [
+      { invoiceText: INVOICE_TEXT, skipClassification: true },
+      { invoiceText: INVOICE_TEXT, skipClassification: true }
+    ]);
+    const second = queue.submit(JobKind.TEXT, [{ invoiceText: INVOICE_TEXT }]);
+    const third = queue.submit(JobKind.TEXT, [{ invoiceText: INVOICE_TEXT }]);
+    await flush();
+
+    // Only the first job is talking to the model
+    expect(releases).toHaveLength(1);
+    expect(queue.get(second.id)?.status).toBe(JobStatus.QUEUED);
+
+    expect(queue.cancel(second.id)?.status).toBe(JobStatus.CANCELLED);
+    expect(queue.cancel(first.id)?.status).toBe(JobStatus.CANCELLED);
+
+    await releaseAll();
+    await queue.idle();
+
+    // The document in flight when the first job was cancelled is discarded
+    expect(queue.get(first.id)).toMatchObject({ status: JobStatus.CANCELLED, results: [] });
+    expect(queue.get(second.id)?.status).toBe(JobStatus.CANCELLED);
+    expect(queue.get(third.id)?.status).toBe(JobStatus.SUCCEEDED);
+    expect(queue.cancel('missing')).toBeUndefined();
+  });
+
+  it('should resume unfinished jobs after a restart', async () => {
+    const provider: LLMProvider = {
+      kind: ProviderKind.FAKE,
+      complete: jest.fn(async (request: CompletionRequest) => ({ content: fakeResponder(request), model: 'fake' }))
+    };
+    writeFileSync(path.join(directory, 'interrupted.json'), JSON.stringify({
+      id: 'interrupted',
+      kind: JobKind.BATCH,
+      status: JobStatus.RUNNING,
+      progress: { completed: 1, total: 2 },
+      results: [{ index: 0, data: { invoiceNumber: 'INV-099' } }],
+      createdAt: '2024-01-01T00:00:00.000Z',
+      updatedAt: '2024-01-01T00:00:00.000Z',
+      documents: [
+        { invoiceText: 'already parsed', skipClassification: true },
+        { invoiceText: INVOICE_TEXT, skipClassification: true }
+      ]
+    }));
+    writeFileSync(path.join(directory, 'broken.json'), '{');
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    const queue = createJobQueue({ directory, client: provider });
+    await queue.idle();
+
+    const job = queue.get('interrupted');
+    expect(job?.status).toBe(JobStatus.SUCCEEDED);
+    expect(job?.results.map(result => result.data?.invoiceNumber)).toEqual(['INV-099', 'INV-100']);
+    // Only the second document was parsed again
+    expect(provider.complete).toHaveBeenCalledTimes(1);
+  });
+
+  it('should delete finished jobs once their retention period has passed', async () => {
+    const { provider, releaseAll } = createControlledProvider();
+    const queue = createJobQueue({ directory, client: provider, retentionMs: 0 });
+
+    const finished = queue.submit(JobKind.TEXT, [{ invoiceText: INVOICE_TEXT }]);
+    await releaseAll();
+    await queue.idle();
+    expect(readdirSync(directory)).toEqual([`${finished.id}.json`]);
+
+    // Jobs that haven't finished are kept
+    const next = queue.submit(JobKind.TEXT, [{ invoiceText: INVOICE_TEXT }]);
+    expect(queue.get(finished.id)).toBeUndefined();
+    expect(readdirSync(directory)).toEqual([`${next.id}.json`]);
+
+    await releaseAll();
+    await queue.idle();
+    // A restarted queue deletes the jobs that expired in the meantime
+    createJobQueue({ directory, client: provider, retentionMs: 0 });
+    expect(readdirSync(directory)).toEqual([]);
+  });
+});
@@ -0,0 +1,92 @@
+import { createRecordingProvider, createReplayProvider, getFixturePath, hashRequest, LLMFixture } from '../llmFixtures';
+import { createFakeProvider } from '../fakeProvider';
+import { createProvider } from '../llmProvider';
+import { CompletionRequest, CompletionResponse, FixtureMode, LLMTask, ProviderKind } from '../llmTypes';
+import { mkdtempSync, readdirSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+
+const REQUEST: CompletionRequest = {
+  task: LLMTask.IMAGE_EXTRACTION,
+  messages: [
+    { role: 'system', content: 'Extract the invoice.' },
+    { role: 'user', content: [{ type: 'text', text: 'Parse this image' }, { type: 'image', mimeType: 'image/png', data: 'AAAA' }] }
+  ],
+  jsonResponse: true,
+  temperature: 0
+};
+
+describe('LLM Fixtures', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(path.join(tmpdir(), 'llm-fixtures-'));
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should hash requests independently of key order', () => {
+    const reordered: CompletionRequest = {
+      temperature: 0,
+      jsonResponse: true,
+      messages: REQUEST.messages,
+      task: LLMTask.IMAGE_EXTRACTION
+    };
+
+    expect(hashRequest(reordered)).toBe(hashRequest(REQUEST));
+    expect(hashRequest({ ...REQUEST, temperature: 0.5 })).not.toBe(hashRequest(REQUEST));
+  });
+
+  it('should record request/response pairs and replay them', async () => {
+    const responder = jest.fn().mockReturnValue('{"invoiceNumber":"INV-1"}');
+    const recorder = createRecordingProvider(createFakeProvider(responder), directory);
+
+    const recorded = await recorder.complete(REQUEST);
+    const replayed = await createReplayProvider(directory).complete(REQUEST);
+
+    expect(replayed).toEqual(recorded);
+    expect(responder).toHaveBeenCalledTimes(1);
+    expect(readdirSync(directory)).toEqual([path.basename(getFixturePath(directory, REQUEST))]);
+  });
+
+  it('should pass the abort signal on while recording', async () => {
+    const complete = jest.fn<Promise<CompletionResponse>, [CompletionRequest, AbortSignal?]>().mockResolvedValue({ content: '{}', model: 'test' });
+    const controller = new AbortController();
+
+    await createRecordingProvider({ kind: ProviderKind.FAKE, complete }, directory).complete(REQUEST, controller.signal);
+
+    expect(complete).toHaveBeenCalledWith(REQUEST, controller.signal);
+  });
+
+  it('should store image hashes rather than image data', async () => {
+    await createRecordingProvider(createFakeProvider(() => '{}'), directory).complete(REQUEST);
+
+    const fixture = JSON.parse(readFileSync(getFixturePath(directory, REQUEST), 'utf8')) as LLMFixture;
+    expect(fixture.hash).toBe(hashRequest(REQUEST));
+    expect(fixture.request.messages[1].content).toEqual([
+      { type: 'text', text: 'Parse this image' },
+      { type: 'image', mimeType: 'image/png', data: expect.stringMatching(/^sha256:[0-9a-f]{64}$/) }
+    ]);
+  });
+
+  it('should fail loudly when a request was not recorded', async () => {
+    await expect(createReplayProvider(directory).complete(REQUEST))
+      .rejects.toThrow(`No recorded fixture for image_extraction request ${hashRequest(REQUEST)}`);
+  });
+
+  it('should replay without an API key when selected through createProvider', async () => {
+    const originalKey = process.env.OPENAI_API_KEY;
+    delete process.env.OPENAI_API_KEY;
+
+    try {
+      const provider = createProvider({ fixtureMode: FixtureMode.REPLAY, fixtureDirectory: directory });
+      expect(provider.kind).toBe(ProviderKind.REPLAY);
+    } finally {
+      if (originalKey !== undefined) {
+        process.env.OPENAI_API_KEY = originalKey;
+      }
+    }
+  });
+});
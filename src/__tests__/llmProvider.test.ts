@@ -0,0 +1,143 @@
+import { classifyInvoice, InvoiceType, parseInvoice } from '../invoiceParser';
+import { createFakeProvider } from '../fakeProvider';
+import { createOpenAIProvider, createProvider, toProvider } from '../llmProvider';
+import { LLMTask, ProviderKind } from '../llmTypes';
+import OpenAI from 'openai';
+
+const SAMPLE_INVOICE = `
+    INVOICE
+    Invoice #: INV-12345
+    Date: April 15, 2023
+    Due Date: May 15, 2023
+
+    From:
+    Acme Supplies
+    123 Business St
+
+    To:
+    Tech Solutions Inc
+    456 Innovation Ave
+
+    ITEMS:
+    Web Development Services | 40 hours | $150/hr | $6,000
+    UI/UX Design | 20 hours | $200/hr | $4,000
+
+    Subtotal: $10,000
+    Tax (8%): $800
+    Total: $10,800
+
+    Payment Terms: Net 30
+  `;
+
+describe('LLM Provider', () => {
+  describe('fake provider', () => {
+    it('should classify documents by keywords', async () => {
+      const provider = createFakeProvider();
+
+      const result = await classifyInvoice(provider, SAMPLE_INVOICE);
+      expect(result.type).toBe(InvoiceType.STANDARD);
+      expect(result.confidence).toBeGreaterThan(0.7);
+
+      const creditNote = await classifyInvoice(provider, 'CREDIT NOTE\nCredit Note #: CN-3456\nTotal Credit: $1,080');
+      expect(creditNote.type).toBe(InvoiceType.CREDIT_NOTE);
+    });
+
+    it('should extract invoice fields without a network', async () => {
+      const result = await parseInvoice(createFakeProvider(), SAMPLE_INVOICE);
+
+      expect(result.invoiceNumber).toBe('INV-12345');
+      expect(result.vendorName).toBe('Acme Supplies');
+      expect(result.customerName).toBe('Tech Solutions Inc');
+      expect(result.items).toHaveLength(2);
+      expect(result.items[0]).toMatchObject({
+        description: 'Web Development Services',
+        quantity: 40,
+        unitPrice: 150,
+        amount: 6000
+      });
+      expect(result.subtotal).toBe(10000);
+      expect(result.taxAmount).toBe(800);
+      expect(result.totalAmount).toBe(10800);
+      expect(result.currency).toBe('USD');
+      expect(result.classification?.type).toBe(InvoiceType.STANDARD);
+    });
+
+    it('should use a custom responder when given one', async () => {
+      const responder = jest.fn().mockReturnValue(JSON.stringify({ invoiceNumber: 'CUSTOM-1', vendorName: 'Custom' }));
+      const result = await parseInvoice(createFakeProvider(responder), SAMPLE_INVOICE, true);
+
+      expect(result.invoiceNumber).toBe('CUSTOM-1');
+      expect(responder).toHaveBeenCalledTimes(1);
+      expect(responder.mock.calls[0][0].task).toBe(LLMTask.EXTRACTION);
+    });
+  });
+
+  describe('OpenAI provider', () => {
+    const createMockClient = () => {
+      const create = jest.fn().mockResolvedValue({
+        choices: [{ message: { content: '{"type":"receipt","confidence":0.9}' } }]
+      });
+      return { client: { chat: { completions: { create } } } as unknown as OpenAI, create };
+    };
+
+    it('should translate requests to the chat completions API', async () => {
+      const { client, create } = createMockClient();
+      const provider = createOpenAIProvider(client, { model: 'text-model', visionModel: 'vision-model' });
+
+      await provider.complete({
+        task: LLMTask.IMAGE_EXTRACTION,
+        messages: [{ role: 'user', content: [{ type: 'image', mimeType: 'image/png', data: 'AAAA' }] }],
+        jsonResponse: true
+      });
+
+      expect(create).toHaveBeenCalledWith({
+        model: 'vision-model',
+        messages: [{ role: 'user', content: [{ type: 'image_url', image_url: { url: 'data:image/png;base64,AAAA' } }] }],
+        response_format: { type: 'json_object' },
+        temperature: 0
+      }, { signal: expect.any(AbortSignal), maxRetries: 0 });
+    });
+
+    it('should accept a raw OpenAI client in place of a provider', async () => {
+      const { client, create } = createMockClient();
+
+      const result = await classifyInvoice(client, 'RECEIPT');
+      expect(result.type).toBe(InvoiceType.RECEIPT);
+      expect(create.mock.calls[0][0].model).toBe(process.env.OPENAI_MODEL || 'gpt-4o');
+    });
+
+    it('should pass providers through unchanged', () => {
+      const provider = createFakeProvider();
+      expect(toProvider(provider)).toBe(provider);
+    });
+  });
+
+  describe('createProvider', () => {
+    const originalEnv = process.env;
+
+    beforeEach(() => {
+      process.env = { ...originalEnv };
+      delete process.env.LLM_PROVIDER;
+      delete process.env.OPENAI_BASE_URL;
+      delete process.env.OPENAI_API_KEY;
+    });
+
+    afterAll(() => {
+      process.env = originalEnv;
+    });
+
+    it('should select the fake backend from the environment', () => {
+      process.env.LLM_PROVIDER = 'fake';
+      expect(createProvider().kind).toBe(ProviderKind.FAKE);
+    });
+
+    it('should select an OpenAI-compatible backend when a base URL is set', () => {
+      process.env.OPENAI_BASE_URL = 'http://localhost:11434/v1';
+      expect(createProvider().kind).toBe(ProviderKind.OPENAI_COMPATIBLE);
+    });
+
+    it('should require an API key for the OpenAI backend', () => {
+      expect(() => createProvider()).toThrow('OpenAI API key is required');
+    });
+  });
+});
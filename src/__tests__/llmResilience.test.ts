@@ -0,0 +1,223 @@
+import { APIConnectionError, APIError } from 'openai/error';
+import OpenAI from 'openai';
+import { createResilientProvider, ResilienceOptions } from '../llmResilience';
+import { createOpenAIProvider } from '../llmProvider';
+import { classifyInvoice } from '../invoiceParser';
+import {
+  AuthenticationError,
+  describeError,
+  InvalidInputError,
+  ParserErrorCode,
+  ProviderConfigurationError,
+  RateLimitError,
+  UpstreamUnavailableError
+} from '../errors';
+import { CompletionRequest, CompletionResponse, LLMProvider, LLMTask, ProviderKind } from '../llmTypes';
+
+const REQUEST: CompletionRequest = {
+  task: LLMTask.CLASSIFICATION,
+  messages: [{ role: 'user', content: 'INVOICE INV-1' }]
+};
+
+const RESPONSE: CompletionResponse = { content: '{}', model: 'test' };
+
+// Each test gets its own circuit, so failures don't carry over
+let circuitNumber = 0;
+
+function createResilient(
+  complete: jest.Mock<Promise<CompletionResponse>, [CompletionRequest, AbortSignal?]>,
+  options: ResilienceOptions = {}
+) {
+  const sleeps: number[] = [];
+  const inner: LLMProvider = { kind: ProviderKind.FAKE, complete };
+  const provider = createResilientProvider(inner, {
+    baseDelayMs: 100,
+    random: () => 0.5,
+    sleep: async ms => { sleeps.push(ms); },
+    circuitKey: `test-${++circuitNumber}`,
+    ...options
+  });
+  return { provider, sleeps };
+}
+
+const apiError = (status: number, headers: Record<string, string> = {}) =>
+  APIError.generate(status, undefined, `Error ${status}`, headers);
+
+describe('LLM Resilience', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should retry rate limits and upstream failures with backoff, honoring Retry-After', async () => {
+    const complete = jest.fn<Promise<CompletionResponse>, [CompletionRequest, AbortSignal?]>()
+      .mockRejectedValueOnce(apiError(429, { 'retry-after': '2' }))
+      .mockRejectedValueOnce(apiError(503))
+      .mockRejectedValueOnce(new APIConnectionError({ message: 'fetch failed' }))
+      .mockResolvedValue(RESPONSE);
+    const { provider, sleeps } = createResilient(complete);
+
+    await expect(provider.complete(REQUEST)).resolves.toEqual(RESPONSE);
+
+    // Retry-After first, then 200 ms and 400 ms of backoff jittered to three quarters
+    expect(sleeps).toEqual([2000, 150, 300]);
+    expect(complete).toHaveBeenCalledTimes(4);
+    expect(complete.mock.calls[0][1]).toBeInstanceOf(AbortSignal);
+  });
+
+  it('should fail right away on authentication, input and configuration errors', async () => {
+    const complete = jest.fn<Promise<CompletionResponse>, [CompletionRequest, AbortSignal?]>()
+      .mockRejectedValueOnce(apiError(401))
+      .mockRejectedValueOnce(APIError.generate(400, { error: { code: 'image_parse_error' } }, 'Error 400', {}))
+      .mockRejectedValueOnce(apiError(413))
+      .mockRejectedValueOnce(apiError(404))
+      .mockRejectedValueOnce(apiError(400))
+      .mockRejectedValueOnce(apiError(422));
+    const { provider, sleeps } = createResilient(complete);
+
+    await expect(provider.complete(REQUEST)).rejects.toBeInstanceOf(AuthenticationError);
+    await expect(provider.complete(REQUEST)).rejects.toBeInstanceOf(InvalidInputError);
+    await expect(provider.complete(REQUEST)).rejects.toBeInstanceOf(InvalidInputError);
+    // Not about the document, so not a 400 for the client
+    for (let call = 0; call < 3; call++) {
+      const error = await provider.complete(REQUEST).catch((caught: unknown) => caught);
+      expect(error).toBeInstanceOf(ProviderConfigurationError);
+      expect(describeError(error)).toMatchObject({ status: 500, code: ParserErrorCode.PROVIDER_MISCONFIGURED });
+    }
+    expect(complete).toHaveBeenCalledTimes(6);
+    expect(sleeps).toEqual([]);
+  });
+
+  it('should give up once the retries run out or Retry-After is too long', async () => {
+    const complete = jest.fn<Promise<CompletionResponse>, [CompletionRequest, AbortSignal?]>()
+      .mockRejectedValueOnce(apiError(500))
+      .mockRejectedValueOnce(apiError(502))
+      .mockRejectedValueOnce(apiError(503))
+      .mockRejectedValueOnce(apiError(429, { 'retry-after-ms': '120000' }));
+    const { provider, sleeps } = createResilient(complete, { maxRetries: 2, maxDelayMs: 60000 });
+
+    await expect(provider.complete(REQUEST)).rejects.toThrow('The model provider failed: 503 Error 503');
+    expect(sleeps).toEqual([75, 150]);
+
+    const error = await provider.complete(REQUEST).catch((caught: unknown) => caught);
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect(describeError(error)).toEqual({
+      status: 429,
+      code: ParserErrorCode.RATE_LIMITED,
+      message: 'The model provider is rate limiting requests: 429 Error 429',
+      retryAfterSeconds: 120
+    });
+    expect(complete).toHaveBeenCalledTimes(4);
+  });
+
+  it('should time out slow calls and abort them', async () => {
+    let signal: AbortSignal | undefined;
+    const complete = jest.fn<Promise<CompletionResponse>, [CompletionRequest, AbortSignal?]>((_, abortSignal) => {
+      signal = abortSignal;
+      return new Promise(() => undefined);
+    });
+    const { provider } = createResilient(complete, { timeoutMs: 10, maxRetries: 0 });
+
+    await expect(provider.complete(REQUEST)).rejects.toThrow(
+      new UpstreamUnavailableError('The model provider did not answer the classification request within 10 ms')
+    );
+    expect(signal?.aborted).toBe(true);
+  });
+
+  it('should abort the call in flight and stop retrying when the caller aborts', async () => {
+    let signal: AbortSignal | undefined;
+    const complete = jest.fn<Promise<CompletionResponse>, [CompletionRequest, AbortSignal?]>((_, abortSignal) => {
+      signal = abortSignal;
+      return new Promise(() => undefined);
+    });
+    const { provider } = createResilient(complete);
+    const caller = new AbortController();
+
+    const call = provider.complete(REQUEST, caller.signal);
+    caller.abort(new Error('Request cancelled'));
+
+    await expect(call).rejects.toThrow('Request cancelled');
+    expect(signal?.aborted).toBe(true);
+
+    // An abort during the backoff ends the wait, and no further attempt is made
+    const failing = jest.fn<Promise<CompletionResponse>, [CompletionRequest, AbortSignal?]>().mockRejectedValue(apiError(503));
+    const retrying = new AbortController();
+    const { provider: retryingProvider } = createResilient(failing, {
+      sleep: () => {
+        retrying.abort(new Error('Request cancelled'));
+        return new Promise(() => undefined);
+      }
+    });
+
+    await expect(retryingProvider.complete(REQUEST, retrying.signal)).rejects.toThrow('Request cancelled');
+    expect(failing).toHaveBeenCalledTimes(1);
+    await expect(retryingProvider.complete(REQUEST, retrying.signal)).rejects.toThrow('Request cancelled');
+    expect(failing).toHaveBeenCalledTimes(1);
+  });
+
+  it('should open the circuit after consecutive upstream failures', async () => {
+    let now = 0;
+    let answerTrial: (response: CompletionResponse) => void = () => undefined;
+    const complete = jest.fn<Promise<CompletionResponse>, [CompletionRequest, AbortSignal?]>()
+      .mockRejectedValueOnce(apiError(503))
+      .mockRejectedValueOnce(apiError(504))
+      .mockRejectedValueOnce(apiError(503))
+      .mockImplementationOnce(() => new Promise(resolve => { answerTrial = resolve; }))
+      .mockResolvedValue(RESPONSE);
+    const { provider } = createResilient(complete, {
+      maxRetries: 0,
+      failureThreshold: 2,
+      resetTimeoutMs: 30000,
+      now: () => now
+    });
+
+    await expect(provider.complete(REQUEST)).rejects.toBeInstanceOf(UpstreamUnavailableError);
+    await expect(provider.complete(REQUEST)).rejects.toBeInstanceOf(UpstreamUnavailableError);
+
+    // Open: calls fail without reaching the backend
+    now = 10000;
+    await expect(provider.complete(REQUEST)).rejects.toThrow(
+      'The model provider failed 2 times in a row; calls are paused for another 20 s'
+    );
+    expect(complete).toHaveBeenCalledTimes(2);
+
+    // After the reset timeout a single trial call goes through, and its failure opens the circuit again
+    now = 30000;
+    await expect(provider.complete(REQUEST)).rejects.toThrow('The model provider failed: 503 Error 503');
+    await expect(provider.complete(REQUEST)).rejects.toThrow('calls are paused for another 30 s');
+    expect(complete).toHaveBeenCalledTimes(3);
+
+    // Other calls keep failing while the next trial is in flight
+    now = 60000;
+    const trial = provider.complete(REQUEST);
+    await expect(provider.complete(REQUEST)).rejects.toThrow(
+      'The model provider failed 3 times in a row; calls are paused until a trial call succeeds'
+    );
+    expect(complete).toHaveBeenCalledTimes(4);
+
+    // The trial's success closes the circuit
+    answerTrial(RESPONSE);
+    await expect(trial).resolves.toEqual(RESPONSE);
+    await expect(provider.complete(REQUEST)).resolves.toEqual(RESPONSE);
+    await expect(provider.complete(REQUEST)).resolves.toEqual(RESPONSE);
+    expect(complete).toHaveBeenCalledTimes(6);
+  });
+
+  it('should report classification failures instead of guessing unknown', async () => {
+    const create = jest.fn().mockRejectedValue(apiError(503));
+    const client = { baseURL: 'https://example.test/v1', chat: { completions: { create } } } as unknown as OpenAI;
+    const provider = createOpenAIProvider(client, { resilience: { maxRetries: 0, circuitKey: `test-${++circuitNumber}` } });
+
+    const error = await classifyInvoice(provider, 'INVOICE INV-1').catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(UpstreamUnavailableError);
+    expect(describeError(error)).toMatchObject({ status: 502, code: ParserErrorCode.UPSTREAM_UNAVAILABLE });
+    // The SDK's own retries are off, and the call can be aborted
+    expect(create).toHaveBeenCalledWith(expect.any(Object), { signal: expect.any(AbortSignal), maxRetries: 0 });
+
+    expect(describeError(new Error('Disk full'))).toEqual({ status: 500, code: ParserErrorCode.INTERNAL_ERROR, message: 'Disk full' });
+  });
+});
@@ -0,0 +1,128 @@
+import path from 'path';
+import { parseDocuments } from '../imageParser';
+import { isBillOfLading, isDeliveryReceipt } from '../logisticsParser';
+import { createFakeProvider } from '../fakeProvider';
+import { CompletionRequest, LLMTask } from '../llmTypes';
+import { InvoiceType, LogisticsDocumentType } from '../types';
+
+const sampleBasePath = path.resolve(__dirname, '../../');
+const billOfLadingPath = path.join(sampleBasePath, 'Sample-BillOfLading-1.png');
+const deliveryReceiptPath = path.join(sampleBasePath, 'Sample-DeliveryReceipt-1.png');
+const invoicePath = path.join(sampleBasePath, 'Sample-Invoice-1.png');
+
+// Canned model responses for each sample file
+const RESPONSES: Record<string, { classification: object; extraction: object }> = {
+  [billOfLadingPath]: {
+    classification: { documentType: 'BILL_OF_LADING', confidence: 0.93, metadata: { documentId: '78910', dateIssued: '12-12-05', issuer: 'Mamo Transportation, Inc.', pages: [1] } },
+    extraction: {
+      bolNumber: '78910',
+      shipDate: '12-12-05',
+      shipper: { name: 'ABC Company', address: '100 Main Street, Salt Lake City, Utah', phone: '800-564-9992' },
+      consignee: { name: '123 Firm', address: '642 Maple Lane, Boston, MA', phone: '800-304-4000' },
+      carrier: { name: 'Mamo Transportation, Inc.', driverName: 'Joseph Driver', vehicleId: 'W55967' },
+      handlingUnits: [
+        { quantity: 2, packageType: 'pallet', weight: 1200, freightClass: '70', hazmat: false },
+        { quantity: 1, packageType: 'drum', weight: 300, hazmat: true }
+      ],
+      weightUnit: 'lb',
+      hazmat: false
+    }
+  },
+  [deliveryReceiptPath]: {
+    classification: { documentType: 'DELIVERY_RECEIPT', confidence: 0.91, metadata: { documentId: '14896', dateIssued: 'Mon, Feb 08, 2016' } },
+    extraction: {
+      receiptNumber: '14896',
+      shipper: { name: 'Laundry Name', address: '19 Washington St, Bath, ME 04530-1634' },
+      consignee: { name: 'Customer Description', address: '7 Park St, Bath, ME 04530-2828' },
+      signerName: 'Joe Smith',
+      deliveredAt: '2/8/2016 3:51:52 PM',
+      items: [
+        { description: 'Sheet, White Contour', expectedQuantity: 55, deliveredQuantity: 46 },
+        { description: 'Pillowcase, White', expectedQuantity: 80, deliveredQuantity: 75 }
+      ],
+      exceptions: [{ kind: 'shortage', description: '9 sheets short', itemDescription: 'Sheet, White Contour', quantity: 9 }, { kind: 'lost', description: 'Unlisted kind' }]
+    }
+  },
+  [invoicePath]: {
+    classification: { documentType: 'standard', confidence: 0.88 },
+    extraction: { invoiceNumber: 'INV-1', vendorName: 'Acme', totalAmount: 10, subtotal: 10, currency: 'USD', items: [] }
+  }
+};
+
+/**
+ * Create a provider answering from RESPONSES based on which sample image is in the request
+ */
+const createSampleProvider = () => {
+  const images = Object.fromEntries(Object.keys(RESPONSES).map(filePath => [
+    require('fs').readFileSync(filePath).toString('base64').slice(0, 200), filePath
+  ]));
+
+  return createFakeProvider((request: CompletionRequest) => {
+    const imagePart = request.messages
+      .flatMap(message => (Array.isArray(message.content) ? message.content : []))
+      .find(part => part.type === 'image');
+    const filePath = imagePart && imagePart.type === 'image' ? images[imagePart.data.slice(0, 200)] : undefined;
+    const response = filePath ? RESPONSES[filePath] : undefined;
+    if (!response) {
+      return null;
+    }
+    return JSON.stringify(request.task === LLMTask.DOCUMENT_CLASSIFICATION ? response.classification : response.extraction);
+  });
+};
+
+describe('Logistics Document Parsing', () => {
+  it('should parse bills of lading into logistics data', async () => {
+    const [result] = await parseDocuments([billOfLadingPath], createSampleProvider());
+
+    expect(result.error).toBeUndefined();
+    expect(result.classification).toEqual({
+      documentType: LogisticsDocumentType.BILL_OF_LADING,
+      confidence: 0.93,
+      metadata: { documentId: '78910', dateIssued: '12-12-05', issuer: 'Mamo Transportation, Inc.' }
+    });
+
+    const data = result.parsedData!;
+    expect(isBillOfLading(data)).toBe(true);
+    if (isBillOfLading(data)) {
+      expect(data.shipper.name).toBe('ABC Company');
+      expect(data.carrier.driverName).toBe('Joseph Driver');
+      expect(data.totalHandlingUnits).toBe(3);
+      expect(data.totalWeight).toBe(1500);
+      // Any hazardous handling unit makes the shipment hazmat
+      expect(data.hazmat).toBe(true);
+    }
+  });
+
+  it('should parse delivery receipts into logistics data', async () => {
+    const [result] = await parseDocuments([deliveryReceiptPath], createSampleProvider());
+
+    const data = result.parsedData!;
+    expect(isDeliveryReceipt(data)).toBe(true);
+    if (isDeliveryReceipt(data)) {
+      expect(data.signerName).toBe('Joe Smith');
+      expect(data.deliveredAt).toBe('2/8/2016 3:51:52 PM');
+      expect(data.totalPiecesExpected).toBe(135);
+      expect(data.totalPiecesDelivered).toBe(121);
+      expect(data.exceptions.map(exception => exception.kind)).toEqual(['shortage', 'other']);
+    }
+  });
+
+  it('should parse invoice-type documents as invoices with their classification', async () => {
+    const [result] = await parseDocuments([invoicePath], createSampleProvider());
+
+    const data = result.parsedData!;
+    expect(isBillOfLading(data) || isDeliveryReceipt(data)).toBe(false);
+    expect(data).toMatchObject({ invoiceNumber: 'INV-1', classification: { type: InvoiceType.STANDARD, confidence: 0.88 } });
+  });
+
+  it('should record errors per file without failing the batch', async () => {
+    const missingPath = path.join(sampleBasePath, 'non-existent-file.png');
+
+    const results = await parseDocuments([missingPath, billOfLadingPath], createSampleProvider());
+
+    expect(results).toHaveLength(2);
+    expect(results[0].error).toMatch(/ENOENT/);
+    expect(results[0].classification.documentType).toBe(InvoiceType.UNKNOWN);
+    expect(results[1].parsedData).toBeDefined();
+  });
+});
@@ -0,0 +1,197 @@
+import { normalizeCreditNoteSign, normalizeInvoiceData, NormalizationKind, parseAmount, parseDate } from '../normalization';
+import { parseInvoice } from '../invoiceParser';
+import { createFakeProvider } from '../fakeProvider';
+import { InvoiceData, InvoiceType } from '../types';
+import { createTestInvoice } from './fixtures/invoices';
+
+// Overrides may hold raw model values, such as amounts written as text
+const createInvoice = (overrides: Record<string, unknown> = {}): InvoiceData => createTestInvoice({
+  invoiceNumber: 'INV-1',
+  invoiceDate: '2023-04-15',
+  vendorName: 'Acme Supplies',
+  subtotal: 100,
+  totalAmount: 100,
+  ...overrides
+});
+
+describe('Normalization', () => {
+  describe('parseDate', () => {
+    it('should convert written-out dates to ISO 8601', () => {
+      expect(parseDate('April 15, 2023')).toBe('2023-04-15');
+      expect(parseDate('15th April 2023')).toBe('2023-04-15');
+      expect(parseDate('Mon, Feb 08, 2016')).toBe('2016-02-08');
+      expect(parseDate('15. März 2023')).toBe('2023-03-15');
+      expect(parseDate('2023-04-15T10:00:00Z')).toBe('2023-04-15');
+    });
+
+    it('should read ambiguous numeric dates in the given order', () => {
+      expect(parseDate('04/05/2023', 'MDY')).toBe('2023-04-05');
+      expect(parseDate('04/05/2023', 'DMY')).toBe('2023-05-04');
+      // Unambiguous dates ignore the order
+      expect(parseDate('15/04/2023', 'MDY')).toBe('2023-04-15');
+      expect(parseDate('12-12-05')).toBe('2005-12-12');
+    });
+
+    it('should reject values that are not dates', () => {
+      expect(parseDate('Net 30')).toBeUndefined();
+      expect(parseDate('31/02/2023', 'DMY')).toBeUndefined();
+    });
+  });
+
+  describe('parseAmount', () => {
+    it('should parse US and European number formats', () => {
+      expect(parseAmount('$10,800.00')).toBe(10800);
+      expect(parseAmount('1.234,56 €')).toBe(1234.56);
+      expect(parseAmount('1 234,56')).toBe(1234.56);
+      expect(parseAmount('12,50')).toBe(12.5);
+      expect(parseAmount('(50.00)')).toBe(-50);
+    });
+
+    it('should use the locale for a lone separator before three digits', () => {
+      expect(parseAmount('1,234')).toBe(1234);
+      expect(parseAmount('1.234')).toBe(1.234);
+      expect(parseAmount('1.234', true)).toBe(1234);
+      expect(parseAmount('n/a')).toBeUndefined();
+    });
+  });
+
+  describe('normalizeInvoiceData', () => {
+    it('should resolve ambiguous dates from the vendor locale and record why', () => {
+      const invoice = createInvoice({
+        invoiceDate: '04/05/2023',
+        dueDate: '04/06/2023',
+        vendorAddress: '10 Downing Street, London SW1A 2AA',
+        currency: '£'
+      });
+
+      const normalizations = normalizeInvoiceData(invoice);
+
+      expect(invoice.invoiceDate).toBe('2023-05-04');
+      expect(invoice.dueDate).toBe('2023-06-04');
+      expect(invoice.currency).toBe('GBP');
+      expect(invoice.normalizations).toBe(normalizations);
+      expect(normalizations).toContainEqual({
+        field: 'invoiceDate',
+        kind: NormalizationKind.DATE,
+        original: '04/05/2023',
+        normalized: '2023-05-04',
+        reason: expect.stringContaining('vendor address is in GB')
+      });
+    });
+
+    it('should prefer an unambiguous date on the same invoice over the locale', () => {
+      const invoice = createInvoice({
+        invoiceDate: '04/05/2023',
+        dueDate: '04/20/2023',
+        vendorAddress: 'London, UK'
+      });
+
+      normalizeInvoiceData(invoice);
+
+      expect(invoice.invoiceDate).toBe('2023-04-05');
+      expect(invoice.dueDate).toBe('2023-04-20');
+    });
+
+    it('should parse European amounts returned as strings', () => {
+      const invoice = createInvoice({
+        vendorAddress: 'Hauptstraße 1, 10115 Berlin, Germany',
+        items: [{ description: 'Beratung', quantity: '2', unitPrice: '617,28', amount: '1.234,56' }],
+        subtotal: '1.234,56',
+        totalAmount: '1.469,13',
+        currency: undefined
+      });
+
+      const normalizations = normalizeInvoiceData(invoice, 'Summe: 1.469,13 €');
+
+      expect(invoice.items[0]).toMatchObject({ quantity: 2, unitPrice: 617.28, amount: 1234.56 });
+      expect(invoice.subtotal).toBe(1234.56);
+      expect(invoice.totalAmount).toBe(1469.13);
+      expect(invoice.currency).toBe('EUR');
+      expect(normalizations.filter(normalization => normalization.kind === NormalizationKind.AMOUNT)).toHaveLength(5);
+      expect(normalizations).toContainEqual(expect.objectContaining({ field: 'currency', original: null, normalized: 'EUR' }));
+    });
+
+    it('should resolve dollars from the addresses on the invoice', () => {
+      const canadian = createInvoice({ currency: '$', vendorAddress: '1 Bay St, Toronto, ON M5J 2N8, Canada' });
+      normalizeInvoiceData(canadian);
+      expect(canadian.currency).toBe('CAD');
+
+      // A London exporter billing a Boston importer in dollars
+      const exported = createInvoice({
+        currency: undefined,
+        vendorAddress: '45 International Drive, London, UK E14 9WQ',
+        customerAddress: '123 Harbor Road, Boston, MA 02210'
+      });
+      normalizeInvoiceData(exported, 'Unit Price: $45,000');
+      expect(exported.currency).toBe('USD');
+    });
+
+    it('should infer the currency from the vendor country when no symbol is shown', () => {
+      const invoice = createInvoice({ currency: undefined, vendorAddress: '45 International Drive, London, UK E14 9WQ' });
+
+      normalizeInvoiceData(invoice, 'Total: 48,500');
+
+      expect(invoice.currency).toBe('GBP');
+      expect(invoice.normalizations?.[0].reason).toBe('no currency shown, vendor address is in GB');
+    });
+
+    it('should leave well-formed values alone', () => {
+      const invoice = createInvoice();
+      expect(normalizeInvoiceData(invoice)).toEqual([]);
+    });
+  });
+
+  it('should store credit notes as negative amounts', () => {
+    const creditNote = createInvoice({
+      items: [
+        { description: 'Returned widget', quantity: 2, unitPrice: 30, amount: 60 },
+        { description: 'Restocking fee', quantity: 1, unitPrice: -20, amount: -20 }
+      ],
+      subtotal: 40,
+      taxAmount: 8,
+      totalAmount: '48.00',
+      classification: { type: InvoiceType.CREDIT_NOTE, confidence: 0.9 }
+    });
+
+    const normalizations = normalizeInvoiceData(creditNote);
+
+    expect(creditNote).toMatchObject({ subtotal: -40, taxAmount: -8, totalAmount: -48 });
+    expect(creditNote.items).toEqual([
+      { description: 'Returned widget', quantity: -2, unitPrice: 30, amount: -60 },
+      { description: 'Restocking fee', quantity: 1, unitPrice: -20, amount: -20 }
+    ]);
+    expect(normalizations.filter(normalization => normalization.kind === NormalizationKind.SIGN)).toHaveLength(5);
+    expect(normalizations).toContainEqual({
+      field: 'totalAmount',
+      kind: NormalizationKind.SIGN,
+      original: 48,
+      normalized: -48,
+      reason: 'credit notes are stored as negative amounts'
+    });
+
+    // Applying it again, or to an invoice, changes nothing
+    expect(normalizeCreditNoteSign(creditNote)).toEqual([]);
+    expect(normalizeCreditNoteSign(createInvoice())).toEqual([]);
+  });
+
+  it('should run after extraction in parseInvoice', async () => {
+    const provider = createFakeProvider(() => JSON.stringify({
+      invoiceNumber: 'F-2023-88',
+      invoiceDate: '15.04.2023',
+      vendorName: 'Muster GmbH',
+      vendorAddress: 'Musterweg 5, 80331 München, Deutschland',
+      items: [],
+      subtotal: '1.000,00',
+      taxAmount: '190,00',
+      totalAmount: '1.190,00'
+    }));
+
+    const result = await parseInvoice(provider, 'Rechnung F-2023-88\nDatum: 15.04.2023\nGesamt: 1.190,00 €', true);
+
+    expect(result.invoiceDate).toBe('2023-04-15');
+    expect(result.totalAmount).toBe(1190);
+    expect(result.currency).toBe('EUR');
+    expect(result.validation?.defaultedFields).not.toContain('currency');
+    expect(result.fieldProvenance?.totalAmount?.sourceText).toBe('1.190,00');
+  });
+});
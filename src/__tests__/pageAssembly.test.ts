@@ -0,0 +1,146 @@
+import { assembleInvoicePages, PageExtraction } from '../pageAssembly';
+import { parseInvoicePages } from '../imageParser';
+import { createFakeProvider } from '../fakeProvider';
+import { CompletionRequest } from '../llmTypes';
+import { ValidationCode } from '../validation';
+
+const header = {
+  invoiceNumber: 'INV-900',
+  invoiceDate: '2024-05-01',
+  vendorName: 'Globex Corporation',
+  customerName: 'Initech'
+};
+
+const PAGES: PageExtraction[] = [
+  {
+    page: 1,
+    invoice: {
+      ...header,
+      items: [
+        { description: 'Widget A', quantity: 2, unitPrice: 50, amount: 100 },
+        { description: 'Widget B', quantity: 1, unitPrice: 200, amount: 200 },
+        { description: 'Carried forward', quantity: 1, unitPrice: 300, amount: 300 }
+      ],
+      // A running page total that must not be mistaken for the invoice totals
+      subtotal: 300
+    },
+    hints: {
+      fields: { invoiceNumber: { confidence: 0.95, page: 1 }, subtotal: { confidence: 0.9 } },
+      items: [{ confidence: 0.9 }, { confidence: 0.8 }, { confidence: 0.9 }]
+    }
+  },
+  {
+    page: 2,
+    invoice: {
+      ...header,
+      items: [
+        { description: 'Brought forward', quantity: 1, unitPrice: 300, amount: 300 },
+        { description: 'Widget B', quantity: 1, unitPrice: 200, amount: 200 },
+        { description: 'Installation', quantity: 3, unitPrice: 100, amount: 300 }
+      ],
+      subtotal: 600,
+      taxAmount: 60,
+      totalAmount: 660,
+      paymentTerms: 'Net 30'
+    },
+    hints: {
+      fields: { totalAmount: { confidence: 0.99, page: 1 } },
+      items: [{ confidence: 0.9 }, { confidence: 0.85 }, { confidence: 0.7 }]
+    }
+  }
+];
+
+describe('Page Assembly', () => {
+  describe('assembleInvoicePages', () => {
+    it('should merge line items across pages and record their pages', () => {
+      const { invoice, hints } = assembleInvoicePages(PAGES);
+
+      expect(invoice.items?.map(item => [item.description, item.page])).toEqual([
+        ['Widget A', 1],
+        ['Widget B', 1],
+        ['Installation', 2]
+      ]);
+      expect(hints.items.map(hint => [hint.confidence, hint.page])).toEqual([[0.9, 1], [0.8, 1], [0.7, 2]]);
+    });
+
+    it('should take header fields once and totals from the final page', () => {
+      const { invoice, hints } = assembleInvoicePages(PAGES);
+
+      expect(invoice).toMatchObject({
+        ...header,
+        subtotal: 600,
+        taxAmount: 60,
+        totalAmount: 660,
+        paymentTerms: 'Net 30'
+      });
+      // Page numbers reported by the model refer to the single image it was given
+      expect(hints.fields.totalAmount).toEqual({ confidence: 0.99, page: 2 });
+      expect(hints.fields.invoiceNumber).toEqual({ confidence: 0.95, page: 1 });
+    });
+
+    it('should keep a line like the previous page\'s last one unless it is shown to be a repeat', () => {
+      const secondPage = (items: object[], subtotal?: number): PageExtraction => ({
+        ...PAGES[1],
+        invoice: { ...PAGES[1].invoice, items: items as PageExtraction['invoice']['items'], subtotal, totalAmount: undefined, taxAmount: undefined }
+      });
+      const assemble = (pages: PageExtraction[]) => {
+        const { invoice, issues } = assembleInvoicePages(pages);
+        return { lines: invoice.items?.map(item => item.description), issues: issues.map(issue => [issue.code, issue.field]) };
+      };
+      const [, widgetB, installation] = PAGES[1].invoice.items || [];
+
+      // The subtotal counts both lines
+      expect(assemble([PAGES[0], secondPage([widgetB, installation], 800)])).toEqual({
+        lines: ['Widget A', 'Widget B', 'Widget B', 'Installation'],
+        issues: []
+      });
+      // Nothing tells, so the line is kept and flagged
+      expect(assemble([PAGES[0], secondPage([widgetB, installation])])).toEqual({
+        lines: ['Widget A', 'Widget B', 'Widget B', 'Installation'],
+        issues: [[ValidationCode.POSSIBLE_DUPLICATE_ITEM, 'items[2]']]
+      });
+      // The model marked it as continued from the previous page
+      const { invoice } = assembleInvoicePages([PAGES[0], secondPage([{ ...widgetB, continued: true }, installation])]);
+      expect(invoice.items?.map(item => item.description)).toEqual(['Widget A', 'Widget B', 'Installation']);
+      expect(invoice.items?.[1]).not.toHaveProperty('continued');
+    });
+
+    it('should not take running totals from earlier pages', () => {
+      const lastPage = { ...PAGES[1], invoice: { ...PAGES[1].invoice, subtotal: undefined } };
+      const { invoice } = assembleInvoicePages([lastPage, PAGES[0]]);
+
+      expect(invoice.subtotal).toBeUndefined();
+      expect(invoice.totalAmount).toBe(660);
+    });
+  });
+
+  describe('parseInvoicePages', () => {
+    it('should extract each page separately and validate the merged invoice', async () => {
+      const responder = jest.fn((request: CompletionRequest) => {
+        const { invoice, hints } = /page 1 of 2/.test(JSON.stringify(request.messages)) ? PAGES[0] : PAGES[1];
+        return JSON.stringify({
+          ...invoice,
+          fieldConfidence: hints.fields,
+          items: invoice.items?.map((item, index) => ({ ...item, ...hints.items[index] }))
+        });
+      });
+
+      const result = await parseInvoicePages(
+        [{ data: 'UEFHRTE=', mimeType: 'image/png' }, { data: 'UEFHRTI=', mimeType: 'image/png' }],
+        createFakeProvider(responder)
+      );
+
+      expect(responder).toHaveBeenCalledTimes(2);
+      expect(result.items).toHaveLength(3);
+      expect(result.items[2]).toMatchObject({ description: 'Installation', page: 2 });
+      expect(result.items[2].provenance).toEqual({ confidence: 0.7, source: { kind: 'image', page: 2 } });
+      expect(result.totalAmount).toBe(660);
+      expect(result.fieldProvenance?.totalAmount?.source).toEqual({ kind: 'image', page: 2 });
+      expect(result.validation?.valid).toBe(true);
+    });
+
+    it('should require at least one page', async () => {
+      await expect(parseInvoicePages([], createFakeProvider())).rejects.toThrow('At least one page image must be provided');
+    });
+  });
+});
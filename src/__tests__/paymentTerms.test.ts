@@ -0,0 +1,166 @@
+import { buildPaymentSchedule, parsePaymentTerms, PaymentTrigger, summarizeCashPlan } from '../paymentTerms';
+import { normalizeInvoiceData, NormalizationKind } from '../normalization';
+import { createDocumentStore, saveParsedDocument } from '../documentStore';
+import { InvoiceData, InvoiceType } from '../types';
+import { mkdtempSync, rmSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { createTestInvoice } from './fixtures/invoices';
+
+const createInvoice = (overrides: Partial<InvoiceData> = {}): InvoiceData =>
+  createTestInvoice({ invoiceDate: '2024-01-20', ...overrides });
+
+describe('Payment Terms', () => {
+  it('should compute the due date of single-payment terms', () => {
+    const dueDate = (terms: string, invoiceDate = '2024-01-20') => parsePaymentTerms(terms, { invoiceDate })?.dueDate;
+
+    expect(dueDate('Net 30')).toBe('2024-02-19');
+    expect(dueDate('30 days net')).toBe('2024-02-19');
+    expect(dueDate('Due on receipt')).toBe('2024-01-20');
+    expect(dueDate('EOM')).toBe('2024-01-31');
+    expect(dueDate('Net 30 EOM')).toBe('2024-03-01');
+    expect(dueDate('15 MFI')).toBe('2024-02-15');
+    // The following month is shorter than the day asked for
+    expect(dueDate('31st of the month following', '2024-01-05')).toBe('2024-02-29');
+
+    expect(parsePaymentTerms('15 MFI')).toEqual({
+      terms: '15 MFI',
+      installments: [{ percentage: 100, trigger: PaymentTrigger.FOLLOWING_MONTH, days: 15, description: '15 MFI' }],
+      dueDateDerived: false
+    });
+    expect(parsePaymentTerms('Payable as agreed')).toBeUndefined();
+  });
+
+  it('should read early-payment discounts', () => {
+    const schedule = parsePaymentTerms('2/10 Net 30', { invoiceDate: '2024-01-20', totalAmount: 1250 });
+
+    expect(schedule).toEqual({
+      terms: '2/10 Net 30',
+      installments: [{
+        percentage: 100,
+        trigger: PaymentTrigger.INVOICE_DATE,
+        days: 30,
+        dueDate: '2024-02-19',
+        amount: 1250,
+        description: '2/10 Net 30'
+      }],
+      discount: { percentage: 2, days: 10, deadline: '2024-01-30', amount: 25 },
+      dueDate: '2024-02-19',
+      dueDateDerived: false
+    });
+    // As written by the X12 and CII imports
+    expect(parsePaymentTerms('2% 10 days, net 30 days')?.discount).toEqual({ percentage: 2, days: 10 });
+    expect(parsePaymentTerms('1.5% 15 Net 45')?.discount).toEqual({ percentage: 1.5, days: 15 });
+  });
+
+  it('should split a proforma advance payment schedule', () => {
+    const schedule = buildPaymentSchedule(createInvoice({
+      invoiceDate: '2024-02-01',
+      totalAmount: 3333.33,
+      classification: { type: InvoiceType.PROFORMA, confidence: 0.9 },
+      typeDetails: { type: InvoiceType.PROFORMA, advancePaymentTerms: '50% advance payment, 50% before shipment', notTaxInvoice: true }
+    }));
+
+    expect(schedule?.installments).toEqual([
+      { percentage: 50, trigger: PaymentTrigger.ORDER, dueDate: '2024-02-01', amount: 1666.67, description: '50% advance payment' },
+      { percentage: 50, trigger: PaymentTrigger.SHIPMENT, amount: 1666.66, description: '50% before shipment' }
+    ]);
+    // The final payment waits for shipment, so there is no due date for the whole amount
+    expect(schedule?.dueDate).toBeUndefined();
+
+    expect(parsePaymentTerms('30% deposit; 70% net 60', { invoiceDate: '2024-02-01' })?.dueDate).toBe('2024-04-01');
+    expect(parsePaymentTerms('30% deposit, 60% on delivery')).toBeUndefined();
+    expect(buildPaymentSchedule(createInvoice({
+      paymentTerms: 'Net 30',
+      classification: { type: InvoiceType.CREDIT_NOTE, confidence: 0.9 }
+    }))).toBeUndefined();
+  });
+
+  it('should fill in a missing due date as derived', () => {
+    const invoice = createInvoice({ invoiceDate: '01/20/2024', paymentTerms: 'Net 30' });
+    const normalizations = normalizeInvoiceData(invoice);
+
+    expect(invoice.dueDate).toBe('2024-02-19');
+    expect(invoice.paymentSchedule?.dueDateDerived).toBe(true);
+    expect(normalizations).toContainEqual({
+      field: 'dueDate',
+      kind: NormalizationKind.DUE_DATE,
+      original: null,
+      normalized: '2024-02-19',
+      reason: "computed from the payment terms 'Net 30'"
+    });
+
+    // A printed due date is kept
+    const printed = createInvoice({ dueDate: '2024-02-25', paymentTerms: 'Net 30' });
+    normalizeInvoiceData(printed);
+    expect(printed.dueDate).toBe('2024-02-25');
+    expect(printed.paymentSchedule).toMatchObject({ dueDate: '2024-02-25', dueDateDerived: false });
+  });
+
+  it('should summarize open payments into a cash plan', () => {
+    const directory = mkdtempSync(path.join(os.tmpdir(), 'cash-plan-'));
+    try {
+      const store = createDocumentStore(directory);
+      const save = (data: InvoiceData) => {
+        normalizeInvoiceData(data);
+        return saveParsedDocument({ input: data.invoiceNumber, data }, store);
+      };
+
+      const overdue = save(createInvoice({ invoiceNumber: 'INV-1', invoiceDate: '2024-01-02', paymentTerms: 'Net 30' }));
+      const discounted = save(createInvoice({ invoiceNumber: 'INV-2', invoiceDate: '2024-02-05', totalAmount: 500, paymentTerms: '2/10 Net 30' }));
+      // Partly credited, so only the rest is planned
+      save(createInvoice({ invoiceNumber: 'INV-3', invoiceDate: '2024-02-01', paymentTerms: 'EOM' }));
+      save(createInvoice({
+        invoiceNumber: 'CN-1',
+        invoiceDate: '2024-02-02',
+        totalAmount: 400,
+        classification: { type: InvoiceType.CREDIT_NOTE, confidence: 0.9 },
+        typeDetails: { type: InvoiceType.CREDIT_NOTE, referencedInvoiceNumber: 'INV-3' }
+      }));
+      save(createInvoice({
+        invoiceNumber: 'PF-1',
+        vendorName: 'Globex',
+        invoiceDate: '2024-02-06',
+        totalAmount: 800,
+        currency: 'EUR',
+        classification: { type: InvoiceType.PROFORMA, confidence: 0.9 },
+        typeDetails: { type: InvoiceType.PROFORMA, advancePaymentTerms: '50% advance payment, 50% before shipment', notTaxInvoice: true }
+      }));
+      // Paid in full by the vendor's receipt
+      save(createInvoice({ invoiceNumber: 'INV-0', invoiceDate: '2023-12-01', totalAmount: 300, paymentTerms: 'Net 15' }));
+      save(createInvoice({ invoiceNumber: 'RCT-1', invoiceDate: '2023-12-10', totalAmount: 300, classification: { type: InvoiceType.RECEIPT, confidence: 0.9 } }));
+
+      const plan = summarizeCashPlan(store.all(), '2024-02-08');
+
+      expect(plan.periods.map(period => [period.label, period.until, period.payments.map(payment => payment.documentNumber), period.totals])).toEqual([
+        ['Overdue', '2024-02-07', ['INV-1', 'PF-1'], { USD: 1000, EUR: 400 }],
+        ['Next 7 days', '2024-02-15', [], {}],
+        ['Next 30 days', '2024-03-09', ['INV-3', 'INV-2'], { USD: 1100 }],
+        ['Later', undefined, [], {}]
+      ]);
+      expect(plan.periods[0].payments[0]).toEqual({
+        documentId: overdue?.id,
+        vendor: 'Acme Supplies Inc.',
+        documentNumber: 'INV-1',
+        currency: 'USD',
+        amount: 1000,
+        dueDate: '2024-02-01',
+        trigger: PaymentTrigger.INVOICE_DATE,
+        description: 'Net 30'
+      });
+      expect(plan.periods[2].payments[0]).toMatchObject({ amount: 600, dueDate: '2024-02-29' });
+      expect(plan.unscheduled).toEqual([expect.objectContaining({ documentNumber: 'PF-1', amount: 400, trigger: PaymentTrigger.SHIPMENT })]);
+      expect(plan.discounts).toEqual([{
+        documentId: discounted?.id,
+        vendor: 'Acme Supplies Inc.',
+        documentNumber: 'INV-2',
+        currency: 'USD',
+        deadline: '2024-02-15',
+        savings: 10,
+        payAmount: 490
+      }]);
+    } finally {
+      rmSync(directory, { recursive: true, force: true });
+    }
+  });
+});
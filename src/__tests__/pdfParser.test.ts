@@ -0,0 +1,225 @@
+import { parseDocuments, parseDocumentUploads, parseInvoiceImageBase64, parseInvoicePdf } from '../imageParser';
+import { createFakeProvider } from '../fakeProvider';
+import { extractPdfText, hasTextLayer, isPdf, joinPdfPages, renderPdfPages } from '../pdfParser';
+import { ChatContentPart, CompletionRequest, LLMTask } from '../llmTypes';
+import { InvoiceType } from '../types';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+
+// pdf.js can't load its worker inside jest, so the PDF reading is mocked here
+jest.mock('../pdfParser', () => ({
+  ...jest.requireActual('../pdfParser'),
+  extractPdfText: jest.fn(),
+  renderPdfPages: jest.fn()
+}));
+
+const mockExtractPdfText = extractPdfText as jest.MockedFunction<typeof extractPdfText>;
+const mockRenderPdfPages = renderPdfPages as jest.MockedFunction<typeof renderPdfPages>;
+
+const PDF_DATA = Buffer.from('%PDF-1.4\n% test document\n');
+
+const INVOICE_PAGES = [
+  'INVOICE\nInvoice #: INV-777\nDate: 2024-03-01\nFrom:\nNorthwind Traders\n\nTo:\nContoso Ltd\n\nConsulting | 10 hours | $100 | $1,000',
+  'Subtotal: $1,000\nTax: $80\nTotal: $1,080\nPayment Terms: Net 30'
+];
+
+const SCANNED_PAGES = [
+  { pageNumber: 1, data: 'UEFHRTE=', mimeType: 'image/png' as const },
+  { pageNumber: 2, data: 'UEFHRTI=', mimeType: 'image/png' as const }
+];
+
+const imagesOf = (request: CompletionRequest): ChatContentPart[] =>
+  request.messages.flatMap(message => (typeof message.content === 'string' ? [] : message.content))
+    .filter(part => part.type === 'image');
+
+describe('PDF Parser', () => {
+  beforeEach(() => {
+    mockExtractPdfText.mockReset();
+    mockRenderPdfPages.mockReset();
+  });
+
+  describe('helpers', () => {
+    it('should recognize PDFs by their header', () => {
+      expect(isPdf(PDF_DATA)).toBe(true);
+      expect(isPdf(Buffer.from([0x89, 0x50, 0x4e, 0x47]))).toBe(false);
+    });
+
+    it('should only treat substantial text as a text layer', () => {
+      expect(hasTextLayer(INVOICE_PAGES)).toBe(true);
+      expect(hasTextLayer([' \n ', '1'])).toBe(false);
+      expect(hasTextLayer([])).toBe(false);
+    });
+
+    it('should mark page boundaries when joining pages', () => {
+      expect(joinPdfPages(['only page'])).toBe('only page');
+      expect(joinPdfPages(['first', 'second'])).toBe('--- Page 1 ---\nfirst\n\n--- Page 2 ---\nsecond');
+    });
+  });
+
+  describe('parseInvoicePdf', () => {
+    it('should parse the text layer as text', async () => {
+      mockExtractPdfText.mockResolvedValue(INVOICE_PAGES);
+      const provider = createFakeProvider();
+      const complete = jest.spyOn(provider, 'complete');
+
+      const result = await parseInvoicePdf(PDF_DATA, provider);
+
+      expect(mockRenderPdfPages).not.toHaveBeenCalled();
+      expect(complete.mock.calls.map(([request]) => request.task)).toEqual([LLMTask.CLASSIFICATION, LLMTask.EXTRACTION]);
+      // Values from both pages end up in one invoice
+      expect(result.invoiceNumber).toBe('INV-777');
+      expect(result.totalAmount).toBe(1080);
+      expect(result.fieldProvenance?.totalAmount?.source?.kind).toBe('text');
+    });
+
+    it('should render scanned PDFs and send every page in one request', async () => {
+      mockExtractPdfText.mockResolvedValue(['', ' ']);
+      mockRenderPdfPages.mockResolvedValue(SCANNED_PAGES);
+      const responder = jest.fn().mockReturnValue(JSON.stringify({
+        invoiceNumber: 'SCAN-1',
+        vendorName: 'Scanned Supplies',
+        totalAmount: 50,
+        fieldConfidence: { totalAmount: { confidence: 0.9, page: 2 } }
+      }));
+
+      const result = await parseInvoicePdf(PDF_DATA, createFakeProvider(responder));
+
+      expect(responder).toHaveBeenCalledTimes(1);
+      expect(responder.mock.calls[0][0].task).toBe(LLMTask.IMAGE_EXTRACTION);
+      expect(imagesOf(responder.mock.calls[0][0])).toEqual([
+        { type: 'image', mimeType: 'image/png', data: 'UEFHRTE=' },
+        { type: 'image', mimeType: 'image/png', data: 'UEFHRTI=' }
+      ]);
+      expect(result.invoiceNumber).toBe('SCAN-1');
+      expect(result.fieldProvenance?.totalAmount?.source).toEqual({ kind: 'image', page: 2 });
+    });
+
+    it('should fail on PDFs without pages', async () => {
+      mockExtractPdfText.mockResolvedValue([]);
+      mockRenderPdfPages.mockResolvedValue([]);
+
+      await expect(parseInvoicePdf(PDF_DATA, createFakeProvider())).rejects.toThrow('PDF has no pages');
+    });
+
+    it('should be used for PDFs passed as base64 images', async () => {
+      mockExtractPdfText.mockResolvedValue(INVOICE_PAGES);
+
+      // The header identifies the PDF even without the right MIME type
+      const result = await parseInvoiceImageBase64(PDF_DATA.toString('base64'), undefined, 'image/jpeg', createFakeProvider());
+
+      expect(mockExtractPdfText).toHaveBeenCalledTimes(1);
+      expect(result.invoiceNumber).toBe('INV-777');
+    });
+  });
+
+  describe('parseDocuments', () => {
+    let directory: string;
+
+    beforeEach(() => {
+      directory = mkdtempSync(path.join(tmpdir(), 'pdf-parser-'));
+    });
+
+    afterEach(() => {
+      rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('should classify PDFs from their first page and parse the whole document', async () => {
+      const filePath = path.join(directory, 'invoice.pdf');
+      writeFileSync(filePath, PDF_DATA);
+      mockRenderPdfPages.mockResolvedValue([SCANNED_PAGES[0]]);
+      mockExtractPdfText.mockResolvedValue(INVOICE_PAGES);
+      const responder = jest.fn((request: CompletionRequest) => (request.task === LLMTask.DOCUMENT_CLASSIFICATION
+        ? JSON.stringify({ documentType: InvoiceType.STANDARD, confidence: 0.95 })
+        : JSON.stringify({ invoiceNumber: 'INV-777', vendorName: 'Northwind Traders', totalAmount: 1080 })));
+
+      const [result] = await parseDocuments([filePath], createFakeProvider(responder));
+
+      expect(result.error).toBeUndefined();
+      expect(mockRenderPdfPages).toHaveBeenCalledWith(PDF_DATA, { maxPages: 1 });
+      expect(imagesOf(responder.mock.calls[0][0])).toHaveLength(1);
+      expect(responder.mock.calls[1][0].task).toBe(LLMTask.EXTRACTION);
+      expect(result.parsedData).toMatchObject({
+        invoiceNumber: 'INV-777',
+        classification: { type: InvoiceType.STANDARD, confidence: 0.95 }
+      });
+    });
+
+    it('should extract classified invoice images as their type', async () => {
+      const EXTRACTIONS: Record<string, object> = {
+        [InvoiceType.CREDIT_NOTE]: {
+          invoiceNumber: 'CN-12',
+          invoiceDate: '2024-03-10',
+          vendorName: 'Northwind Traders',
+          items: [{ description: 'Returned widgets', quantity: 2, unitPrice: 50, amount: 100 }],
+          subtotal: 100,
+          totalAmount: 100,
+          currency: 'USD',
+          paymentTerms: 'Net 30',
+          typeDetails: { referencedInvoiceNumber: 'INV-777', reason: 'Damaged goods' }
+        },
+        [InvoiceType.PROFORMA]: {
+          invoiceNumber: 'PRO-5',
+          invoiceDate: '2024-03-10',
+          vendorName: 'Northwind Traders',
+          items: [{ description: 'Press', quantity: 1, unitPrice: 1000, amount: 1000 }],
+          subtotal: 1000,
+          totalAmount: 1060,
+          currency: 'USD',
+          typeDetails: { shippingAmount: 50, insuranceAmount: 10 }
+        }
+      };
+      const typeOf = (request: CompletionRequest) => JSON.stringify(request.messages).includes('UEFHRTE=')
+        ? InvoiceType.CREDIT_NOTE
+        : InvoiceType.PROFORMA;
+      const responder = jest.fn((request: CompletionRequest) => JSON.stringify(request.task === LLMTask.DOCUMENT_CLASSIFICATION
+        ? { documentType: typeOf(request), confidence: 0.9 }
+        : EXTRACTIONS[typeOf(request)]));
+
+      const [creditNote, proforma] = await parseDocumentUploads([
+        { fileName: 'credit.png', data: Buffer.from('PAGE1'), mimeType: 'image/png' },
+        { fileName: 'proforma.png', data: Buffer.from('PAGE2'), mimeType: 'image/png' }
+      ], createFakeProvider(responder));
+
+      const extractionPrompts = responder.mock.calls.map(([request]) => request)
+        .filter(request => request.task === LLMTask.IMAGE_EXTRACTION)
+        .map(request => JSON.stringify(request.messages));
+      expect(extractionPrompts.some(prompt => prompt.includes('This is a CREDIT_NOTE type invoice.'))).toBe(true);
+
+      // The credit note is negative, references its invoice and has nothing to pay
+      expect(creditNote.parsedData).toMatchObject({
+        totalAmount: -100,
+        classification: { type: InvoiceType.CREDIT_NOTE, confidence: 0.9 },
+        typeDetails: { type: InvoiceType.CREDIT_NOTE, referencedInvoiceNumber: 'INV-777', reason: 'Damaged goods' },
+        validation: { valid: true }
+      });
+      expect(creditNote.parsedData).not.toHaveProperty('paymentSchedule');
+
+      // Shipping and insurance count towards the proforma total
+      expect(proforma.parsedData).toMatchObject({
+        typeDetails: { type: InvoiceType.PROFORMA, shippingAmount: 50, insuranceAmount: 10 },
+        validation: { valid: true, issues: [] }
+      });
+    });
+
+    it('should report each uploaded file as it finishes without failing the batch', async () => {
+      mockRenderPdfPages.mockResolvedValue([]);
+      const responder = jest.fn((request: CompletionRequest) => (request.task === LLMTask.DOCUMENT_CLASSIFICATION
+        ? JSON.stringify({ documentType: InvoiceType.STANDARD, confidence: 0.9 })
+        : JSON.stringify({ invoiceNumber: 'INV-778', vendorName: 'Northwind Traders', totalAmount: 50 })));
+      const onResult = jest.fn();
+
+      const results = await parseDocumentUploads([
+        { fileName: 'empty.pdf', data: PDF_DATA },
+        { fileName: 'scan', data: Buffer.from('PAGE1'), mimeType: 'image/webp' }
+      ], createFakeProvider(responder), onResult);
+
+      expect(onResult.mock.calls.map(([result, index]) => [index, result.filePath, result.error])).toEqual([
+        [0, 'empty.pdf', 'PDF has no pages'],
+        [1, 'scan', undefined]
+      ]);
+      expect(imagesOf(responder.mock.calls[0][0])).toEqual([{ type: 'image', mimeType: 'image/webp', data: 'UEFHRTE=' }]);
+      expect(results[1].parsedData).toMatchObject({ invoiceNumber: 'INV-778' });
+    });
+  });
+});
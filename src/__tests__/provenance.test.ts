@@ -0,0 +1,123 @@
+import { InvoiceData, parseInvoice } from '../invoiceParser';
+import { parseInvoiceImageBase64 } from '../imageParser';
+import { createFakeProvider } from '../fakeProvider';
+import { applyTextProvenance, findLowConfidenceFields, takeProvenanceHints } from '../provenance';
+
+const INVOICE_TEXT = `INVOICE
+Invoice #: INV-12345
+Date: April 15, 2023
+
+From:
+Acme Supplies
+
+Web Development Services | 40 hours | $150/hr | $6,000
+
+Total: $6,000`;
+
+const MODEL_RESPONSE = {
+  invoiceNumber: 'INV-12345',
+  invoiceDate: '2023-04-15',
+  vendorName: 'Acme Supplies',
+  items: [
+    { description: 'Web Development Services', quantity: 40, unitPrice: 150, amount: 6000, confidence: 0.9, sourceText: 'Web Development Services | 40 hours | $150/hr | $6,000' }
+  ],
+  subtotal: 6000,
+  totalAmount: 6000,
+  currency: 'USD',
+  fieldConfidence: {
+    invoiceNumber: { confidence: 0.98, sourceText: 'Invoice #: INV-12345' },
+    invoiceDate: { confidence: 0.95, sourceText: 'Date: April 15, 2023' },
+    vendorName: { confidence: 0.9 },
+    totalAmount: { confidence: 0.97, sourceText: 'Total: $6,000' },
+    currency: { confidence: 0.6, sourceText: 'Not in the text' }
+  }
+};
+
+describe('Field Provenance', () => {
+  it('should strip model hints from the raw response', () => {
+    const raw = JSON.parse(JSON.stringify(MODEL_RESPONSE));
+    const hints = takeProvenanceHints(raw);
+
+    expect(raw.fieldConfidence).toBeUndefined();
+    expect(raw.items[0]).toEqual({ description: 'Web Development Services', quantity: 40, unitPrice: 150, amount: 6000 });
+    expect(hints.fields.invoiceNumber).toEqual({ confidence: 0.98, sourceText: 'Invoice #: INV-12345' });
+    expect(hints.items[0].confidence).toBe(0.9);
+  });
+
+  it('should locate values in the invoice text by character offsets', async () => {
+    const result = await parseInvoice(createFakeProvider(() => JSON.stringify(MODEL_RESPONSE)), INVOICE_TEXT, true);
+    const provenance = result.fieldProvenance!;
+
+    // Offsets narrow to the value inside the reported snippet
+    const invoiceNumber = provenance.invoiceNumber!;
+    expect(invoiceNumber.confidence).toBe(0.98);
+    expect(invoiceNumber.source).toEqual({ kind: 'text', start: INVOICE_TEXT.indexOf('INV-12345'), end: INVOICE_TEXT.indexOf('INV-12345') + 9 });
+
+    // Reformatted values point at the whole snippet
+    expect(provenance.invoiceDate?.sourceText).toBe('Date: April 15, 2023');
+
+    // Numbers are matched in their printed form
+    expect(provenance.totalAmount?.sourceText).toBe('6,000');
+
+    // Values without a snippet are searched for directly
+    expect(provenance.vendorName?.sourceText).toBe('Acme Supplies');
+
+    expect(result.items[0].provenance?.confidence).toBe(0.9);
+    expect(result.items[0].provenance?.sourceText).toBe('Web Development Services');
+  });
+
+  it('should cap the confidence of values that cannot be found in the text', async () => {
+    const result = await parseInvoice(createFakeProvider(() => JSON.stringify(MODEL_RESPONSE)), INVOICE_TEXT, true);
+
+    expect(result.fieldProvenance?.currency).toEqual({ confidence: 0.4 });
+    // Subtotal has no reported confidence, so it falls back to the default and needs review too
+    expect(findLowConfidenceFields(result)).toEqual(['subtotal', 'currency']);
+  });
+
+  it('should give defaulted fields zero confidence', () => {
+    const invoice = { invoiceNumber: 'UNKNOWN', vendorName: 'Acme Supplies', items: [] } as unknown as InvoiceData;
+
+    applyTextProvenance(invoice, { fields: {}, items: [] }, INVOICE_TEXT, ['invoiceNumber']);
+
+    expect(invoice.fieldProvenance?.invoiceNumber).toEqual({ confidence: 0 });
+    expect(invoice.fieldProvenance?.vendorName?.confidence).toBe(0.5);
+  });
+
+  it('should record page and region for image input', async () => {
+    const provider = createFakeProvider(() => JSON.stringify({
+      invoiceNumber: 'INV-1',
+      vendorName: 'Acme Supplies',
+      totalAmount: 100,
+      currency: 'USD',
+      items: [{ description: 'Widget', quantity: 1, unitPrice: 100, amount: 100, confidence: 0.8, page: 1, region: { x: 0.1, y: 0.5, width: 0.8, height: 0.03 } }],
+      fieldConfidence: {
+        totalAmount: { confidence: 0.95, page: 1, region: { x: 0.7, y: 0.8, width: 0.2, height: 0.04 } }
+      }
+    }));
+
+    const result = await parseInvoiceImageBase64('AAAA', undefined, 'image/png', provider);
+
+    expect(result.fieldProvenance?.totalAmount).toEqual({
+      confidence: 0.95,
+      source: { kind: 'image', page: 1, region: { x: 0.7, y: 0.8, width: 0.2, height: 0.04 } }
+    });
+    expect(result.items[0].provenance?.source).toEqual({ kind: 'image', page: 1, region: { x: 0.1, y: 0.5, width: 0.8, height: 0.03 } });
+  });
+
+  it('should scale and clip regions to the page', () => {
+    const hints = takeProvenanceHints({
+      items: [{ description: 'Widget', page: 1, region: { x: 100, y: 500, width: 800, height: 30 } }],
+      fieldConfidence: {
+        totalAmount: { page: 1, region: { x: 0.8, y: 0.9, width: 0.3, height: 0.05 } },
+        invoiceNumber: { page: 1, region: { x: 0.5, y: 0.1, width: 0, height: 0.02 } },
+        vendorName: { page: 1, region: { x: -0.1, y: 0.1, width: 0.2, height: 0.02 } }
+      }
+    });
+
+    expect(hints.items[0].region).toEqual({ x: 0.1, y: 0.5, width: 0.8, height: 0.03 });
+    expect(hints.fields.totalAmount?.region).toEqual({ x: 0.8, y: 0.9, width: 0.2, height: 0.05 });
+    // Empty boxes and boxes off the page are left out
+    expect(hints.fields.invoiceNumber).toEqual({ page: 1 });
+    expect(hints.fields.vendorName).toEqual({ page: 1 });
+  });
+});
@@ -0,0 +1,121 @@
+import { INVOICE_RESPONSE_SCHEMA, parseInvoice } from '../invoiceParser';
+import { classifyDocumentImage } from '../imageParser';
+import { parseBillOfLadingImage, parseDeliveryReceiptImage } from '../logisticsParser';
+import { validateResponse } from '../responseSchema';
+import { InvalidModelResponseError, UpstreamUnavailableError } from '../errors';
+import { createFakeProvider } from '../fakeProvider';
+import { CompletionRequest, LLMTask } from '../llmTypes';
+
+const VALID_INVOICE = {
+  invoiceNumber: 'INV-12345',
+  invoiceDate: '2024-03-01',
+  vendorName: 'Acme Supplies',
+  items: [{ description: 'Widget', quantity: 2, unitPrice: 50, amount: 100 }],
+  subtotal: 100,
+  totalAmount: 100,
+  currency: 'USD'
+};
+
+describe('Response Schema', () => {
+  it('should report where a response differs from its schema', () => {
+    expect(validateResponse(VALID_INVOICE, INVOICE_RESPONSE_SCHEMA)).toEqual([]);
+    // Formatted amounts and left-out optional fields are fine
+    expect(validateResponse({ totalAmount: '1.234,56', dueDate: null, items: [] }, INVOICE_RESPONSE_SCHEMA)).toEqual([]);
+
+    expect(validateResponse({
+      ...VALID_INVOICE,
+      vendorName: 42,
+      totalAmount: 'about a hundred',
+      items: [{ description: 'Widget', quantity: 2, amount: 100 }, 'Bolt']
+    }, INVOICE_RESPONSE_SCHEMA)).toEqual([
+      { path: 'vendorName', message: 'must be a string' },
+      { path: 'totalAmount', message: 'must be a number' },
+      { path: 'items[0].unitPrice', message: 'is required' },
+      { path: 'items[1]', message: 'must be a JSON object' }
+    ]);
+    expect(validateResponse(['INV-1'], INVOICE_RESPONSE_SCHEMA)).toEqual([{ path: '', message: 'must be a JSON object' }]);
+  });
+
+  it('should ask the model to fix an invalid response', async () => {
+    const requests: CompletionRequest[] = [];
+    const responses = [
+      'Here is the invoice: {"invoiceNumber": "INV-12345"}',
+      JSON.stringify({ ...VALID_INVOICE, items: [{ description: 'Widget', quantity: 2, amount: 100 }] }),
+      JSON.stringify(VALID_INVOICE)
+    ];
+    const provider = createFakeProvider(request => {
+      requests.push(request);
+      return responses[requests.length - 1];
+    });
+
+    const result = await parseInvoice(provider, 'INVOICE INV-12345', true);
+
+    expect(result.repairRounds).toBe(2);
+    expect(result.items[0].unitPrice).toBe(50);
+    // Every round sends the invalid response back with what is wrong with it
+    expect(requests.map(request => request.messages.length)).toEqual([2, 4, 6]);
+    expect(requests[1].messages[2]).toEqual({ role: 'assistant', content: responses[0] });
+    expect(requests[2].messages[5].content).toBe(
+      'Your response does not match the required structure:\n- items[0].unitPrice is required\nReturn the complete corrected JSON object only.'
+    );
+
+    const valid = await parseInvoice(createFakeProvider(() => JSON.stringify(VALID_INVOICE)), 'INVOICE INV-12345', true);
+    expect(valid.repairRounds).toBeUndefined();
+  });
+
+  it('should fail with a typed error when the response stays invalid', async () => {
+    const provider = {
+      ...createFakeProvider(() => JSON.stringify({ documentType: 'INVOICE', confidence: 0.9 })),
+      repairAttempts: 1
+    };
+
+    const error = await classifyDocumentImage(provider, 'AAAA', 'image/png').catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(InvalidModelResponseError);
+    expect(error).toMatchObject({
+      task: LLMTask.DOCUMENT_CLASSIFICATION,
+      attempts: 2,
+      issues: [{ path: 'documentType', message: expect.stringContaining('must be one of: BILL_OF_LADING') }]
+    });
+
+    // No repair rounds at all
+    const strict = { ...createFakeProvider(() => '{}'), repairAttempts: 0 };
+    await expect(parseInvoice(strict, 'INVOICE', true)).resolves.toMatchObject({ invoiceNumber: 'UNKNOWN' });
+    await expect(classifyDocumentImage(strict, 'AAAA', 'image/png')).rejects.toThrow(
+      "The model's document_classification response was invalid after 1 attempt: documentType is required; confidence is required"
+    );
+  });
+
+  it('should check logistics extractions and ask the model to fix them', async () => {
+    const requests: CompletionRequest[] = [];
+    const responses = [
+      'The bill of lading number is 78910',
+      JSON.stringify({ bolNumber: 78910, handlingUnits: [{ quantity: '2 pallets' }], weightUnit: 'tons' }),
+      JSON.stringify({ bolNumber: '78910', handlingUnits: [{ quantity: 2, weight: 1200 }], weightUnit: 'lb' })
+    ];
+    const provider = createFakeProvider(request => {
+      requests.push(request);
+      return responses[requests.length - 1];
+    });
+
+    const billOfLading = await parseBillOfLadingImage('AAAA', 'image/png', provider);
+
+    expect(billOfLading).toMatchObject({ bolNumber: '78910', totalWeight: 1200, repairRounds: 2 });
+    expect(requests[2].messages[5].content).toBe(
+      'Your response does not match the required structure:\n- bolNumber must be a string\n- handlingUnits[0].quantity must be a number\n- weightUnit must be one of: lb, kg\nReturn the complete corrected JSON object only.'
+    );
+
+    // A reply that never becomes JSON fails with a typed error instead of a SyntaxError
+    const error = await parseDeliveryReceiptImage('AAAA', 'image/png', { ...createFakeProvider(() => 'Delivered'), repairAttempts: 1 })
+      .catch((caught: unknown) => caught);
+    expect(error).toBeInstanceOf(InvalidModelResponseError);
+    expect(error).toMatchObject({ task: LLMTask.LOGISTICS_EXTRACTION, attempts: 2 });
+  });
+
+  it('should name the provider that returned no content', async () => {
+    const error = await parseInvoice(createFakeProvider(() => ''), 'INVOICE INV-1', true).catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(UpstreamUnavailableError);
+    expect(error).toHaveProperty('message', 'No content returned from the fake provider for the extraction request');
+  });
+});
@@ -0,0 +1,168 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import handler from '../../pages/api/parse-invoice';
+import { InvalidInputError, ParserErrorCode } from '../errors';
+import { detectStructuredFormat, importStructuredInvoice, importX12Invoice, StructuredFormat } from '../structuredImport';
+import { parseInvoicePdf } from '../imageParser';
+import { parseInvoice } from '../invoiceParser';
+import { createFakeProvider } from '../fakeProvider';
+import { InvoiceType } from '../types';
+import { readFileSync } from 'fs';
+import path from 'path';
+import { deflateSync } from 'zlib';
+
+const fixturePath = (name: string) => path.join(__dirname, 'fixtures/einvoices', name);
+const UBL_INVOICE = readFileSync(fixturePath('ubl-invoice.xml'), 'utf8');
+const CII_CREDIT_NOTE = readFileSync(fixturePath('cii-credit-note.xml'), 'utf8');
+const X12_INVOICE = readFileSync(fixturePath('x12-810.edi'), 'utf8');
+
+/**
+ * Build a minimal PDF with the XML attached as a compressed embedded file, as Factur-X does
+ */
+const createFacturXPdf = (xml: string): Buffer => {
+  const compressed = deflateSync(Buffer.from(xml, 'utf8'));
+  return Buffer.concat([
+    Buffer.from('%PDF-1.7\n1 0 obj\n<< /Type /Catalog >>\nendobj\n', 'latin1'),
+    Buffer.from(`5 0 obj\n<< /Type /EmbeddedFile /Subtype /text#2Fxml /Params << /Size ${xml.length} >> /Filter /FlateDecode /Length ${compressed.length} >>\nstream\n`, 'latin1'),
+    compressed,
+    Buffer.from('\nendstream\nendobj\n%%EOF\n', 'latin1')
+  ]);
+};
+
+describe('Structured Import', () => {
+  it('should detect the supported formats and nothing else', () => {
+    expect(detectStructuredFormat(UBL_INVOICE)).toBe(StructuredFormat.UBL);
+    expect(detectStructuredFormat(Buffer.from(`﻿${CII_CREDIT_NOTE}`))).toBe(StructuredFormat.CII);
+    expect(detectStructuredFormat(X12_INVOICE)).toBe(StructuredFormat.X12_810);
+    expect(detectStructuredFormat(createFacturXPdf(CII_CREDIT_NOTE))).toBe(StructuredFormat.FACTUR_X);
+
+    expect(detectStructuredFormat('INVOICE\nInvoice #: INV-1')).toBeUndefined();
+    expect(detectStructuredFormat('<Invoice><ID>1</ID></Invoice>')).toBeUndefined();
+    expect(detectStructuredFormat('ST*850*0001~BEG*00*SA*PO-1~')).toBeUndefined();
+    expect(detectStructuredFormat(Buffer.from('%PDF-1.4\n% no attachments\n'))).toBeUndefined();
+  });
+
+  it('should import UBL invoices', () => {
+    const invoice = importStructuredInvoice(UBL_INVOICE);
+
+    expect(invoice).toMatchObject({
+      invoiceNumber: '00871',
+      invoiceDate: '2024-02-12',
+      dueDate: '2024-03-13',
+      vendorName: 'Lieferant & Co GmbH',
+      vendorAddress: 'Hauptstraße 1, 10115 Berlin, DE',
+      customerName: 'Nordic Retail AS',
+      subtotal: 1750,
+      taxAmount: 332.5, // The VAT total in NOK is ignored
+      totalAmount: 2082.5,
+      currency: 'EUR',
+      paymentTerms: '30 days net',
+      classification: { type: InvoiceType.STANDARD, confidence: 1, metadata: { format: StructuredFormat.UBL, typeCode: '380' } }
+    });
+    expect(invoice?.items).toEqual([
+      { description: 'Consulting', quantity: 10, unitPrice: 150, amount: 1500 },
+      // Priced per 10 pieces
+      { description: 'Cable ties', quantity: 100, unitPrice: 2.5, amount: 250 }
+    ]);
+    expect(invoice?.validation).toEqual({ valid: true, issues: [], defaultedFields: [] });
+    expect(invoice?.fieldProvenance?.totalAmount).toEqual({ confidence: 1 });
+  });
+
+  it('should import CII credit notes as credit notes', () => {
+    const invoice = importStructuredInvoice(CII_CREDIT_NOTE);
+
+    expect(invoice).toMatchObject({
+      invoiceNumber: 'AV-2024-017',
+      invoiceDate: '2024-03-05',
+      dueDate: '2024-03-19',
+      vendorName: 'Bureau Meubles SARL',
+      customerAddress: '4 Quai Saint-Antoine, 69002 Lyon, FR',
+      // Credit notes are stored as negative amounts
+      items: [{ description: 'Returned office chairs', quantity: -2, unitPrice: 120, amount: -240 }],
+      totalAmount: -288,
+      classification: { type: InvoiceType.CREDIT_NOTE, confidence: 1 },
+      typeDetails: { type: InvoiceType.CREDIT_NOTE, referencedInvoiceNumber: 'FA-2024-102' }
+    });
+    expect(invoice?.validation?.valid).toBe(true);
+  });
+
+  it('should import X12 810 invoices', () => {
+    const invoice = importStructuredInvoice(X12_INVOICE);
+
+    expect(invoice).toMatchObject({
+      invoiceNumber: 'INV-88120',
+      invoiceDate: '2024-04-01',
+      vendorName: 'Acme Supplies Inc.',
+      vendorAddress: '100 Industrial Way, Dayton, OH 45402, US',
+      customerName: 'Globex Corporation',
+      customerAddress: '1 Globex Plaza, Suite 400, Springfield, IL 62701',
+      purchaseOrderNumber: 'PO-5531',
+      items: [
+        { description: 'Widget, blue', quantity: 24, unitPrice: 12.5, amount: 300 },
+        { description: 'BOLT-20', quantity: 3, unitPrice: 40, amount: 120 }
+      ],
+      subtotal: 420,
+      taxAmount: 33.6,
+      totalAmount: 468.6,
+      currency: 'USD',
+      paymentTerms: '2% 10 Net 30',
+      classification: { type: InvoiceType.STANDARD, confidence: 1, metadata: { format: StructuredFormat.X12_810 } }
+    });
+    // The $15 freight charge makes up the difference between subtotal plus tax and the total
+    expect(invoice?.validation?.valid).toBe(true);
+  });
+
+  it('should map X12 credit memos to credit notes', () => {
+    const invoice = importX12Invoice(
+      'ST*810*0002~BIG*20240410*CM-12***PO-5531**CR~REF*OI*INV-88120~N1*SE*Acme Supplies Inc.~' +
+      'IT1*1*2*EA*12.5~PID*F****Damaged widget~TDS*2500~SE*7*0002~'
+    );
+
+    expect(invoice.classification?.type).toBe(InvoiceType.CREDIT_NOTE);
+    expect(invoice.typeDetails).toEqual({ type: InvoiceType.CREDIT_NOTE, referencedInvoiceNumber: 'INV-88120' });
+    expect(invoice.totalAmount).toBe(-25);
+    expect(() => importX12Invoice('ST*810*0003~SE*1*0003~')).toThrow(InvalidInputError);
+    expect(() => importX12Invoice('ST*850*0004~SE*1*0004~')).toThrow('No X12 810 transaction set found');
+  });
+
+  it('should answer a broken X12 invoice with a 400', async () => {
+    const previousKey = process.env.OPENAI_API_KEY;
+    process.env.OPENAI_API_KEY = 'test-key';
+    const res = { status: jest.fn(), json: jest.fn(), setHeader: jest.fn() };
+    res.status.mockReturnValue(res);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    try {
+      await handler(
+        { method: 'POST', body: { invoiceText: 'ST*810*0003~SE*1*0003~' } } as NextApiRequest,
+        res as unknown as NextApiResponse
+      );
+    } finally {
+      if (previousKey === undefined) {
+        delete process.env.OPENAI_API_KEY;
+      } else {
+        process.env.OPENAI_API_KEY = previousKey;
+      }
+      jest.restoreAllMocks();
+    }
+
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(res.json).toHaveBeenCalledWith({
+      success: false,
+      error: 'X12 810 invoice has no BIG segment',
+      code: ParserErrorCode.INVALID_INPUT
+    });
+  });
+
+  it('should import Factur-X PDFs and plain XML without calling the model', async () => {
+    const responder = jest.fn().mockReturnValue('{}');
+    const provider = createFakeProvider(responder);
+
+    const fromPdf = await parseInvoicePdf(createFacturXPdf(CII_CREDIT_NOTE), provider);
+    const fromText = await parseInvoice(provider, UBL_INVOICE);
+
+    expect(fromPdf.invoiceNumber).toBe('AV-2024-017');
+    expect(fromPdf.classification?.metadata).toEqual({ format: StructuredFormat.FACTUR_X, typeCode: '381' });
+    expect(fromText.invoiceNumber).toBe('00871');
+    expect(responder).not.toHaveBeenCalled();
+  });
+});
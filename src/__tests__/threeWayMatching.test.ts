@@ -0,0 +1,153 @@
+import { findMatchingDocuments, matchInvoice, MatchStatus, matchStoredInvoice } from '../threeWayMatching';
+import { createDocumentStore } from '../documentStore';
+import { DeliveryReceiptData, InvoiceData, InvoiceItem, InvoiceType, LogisticsDocumentType } from '../types';
+import { mkdtempSync, rmSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { createTestInvoice } from './fixtures/invoices';
+
+const item = (description: string, quantity: number, unitPrice: number): InvoiceItem => ({
+  description,
+  quantity,
+  unitPrice,
+  amount: Math.round(quantity * unitPrice * 100) / 100
+});
+
+const createInvoice = (items: InvoiceItem[], overrides: Partial<InvoiceData> = {}): InvoiceData => createTestInvoice({
+  invoiceNumber: 'INV-88120',
+  invoiceDate: '2024-04-01',
+  items,
+  subtotal: Math.round(items.reduce((sum, line) => sum + line.amount, 0) * 100) / 100,
+  totalAmount: 0,
+  purchaseOrderNumber: 'PO-5531',
+  ...overrides
+});
+
+const PURCHASE_ORDER = createInvoice([item('Widget, blue', 24, 12.5), item('Bolt M20', 3, 40)], {
+  invoiceNumber: 'PO-5531',
+  vendorName: 'ACME Supplies',
+  purchaseOrderNumber: undefined,
+  classification: { type: InvoiceType.PURCHASE_ORDER, confidence: 0.9 }
+});
+
+const createReceipt = (items: DeliveryReceiptData['items'], overrides: Partial<DeliveryReceiptData> = {}): DeliveryReceiptData => ({
+  documentType: LogisticsDocumentType.DELIVERY_RECEIPT,
+  receiptNumber: 'DR-1',
+  purchaseOrderNumber: 'PO 5531',
+  shipper: { name: 'Acme Warehouse' },
+  consignee: { name: 'Globex' },
+  items,
+  exceptions: [],
+  ...overrides
+});
+
+describe('Three-Way Matching', () => {
+  it('should match an invoice billed as ordered and received', () => {
+    const report = matchInvoice(createInvoice([item('Widget blue', 24, 12.5), item('BOLT M20', 3, 40)]), {
+      purchaseOrder: PURCHASE_ORDER,
+      // Delivered in two shipments
+      receipts: [
+        createReceipt([{ description: 'Widget, blue', deliveredQuantity: 20 }]),
+        createReceipt([{ description: 'Widget, blue', deliveredQuantity: 4 }, { description: 'Bolt M20', expectedQuantity: 3 }])
+      ]
+    });
+
+    expect(report.status).toBe(MatchStatus.MATCHED);
+    expect(report.findings).toEqual([]);
+    expect(report.lines[0]).toEqual({
+      line: 0,
+      description: 'Widget blue',
+      status: MatchStatus.MATCHED,
+      findings: [],
+      purchaseOrderLine: 0,
+      invoicedQuantity: 24,
+      orderedQuantity: 24,
+      receivedQuantity: 24,
+      invoicedUnitPrice: 12.5,
+      orderedUnitPrice: 12.5
+    });
+    expect(report.lines[1]).toMatchObject({ purchaseOrderLine: 1, receivedQuantity: 3, status: MatchStatus.MATCHED });
+  });
+
+  it('should report price and quantity variances within configurable tolerances', () => {
+    const invoice = createInvoice([item('Widget, blue', 20, 12.75), item('Bolt M20', 3, 40)]);
+    const documents = {
+      purchaseOrder: PURCHASE_ORDER,
+      receipts: [createReceipt([{ description: 'Widget, blue', deliveredQuantity: 22 }, { description: 'Bolt M20', deliveredQuantity: 3 }])]
+    };
+
+    const strict = matchInvoice(invoice, documents);
+    expect(strict.status).toBe(MatchStatus.QUANTITY_VARIANCE);
+    expect(strict.lines[0]).toMatchObject({
+      status: MatchStatus.QUANTITY_VARIANCE,
+      findings: ['Billed 20, received 22', 'Unit price 12.75, ordered at 12.50']
+    });
+
+    // 2% on the price, 10% on the quantity
+    const lenient = matchInvoice(invoice, documents, { unitPrice: 0.02, quantity: 0.1 });
+    expect(lenient.status).toBe(MatchStatus.MATCHED);
+    expect(lenient.tolerances).toEqual({ unitPrice: 0.02, quantity: 0.1, amount: 0.01 });
+
+    const priceOnly = matchInvoice(invoice, documents, { quantity: 0.1 });
+    expect(priceOnly.lines.map(line => line.status)).toEqual([MatchStatus.PRICE_VARIANCE, MatchStatus.MATCHED]);
+  });
+
+  it('should report over-billing and missing receipts', () => {
+    const invoice = createInvoice([item('Widget, blue', 30, 12.5), item('Bolt M20', 3, 40), item('Expedite fee', 1, 50)]);
+
+    const report = matchInvoice(invoice, {
+      purchaseOrder: PURCHASE_ORDER,
+      receipts: [createReceipt([{ description: 'Widget, blue', deliveredQuantity: 30 }])]
+    });
+    expect(report.status).toBe(MatchStatus.OVER_BILLED);
+    expect(report.findings).toEqual(['Invoice subtotal 545.00 exceeds the purchase order subtotal 420.00']);
+    expect(report.lines.map(line => [line.status, line.findings])).toEqual([
+      [MatchStatus.OVER_BILLED, ['Billed 30, ordered 24']],
+      [MatchStatus.MISSING_RECEIPT, ['No delivery was recorded for this item']],
+      [MatchStatus.OVER_BILLED, ['Item is not on the purchase order']]
+    ]);
+
+    const unreceived = matchInvoice(createInvoice([item('Widget, blue', 24, 12.5)]), { purchaseOrder: PURCHASE_ORDER, receipts: [] });
+    expect(unreceived.status).toBe(MatchStatus.MISSING_RECEIPT);
+    expect(unreceived.findings).toEqual(['No delivery receipt was found for the purchase order']);
+
+    expect(matchInvoice(createInvoice([], { purchaseOrderNumber: undefined }), { receipts: [] })).toMatchObject({
+      status: MatchStatus.MISSING_PURCHASE_ORDER,
+      findings: ['The invoice does not reference a purchase order'],
+      lines: []
+    });
+  });
+
+  it('should link stored invoices to their purchase order and receipts', () => {
+    const directory = mkdtempSync(path.join(os.tmpdir(), 'matching-'));
+    try {
+      const store = createDocumentStore(directory);
+      const purchaseOrder = store.save({ input: 'po', data: PURCHASE_ORDER });
+      store.save({ input: 'other vendor', data: { ...PURCHASE_ORDER, vendorName: 'Globex Corporation' } });
+      const receipt = store.save({
+        input: 'receipt',
+        data: createReceipt([{ description: 'Widget, blue', deliveredQuantity: 24 }, { description: 'Bolt M20', deliveredQuantity: 3 }])
+      });
+      store.save({ input: 'other receipt', data: createReceipt([], { purchaseOrderNumber: 'PO-9999' }) });
+      const invoice = createInvoice([item('Widget, blue', 24, 12.5), item('Bolt M20', 3, 40)], { purchaseOrderNumber: 'po5531' });
+
+      const linked = findMatchingDocuments(invoice, store.all());
+      expect(linked.purchaseOrder?.id).toBe(purchaseOrder.id);
+      expect(linked.receipts.map(document => document.id)).toEqual([receipt.id]);
+
+      expect(matchStoredInvoice(invoice, store)).toMatchObject({
+        status: MatchStatus.MATCHED,
+        purchaseOrderNumber: 'po5531',
+        purchaseOrderId: purchaseOrder.id,
+        receiptIds: [receipt.id]
+      });
+      expect(matchStoredInvoice({ ...invoice, purchaseOrderNumber: 'PO-1' }, store)).toMatchObject({
+        status: MatchStatus.MISSING_PURCHASE_ORDER,
+        findings: ['Purchase order PO-1 was not found'],
+        receiptIds: []
+      });
+    } finally {
+      rmSync(directory, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,120 @@
+import { InvoiceType, parseInvoice } from '../invoiceParser';
+import { createFakeProvider } from '../fakeProvider';
+import { CompletionRequest, LLMTask } from '../llmTypes';
+import { getTypePrompt, takeTypeDetails } from '../typeStrategies';
+import { ValidationCode } from '../validation';
+
+/**
+ * Create a provider that classifies as the given type and returns the given extraction
+ */
+const createTypedProvider = (type: InvoiceType, extraction: Record<string, unknown>) => {
+  const requests: CompletionRequest[] = [];
+  const provider = createFakeProvider(request => {
+    requests.push(request);
+    return request.task === LLMTask.CLASSIFICATION
+      ? JSON.stringify({ type, confidence: 0.95 })
+      : JSON.stringify(extraction);
+  });
+  return { provider, requests };
+};
+
+describe('Type-Specific Parsing', () => {
+  it('should add the type-specific structure to the extraction prompt', async () => {
+    const { provider, requests } = createTypedProvider(InvoiceType.PURCHASE_ORDER, {});
+
+    await parseInvoice(provider, 'PURCHASE ORDER #PO-789012');
+
+    const systemPrompt = requests[1].messages[0].content as string;
+    expect(systemPrompt).toContain('PURCHASE_ORDER');
+    expect(systemPrompt).toContain('"shipToAddress"');
+    expect(getTypePrompt(InvoiceType.STANDARD)).toBe('');
+  });
+
+  it('should extract purchase order details and validate the delivery date', async () => {
+    const { provider } = createTypedProvider(InvoiceType.PURCHASE_ORDER, {
+      invoiceNumber: 'PO-789012',
+      invoiceDate: '2023-03-10',
+      vendorName: 'Acme Supplies',
+      items: [],
+      totalAmount: 15000,
+      currency: 'USD',
+      typeDetails: { shipToAddress: '789 Distribution Blvd, San Francisco, CA 94105', requestedDeliveryDate: '2023-03-01' }
+    });
+
+    const result = await parseInvoice(provider, 'PURCHASE ORDER #PO-789012');
+
+    expect(result.typeDetails).toEqual({
+      type: InvoiceType.PURCHASE_ORDER,
+      shipToAddress: '789 Distribution Blvd, San Francisco, CA 94105',
+      requestedDeliveryDate: '2023-03-01'
+    });
+    expect(result.validation?.issues).toContainEqual(expect.objectContaining({
+      code: ValidationCode.INCONSISTENT_TYPE_FIELD,
+      field: 'typeDetails.requestedDeliveryDate'
+    }));
+  });
+
+  it('should mask receipt payment methods', async () => {
+    const { provider } = createTypedProvider(InvoiceType.RECEIPT, {
+      invoiceNumber: 'TXN-5678',
+      typeDetails: { transactionId: 'TXN-5678', transactionTime: '14:30', paymentMethod: 'Credit Card (VISA 4111 1111 1111 4321)' }
+    });
+
+    const result = await parseInvoice(provider, 'RECEIPT');
+
+    expect(result.typeDetails).toEqual({
+      type: InvoiceType.RECEIPT,
+      transactionId: 'TXN-5678',
+      transactionTime: '14:30',
+      paymentMethod: 'Credit Card (VISA ****4321)'
+    });
+  });
+
+  it('should include proforma shipping and insurance in the total check', async () => {
+    const extraction = {
+      invoiceNumber: 'PRO-23456',
+      invoiceDate: '2023-06-20',
+      vendorName: 'Global Exports Ltd.',
+      items: [{ description: 'Manufacturing Equipment - Model X2000', quantity: 1, unitPrice: 45000, amount: 45000 }],
+      subtotal: 45000,
+      totalAmount: 48500,
+      currency: 'USD',
+      typeDetails: { shippingAmount: 2500, insuranceAmount: 1000, advancePaymentTerms: '50% advance payment, 50% before shipment', notTaxInvoice: true }
+    };
+    const { provider } = createTypedProvider(InvoiceType.PROFORMA, extraction);
+
+    const result = await parseInvoice(provider, 'PROFORMA INVOICE');
+
+    expect(result.typeDetails).toMatchObject({ type: InvoiceType.PROFORMA, shippingAmount: 2500, notTaxInvoice: true });
+    expect(result.validation?.valid).toBe(true);
+
+    // Without the type-specific charges the same total would not reconcile
+    const { provider: standardProvider } = createTypedProvider(InvoiceType.STANDARD, extraction);
+    const standard = await parseInvoice(standardProvider, 'PROFORMA INVOICE');
+    expect(standard.typeDetails).toBeUndefined();
+    expect(standard.validation?.issues.map(issue => issue.code)).toContain(ValidationCode.TOTAL_MISMATCH);
+  });
+
+  it('should flag credit notes without a referenced invoice', async () => {
+    const { provider } = createTypedProvider(InvoiceType.CREDIT_NOTE, { invoiceNumber: 'CN-3456' });
+
+    const result = await parseInvoice(provider, 'CREDIT NOTE');
+
+    expect(result.typeDetails).toEqual({ type: InvoiceType.CREDIT_NOTE, referencedInvoiceNumber: undefined, reason: undefined });
+    expect(result.validation?.issues).toContainEqual(expect.objectContaining({
+      code: ValidationCode.MISSING_TYPE_FIELD,
+      field: 'typeDetails.referencedInvoiceNumber'
+    }));
+  });
+
+  it('should ignore malformed type details', () => {
+    const raw: Record<string, unknown> = { typeDetails: { referencedInvoiceNumber: ['INV-12345'], reason: ' Overcharge on services ' } };
+
+    expect(takeTypeDetails(raw, InvoiceType.CREDIT_NOTE)).toEqual({
+      type: InvoiceType.CREDIT_NOTE,
+      referencedInvoiceNumber: undefined,
+      reason: 'Overcharge on services'
+    });
+    expect(raw).toEqual({});
+  });
+});
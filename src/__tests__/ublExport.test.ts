@@ -0,0 +1,117 @@
+import { exportUbl, findMissingBusinessTerms, UblDocumentType, UblExportOptions } from '../ublExport';
+import { InvoiceData, InvoiceType } from '../types';
+import { createTestInvoice } from './fixtures/invoices';
+
+const OPTIONS: UblExportOptions = {
+  sellerEndpoint: '0088:7300010000001',
+  buyerEndpoint: '0192:987654321',
+  buyerReference: 'PO-778',
+  sellerVatId: 'GB123456789'
+};
+
+const createInvoice = (overrides: Partial<InvoiceData> = {}): InvoiceData => createTestInvoice({
+  invoiceDate: '2023-04-15',
+  dueDate: '2023-05-15',
+  vendorName: 'Smith & Sons Ltd',
+  vendorAddress: '10 Downing Street, London SW1A 2AA',
+  customerName: 'Nordic Retail AS',
+  customerAddress: 'Karl Johans gate 1, Oslo, Norway',
+  items: [
+    { description: 'Widget <large>', quantity: 2, unitPrice: 50, amount: 100 },
+    { description: 'Installation', quantity: 1, unitPrice: 25.5, amount: 25.5 }
+  ],
+  subtotal: 125.5,
+  taxAmount: 25.1,
+  totalAmount: 150.6,
+  currency: 'GBP',
+  paymentTerms: 'Net 30',
+  ...overrides
+});
+
+describe('UBL Export', () => {
+  it('should write a Peppol BIS Billing 3.0 invoice', () => {
+    const result = exportUbl(createInvoice(), { ...OPTIONS, buyerCountryCode: 'NO' });
+
+    expect(result.missingTerms).toEqual([]);
+    expect(result.documentType).toBe(UblDocumentType.INVOICE);
+
+    const xml = result.xml as string;
+    expect(xml).toMatch(/^<\?xml version="1.0" encoding="UTF-8"\?>\n<Invoice xmlns="urn:oasis:names:specification:ubl:schema:xsd:Invoice-2"/);
+    expect(xml).toContain('<cbc:CustomizationID>urn:cen.eu:en16931:2017#compliant#urn:fdc:peppol.eu:2017:poacc:billing:3.0</cbc:CustomizationID>');
+    expect(xml).toContain('<cbc:InvoiceTypeCode>380</cbc:InvoiceTypeCode>');
+    expect(xml).toContain('<cbc:DueDate>2023-05-15</cbc:DueDate>');
+    expect(xml).toContain('<cbc:EndpointID schemeID="0088">7300010000001</cbc:EndpointID>');
+    expect(xml).toContain('<cbc:IdentificationCode>GB</cbc:IdentificationCode>');
+    expect(xml).toContain('<cbc:RegistrationName>Smith &amp; Sons Ltd</cbc:RegistrationName>');
+    expect(xml).toContain('<cbc:Name>Widget &lt;large&gt;</cbc:Name>');
+    expect(xml).toContain('<cbc:Percent>20</cbc:Percent>');
+    expect(xml).toContain('<cbc:TaxInclusiveAmount currencyID="GBP">150.60</cbc:TaxInclusiveAmount>');
+    expect(xml).toContain('<cbc:InvoicedQuantity unitCode="C62">2</cbc:InvoicedQuantity>');
+    expect(xml.match(/<cac:InvoiceLine>/g)).toHaveLength(2);
+  });
+
+  it('should take the order reference from the purchase order number of the invoice', () => {
+    const result = exportUbl(createInvoice({ purchaseOrderNumber: 'PO-5531' }), {
+      ...OPTIONS,
+      buyerReference: undefined,
+      buyerCountryCode: 'NO'
+    });
+
+    expect(result.missingTerms).toEqual([]);
+    expect(result.xml).toMatch(/<cac:OrderReference>\s*<cbc:ID>PO-5531<\/cbc:ID>\s*<\/cac:OrderReference>/);
+  });
+
+  it('should write credit notes as CreditNote documents with positive amounts', () => {
+    const result = exportUbl(createInvoice({
+      invoiceNumber: 'CN-1',
+      items: [{ description: 'Returned widget', quantity: -1, unitPrice: 50, amount: -50 }],
+      subtotal: -50,
+      taxAmount: -10,
+      totalAmount: -60,
+      classification: { type: InvoiceType.CREDIT_NOTE, confidence: 0.95 },
+      typeDetails: { type: InvoiceType.CREDIT_NOTE, referencedInvoiceNumber: 'INV-12345' }
+    }), { ...OPTIONS, buyerCountryCode: 'NO' });
+
+    const xml = result.xml as string;
+    expect(result.documentType).toBe(UblDocumentType.CREDIT_NOTE);
+    expect(xml).toContain('<CreditNote xmlns="urn:oasis:names:specification:ubl:schema:xsd:CreditNote-2"');
+    expect(xml).toContain('<cbc:CreditNoteTypeCode>381</cbc:CreditNoteTypeCode>');
+    expect(xml).toMatch(/<cac:InvoiceDocumentReference>\s*<cbc:ID>INV-12345<\/cbc:ID>/);
+    expect(xml).toContain('<cbc:CreditedQuantity unitCode="C62">1</cbc:CreditedQuantity>');
+    expect(xml).toContain('<cbc:PayableAmount currencyID="GBP">60.00</cbc:PayableAmount>');
+    expect(xml).toContain('<cbc:PaymentDueDate>2023-05-15</cbc:PaymentDueDate>');
+    expect(xml).not.toContain('<cbc:DueDate>');
+  });
+
+  it('should report missing business terms instead of writing XML', () => {
+    const result = exportUbl(createInvoice({
+      customerName: undefined,
+      customerAddress: undefined,
+      dueDate: undefined,
+      paymentTerms: undefined
+    }), {});
+
+    expect(result.xml).toBeUndefined();
+    expect(result.missingTerms.map(missing => missing.term)).toEqual([
+      'BT-10', 'BT-31', 'BT-34', 'BT-44', 'BT-49', 'BT-55', 'BT-9'
+    ]);
+  });
+
+  it('should treat defaulted fields and inconsistent totals as missing', () => {
+    const invoice = createInvoice({
+      vendorName: 'UNKNOWN',
+      invoiceDate: '04/15/2023',
+      totalAmount: 160,
+      validation: { valid: false, issues: [], defaultedFields: ['vendorName'] }
+    });
+
+    const missing = findMissingBusinessTerms(invoice, { ...OPTIONS, buyerEndpoint: '987654321', buyerCountryCode: 'NO' });
+
+    expect(missing).toEqual([
+      expect.objectContaining({ term: 'BT-2', message: 'Issue date "04/15/2023" is not a YYYY-MM-DD date' }),
+      expect.objectContaining({ term: 'BT-27', field: 'vendorName', message: expect.stringContaining('only holds a default') }),
+      expect.objectContaining({ term: 'BT-49', message: expect.stringContaining('<scheme>:<identifier>') }),
+      expect.objectContaining({ term: 'BT-112', field: 'totalAmount' })
+    ]);
+  });
+});
@@ -0,0 +1,107 @@
+import {
+  detectFileFormat,
+  FileFormat,
+  inspectUpload,
+  readMultipartFiles,
+  readRequestBody,
+  UploadProblem
+} from '../uploads';
+import { Readable } from 'stream';
+
+const LIMITS = { maxBytes: 1024, maxPixels: 1_000_000 };
+
+const png = (width: number, height: number): Buffer => {
+  const header = Buffer.alloc(24);
+  Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]).copy(header);
+  header.writeUInt32BE(13, 8);
+  header.write('IHDR', 12, 'latin1');
+  header.writeUInt32BE(width, 16);
+  header.writeUInt32BE(height, 20);
+  return header;
+};
+
+const jpeg = (width: number, height: number): Buffer => {
+  const app0 = Buffer.from([0xff, 0xe0, 0x00, 0x10, ...Buffer.from('JFIF\0'), 1, 1, 0, 0, 1, 0, 1, 0, 0]);
+  const sof0 = Buffer.from([0xff, 0xc0, 0x00, 0x11, 0x08, 0, 0, 0, 0, 0x03, 1, 0x22, 0, 2, 0x11, 1, 3, 0x11, 1]);
+  sof0.writeUInt16BE(height, 5);
+  sof0.writeUInt16BE(width, 7);
+  return Buffer.concat([Buffer.from([0xff, 0xd8]), app0, sof0, Buffer.from([0xff, 0xd9])]);
+};
+
+const webp = (width: number, height: number): Buffer => {
+  const header = Buffer.alloc(30);
+  header.write('RIFF', 0, 'latin1');
+  header.writeUInt32LE(22, 4);
+  header.write('WEBPVP8X', 8, 'latin1');
+  header.writeUInt32LE(10, 16);
+  header.writeUIntLE(width - 1, 24, 3);
+  header.writeUIntLE(height - 1, 27, 3);
+  return header;
+};
+
+describe('Uploads', () => {
+  it('should detect file types from their magic bytes', () => {
+    const gif = Buffer.from('GIF89a\x20\x03\x58\x02', 'latin1');
+    const heic = Buffer.concat([Buffer.from([0, 0, 0, 0x18]), Buffer.from('ftypheic\0\0\0\0mif1heic')]);
+
+    expect(detectFileFormat(png(10, 10))).toBe(FileFormat.PNG);
+    expect(detectFileFormat(jpeg(10, 10))).toBe(FileFormat.JPEG);
+    expect(detectFileFormat(gif)).toBe(FileFormat.GIF);
+    expect(detectFileFormat(webp(10, 10))).toBe(FileFormat.WEBP);
+    expect(detectFileFormat(Buffer.from('II*\0\x08\0\0\0', 'latin1'))).toBe(FileFormat.TIFF);
+    expect(detectFileFormat(Buffer.from('MM\0*\0\0\0\x08', 'latin1'))).toBe(FileFormat.TIFF);
+    expect(detectFileFormat(heic)).toBe(FileFormat.HEIC);
+    expect(detectFileFormat(Buffer.from('%PDF-1.7\n%%EOF\n'))).toBe(FileFormat.PDF);
+    expect(detectFileFormat(Buffer.from('<html></html>'))).toBeUndefined();
+  });
+
+  it('should accept readable images and PDFs with their size', () => {
+    expect(inspectUpload(png(800, 600), LIMITS)).toEqual({ format: FileFormat.PNG, width: 800, height: 600 });
+    expect(inspectUpload(jpeg(640, 480), LIMITS)).toEqual({ format: FileFormat.JPEG, width: 640, height: 480 });
+    expect(inspectUpload(Buffer.from('GIF87a\x20\x03\x58\x02', 'latin1'), LIMITS)).toMatchObject({ width: 800, height: 600 });
+    expect(inspectUpload(webp(1000, 1000), LIMITS)).toEqual({ format: FileFormat.WEBP, width: 1000, height: 1000 });
+    expect(inspectUpload(Buffer.from('%PDF-1.7\n1 0 obj\n<<>>\nendobj\n%%EOF\n'), LIMITS)).toEqual({ format: FileFormat.PDF });
+  });
+
+  it('should reject unsupported, corrupt and oversized files', () => {
+    const problemOf = (data: Buffer) => inspectUpload(data, LIMITS).problem;
+
+    expect(problemOf(Buffer.from('plain text'))).toBe(UploadProblem.UNSUPPORTED_TYPE);
+    expect(inspectUpload(Buffer.from('II*\0\x08\0\0\0', 'latin1'), LIMITS)).toMatchObject({
+      format: FileFormat.TIFF,
+      problem: UploadProblem.UNSUPPORTED_TYPE,
+      message: expect.stringContaining('convert them to PNG, JPEG or PDF')
+    });
+    expect(problemOf(png(10, 10).subarray(0, 12))).toBe(UploadProblem.CORRUPT);
+    expect(problemOf(jpeg(10, 10).subarray(0, 10))).toBe(UploadProblem.CORRUPT);
+    expect(problemOf(png(0, 10))).toBe(UploadProblem.CORRUPT);
+    expect(problemOf(Buffer.from('%PDF-1.7\n1 0 obj\n<<'))).toBe(UploadProblem.CORRUPT);
+    expect(problemOf(Buffer.alloc(2048))).toBe(UploadProblem.TOO_LARGE);
+    expect(inspectUpload(png(1001, 1000), LIMITS)).toMatchObject({
+      problem: UploadProblem.TOO_MANY_PIXELS,
+      message: 'The image is 1001x1000 pixels, the limit is 1000000 pixels'
+    });
+  });
+
+  it('should read request bodies up to a limit', async () => {
+    const chunks = [Buffer.from('abc'), Buffer.from('def')];
+
+    await expect(readRequestBody(Readable.from(chunks), 6)).resolves.toEqual(Buffer.from('abcdef'));
+    await expect(readRequestBody(Readable.from(chunks), 5)).resolves.toBeUndefined();
+  });
+
+  it('should read the files of a multipart body', async () => {
+    const formData = new FormData();
+    formData.append('note', 'ignored');
+    formData.append('file', new Blob([png(1, 1)], { type: 'image/png' }), 'scan.png');
+    formData.append('file', new Blob([Buffer.from('<Invoice/>')], { type: 'application/octet-stream' }), 'invoice.xml');
+    const request = new Request('http://localhost/upload', { method: 'POST', body: formData });
+
+    const files = await readMultipartFiles(Buffer.from(await request.arrayBuffer()), request.headers.get('content-type') || '');
+
+    expect(files).toEqual([
+      { fileName: 'scan.png', data: png(1, 1), mimeType: 'image/png' },
+      { fileName: 'invoice.xml', data: Buffer.from('<Invoice/>'), mimeType: undefined }
+    ]);
+  });
+});
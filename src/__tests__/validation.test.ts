@@ -0,0 +1,146 @@
+import { InvoiceData, parseInvoice } from '../invoiceParser';
+import { createFakeProvider } from '../fakeProvider';
+import { parseInvoiceImages } from '../imageParser';
+import { findMissingFields, validateInvoiceData, ValidationCode, ValidationSeverity } from '../validation';
+import { createTestInvoice } from './fixtures/invoices';
+
+const createInvoice = (overrides: Partial<InvoiceData> = {}): InvoiceData => createTestInvoice({
+  invoiceDate: '2023-04-15',
+  dueDate: '2023-05-15',
+  vendorName: 'Acme Supplies',
+  items: [
+    { description: 'Web Development Services', quantity: 40, unitPrice: 150, amount: 6000 },
+    { description: 'UI/UX Design', quantity: 20, unitPrice: 200, amount: 4000 }
+  ],
+  subtotal: 10000,
+  taxAmount: 800,
+  totalAmount: 10800,
+  ...overrides
+});
+
+describe('Invoice Validation', () => {
+  it('should accept a consistent invoice', () => {
+    const report = validateInvoiceData(createInvoice());
+
+    expect(report.valid).toBe(true);
+    expect(report.issues).toEqual([]);
+  });
+
+  it('should flag line items whose amount does not match quantity × unit price', () => {
+    const invoice = createInvoice();
+    invoice.items[1].amount = 4500;
+
+    const report = validateInvoiceData(invoice);
+
+    expect(report.valid).toBe(false);
+    expect(report.issues).toContainEqual(expect.objectContaining({
+      code: ValidationCode.LINE_AMOUNT_MISMATCH,
+      field: 'items[1].amount',
+      expected: 4000,
+      actual: 4500
+    }));
+  });
+
+  it('should flag a subtotal that does not match the items and a total that does not match subtotal + tax', () => {
+    const report = validateInvoiceData(createInvoice({ subtotal: 9000, totalAmount: 12000 }));
+
+    expect(report.issues.map(issue => issue.code)).toEqual([
+      ValidationCode.SUBTOTAL_MISMATCH,
+      ValidationCode.TOTAL_MISMATCH
+    ]);
+    expect(report.issues[1]).toMatchObject({ field: 'totalAmount', expected: 9800, actual: 12000 });
+  });
+
+  it('should tolerate rounding differences within the tolerance', () => {
+    const report = validateInvoiceData(createInvoice({ taxAmount: 800.004, totalAmount: 10800.01 }));
+    expect(report.valid).toBe(true);
+  });
+
+  it('should flag invalid dates and due dates before the invoice date', () => {
+    expect(validateInvoiceData(createInvoice({ invoiceDate: 'not a date' })).issues).toContainEqual(
+      expect.objectContaining({ code: ValidationCode.INVALID_DATE, field: 'invoiceDate' })
+    );
+    expect(validateInvoiceData(createInvoice({ dueDate: '2023-04-01' })).issues).toContainEqual(
+      expect.objectContaining({ code: ValidationCode.DUE_DATE_BEFORE_INVOICE_DATE, field: 'dueDate' })
+    );
+  });
+
+  it('should report defaulted fields as warnings and missing fields as errors', () => {
+    const invoice = createInvoice({ invoiceNumber: 'UNKNOWN' });
+    delete (invoice as Partial<InvoiceData>).currency;
+
+    const report = validateInvoiceData(invoice, { defaultedFields: ['invoiceNumber'] });
+
+    expect(report.defaultedFields).toEqual(['invoiceNumber']);
+    expect(report.issues).toEqual([
+      expect.objectContaining({ code: ValidationCode.DEFAULTED_FIELD, severity: ValidationSeverity.WARNING, field: 'invoiceNumber' }),
+      expect.objectContaining({ code: ValidationCode.MISSING_FIELD, severity: ValidationSeverity.ERROR, field: 'currency' })
+    ]);
+  });
+
+  it('should list missing required fields', () => {
+    expect(findMissingFields({ invoiceNumber: '', vendorName: 'Acme', totalAmount: 0 })).toEqual([
+      'invoiceNumber', 'invoiceDate', 'items', 'subtotal', 'currency'
+    ]);
+  });
+
+  it('should attach a validation report to parsed invoices', async () => {
+    const provider = createFakeProvider(() => JSON.stringify({ vendorName: 'Acme Supplies', totalAmount: 100 }));
+
+    const result = await parseInvoice(provider, 'Acme Supplies, total 100', true);
+
+    expect(result.validation).toBeDefined();
+    expect(result.validation?.defaultedFields).toEqual(['invoiceNumber', 'invoiceDate', 'items', 'subtotal', 'currency']);
+    expect(result.validation?.valid).toBe(true);
+  });
+
+  it('should derive a missing subtotal instead of checking a copy of the total', async () => {
+    const receipt = [
+      'RECEIPT',
+      'Transaction #: R-1001',
+      'Date: 2023-04-15',
+      'From:',
+      'Corner Shop',
+      'Widget | 2 | $50 | $100',
+      'Tax (8%): $8',
+      'Total: $108'
+    ].join('\n');
+
+    const result = await parseInvoice(createFakeProvider(), receipt, true);
+
+    expect(result.subtotal).toBe(100);
+    expect(result.validation?.defaultedFields).toEqual(['subtotal']);
+    expect(result.validation?.valid).toBe(true);
+    expect(result.validation?.issues.map(issue => issue.code)).toEqual([ValidationCode.DEFAULTED_FIELD]);
+
+    // Without items the subtotal is what the total leaves after tax
+    const withoutItems = await parseInvoice(createFakeProvider(), receipt.replace('Widget | 2 | $50 | $100\n', ''), true);
+    expect(withoutItems.subtotal).toBe(100);
+    expect(withoutItems.validation?.valid).toBe(true);
+  });
+
+  it('should give text and image extractions the same defaults and verdict', async () => {
+    const extraction = JSON.stringify({
+      vendorName: 'Corner Shop',
+      items: [{ description: 'Widget', quantity: 2, unitPrice: 50, amount: 100 }],
+      taxAmount: 8,
+      totalAmount: 108
+    });
+    const provider = createFakeProvider(() => extraction);
+
+    const fromText = await parseInvoice(provider, 'Corner Shop receipt', true);
+    const fromImage = await parseInvoiceImages([{ data: 'AAAA', mimeType: 'image/png' }], provider);
+
+    expect(fromImage.validation).toEqual(fromText.validation);
+    expect(fromImage.subtotal).toBe(100);
+    expect(fromImage.invoiceDate).toBe(fromText.invoiceDate);
+  });
+
+  it('should not check defaulted amounts against the document', () => {
+    const report = validateInvoiceData(createInvoice({ subtotal: 10800, totalAmount: 0 }), {
+      defaultedFields: ['subtotal', 'totalAmount']
+    });
+
+    expect(report.valid).toBe(true);
+  });
+});
@@ -0,0 +1,112 @@
+import { buildVendorLedgers, CreditStatus, getVendorLedger, LedgerEntryKind, summarizeVendorLedger } from '../vendorLedger';
+import { createDocumentStore, DocumentStore, saveParsedDocument } from '../documentStore';
+import { InvoiceData, InvoiceType } from '../types';
+import { mkdtempSync, rmSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { createTestInvoice } from './fixtures/invoices';
+
+
+const createCreditNote = (invoiceNumber: string, amount: number, referencedInvoiceNumber?: string, overrides: Partial<InvoiceData> = {}) =>
+  createTestInvoice({
+    invoiceNumber,
+    invoiceDate: '2024-03-10',
+    subtotal: -amount,
+    totalAmount: -amount,
+    classification: { type: InvoiceType.CREDIT_NOTE, confidence: 0.9 },
+    typeDetails: { type: InvoiceType.CREDIT_NOTE, referencedInvoiceNumber },
+    ...overrides
+  });
+
+describe('Vendor Ledger', () => {
+  let directory: string;
+  let store: DocumentStore;
+
+  beforeEach(() => {
+    directory = mkdtempSync(path.join(os.tmpdir(), 'ledger-'));
+    store = createDocumentStore(directory);
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should apply partial credits against the open balance of the referenced invoice', () => {
+    const invoice = store.save({ input: 'invoice', data: createTestInvoice() });
+    store.save({ input: 'credit 1', data: createCreditNote('CN-1', 300, 'INV-12345') });
+    store.save({ input: 'credit 2', data: createCreditNote('CN-2', 800, 'inv 12345', { invoiceDate: '2024-03-20' }) });
+    store.save({
+      input: 'payment',
+      data: createTestInvoice({ invoiceNumber: 'RCT-9', invoiceDate: '2024-03-05', totalAmount: 200, classification: { type: InvoiceType.RECEIPT, confidence: 0.9 } })
+    });
+    // Purchase orders don't change what is owed
+    store.save({ input: 'po', data: createTestInvoice({ invoiceNumber: 'PO-1', classification: { type: InvoiceType.PURCHASE_ORDER, confidence: 0.9 } }) });
+
+    const [ledger] = buildVendorLedgers(store.all());
+
+    expect(ledger.entries.map(entry => [entry.kind, entry.documentNumber, entry.amount, entry.balance])).toEqual([
+      [LedgerEntryKind.INVOICE, 'INV-12345', 1000, 1000],
+      [LedgerEntryKind.RECEIPT, 'RCT-9', -200, 800],
+      [LedgerEntryKind.CREDIT_NOTE, 'CN-1', -300, 500],
+      [LedgerEntryKind.CREDIT_NOTE, 'CN-2', -800, -300]
+    ]);
+    expect(ledger.entries[0].openBalance).toBe(0);
+    expect(ledger.entries[2].creditApplication).toEqual({
+      status: CreditStatus.APPLIED,
+      referencedInvoiceNumber: 'INV-12345',
+      invoiceDocumentId: invoice.id,
+      creditAmount: 300,
+      appliedAmount: 300,
+      unappliedAmount: 0,
+      invoiceOpenBalance: 700,
+      message: 'Partial credit, invoice INV-12345 has 700.00 left open'
+    });
+    expect(ledger.entries[3].creditApplication).toMatchObject({
+      status: CreditStatus.OVER_CREDITED,
+      appliedAmount: 700,
+      unappliedAmount: 100,
+      invoiceOpenBalance: 0
+    });
+    expect(ledger.entries[3].reviewReasons).toEqual(['Credit exceeds the open balance of invoice inv 12345 by 100.00']);
+    expect(ledger.balances).toEqual({ USD: -300 });
+    expect(summarizeVendorLedger(ledger)).toMatchObject({
+      vendor: 'Acme Supplies Inc.',
+      invoices: 1,
+      creditNotes: 2,
+      receipts: 1,
+      needsReview: 1
+    });
+  });
+
+  it('should flag credit notes whose invoice can not be found', () => {
+    store.save({ input: 'invoice', data: createTestInvoice() });
+    store.save({ input: 'other vendor', data: createTestInvoice({ invoiceNumber: 'INV-555', vendorName: 'Globex' }) });
+    store.save({ input: 'missing', data: createCreditNote('CN-3', 50, 'INV-555', { invoiceDate: '2024-03-11' }) });
+    store.save({ input: 'no reference', data: createCreditNote('CN-4', 20, undefined, { invoiceDate: '2024-03-12' }) });
+    store.save({ input: 'currency', data: createCreditNote('CN-5', 10, 'INV-12345', { invoiceDate: '2024-03-13', currency: 'EUR' }) });
+
+    const ledger = getVendorLedger(store.all(), 'ACME Supplies');
+    const reasons = ledger?.entries.filter(entry => entry.kind === LedgerEntryKind.CREDIT_NOTE).map(entry => entry.reviewReasons);
+
+    expect(reasons).toEqual([
+      ['Referenced invoice INV-555 was not found for this vendor'],
+      ['Credit note does not reference an invoice'],
+      ['Credit note is in EUR, invoice INV-12345 in USD']
+    ]);
+    expect(ledger?.entries[0].openBalance).toBe(1000);
+    expect(ledger?.balances).toEqual({ USD: 930, EUR: -10 });
+    expect(ledger?.needsReview).toBe(3);
+    expect(getVendorLedger(store.all(), 'Initech')).toBeUndefined();
+  });
+
+  it('should link credit notes to their invoice when they are saved', () => {
+    const invoice = saveParsedDocument({ input: 'invoice', data: createTestInvoice() }, store);
+    saveParsedDocument({ input: 'credit 1', data: createCreditNote('CN-1', 250, 'INV-12345') }, store);
+    const second = saveParsedDocument({ input: 'credit 2', data: createCreditNote('CN-2', 250, 'INV-12345', { invoiceDate: '2024-03-11' }) }, store);
+
+    expect(invoice?.data).not.toHaveProperty('creditApplication');
+    expect(second?.data).toMatchObject({
+      creditApplication: { status: CreditStatus.APPLIED, invoiceDocumentId: invoice?.id, appliedAmount: 250, invoiceOpenBalance: 500 }
+    });
+  });
+});
@@ -0,0 +1,452 @@
+// Command-line tool for classifying and parsing invoices in bulk
+import dotenv from 'dotenv';
+import { readdirSync, readFileSync, statSync } from 'fs';
+import path from 'path';
+import { parseArgs } from 'util';
+import { classifyInvoice, parseInvoice } from './invoiceParser';
+import { classifyDocumentImage, DocumentClassification, getMimeType, parseDocuments, parseInvoiceImage, parseInvoicePdf } from './imageParser';
+import { createProvider } from './llmProvider';
+import { LLMProvider } from './llmTypes';
+import { renderPdfPages } from './pdfParser';
+import { importStructuredInvoice } from './structuredImport';
+import { InvoiceClassification, LogisticsDocumentType, ParsedDocumentData } from './types';
+
+// Define enum for the subcommands of the CLI
+export enum CliCommand {
+  CLASSIFY = 'classify', // Classify documents without extracting them
+  PARSE = 'parse', // Parse every file as an invoice
+  BATCH = 'batch' // Classify every file, then parse it with the extractor for its type
+}
+
+// Define enum for the output formats
+export enum OutputFormat {
+  JSON = 'json',
+  NDJSON = 'ndjson',
+  CSV = 'csv'
+}
+
+// Define enum for the process exit codes
+export enum ExitCode {
+  SUCCESS = 0,
+  VALIDATION_FAILED = 1, // At least one parsed invoice failed validation
+  USAGE_ERROR = 2,
+  PROCESSING_FAILED = 3 // At least one file could not be processed
+}
+
+// Define the structure for the parsed command line
+export type CliOptions = {
+  command: CliCommand;
+  paths: string[];
+  format: OutputFormat;
+  concurrency: number; // Number of files processed at the same time
+  model?: string; // Overrides the model for every request
+  skipClassification: boolean; // Skip classifying text and PDF invoices in the parse command
+};
+
+// Define the structure for the result of one file
+export type CliRecord = {
+  file: string;
+  documentType?: string;
+  confidence?: number;
+  classification?: InvoiceClassification | DocumentClassification;
+  data?: ParsedDocumentData;
+  valid?: boolean; // Validation result of parsed invoices
+  error?: string;
+};
+
+// Define the structure for the streams and provider the CLI works with
+export type CliEnvironment = {
+  stdout: (chunk: string) => void;
+  stderr: (chunk: string) => void;
+  provider?: LLMProvider; // Defaults to one configured from environment variables
+};
+
+const DEFAULT_CONCURRENCY = 4;
+
+const IMAGE_EXTENSIONS = ['.png', '.jpg', '.jpeg', '.gif', '.webp'];
+const PDF_EXTENSIONS = ['.pdf'];
+const TEXT_EXTENSIONS = ['.txt', '.xml', '.edi', '.x12']; // Plain text and structured e-invoices
+
+const CSV_COLUMNS = [
+  'file',
+  'documentType',
+  'confidence',
+  'documentNumber',
+  'documentDate',
+  'vendorName',
+  'customerName',
+  'currency',
+  'totalAmount',
+  'valid',
+  'issues',
+  'error'
+] as const;
+
+const USAGE = `Usage: npm run cli -- <command> [options] <file or directory>...
+
+Commands:
+  classify   Classify each document and report its type and confidence
+  parse      Parse each file as an invoice
+  batch      Classify each file, then parse it with the extractor for its type
+             (invoices, bills of lading and delivery receipts)
+
+Text files (.txt), e-invoices (UBL or CII .xml, X12 810 .edi/.x12), images
+(${IMAGE_EXTENSIONS.join(', ')}) and PDFs are accepted. E-invoices and Factur-X PDFs are
+imported without the model.
+Directories are searched recursively for those files.
+
+Options:
+  -f, --format <json|ndjson|csv>  Output format (default: json)
+  -c, --concurrency <n>           Files processed at the same time (default: ${DEFAULT_CONCURRENCY})
+  -m, --model <name>              Model used for every request
+      --skip-classification       Parse text and PDF invoices without classifying them first (images never are)
+  -h, --help                      Show this help
+
+Exit codes: 0 success, 1 validation failed, 2 usage error, 3 a file could not be processed.
+`;
+
+/**
+ * Parse the command-line arguments
+ * @param argv Arguments after the script name
+ * @returns The command, inputs and options
+ */
+export function parseCliArguments(argv: string[]): CliOptions {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      format: { type: 'string', short: 'f', default: OutputFormat.JSON },
+      concurrency: { type: 'string', short: 'c', default: String(DEFAULT_CONCURRENCY) },
+      model: { type: 'string', short: 'm' },
+      'skip-classification': { type: 'boolean', default: false }
+    }
+  });
+
+  const [command, ...paths] = positionals;
+  if (!Object.values(CliCommand).includes(command as CliCommand)) {
+    throw new Error(command ? `Unknown command: ${command}` : 'A command is required');
+  }
+  if (paths.length === 0) {
+    throw new Error('At least one file or directory is required');
+  }
+
+  const format = values.format as OutputFormat;
+  if (!Object.values(OutputFormat).includes(format)) {
+    throw new Error(`Unknown output format: ${values.format}`);
+  }
+
+  const concurrency = Number(values.concurrency);
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new Error(`Concurrency must be a positive integer, got ${values.concurrency}`);
+  }
+
+  return {
+    command: command as CliCommand,
+    paths,
+    format,
+    concurrency,
+    ...(values.model ? { model: values.model } : {}),
+    skipClassification: values['skip-classification'] ?? false
+  };
+}
+
+/**
+ * Run the CLI
+ * Results are written to stdout; JSON is written once all files are done,
+ * NDJSON and CSV rows are written as soon as the files before them are done.
+ * @param argv Arguments after the script name
+ * @param environment Output streams and optional provider
+ * @returns The process exit code
+ */
+export async function runCli(argv: string[], environment: CliEnvironment = createProcessEnvironment()): Promise<ExitCode> {
+  if (argv.includes('--help') || argv.includes('-h')) {
+    environment.stdout(USAGE);
+    return ExitCode.SUCCESS;
+  }
+
+  let options: CliOptions;
+  let files: string[];
+  try {
+    options = parseCliArguments(argv);
+    files = expandPaths(options.paths);
+  } catch (error) {
+    environment.stderr(`${error instanceof Error ? error.message : String(error)}\n\n${USAGE}`);
+    return ExitCode.USAGE_ERROR;
+  }
+
+  let provider: LLMProvider;
+  try {
+    provider = environment.provider || createProvider({
+      ...(options.model ? { model: options.model, visionModel: options.model } : {})
+    });
+  } catch (error) {
+    environment.stderr(`${error instanceof Error ? error.message : String(error)}\n`);
+    return ExitCode.PROCESSING_FAILED;
+  }
+
+  const write = createOrderedWriter(options.format, environment.stdout);
+  const records: CliRecord[] = [];
+
+  await forEachConcurrently(files, options.concurrency, async (file, index) => {
+    const record = await processFile(provider, options, file);
+    records[index] = record;
+    write(index, record);
+  });
+
+  if (options.format === OutputFormat.JSON) {
+    environment.stdout(`${JSON.stringify(records, null, 2)}\n`);
+  }
+
+  if (records.some(record => record.error)) {
+    return ExitCode.PROCESSING_FAILED;
+  }
+  return records.some(record => record.valid === false) ? ExitCode.VALIDATION_FAILED : ExitCode.SUCCESS;
+}
+
+/**
+ * Expand directories into the supported files they contain
+ * Files named directly are always included; text is assumed for unknown extensions.
+ * @param paths Files and directories from the command line
+ * @returns File paths, directories expanded in sorted order
+ */
+export function expandPaths(paths: string[]): string[] {
+  return paths.flatMap(inputPath => {
+    let isDirectory: boolean;
+    try {
+      isDirectory = statSync(inputPath).isDirectory();
+    } catch {
+      throw new Error(`No such file or directory: ${inputPath}`);
+    }
+    return isDirectory ? listSupportedFiles(inputPath) : [inputPath];
+  });
+}
+
+/**
+ * Convert a result to a CSV row, flattening the fields shared by invoices and logistics documents
+ * @param record The result of one file
+ * @returns Values in the order of the CSV columns
+ */
+export function toCsvRow(record: CliRecord): string {
+  const { data } = record;
+  let summary: Partial<Record<typeof CSV_COLUMNS[number], string | number | boolean | undefined>> = {};
+
+  if (data && 'documentType' in data) {
+    summary = data.documentType === LogisticsDocumentType.BILL_OF_LADING
+      ? { documentNumber: data.bolNumber, documentDate: data.shipDate }
+      : { documentNumber: data.receiptNumber, documentDate: data.deliveredAt };
+    summary.vendorName = data.shipper.name;
+    summary.customerName = data.consignee.name;
+  } else if (data) {
+    summary = {
+      documentNumber: data.invoiceNumber,
+      documentDate: data.invoiceDate,
+      vendorName: data.vendorName,
+      customerName: data.customerName,
+      currency: data.currency,
+      totalAmount: data.totalAmount,
+      issues: data.validation?.issues.map(issue => `${issue.code}:${issue.field}`).join(' ')
+    };
+  }
+
+  const values: typeof summary = {
+    ...summary,
+    file: record.file,
+    documentType: record.documentType,
+    confidence: record.confidence,
+    valid: record.valid,
+    error: record.error
+  };
+  return CSV_COLUMNS.map(column => escapeCsv(values[column])).join(',');
+}
+
+/**
+ * Process one file with the selected command
+ * Errors are recorded on the result so one bad file doesn't stop the run
+ */
+async function processFile(provider: LLMProvider, options: CliOptions, file: string): Promise<CliRecord> {
+  try {
+    switch (options.command) {
+      case CliCommand.CLASSIFY:
+        return await classifyFile(provider, file);
+      case CliCommand.PARSE:
+        return await parseFile(provider, file, options.skipClassification);
+      case CliCommand.BATCH:
+        return await parseDocumentFile(provider, file, options.skipClassification);
+    }
+  } catch (error) {
+    return { file, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * Classify a text file as an invoice type, or an image or PDF as any supported document type
+ */
+async function classifyFile(provider: LLMProvider, file: string): Promise<CliRecord> {
+  // E-invoices state their own type
+  const structuredInvoice = getFileKind(file) !== 'image' ? importStructuredInvoice(readFileSync(file)) : undefined;
+  if (structuredInvoice?.classification) {
+    const classification = structuredInvoice.classification;
+    return { file, documentType: classification.type, confidence: classification.confidence, classification };
+  }
+
+  if (getFileKind(file) === 'text') {
+    const classification = await classifyInvoice(provider, readFileSync(file, 'utf8'));
+    return { file, documentType: classification.type, confidence: classification.confidence, classification };
+  }
+
+  // PDFs are classified from their first page
+  const fileData = readFileSync(file);
+  const [image] = getFileKind(file) === 'pdf'
+    ? await renderPdfPages(fileData, { maxPages: 1 })
+    : [{ data: fileData.toString('base64'), mimeType: getMimeType(file) }];
+  if (!image) {
+    throw new Error('PDF has no pages');
+  }
+
+  const classification = await classifyDocumentImage(provider, image.data, image.mimeType);
+  return { file, documentType: classification.documentType, confidence: classification.confidence, classification };
+}
+
+/**
+ * Parse a text file, image or PDF as an invoice
+ */
+async function parseFile(provider: LLMProvider, file: string, skipClassification: boolean): Promise<CliRecord> {
+  const kind = getFileKind(file);
+  const invoice = kind === 'text'
+    ? await parseInvoice(provider, readFileSync(file, 'utf8'), skipClassification)
+    : kind === 'pdf'
+      ? await parseInvoicePdf(readFileSync(file), provider, skipClassification)
+      : await parseInvoiceImage(file, provider);
+
+  return {
+    file,
+    ...(invoice.classification
+      ? { documentType: invoice.classification.type, confidence: invoice.classification.confidence }
+      : {}),
+    data: invoice,
+    ...(invoice.validation ? { valid: invoice.validation.valid } : {})
+  };
+}
+
+/**
+ * Classify and parse a file with parseDocuments; text files can only be invoices and are parsed as such
+ */
+async function parseDocumentFile(provider: LLMProvider, file: string, skipClassification: boolean): Promise<CliRecord> {
+  if (getFileKind(file) === 'text') {
+    return parseFile(provider, file, skipClassification);
+  }
+
+  const [result] = await parseDocuments([file], provider);
+  const { parsedData } = result;
+  return {
+    file,
+    documentType: result.classification.documentType,
+    confidence: result.classification.confidence,
+    classification: result.classification,
+    ...(parsedData ? { data: parsedData } : {}),
+    ...(parsedData && 'validation' in parsedData && parsedData.validation ? { valid: parsedData.validation.valid } : {}),
+    ...(result.error ? { error: result.error } : {})
+  };
+}
+
+/**
+ * Run a task for every item with at most `limit` tasks in flight
+ */
+async function forEachConcurrently<T>(
+  items: T[],
+  limit: number,
+  task: (item: T, index: number) => Promise<void>
+): Promise<void> {
+  let next = 0;
+  const workers = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      const index = next++;
+      await task(items[index], index);
+    }
+  });
+  await Promise.all(workers);
+}
+
+/**
+ * Create a writer that streams NDJSON lines and CSV rows in input order, whatever order the files finish in
+ * @returns Function to call with each result and its input index
+ */
+function createOrderedWriter(format: OutputFormat, stdout: (chunk: string) => void): (index: number, record: CliRecord) => void {
+  const pending = new Map<number, CliRecord>();
+  let next = 0;
+
+  if (format === OutputFormat.CSV) {
+    stdout(`${CSV_COLUMNS.join(',')}\n`);
+  }
+
+  return (index, record) => {
+    pending.set(index, record);
+    for (let ready = pending.get(next); ready; ready = pending.get(next)) {
+      pending.delete(next++);
+      if (format === OutputFormat.NDJSON) {
+        stdout(`${JSON.stringify(ready)}\n`);
+      } else if (format === OutputFormat.CSV) {
+        stdout(`${toCsvRow(ready)}\n`);
+      }
+    }
+  };
+}
+
+/**
+ * List the supported files in a directory and its subdirectories, skipping hidden entries
+ */
+function listSupportedFiles(directory: string): string[] {
+  const supported = [...TEXT_EXTENSIONS, ...IMAGE_EXTENSIONS, ...PDF_EXTENSIONS];
+
+  return readdirSync(directory, { withFileTypes: true })
+    .filter(entry => !entry.name.startsWith('.'))
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .flatMap(entry => {
+      const entryPath = path.join(directory, entry.name);
+      if (entry.isDirectory()) {
+        return listSupportedFiles(entryPath);
+      }
+      return supported.includes(path.extname(entry.name).toLowerCase()) ? [entryPath] : [];
+    });
+}
+
+function getFileKind(file: string): 'text' | 'image' | 'pdf' {
+  const extension = path.extname(file).toLowerCase();
+  if (PDF_EXTENSIONS.includes(extension)) {
+    return 'pdf';
+  }
+  return IMAGE_EXTENSIONS.includes(extension) ? 'image' : 'text';
+}
+
+/**
+ * Quote a CSV value if it contains a separator, quote or line break
+ */
+function escapeCsv(value: string | number | boolean | undefined): string {
+  if (value === undefined) {
+    return '';
+  }
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function createProcessEnvironment(): CliEnvironment {
+  return {
+    stdout: chunk => process.stdout.write(chunk),
+    stderr: chunk => process.stderr.write(chunk)
+  };
+}
+
+// Run the CLI if this file is executed directly
+if (require.main === module) {
+  // Load environment variables
+  dotenv.config();
+
+  runCli(process.argv.slice(2))
+    .then(code => {
+      process.exitCode = code;
+    })
+    .catch(error => {
+      console.error('CLI failed:', error);
+      process.exitCode = ExitCode.PROCESSING_FAILED;
+    });
+}
@@ -0,0 +1,166 @@
+import { INVOICE_HEADER_FIELDS, InvoiceHeaderField } from './provenance';
+import { normalizePaymentTerms, NormalizationKind } from './normalization';
+import { getTypeValidationOptions } from './typeStrategies';
+import { validateInvoiceData } from './validation';
+import { InvoiceData, InvoiceItem } from './types';
+import { isRecord } from './valueUtils';
+
+// Define a single value changed by a reviewer
+export type FieldCorrection = {
+  field: string; // Path of the field, e.g. 'vendorName' or 'items[0].quantity'
+  original: string | number | null; // Null when the value was missing or the item was added
+  corrected: string | number | null; // Null when the value was cleared or the item was removed
+};
+
+// Define the reviewed values sent back for an invoice; header fields left out keep their value
+export type InvoiceCorrection = Partial<Record<InvoiceHeaderField, string | number | null>> & {
+  items?: Array<Pick<InvoiceItem, 'description' | 'quantity' | 'unitPrice' | 'amount'>>;
+};
+
+// Define the corrected invoice and what changed
+export type CorrectedInvoice = {
+  data: InvoiceData;
+  corrections: FieldCorrection[];
+};
+
+// Header fields holding amounts; the rest hold text
+const NUMERIC_HEADER_FIELDS: InvoiceHeaderField[] = ['subtotal', 'taxAmount', 'totalAmount'];
+
+const ITEM_FIELDS = ['description', 'quantity', 'unitPrice', 'amount'] as const;
+
+// Confidence of a value a reviewer entered or confirmed
+const REVIEWED_CONFIDENCE = 1;
+
+/**
+ * Read reviewed invoice values from a request body
+ * @param value The request body's invoice
+ * @returns The correction, or an error message for the first invalid value
+ */
+export function toInvoiceCorrection(value: unknown): InvoiceCorrection | string {
+  if (!isRecord(value)) {
+    return 'data must be an object with the corrected invoice fields';
+  }
+
+  const correction: InvoiceCorrection = {};
+  for (const field of INVOICE_HEADER_FIELDS) {
+    const fieldValue = value[field];
+    if (fieldValue === undefined) {
+      continue;
+    }
+    const numeric = NUMERIC_HEADER_FIELDS.includes(field);
+    if (fieldValue !== null && (numeric ? typeof fieldValue !== 'number' || !Number.isFinite(fieldValue) : typeof fieldValue !== 'string')) {
+      return `${field} must be ${numeric ? 'a number' : 'a string'}`;
+    }
+    correction[field] = fieldValue as string | number | null;
+  }
+
+  if (value.items !== undefined) {
+    if (!Array.isArray(value.items)) {
+      return 'items must be an array';
+    }
+    const items: NonNullable<InvoiceCorrection['items']> = [];
+    for (const [index, item] of value.items.entries()) {
+      const valid = isRecord(item)
+        && typeof item.description === 'string'
+        && ['quantity', 'unitPrice', 'amount'].every(key => typeof item[key] === 'number' && Number.isFinite(item[key]));
+      if (!valid) {
+        return `items[${index}] must have a description, and quantity, unitPrice and amount as numbers`;
+      }
+      items.push({
+        description: item.description as string,
+        quantity: item.quantity as number,
+        unitPrice: item.unitPrice as number,
+        amount: item.amount as number
+      });
+    }
+    correction.items = items;
+  }
+  return correction;
+}
+
+/**
+ * Apply a reviewer's corrections to a parsed invoice
+ * Corrected values get full confidence and no source. The payment schedule and validation report
+ * are rebuilt from the corrected values; a due date that was derived from the payment terms is
+ * derived again unless the reviewer set it.
+ * @param original The invoice as parsed or last corrected
+ * @param correction The reviewed values
+ * @returns A corrected copy of the invoice and the values that changed
+ */
+export function applyInvoiceCorrections(original: InvoiceData, correction: InvoiceCorrection): CorrectedInvoice {
+  const data: InvoiceData = { ...original, fieldProvenance: { ...original.fieldProvenance } };
+  const header = data as unknown as Record<string, unknown>;
+  const corrections: FieldCorrection[] = [];
+
+  for (const field of INVOICE_HEADER_FIELDS) {
+    if (!(field in correction)) {
+      continue;
+    }
+    const previous = toCorrectionValue(original[field]);
+    const corrected = toCorrectionValue(correction[field]);
+    if (corrected === previous) {
+      continue;
+    }
+
+    corrections.push({ field, original: previous, corrected });
+    if (corrected === null) {
+      delete header[field];
+      delete data.fieldProvenance?.[field];
+    } else {
+      header[field] = corrected;
+      data.fieldProvenance = { ...data.fieldProvenance, [field]: { confidence: REVIEWED_CONFIDENCE } };
+    }
+  }
+
+  const items = correction.items;
+  if (items) {
+    const originalItems = original.items || [];
+    data.items = items.map((item, index) => {
+      const before = originalItems[index];
+      const changed = ITEM_FIELDS.filter(key => toCorrectionValue(item[key]) !== toCorrectionValue(before?.[key]));
+      for (const key of changed) {
+        corrections.push({ field: `items[${index}].${key}`, original: toCorrectionValue(before?.[key]), corrected: toCorrectionValue(item[key]) });
+      }
+      // Unchanged items keep where they were read from
+      return before && changed.length === 0
+        ? before
+        : { ...before, ...item, provenance: { confidence: REVIEWED_CONFIDENCE } };
+    });
+    originalItems.slice(items.length).forEach((item, offset) => {
+      corrections.push({ field: `items[${items.length + offset}]`, original: item.description, corrected: null });
+    });
+  }
+
+  if (corrections.length === 0) {
+    return { data: original, corrections };
+  }
+
+  // Derive the due date again from the corrected terms, unless the reviewer set it
+  const correctedFields = corrections.map(({ field }) => field);
+  if (original.paymentSchedule?.dueDateDerived && !correctedFields.includes('dueDate')) {
+    delete data.dueDate;
+  }
+  delete data.paymentSchedule;
+  const derived = normalizePaymentTerms(data);
+  const normalizations = [...(original.normalizations || []).filter(({ kind }) => kind !== NormalizationKind.DUE_DATE), ...derived];
+  if (normalizations.length > 0 || original.normalizations) {
+    data.normalizations = normalizations;
+  }
+
+  // Defaulted values the reviewer replaced are no longer reported
+  data.validation = validateInvoiceData(data, {
+    defaultedFields: (original.validation?.defaultedFields || []).filter(field => !correctedFields.includes(field)),
+    ...getTypeValidationOptions(data.typeDetails)
+  });
+  return { data, corrections };
+}
+
+/**
+ * Compare and record values the same way whether they came from the parser or the reviewer
+ */
+function toCorrectionValue(value: unknown): string | number | null {
+  if (typeof value === 'string') {
+    return value.trim() || null;
+  }
+  return typeof value === 'number' && Number.isFinite(value) ? value : null;
+}
@@ -0,0 +1,318 @@
+import { createHash, randomUUID } from 'crypto';
+import { existsSync, mkdirSync, readdirSync, readFileSync, renameSync, unlinkSync, writeFileSync } from 'fs';
+import path from 'path';
+import { findPossibleDuplicates } from './duplicateDetection';
+import { isBillOfLading, isDeliveryReceipt } from './logisticsParser';
+import { resolveCreditNote } from './vendorLedger';
+import type { FieldCorrection } from './corrections';
+import { InvoiceClassification, InvoiceType, ParsedDocumentData } from './types';
+
+// Define the structure of a stored parse result
+export type StoredDocument = {
+  id: string;
+  inputHash: string; // Hex-encoded SHA-256 of the parsed text or file
+  documentType: string; // InvoiceType or LogisticsDocumentType
+  data: ParsedDocumentData;
+  classification?: InvoiceClassification;
+  source?: string; // File name or route the document came in through
+  version: number; // 1 for the parse result, one more for every saved correction
+  previousVersionId?: string; // The version this one corrects
+  corrections?: FieldCorrection[]; // What changed from the previous version
+  createdAt: string;
+  updatedAt: string;
+};
+
+// Define the searchable fields of a stored document, as listed by the history
+export type DocumentSummary = {
+  id: string;
+  documentType: string;
+  documentNumber?: string; // Invoice, bill of lading or receipt number
+  vendor?: string; // Vendor of an invoice, shipper of a logistics document
+  date?: string; // Invoice date, ship date or delivery date
+  totalAmount?: number; // Invoices only
+  currency?: string;
+  version: number;
+  createdAt: string;
+};
+
+// Define the filters for listing stored documents; all given filters must match
+export type DocumentFilter = {
+  vendor?: string; // Case-insensitive part of the vendor or shipper name
+  type?: string;
+  dateFrom?: string; // YYYY-MM-DD, inclusive
+  dateTo?: string; // YYYY-MM-DD, inclusive
+  minAmount?: number;
+  maxAmount?: number;
+  limit?: number;
+  offset?: number;
+};
+
+export type DocumentList = {
+  total: number; // Matching documents before limit and offset
+  documents: DocumentSummary[];
+};
+
+export type NewDocument = {
+  input: string | Buffer; // The parsed text or file, only its hash is kept
+  data: ParsedDocumentData;
+  classification?: InvoiceClassification;
+  source?: string;
+};
+
+export type DocumentStore = {
+  save(document: NewDocument): StoredDocument;
+  saveVersion(previous: StoredDocument, data: ParsedDocumentData, corrections: FieldCorrection[]): StoredDocument;
+  get(id: string): StoredDocument | undefined; // Any version
+  versions(id: string): StoredDocument[]; // Every version of the document, oldest first
+  all(): StoredDocument[]; // Latest version of every document
+  list(filter?: DocumentFilter): DocumentList; // Latest versions only
+  delete(id: string): boolean; // Every version of the document, given the ID of any of them
+};
+
+const DEFAULT_DIRECTORY = '.documents';
+const DEFAULT_LIMIT = 50;
+
+// IDs are generated UUIDs; anything else could point outside the store
+const ID_PATTERN = /^[0-9a-f-]{36}$/;
+
+/**
+ * Create a document store that keeps every parse result as a JSON file
+ * The directory is read on every call, so stores created by different API routes see the same documents.
+ * Corrections are saved as a new version that points to the one it corrects; earlier versions are kept
+ * but left out of all() and list().
+ * @param directory Where the documents are kept, defaults to DOCUMENTS_DIRECTORY or .documents
+ * @returns The document store
+ */
+export function createDocumentStore(directory = process.env.DOCUMENTS_DIRECTORY || DEFAULT_DIRECTORY): DocumentStore {
+  const getPath = (id: string) => path.join(directory, `${id}.json`);
+
+  const readAll = (): StoredDocument[] => {
+    if (!existsSync(directory)) {
+      return [];
+    }
+    return readdirSync(directory)
+      .filter(file => file.endsWith('.json'))
+      .map(file => readDocument(path.join(directory, file)))
+      .filter((document): document is StoredDocument => document !== undefined);
+  };
+
+  // Documents that no later version corrects
+  const readLatest = (): StoredDocument[] => {
+    const documents = readAll();
+    const superseded = new Set(documents.map(document => document.previousVersionId));
+    return documents.filter(document => !superseded.has(document.id));
+  };
+
+  // Every version of a document, oldest first
+  const readVersions = (id: string): StoredDocument[] => {
+    const documents = readAll();
+    const byId = new Map(documents.map(document => [document.id, document]));
+    const next = new Map(documents.map(document => [document.previousVersionId, document]));
+
+    // Walk back to the parse result, then forward through its corrections
+    let first = byId.get(id);
+    while (first?.previousVersionId && byId.has(first.previousVersionId)) {
+      first = byId.get(first.previousVersionId);
+    }
+    const versions: StoredDocument[] = [];
+    for (let version = first; version; version = next.get(version.id)) {
+      versions.push(version);
+    }
+    return versions;
+  };
+
+  // Write to a temporary file first so readers never see a half-written document
+  const write = (document: StoredDocument): StoredDocument => {
+    mkdirSync(directory, { recursive: true });
+    writeFileSync(`${getPath(document.id)}.tmp`, JSON.stringify(document));
+    renameSync(`${getPath(document.id)}.tmp`, getPath(document.id));
+    return document;
+  };
+
+  return {
+    save({ input, data, classification, source }) {
+      const now = new Date().toISOString();
+      const invoiceClassification = classification || ('classification' in data ? data.classification : undefined);
+      const document: StoredDocument = {
+        id: randomUUID(),
+        inputHash: hashInput(input),
+        documentType: 'documentType' in data ? data.documentType : invoiceClassification?.type || InvoiceType.UNKNOWN,
+        data,
+        ...(invoiceClassification ? { classification: invoiceClassification } : {}),
+        ...(source ? { source } : {}),
+        version: 1,
+        createdAt: now,
+        updatedAt: now
+      };
+      return write(document);
+    },
+
+    saveVersion(previous, data, corrections) {
+      const now = new Date().toISOString();
+      const { previousVersionId, corrections: previousCorrections, ...rest } = previous;
+      return write({
+        ...rest,
+        id: randomUUID(),
+        // A parse as another type changes the type of the document
+        documentType: 'documentType' in data ? data.documentType : data.classification?.type || previous.documentType,
+        data,
+        ...('classification' in data && data.classification ? { classification: data.classification } : {}),
+        version: previous.version + 1,
+        previousVersionId: previous.id,
+        corrections,
+        createdAt: now,
+        updatedAt: now
+      });
+    },
+
+    get(id) {
+      return ID_PATTERN.test(id) ? readDocument(getPath(id)) : undefined;
+    },
+
+    versions: readVersions,
+
+    all: readLatest,
+
+    list(filter = {}) {
+      const matches = readLatest()
+        .map(toDocumentSummary)
+        .filter(summary => matchesFilter(summary, filter))
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+      const offset = Math.max(0, filter.offset ?? 0);
+      const limit = Math.max(0, filter.limit ?? DEFAULT_LIMIT);
+      return { total: matches.length, documents: matches.slice(offset, offset + limit) };
+    },
+
+    delete(id) {
+      if (!ID_PATTERN.test(id) || !existsSync(getPath(id))) {
+        return false;
+      }
+      // Oldest first, so an interrupted delete never brings back an earlier version as the latest
+      for (const version of readVersions(id)) {
+        unlinkSync(getPath(version.id));
+      }
+      return true;
+    }
+  };
+}
+
+/**
+ * Save a parse result, logging instead of failing when the store can't be written
+ * Invoices are first checked against the stored documents, and any matches are added to the
+ * invoice as possibleDuplicates. Credit notes are also applied to the invoice they reference, recorded as
+ * creditApplication. A parse that succeeded is still returned to the caller if it couldn't be kept.
+ * @param document The parsed input and its result
+ * @param store The store (defaults to one configured from environment variables)
+ * @param previous Optional earlier result of the same input this parse replaces; saved as its next version
+ * @returns The stored document, or undefined if saving failed
+ */
+export function saveParsedDocument(document: NewDocument, store = createDocumentStore(), previous?: StoredDocument): StoredDocument | undefined {
+  try {
+    const { input, data } = document;
+    if (!('documentType' in data)) {
+      // The replaced result isn't a duplicate of its own replacement
+      const documents = store.all().filter(stored => stored.id !== previous?.id);
+      data.possibleDuplicates = findPossibleDuplicates(data, documents, hashInput(input));
+      if (data.classification?.type === InvoiceType.CREDIT_NOTE) {
+        data.creditApplication = resolveCreditNote(data, documents);
+      }
+    }
+    if (previous) {
+      const documentType = 'documentType' in data ? data.documentType : data.classification?.type || InvoiceType.UNKNOWN;
+      const corrections = documentType === previous.documentType
+        ? []
+        : [{ field: 'documentType', original: previous.documentType, corrected: documentType }];
+      return store.saveVersion(previous, data, corrections);
+    }
+    return store.save(document);
+  } catch (error) {
+    console.error('Error saving parsed document:', error);
+    return undefined;
+  }
+}
+
+/**
+ * Find the latest version of a stored document, if it was parsed from the given input
+ * @param id ID of any version of the document
+ * @param input The text or file being parsed again
+ * @param store The store (defaults to one configured from environment variables)
+ * @returns The latest version, or undefined if there's no such document or it came from other input
+ */
+export function findReplacedDocument(id: string, input: string | Buffer, store = createDocumentStore()): StoredDocument | undefined {
+  const versions = store.versions(id);
+  const latest = versions[versions.length - 1];
+  return latest?.inputHash === hashInput(input) ? latest : undefined;
+}
+
+/**
+ * Extract the searchable fields of a stored document
+ * @param document The stored document
+ * @returns Number, vendor, date and amount, as far as the document type has them
+ */
+export function toDocumentSummary(document: StoredDocument): DocumentSummary {
+  const { id, documentType, data, version, createdAt } = document;
+  const summary: DocumentSummary = { id, documentType, version, createdAt };
+
+  if (isBillOfLading(data)) {
+    Object.assign(summary, { documentNumber: data.bolNumber, vendor: data.shipper?.name, date: data.shipDate });
+  } else if (isDeliveryReceipt(data)) {
+    Object.assign(summary, { documentNumber: data.receiptNumber, vendor: data.shipper?.name, date: data.deliveredAt });
+  } else {
+    Object.assign(summary, {
+      documentNumber: data.invoiceNumber,
+      vendor: data.vendorName,
+      date: data.invoiceDate,
+      totalAmount: data.totalAmount,
+      currency: data.currency
+    });
+  }
+
+  // Leave out fields the document doesn't have
+  return Object.fromEntries(Object.entries(summary).filter(([, value]) => value !== undefined)) as DocumentSummary;
+}
+
+/**
+ * Hash a parsed text or file
+ */
+function hashInput(input: string | Buffer): string {
+  return createHash('sha256').update(input).digest('hex');
+}
+
+/**
+ * Check a document summary against the filters
+ */
+function matchesFilter(summary: DocumentSummary, filter: DocumentFilter): boolean {
+  // Dates are compared on their day; delivery timestamps carry a time as well
+  const day = summary.date?.slice(0, 10);
+
+  if (filter.vendor && !summary.vendor?.toLowerCase().includes(filter.vendor.toLowerCase())) {
+    return false;
+  }
+  if (filter.type && summary.documentType !== filter.type) {
+    return false;
+  }
+  if ((filter.dateFrom && (!day || day < filter.dateFrom)) || (filter.dateTo && (!day || day > filter.dateTo))) {
+    return false;
+  }
+  if (filter.minAmount !== undefined && !(typeof summary.totalAmount === 'number' && summary.totalAmount >= filter.minAmount)) {
+    return false;
+  }
+  if (filter.maxAmount !== undefined && !(typeof summary.totalAmount === 'number' && summary.totalAmount <= filter.maxAmount)) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Read a stored document, skipping files that can't be read
+ */
+function readDocument(documentPath: string): StoredDocument | undefined {
+  try {
+    // Documents stored before versioning are their first version
+    return existsSync(documentPath) ? { version: 1, ...JSON.parse(readFileSync(documentPath, 'utf8')) } as StoredDocument : undefined;
+  } catch (error) {
+    console.error(`Skipping unreadable document file ${documentPath}:`, error);
+    return undefined;
+  }
+}
@@ -0,0 +1,191 @@
+import { createHash } from 'crypto';
+import type { StoredDocument } from './documentStore';
+import { InvoiceData, InvoiceType } from './types';
+import { compareStrings, normalizeCompanyName, normalizeDocumentNumber } from './valueUtils';
+
+// Define enum for the signals that make two invoices look alike
+export enum DuplicateReason {
+  SAME_INPUT = 'same_input', // The very same text or file was parsed before
+  SAME_FINGERPRINT = 'same_fingerprint', // Vendor, number, total, currency and date all match
+  SAME_INVOICE_NUMBER = 'same_invoice_number', // Equal once formatting is ignored
+  SIMILAR_INVOICE_NUMBER = 'similar_invoice_number', // Only the digits match
+  SAME_VENDOR = 'same_vendor',
+  SAME_AMOUNT = 'same_amount',
+  CLOSE_DATE = 'close_date' // Within the date window
+}
+
+// Define the normalized fields two invoices are compared on
+export type InvoiceFingerprint = {
+  vendor: string; // Lower case, without punctuation and legal form
+  invoiceNumber: string; // Upper case letters and digits, leading zeros dropped
+  totalAmount: number; // Rounded to cents
+  currency: string;
+  invoiceDate: string;
+  key: string; // Hex-encoded SHA-256 of all fields above
+};
+
+// Define a stored document that may be the same invoice
+export type PossibleDuplicate = {
+  documentId: string;
+  score: number; // 0-1 similarity
+  reasons: DuplicateReason[];
+  invoiceNumber: string;
+  vendorName: string;
+  totalAmount: number;
+  currency: string;
+  invoiceDate: string;
+  parsedAt: string; // When the earlier document was parsed
+};
+
+export type DuplicateDetectionOptions = {
+  dateWindowDays?: number; // How far apart dates count as close (defaults to 7)
+  minScore?: number; // Lowest score reported (defaults to 0.5)
+};
+
+const DEFAULT_DATE_WINDOW_DAYS = 7;
+const DEFAULT_MIN_SCORE = 0.5;
+
+// Weights of the signals, adding up to 1
+const WEIGHTS = {
+  invoiceNumber: 0.45,
+  vendor: 0.25,
+  amount: 0.2,
+  date: 0.1
+};
+
+// Digit-only matches are weaker, short numbers like "42" collide too easily to count at all
+const DIGITS_ONLY_FACTOR = 0.8;
+const MIN_DIGITS_ONLY_LENGTH = 4;
+
+// Vendor names at least this similar count as the same vendor
+const VENDOR_SIMILARITY_THRESHOLD = 0.8;
+
+/**
+ * Compute the normalized fingerprint of an invoice
+ * @param invoice The parsed invoice
+ * @returns The normalized fields and their hash
+ */
+export function fingerprintInvoice(invoice: InvoiceData): InvoiceFingerprint {
+  const fields = {
+    vendor: normalizeCompanyName(invoice.vendorName),
+    invoiceNumber: normalizeDocumentNumber(invoice.invoiceNumber),
+    totalAmount: Math.round((invoice.totalAmount || 0) * 100) / 100,
+    currency: (invoice.currency || '').toUpperCase(),
+    invoiceDate: invoice.invoiceDate || ''
+  };
+  return {
+    ...fields,
+    key: createHash('sha256').update(JSON.stringify(fields)).digest('hex')
+  };
+}
+
+/**
+ * Find stored invoices that may be the same invoice as a newly parsed one
+ * Catches exact repeats, numbers written differently, re-scans that were read the same way,
+ * and same-vendor same-amount invoices dated within a few days of each other.
+ * @param invoice The newly parsed invoice
+ * @param documents Previously stored documents; logistics documents are ignored
+ * @param inputHash Hash of the new input, matching stored inputHash values for repeated uploads
+ * @param options Date window and score threshold
+ * @returns Matches with their score, best first
+ */
+export function findPossibleDuplicates(
+  invoice: InvoiceData,
+  documents: StoredDocument[],
+  inputHash?: string,
+  options: DuplicateDetectionOptions = {}
+): PossibleDuplicate[] {
+  const dateWindowDays = options.dateWindowDays ?? DEFAULT_DATE_WINDOW_DAYS;
+  const minScore = options.minScore ?? DEFAULT_MIN_SCORE;
+  const fingerprint = fingerprintInvoice(invoice);
+  const isCredit = invoice.classification?.type === InvoiceType.CREDIT_NOTE;
+  const duplicates: PossibleDuplicate[] = [];
+
+  for (const document of documents) {
+    // Credit notes are only compared with credit notes, invoices only with invoices
+    const stored = document.data;
+    if ('documentType' in stored || (document.documentType === InvoiceType.CREDIT_NOTE) !== isCredit) {
+      continue;
+    }
+
+    const { score, reasons } = document.inputHash === inputHash
+      ? { score: 1, reasons: [DuplicateReason.SAME_INPUT] }
+      : compareFingerprints(fingerprint, fingerprintInvoice(stored), dateWindowDays);
+
+    if (score >= minScore) {
+      duplicates.push({
+        documentId: document.id,
+        score,
+        reasons,
+        invoiceNumber: stored.invoiceNumber,
+        vendorName: stored.vendorName,
+        totalAmount: stored.totalAmount,
+        currency: stored.currency,
+        invoiceDate: stored.invoiceDate,
+        parsedAt: document.createdAt
+      });
+    }
+  }
+
+  return duplicates.sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Score how alike two fingerprints are
+ * @returns Score between 0 and 1 and the signals that contributed
+ */
+function compareFingerprints(
+  current: InvoiceFingerprint,
+  previous: InvoiceFingerprint,
+  dateWindowDays: number
+): { score: number; reasons: DuplicateReason[] } {
+  if (current.key === previous.key) {
+    return { score: 1, reasons: [DuplicateReason.SAME_FINGERPRINT] };
+  }
+
+  const reasons: DuplicateReason[] = [];
+  let score = 0;
+
+  if (current.invoiceNumber && current.invoiceNumber === previous.invoiceNumber) {
+    score += WEIGHTS.invoiceNumber;
+    reasons.push(DuplicateReason.SAME_INVOICE_NUMBER);
+  } else {
+    const digits = current.invoiceNumber.replace(/\D/g, '');
+    if (digits.length >= MIN_DIGITS_ONLY_LENGTH && digits === previous.invoiceNumber.replace(/\D/g, '')) {
+      score += WEIGHTS.invoiceNumber * DIGITS_ONLY_FACTOR;
+      reasons.push(DuplicateReason.SIMILAR_INVOICE_NUMBER);
+    }
+  }
+
+  const vendorSimilarity = compareStrings(current.vendor, previous.vendor);
+  if (vendorSimilarity >= VENDOR_SIMILARITY_THRESHOLD) {
+    score += WEIGHTS.vendor * vendorSimilarity;
+    reasons.push(DuplicateReason.SAME_VENDOR);
+  }
+
+  if (current.totalAmount !== 0 && current.totalAmount === previous.totalAmount && current.currency === previous.currency) {
+    score += WEIGHTS.amount;
+    reasons.push(DuplicateReason.SAME_AMOUNT);
+  }
+
+  const days = daysBetween(current.invoiceDate, previous.invoiceDate);
+  if (days !== undefined && days <= dateWindowDays) {
+    score += WEIGHTS.date * (1 - days / (dateWindowDays + 1));
+    reasons.push(DuplicateReason.CLOSE_DATE);
+  }
+
+  return { score: Math.round(score * 100) / 100, reasons };
+}
+
+/**
+ * Count the days between two YYYY-MM-DD dates
+ * @returns Absolute number of days, or undefined if either date can't be read
+ */
+function daysBetween(a: string, b: string): number | undefined {
+  const timeA = Date.parse(a);
+  const timeB = Date.parse(b);
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(a) || !/^\d{4}-\d{2}-\d{2}$/.test(b) || Number.isNaN(timeA) || Number.isNaN(timeB)) {
+    return undefined;
+  }
+  return Math.abs(timeA - timeB) / 86_400_000;
+}
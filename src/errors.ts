@@ -0,0 +1,133 @@
+import type { LLMTask } from './llmTypes';
+import type { SchemaIssue } from './responseSchema';
+
+// Define enum for the machine-readable codes API routes answer with
+export enum ParserErrorCode {
+  AUTHENTICATION_FAILED = 'authentication_failed', // The model provider rejected the credentials
+  RATE_LIMITED = 'rate_limited', // The model provider asked to slow down
+  UPSTREAM_UNAVAILABLE = 'upstream_unavailable', // The model provider failed, timed out or couldn't be reached
+  INVALID_MODEL_OUTPUT = 'invalid_model_output', // The model's response stayed invalid after repairs
+  INVALID_INPUT = 'invalid_input', // The document or request can't be parsed
+  PROVIDER_MISCONFIGURED = 'provider_misconfigured', // The model provider rejected a request this service built, e.g. for an unknown model
+  INTERNAL_ERROR = 'internal_error' // Anything unexpected
+}
+
+/**
+ * Base class of the errors callers can act on, each with its code and HTTP status
+ */
+export class ParserError extends Error {
+  readonly code: ParserErrorCode;
+  readonly status: number; // HTTP status the API routes answer with
+
+  constructor(code: ParserErrorCode, status: number, message: string, cause?: unknown) {
+    super(message, cause === undefined ? undefined : { cause });
+    this.name = 'ParserError';
+    this.code = code;
+    this.status = status;
+  }
+}
+
+/**
+ * Thrown when the model provider rejects the API key
+ */
+export class AuthenticationError extends ParserError {
+  constructor(message: string, cause?: unknown) {
+    super(ParserErrorCode.AUTHENTICATION_FAILED, 401, message, cause);
+    this.name = 'AuthenticationError';
+  }
+}
+
+/**
+ * Thrown when the model provider is still rate limiting after the retries
+ */
+export class RateLimitError extends ParserError {
+  readonly retryAfterMs?: number; // How long the provider asked to wait, if it said
+
+  constructor(message: string, retryAfterMs?: number, cause?: unknown) {
+    super(ParserErrorCode.RATE_LIMITED, 429, message, cause);
+    this.name = 'RateLimitError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/**
+ * Thrown when the model provider fails, doesn't answer in time or is paused by the circuit breaker
+ */
+export class UpstreamUnavailableError extends ParserError {
+  constructor(message: string, cause?: unknown) {
+    super(ParserErrorCode.UPSTREAM_UNAVAILABLE, 502, message, cause);
+    this.name = 'UpstreamUnavailableError';
+  }
+}
+
+/**
+ * Thrown when a model response still doesn't match its schema after every repair attempt
+ */
+export class InvalidModelResponseError extends ParserError {
+  readonly task: LLMTask;
+  readonly attempts: number; // Responses requested, including the first
+  readonly issues: SchemaIssue[]; // Issues of the last response
+
+  constructor(task: LLMTask, attempts: number, issues: SchemaIssue[]) {
+    super(
+      ParserErrorCode.INVALID_MODEL_OUTPUT,
+      422,
+      `The model's ${task} response was invalid after ${attempts} attempt${attempts === 1 ? '' : 's'}: ${issues.map(formatIssue).join('; ')}`
+    );
+    this.name = 'InvalidModelResponseError';
+    this.task = task;
+    this.attempts = attempts;
+    this.issues = issues;
+  }
+}
+
+/**
+ * Thrown when the input can't be parsed, e.g. an empty page list or a file the model provider refuses
+ */
+export class InvalidInputError extends ParserError {
+  constructor(message: string, cause?: unknown) {
+    super(ParserErrorCode.INVALID_INPUT, 400, message, cause);
+    this.name = 'InvalidInputError';
+  }
+}
+
+/**
+ * Thrown when the model provider rejects a request for a reason the document didn't cause,
+ * e.g. an unknown model or endpoint, so the service's configuration needs fixing
+ */
+export class ProviderConfigurationError extends ParserError {
+  constructor(message: string, cause?: unknown) {
+    super(ParserErrorCode.PROVIDER_MISCONFIGURED, 500, message, cause);
+    this.name = 'ProviderConfigurationError';
+  }
+}
+
+/**
+ * Describe an error the way the API routes answer with it
+ * Parser errors keep their status and code; anything else is an internal error.
+ * @param error The caught error
+ * @returns HTTP status, error code, message and, for rate limits, the seconds to wait
+ */
+export function describeError(error: unknown): { status: number; code: ParserErrorCode; message: string; retryAfterSeconds?: number } {
+  if (error instanceof ParserError) {
+    const retryAfterMs = error instanceof RateLimitError ? error.retryAfterMs : undefined;
+    return {
+      status: error.status,
+      code: error.code,
+      message: error.message,
+      ...(retryAfterMs !== undefined ? { retryAfterSeconds: Math.ceil(retryAfterMs / 1000) } : {})
+    };
+  }
+  return {
+    status: 500,
+    code: ParserErrorCode.INTERNAL_ERROR,
+    message: error instanceof Error ? error.message : 'Unknown error occurred'
+  };
+}
+
+/**
+ * Describe a schema issue, e.g. "items[0].unitPrice is required"
+ */
+export function formatIssue(issue: SchemaIssue): string {
+  return `${issue.path || 'the response'} ${issue.message}`;
+}
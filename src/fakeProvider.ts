@@ -0,0 +1,168 @@
+import {
+  ChatMessage,
+  CompletionRequest,
+  CompletionResponse,
+  LLMProvider,
+  LLMTask,
+  ProviderKind
+} from './llmTypes';
+
+// Keywords that identify each document type, checked in order of specificity
+// Values mirror InvoiceType; plain strings avoid a circular import with the parser
+const CLASSIFICATION_KEYWORDS: Array<{ type: string; pattern: RegExp }> = [
+  { type: 'credit_note', pattern: /credit\s+note|credit\s+memo|total\s+credit|refund/i },
+  { type: 'proforma', pattern: /pro\s?-?forma|not\s+a\s+tax\s+invoice|quotation/i },
+  { type: 'purchase_order', pattern: /purchase\s+order|\bP\.?O\.?\s*#/i },
+  { type: 'receipt', pattern: /\breceipt\b|transaction\s*#|thank\s+you\s+for\s+your\s+purchase/i },
+  { type: 'standard', pattern: /\binvoice\b/i }
+];
+
+// Currency symbols the stand-in recognises
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  '$': 'USD',
+  '£': 'GBP',
+  '€': 'EUR',
+  '¥': 'JPY'
+};
+
+/**
+ * Create a deterministic local provider that never touches the network
+ * @param responder Optional function producing the raw response for a request (defaults to simple heuristics)
+ * @returns Provider returning the responder's output
+ */
+export function createFakeProvider(
+  responder: (request: CompletionRequest) => string | null = fakeResponder
+): LLMProvider {
+  return {
+    kind: ProviderKind.FAKE,
+    async complete(request: CompletionRequest): Promise<CompletionResponse> {
+      return {
+        content: responder(request),
+        model: request.model || 'fake'
+      };
+    }
+  };
+}
+
+/**
+ * Default responder of the fake provider
+ * Uses keyword and regex heuristics so the parsers produce plausible output offline
+ * @param request The completion request
+ * @returns JSON response content
+ */
+export function fakeResponder(request: CompletionRequest): string {
+  const text = getUserText(request.messages);
+
+  switch (request.task) {
+    case LLMTask.CLASSIFICATION:
+      return JSON.stringify(classifyByKeywords(text));
+    case LLMTask.EXTRACTION:
+      return JSON.stringify(extractByPatterns(text));
+    default:
+      // Images can't be read without a model, so return an empty extraction
+      return JSON.stringify({});
+  }
+}
+
+/**
+ * Collect the text of all user messages in a request
+ * @param messages Chat messages of a request
+ * @returns Concatenated user text
+ */
+function getUserText(messages: ChatMessage[]): string {
+  return messages
+    .filter(message => message.role === 'user')
+    .map(message => typeof message.content === 'string'
+      ? message.content
+      : message.content.map(part => (part.type === 'text' ? part.text : '')).join('\n'))
+    .join('\n');
+}
+
+/**
+ * Classify a document by the first matching keyword group
+ * @param text Document text
+ * @returns Classification with type and confidence
+ */
+function classifyByKeywords(text: string): { type: string; confidence: number } {
+  const match = CLASSIFICATION_KEYWORDS.find(entry => entry.pattern.test(text));
+  return match ? { type: match.type, confidence: 0.8 } : { type: 'unknown', confidence: 0.3 };
+}
+
+/**
+ * Extract invoice fields with simple line-oriented patterns
+ * @param text Invoice text
+ * @returns Partial invoice data
+ */
+function extractByPatterns(text: string): Record<string, unknown> {
+  const symbol = Object.keys(CURRENCY_SYMBOLS).find(candidate => text.includes(candidate));
+  const totalAmount = matchAmount(text, /^\s*total[^:\n]*:\s*(.+)$/im);
+
+  return {
+    invoiceNumber: matchValue(text, /(?:invoice|credit note|transaction|reference|purchase order)\s*(?:#|no\.?|number)?\s*:?\s*#?\s*([A-Z0-9][A-Z0-9-]*\d[A-Z0-9-]*)/i),
+    invoiceDate: matchValue(text, /^\s*date:\s*(.+)$/im),
+    dueDate: matchValue(text, /^\s*due date:\s*(.+)$/im),
+    vendorName: matchLineAfter(text, /^\s*(?:from|supplier|seller):\s*$/im),
+    customerName: matchLineAfter(text, /^\s*(?:to|buyer|bill to):\s*$/im),
+    items: extractItems(text),
+    subtotal: matchAmount(text, /^\s*subtotal:\s*(.+)$/im), // Left out when not printed, like a model would
+    taxAmount: matchAmount(text, /^\s*tax[^:\n]*:\s*(.+)$/im),
+    totalAmount,
+    currency: symbol ? CURRENCY_SYMBOLS[symbol] : undefined,
+    paymentTerms: matchValue(text, /^\s*(?:payment\s+)?terms(?:\s+and\s+conditions)?:\s*(.+)$/im)
+  };
+}
+
+/**
+ * Return the first capture group of a pattern, trimmed
+ */
+function matchValue(text: string, pattern: RegExp): string | undefined {
+  const match = text.match(pattern);
+  return match ? match[1].trim() : undefined;
+}
+
+/**
+ * Return the first non-empty line after a heading line
+ */
+function matchLineAfter(text: string, heading: RegExp): string | undefined {
+  const match = heading.exec(text);
+  if (!match) {
+    return undefined;
+  }
+  const rest = text.slice(match.index + match[0].length).split('\n');
+  const line = rest.find(candidate => candidate.trim().length > 0);
+  return line ? line.trim() : undefined;
+}
+
+/**
+ * Parse the amount captured by a pattern
+ */
+function matchAmount(text: string, pattern: RegExp): number | undefined {
+  const value = matchValue(text, pattern);
+  return value === undefined ? undefined : parseAmount(value);
+}
+
+/**
+ * Parse the first number in a string, ignoring currency symbols and thousands separators
+ */
+function parseAmount(value: string): number | undefined {
+  const match = value.replace(/,/g, '').match(/-?\d+(?:\.\d+)?/);
+  return match ? Number(match[0]) : undefined;
+}
+
+/**
+ * Extract pipe-separated line items: description | quantity | unit price | amount
+ * @param text Invoice text
+ * @returns Line items found in the text
+ */
+function extractItems(text: string): Array<Record<string, unknown>> {
+  return text
+    .split('\n')
+    .filter(line => line.includes('|'))
+    .map(line => {
+      const cells = line.split('|').map(cell => cell.trim());
+      const quantity = parseAmount(cells[1]) ?? 1;
+      const amount = parseAmount(cells[cells.length - 1]) ?? 0;
+      const unitPrice = cells.length > 3 ? parseAmount(cells[2]) ?? amount : amount / quantity;
+      return { description: cells[0], quantity, unitPrice, amount };
+    });
+}
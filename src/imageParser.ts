@@ -1,13 +1,26 @@
-import { createOpenAIClient, InvoiceData, InvoiceType } from './invoiceParser';
+import { INVOICE_JSON_STRUCTURE, INVOICE_RESPONSE_SCHEMA, parseInvoice } from './invoiceParser';
+import { InvoiceClassification, InvoiceData, InvoiceType, LogisticsDocumentType, ParsedDocumentData } from './types';
+import { createProvider, toProvider } from './llmProvider';
+import { InvalidInputError } from './errors';
+import { LLMClient, LLMProvider, LLMTask } from './llmTypes';
+import { applyDefaultsAndValidate, InvoiceCheck } from './validation';
+import { applyImageProvenance, IMAGE_PROVENANCE_INSTRUCTIONS, ProvenanceHints, takeProvenanceHints } from './provenance';
+import { isLogisticsDocumentType, parseLogisticsImage } from './logisticsParser';
+import { assembleInvoicePages, PageExtraction } from './pageAssembly';
+import { extractPdfText, hasTextLayer, isPdf, joinPdfPages, renderPdfPages } from './pdfParser';
+import { normalizeInvoiceData } from './normalization';
+import { importStructuredInvoice } from './structuredImport';
+import { requestCheckedJson, ResponseSchema } from './responseSchema';
+import { getTypePrompt, getTypeValidationOptions, takeTypeDetails } from './typeStrategies';
+import { isRecord } from './valueUtils';
 import { readFileSync } from 'fs';
-import OpenAI from 'openai';
 import path from 'path';
 
 /**
  * Document classification result
  */
 export type DocumentClassification = {
-  documentType: InvoiceType | 'BILL_OF_LADING' | 'DELIVERY_RECEIPT' | string;
+  documentType: InvoiceType | LogisticsDocumentType | string;
   confidence: number;
   metadata?: {
     documentId?: string;
@@ -18,130 +31,308 @@ export type DocumentClassification = {
   };
 };
 
+// Schema document classification responses are checked against
+const DOCUMENT_CLASSIFICATION_SCHEMA: ResponseSchema = {
+  type: 'object',
+  properties: {
+    documentType: { type: 'string', enum: [...Object.values(LogisticsDocumentType), ...Object.values(InvoiceType)] },
+    confidence: { type: 'number', minimum: 0, maximum: 1 },
+    metadata: { type: 'object', optional: true, properties: {} }
+  }
+};
+
+/**
+ * A base64-encoded page image
+ */
+export type InvoiceImage = {
+  data: string;
+  mimeType: string;
+};
+
+/**
+ * An uploaded document file held in memory
+ */
+export type DocumentUpload = {
+  fileName: string;
+  data: Buffer;
+  mimeType?: string; // Derived from the file name when not given
+};
+
 /**
  * Result of parsing multiple documents
  */
 export type DocumentParsingResult = {
   filePath: string;
   classification: DocumentClassification;
-  parsedData?: InvoiceData;
+  parsedData?: ParsedDocumentData; // InvoiceData for invoice types, logistics data for BOLs and delivery receipts
   error?: string;
 };
 
 /**
  * Parse an invoice from an image file using OpenAI's vision capabilities
  * @param imagePath Path to the invoice image file
+ * @param client Optional LLM provider (defaults to one configured from environment variables)
  * @returns Structured invoice data
  */
-export async function parseInvoiceImage(imagePath: string): Promise<InvoiceData> {
-  return parseInvoiceImageBase64(null, imagePath);
+export async function parseInvoiceImage(imagePath: string, client?: LLMClient): Promise<InvoiceData> {
+  return parseInvoiceImageBase64(null, imagePath, undefined, client);
 }
 
 /**
  * Parse an invoice from a base64-encoded image using OpenAI's vision capabilities
+ * PDFs are accepted too and are parsed with parseInvoicePdf
  * @param base64Image Base64-encoded image data
+ * @param imagePath Optional path to read the image from when base64Image is null
  * @param mimeType MIME type of the image (e.g., 'image/jpeg', 'image/png')
+ * @param client Optional LLM provider (defaults to one configured from environment variables)
  * @returns Structured invoice data
  */
 export async function parseInvoiceImageBase64(
   base64Image: string | null,
   imagePath?: string,
-  mimeType?: string
+  mimeType?: string,
+  client?: LLMClient
 ): Promise<InvoiceData> {
-  // Load environment variables if needed
-  if (!process.env.OPENAI_API_KEY) {
-    try {
-      require('dotenv').config();
-    } catch (error) {
-      console.error('Failed to load dotenv:', error);
-    }
+  // Use the given provider, or create one from environment variables
+  const provider = client ? toProvider(client) : createEnvProvider();
+
+  // If base64Image is not provided, read from file path
+  let imageData: string;
+  let imageType: string;
+
+  if (!base64Image && imagePath) {
+    // Read the image file and encode as base64
+    const imageBuffer = readFileSync(imagePath);
+    imageData = imageBuffer.toString('base64');
+    imageType = getMimeType(imagePath);
+  } else if (base64Image) {
+    // Use the provided base64 image and mime type
+    imageData = base64Image;
+    imageType = mimeType || 'image/jpeg'; // Default to JPEG if not specified
+  } else {
+    throw new InvalidInputError('Either base64Image or imagePath must be provided');
+  }
+
+  // PDFs are sometimes sent with a generic or image MIME type, so check the header as well
+  if (imageType === 'application/pdf' || isPdf(Buffer.from(imageData.slice(0, 8), 'base64'))) {
+    return parseInvoicePdf(Buffer.from(imageData, 'base64'), provider);
+  }
+
+  return parseInvoiceImages([{ data: imageData, mimeType: imageType }], provider);
+}
+
+/**
+ * Parse an invoice from the pages of a PDF
+ * Factur-X and ZUGFeRD PDFs are imported from their embedded XML without the model.
+ * Otherwise the text layer is parsed as text when the PDF has one; scanned PDFs are rendered and parsed as images.
+ * All pages are parsed together as one invoice.
+ * @param pdf PDF file contents
+ * @param client Optional LLM provider (defaults to one configured from environment variables)
+ * @param skipClassification Skip classifying the text layer before extraction
+ * @param documentType Optional type to parse the invoice as instead of classifying it, e.g. when its first page was classified already
+ * @returns Structured invoice data
+ */
+export async function parseInvoicePdf(
+  pdf: Buffer,
+  client?: LLMClient,
+  skipClassification = false,
+  documentType?: InvoiceType
+): Promise<InvoiceData> {
+  // Use the given provider, or create one from environment variables
+  const provider = client ? toProvider(client) : createEnvProvider();
+
+  const structuredInvoice = importStructuredInvoice(pdf);
+  if (structuredInvoice) {
+    return structuredInvoice;
+  }
+
+  const pages = await extractPdfText(pdf);
+  if (hasTextLayer(pages)) {
+    return parseInvoice(provider, joinPdfPages(pages), skipClassification, documentType);
+  }
+
+  const images = await renderPdfPages(pdf);
+  if (images.length === 0) {
+    throw new InvalidInputError('PDF has no pages');
   }
+  return parseInvoiceImages(images, provider, documentType && { type: documentType, confidence: 1, metadata: { overridden: true } });
+}
 
-  // Create OpenAI client
-  const client = createOpenAIClient();
+/**
+ * Parse one invoice from one or more page images using OpenAI's vision capabilities
+ * @param images Base64-encoded page images, in page order
+ * @param client Optional LLM provider (defaults to one configured from environment variables)
+ * @param classification Optional type of the invoice, whose own fields, normalization and checks are then applied
+ * @returns Structured invoice data
+ */
+export async function parseInvoiceImages(
+  images: InvoiceImage[],
+  client?: LLMClient,
+  classification?: InvoiceClassification
+): Promise<InvoiceData> {
+  // Use the given provider, or create one from environment variables
+  const provider = client ? toProvider(client) : createEnvProvider();
 
   try {
-    // If base64Image is not provided, read from file path
-    let imageData: string;
-    let imageType: string;
-    
-    if (!base64Image && imagePath) {
-      // Read the image file and encode as base64
-      const imageBuffer = readFileSync(imagePath);
-      imageData = imageBuffer.toString('base64');
-      imageType = getMimeType(imagePath);
-    } else if (base64Image) {
-      // Use the provided base64 image and mime type
-      imageData = base64Image;
-      imageType = mimeType || 'image/jpeg'; // Default to JPEG if not specified
-    } else {
-      throw new Error('Either base64Image or imagePath must be provided');
-    }
+    const instruction = images.length > 1
+      ? `These ${images.length} images are the pages of a single invoice, in order. Parse them together and extract all relevant details`
+      : 'Parse this invoice image and extract all relevant details';
+
+    // Add the type's own fields, as text parsing does
+    const typePrompt = classification && classification.type !== InvoiceType.UNKNOWN
+      ? `This is a ${classification.type.toUpperCase()} type invoice. ${getTypePrompt(classification.type)}`.trimEnd() + '\n\n'
+      : '';
+
+    const { invoice, hints, repairRounds } = await requestImageExtraction(
+      provider,
+      images,
+      `${instruction} in a JSON object with the following structure:\n\n${INVOICE_JSON_STRUCTURE}\n\n${typePrompt}${IMAGE_PROVENANCE_INSTRUCTIONS}\n\nIf you can't determine a value with high confidence, use reasonable assumptions when needed and give them a low confidence.`
+    );
 
-    // Call OpenAI with the image
-    const response = await client.chat.completions.create({
-      model: "gpt-4o",
-      messages: [
-        {
-          role: "system",
-          content: "You are an expert invoice parser. Extract structured data from the provided invoice image into the exact format specified in the user's instruction. Make sure to include all key fields if they are present in the image."
-        },
-        {
-          role: "user",
-          content: [
-            { 
-              type: "text", 
-              text: "Parse this invoice image and extract all relevant details in a JSON object with the following structure:\n\n{\n  \"invoiceNumber\": string,\n  \"invoiceDate\": string,\n  \"dueDate\": string (optional),\n  \"vendorName\": string,\n  \"vendorAddress\": string (optional),\n  \"customerName\": string (optional),\n  \"customerAddress\": string (optional),\n  \"items\": [{ \"description\": string, \"quantity\": number, \"unitPrice\": number, \"amount\": number }],\n  \"subtotal\": number,\n  \"taxAmount\": number (optional),\n  \"totalAmount\": number,\n  \"currency\": string,\n  \"paymentTerms\": string (optional)\n}\n\nIf you can't determine a value with high confidence, use reasonable assumptions when needed." 
-            },
-            {
-              type: "image_url",
-              image_url: {
-                url: `data:${imageType};base64,${imageData}`
-              }
-            }
-          ]
-        }
-      ],
-      response_format: { type: "json_object" },
-      temperature: 0,
-    });
-
-    // Get the response content
-    const content = response.choices[0].message.content;
-    
-    if (!content) {
-      throw new Error("No content returned from OpenAI");
+    const parsedInvoice = invoice as InvoiceData;
+    if (classification) {
+      const typeDetails = takeTypeDetails(invoice as Record<string, unknown>, classification.type);
+      parsedInvoice.classification = classification;
+      if (typeDetails) {
+        parsedInvoice.typeDetails = typeDetails;
+      }
     }
+    return completeImageInvoice(parsedInvoice, hints, repairRounds);
+  } catch (error) {
+    console.error('Error parsing invoice image:', error);
+    throw error;
+  }
+}
+
+/**
+ * Parse one invoice from page images that are extracted one at a time and then merged
+ * Suited to long invoices whose pages repeat the header and continue the line items.
+ * @param pages Base64-encoded page images, in page order
+ * @param client Optional LLM provider (defaults to one configured from environment variables)
+ * @returns Structured invoice data, with the page of every line item recorded
+ */
+export async function parseInvoicePages(pages: InvoiceImage[], client?: LLMClient): Promise<InvoiceData> {
+  if (pages.length === 0) {
+    throw new InvalidInputError('At least one page image must be provided');
+  }
+
+  // Use the given provider, or create one from environment variables
+  const provider = client ? toProvider(client) : createEnvProvider();
 
-    // Parse the JSON response
-    const parsedInvoice = JSON.parse(content) as InvoiceData;
-    
-    // Apply reasonable defaults for missing fields instead of strict validation
-    // This helps handle partial information in images
-    parsedInvoice.invoiceNumber = parsedInvoice.invoiceNumber || 'UNKNOWN';
-    parsedInvoice.vendorName = parsedInvoice.vendorName || 'UNKNOWN';
-    parsedInvoice.totalAmount = parsedInvoice.totalAmount || 0;
-    parsedInvoice.currency = parsedInvoice.currency || 'USD';
-    parsedInvoice.items = parsedInvoice.items || [];
-    
-    // Display a warning for potentially incomplete parsing
-    if (parsedInvoice.invoiceNumber === 'UNKNOWN' || parsedInvoice.vendorName === 'UNKNOWN') {
-      console.warn('Warning: Some key invoice fields could not be extracted from the image');
+  try {
+    const extractions: PageExtraction[] = [];
+    let repairRounds = 0;
+    for (const [index, page] of pages.entries()) {
+      const extraction = await requestImageExtraction(
+        provider,
+        [page],
+        `This image is page ${index + 1} of ${pages.length} of a single invoice. Extract only what is printed on this page in a JSON object with the following structure:\n\n${INVOICE_JSON_STRUCTURE}\n\n${IMAGE_PROVENANCE_INSTRUCTIONS}\n\nLeave out fields that are not on this page. Only report subtotal, taxAmount and totalAmount if this page shows the totals of the whole invoice, not a running page total, and don't list carried-forward rows as items. If the first line item only repeats the last line of the previous page, add "continued": true to it.`
+      );
+      extractions.push({ page: index + 1, invoice: extraction.invoice, hints: extraction.hints });
+      repairRounds += extraction.repairRounds;
     }
 
-    return parsedInvoice;
+    const { invoice, hints, issues } = assembleInvoicePages(extractions);
+    return completeImageInvoice(invoice as InvoiceData, hints, repairRounds, [() => issues]);
   } catch (error) {
-    console.error('Error parsing invoice image:', error);
+    console.error('Error parsing invoice pages:', error);
     throw error;
   }
 }
 
+/**
+ * Ask the model to extract invoice data from images
+ * @param provider The LLM provider
+ * @param images Base64-encoded images to send
+ * @param instruction The user instruction, including the JSON structure
+ * @returns The extracted data with the model's confidence and source hints kept apart, and the repair rounds it took
+ */
+async function requestImageExtraction(
+  provider: LLMProvider,
+  images: InvoiceImage[],
+  instruction: string
+): Promise<{ invoice: Partial<InvoiceData>; hints: ProvenanceHints; repairRounds: number }> {
+  // Call the model with the images, asking it to fix a response that doesn't match the schema
+  const { value: rawInvoice, repairRounds } = await requestCheckedJson(provider, {
+    task: LLMTask.IMAGE_EXTRACTION,
+    messages: [
+      {
+        role: "system",
+        content: "You are an expert invoice parser. Extract structured data from the provided invoice image into the exact format specified in the user's instruction. Make sure to include all key fields if they are present in the image."
+      },
+      {
+        role: "user",
+        content: [
+          { type: "text", text: instruction },
+          ...images.map(image => ({
+            type: "image" as const,
+            mimeType: image.mimeType,
+            data: image.data
+          }))
+        ]
+      }
+    ],
+    jsonResponse: true,
+    temperature: 0,
+  }, INVOICE_RESPONSE_SCHEMA);
+
+  // Keep the model's confidence and source hints apart
+  const hints = takeProvenanceHints(rawInvoice);
+  return { invoice: rawInvoice as Partial<InvoiceData>, hints, repairRounds };
+}
+
+/**
+ * Apply defaults, validation and provenance to an invoice extracted from images
+ * @param parsedInvoice The extracted invoice, modified in place
+ * @param provenanceHints Confidence and source hints taken from the model response
+ * @param repairRounds Times the model was asked to fix its responses
+ * @param checks Extra checks to validate with, besides those of the invoice's type
+ * @returns The completed invoice
+ */
+function completeImageInvoice(
+  parsedInvoice: InvoiceData,
+  provenanceHints: ProvenanceHints,
+  repairRounds = 0,
+  checks: InvoiceCheck[] = []
+): InvoiceData {
+  // Convert dates, amounts and currency to standard formats using the addresses as locale clues;
+  // a classified credit note gets its sign here too
+  normalizeInvoiceData(parsedInvoice);
+
+  // Apply the same defaults and validation as text parsing, then provenance so callers can tell real values from defaults
+  const typeOptions = getTypeValidationOptions(parsedInvoice.typeDetails);
+  const defaultedFields = applyDefaultsAndValidate(parsedInvoice, { ...typeOptions, checks: [...(typeOptions.checks || []), ...checks] });
+  applyImageProvenance(parsedInvoice, provenanceHints, defaultedFields);
+  if (repairRounds > 0) {
+    parsedInvoice.repairRounds = repairRounds;
+  }
+
+  return parsedInvoice;
+}
+
+/**
+ * Create a provider from environment variables, loading .env first if needed
+ * @returns Configured provider
+ */
+function createEnvProvider(): LLMProvider {
+  // Load environment variables if needed
+  if (!process.env.OPENAI_API_KEY) {
+    try {
+      require('dotenv').config();
+    } catch (error) {
+      console.error('Failed to load dotenv:', error);
+    }
+  }
+
+  return createProvider();
+}
+
 /**
  * Get the MIME type from file extension
  * @param filePath Path to the file
  * @returns MIME type string
  */
-function getMimeType(filePath: string): string {
+export function getMimeType(filePath: string): string {
   const extension = path.extname(filePath).toLowerCase();
   switch (extension) {
     case '.jpg':
@@ -151,6 +342,8 @@ function getMimeType(filePath: string): string {
       return 'image/png';
     case '.gif':
       return 'image/gif';
+    case '.webp':
+      return 'image/webp';
     case '.pdf':
       return 'application/pdf';
     default:
@@ -158,24 +351,212 @@ function getMimeType(filePath: string): string {
   }
 }
 
+/**
+ * Classify a document image, including logistics documents, and extract its key metadata
+ * @param client The LLM provider (or OpenAI client instance)
+ * @param base64Image Base64-encoded image data
+ * @param mimeType MIME type of the image
+ * @returns Classification with document type, confidence and metadata
+ */
+export async function classifyDocumentImage(
+  client: LLMClient,
+  base64Image: string,
+  mimeType: string
+): Promise<DocumentClassification> {
+  const { value: classification, repairRounds } = await requestCheckedJson(toProvider(client), {
+    task: LLMTask.DOCUMENT_CLASSIFICATION,
+    messages: [
+      {
+        role: "system",
+        content: `You are an expert classifier of accounts payable and logistics documents. Determine what type of document this image shows.
+        Classify it into one of the following categories only:
+        - ${LogisticsDocumentType.BILL_OF_LADING} (a bill of lading or shipping manifest)
+        - ${LogisticsDocumentType.DELIVERY_RECEIPT} (a delivery receipt or proof of delivery)
+        - ${InvoiceType.STANDARD} (a regular invoice)
+        - ${InvoiceType.PURCHASE_ORDER} (a purchase order or PO)
+        - ${InvoiceType.RECEIPT} (a payment receipt)
+        - ${InvoiceType.PROFORMA} (a proforma invoice or quote)
+        - ${InvoiceType.CREDIT_NOTE} (a credit note or refund document)
+        - ${InvoiceType.UNKNOWN} (if you can't determine the document type)
+
+        Also include a confidence score from 0 to 1, with 1 being completely confident, and a metadata object with
+        'documentId' (the document's main number, e.g. BOL, load, delivery or invoice number), 'dateIssued', 'issuer' and 'recipient'.
+        Return ONLY a JSON object with 'documentType', 'confidence' and 'metadata' properties.`
+      },
+      {
+        role: "user",
+        content: [
+          {
+            type: "image",
+            mimeType,
+            data: base64Image
+          }
+        ]
+      }
+    ],
+    jsonResponse: true,
+    temperature: 0,
+  }, DOCUMENT_CLASSIFICATION_SCHEMA);
+
+  const metadata = toMetadata(classification.metadata);
+  return {
+    documentType: classification.documentType as string,
+    confidence: classification.confidence as number,
+    metadata: repairRounds > 0 ? { ...metadata, repairRounds } : metadata
+  };
+}
+
 /**
  * Parse and classify multiple document images
+ * Each file is handled on its own, so one bad file doesn't fail the batch
  * @param imagePaths List of paths to document images
+ * @param client Optional LLM provider (defaults to one configured from environment variables)
  * @returns Array of document parsing results with classifications
  */
-export async function parseDocuments(imagePaths: string[]): Promise<DocumentParsingResult[]> {
-  // TODO: Implement document classification and parsing logic
-  // This function should:
-  // 1. Process each image file to determine its document type
-  // 2. Extract relevant metadata for each document
-  // 3. Optionally parse the full content for invoice-type documents
-  // 4. Handle errors gracefully without failing the entire batch
-  
-  // Create OpenAI client
-  const client = createOpenAIClient();
+export async function parseDocuments(imagePaths: string[], client?: LLMClient): Promise<DocumentParsingResult[]> {
+  // Use the given provider, or create one from environment variables
+  const provider = client ? toProvider(client) : createEnvProvider();
   
   // Set up for batch processing
   const results: DocumentParsingResult[] = [];
 
+  for (const filePath of imagePaths) {
+    results.push(await parseDocumentFile(provider, filePath));
+  }
+
   return results;
 }
+
+/**
+ * Parse and classify uploaded documents, reporting each result as soon as it is ready
+ * Each file is handled on its own, so one bad file doesn't fail the batch
+ * @param uploads The uploaded files; results use the file name as filePath
+ * @param client Optional LLM provider (defaults to one configured from environment variables)
+ * @param onResult Optional callback receiving each result and its upload index as the file finishes
+ * @returns Array of document parsing results with classifications, in upload order
+ */
+export async function parseDocumentUploads(
+  uploads: DocumentUpload[],
+  client?: LLMClient,
+  onResult?: (result: DocumentParsingResult, index: number) => void | Promise<void>
+): Promise<DocumentParsingResult[]> {
+  // Use the given provider, or create one from environment variables
+  const provider = client ? toProvider(client) : createEnvProvider();
+  const results: DocumentParsingResult[] = [];
+
+  for (const [index, upload] of uploads.entries()) {
+    const result = await parseDocumentFile(provider, upload.fileName, upload);
+    results.push(result);
+    await onResult?.(result, index);
+  }
+
+  return results;
+}
+
+/**
+ * Classify a single document file and parse it with the extractor for its type
+ * @param provider The LLM provider
+ * @param filePath Path to the document image, or the name of an uploaded file
+ * @param upload The uploaded file, read from filePath when not given
+ * @returns Parsing result, with the error recorded if any step failed
+ */
+async function parseDocumentFile(provider: LLMProvider, filePath: string, upload?: DocumentUpload): Promise<DocumentParsingResult> {
+  let classification: DocumentClassification = { documentType: InvoiceType.UNKNOWN, confidence: 0 };
+
+  try {
+    const fileData = upload ? upload.data : readFileSync(filePath);
+    const mimeType = upload?.mimeType || getMimeType(filePath);
+    const pdf = isPdf(fileData) ? fileData : undefined;
+
+    // E-invoices (XML, EDI or Factur-X PDFs) are imported as they are, classification included
+    const structuredInvoice = pdf || !mimeType.startsWith('image/') ? importStructuredInvoice(fileData) : undefined;
+    if (structuredInvoice?.classification) {
+      const { type, confidence, metadata } = structuredInvoice.classification;
+      return { filePath, classification: { documentType: type, confidence, metadata }, parsedData: structuredInvoice };
+    }
+
+    // PDFs are classified from their first page
+    const [image] = pdf
+      ? await renderPdfPages(pdf, { maxPages: 1 })
+      : [{ data: fileData.toString('base64'), mimeType }];
+    if (!image) {
+      throw new InvalidInputError('PDF has no pages');
+    }
+
+    classification = await classifyDocumentImage(provider, image.data, image.mimeType);
+    const parsedData = await parseClassifiedDocument(provider, classification, image, pdf);
+
+    return { filePath, classification, ...(parsedData ? { parsedData } : {}) };
+  } catch (error) {
+    return {
+      filePath,
+      classification,
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+}
+
+/**
+ * Parse a classified document image with the extractor for its type
+ * @param image The document image, or the first page of a PDF
+ * @param pdf The PDF contents, when the document is a PDF
+ * @returns Parsed data, or undefined for unknown documents
+ */
+async function parseClassifiedDocument(
+  provider: LLMProvider,
+  classification: DocumentClassification,
+  image: InvoiceImage,
+  pdf?: Buffer
+): Promise<ParsedDocumentData | undefined> {
+  const { documentType } = classification;
+  const classificationRepairs = Number(classification.metadata?.repairRounds) || 0;
+
+  if (isLogisticsDocumentType(documentType)) {
+    const document = await parseLogisticsImage(documentType, image.data, image.mimeType, provider);
+    // Count the repair rounds of the classification as well
+    if (classificationRepairs > 0) {
+      document.repairRounds = (document.repairRounds || 0) + classificationRepairs;
+    }
+    return document;
+  }
+
+  if (documentType === InvoiceType.UNKNOWN || !Object.values(InvoiceType).includes(documentType as InvoiceType)) {
+    return undefined;
+  }
+
+  const invoiceClassification: InvoiceClassification = {
+    type: documentType as InvoiceType,
+    confidence: classification.confidence,
+    ...(classification.metadata ? { metadata: classification.metadata } : {})
+  };
+
+  // Invoices are extracted as their classified type, so they get its fields, normalization and checks;
+  // PDFs are parsed from every page, not just the one used for classification
+  const invoice = pdf
+    ? await parseInvoicePdf(pdf, provider, true, invoiceClassification.type)
+    : await parseInvoiceImages([image], provider, invoiceClassification);
+  // A PDF's text layer is parsed with the type given as an override, so keep the classification of the image
+  invoice.classification = invoiceClassification;
+
+  // Count the repair rounds of the classification as well
+  if (classificationRepairs > 0) {
+    invoice.repairRounds = (invoice.repairRounds || 0) + classificationRepairs;
+  }
+  return invoice;
+}
+
+/**
+ * Keep only the string and number values of the model's metadata object
+ */
+function toMetadata(value: unknown): DocumentClassification['metadata'] {
+  if (!isRecord(value)) {
+    return undefined;
+  }
+  const metadata: NonNullable<DocumentClassification['metadata']> = {};
+  for (const [key, entry] of Object.entries(value)) {
+    if (typeof entry === 'string' || typeof entry === 'number') {
+      metadata[key] = entry;
+    }
+  }
+  return metadata;
+}
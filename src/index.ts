@@ -1,7 +1,225 @@
 import { parseInvoice, InvoiceData, InvoiceItem } from './invoiceParser';
+import {
+  parseDocuments,
+  parseDocumentUploads,
+  parseInvoicePages,
+  DocumentClassification,
+  DocumentParsingResult,
+  DocumentUpload,
+  InvoiceImage
+} from './imageParser';
+import { isBillOfLading, isDeliveryReceipt } from './logisticsParser';
+import {
+  BillOfLadingData,
+  DeliveryReceiptData,
+  InvoiceType,
+  InvoiceTypeDetails,
+  LogisticsDocumentType
+} from './types';
+import { createProvider, createOpenAIProvider, toProvider } from './llmProvider';
+import { createFakeProvider } from './fakeProvider';
+import { FixtureMode, LLMClient, LLMProvider, ProviderKind } from './llmTypes';
+import { findLowConfidenceFields, FieldProvenance, FieldSource } from './provenance';
+import { Normalization, NormalizationKind, normalizeCreditNoteSign, normalizeInvoiceData, normalizePaymentTerms } from './normalization';
+import { validateInvoiceData, ValidationCode, ValidationIssue, ValidationReport, ValidationSeverity } from './validation';
+import { exportUbl, findMissingBusinessTerms, MissingBusinessTerm, UblDocumentType, UblExportOptions, UblExportResult } from './ublExport';
+import { detectStructuredFormat, importStructuredInvoice, StructuredFormat } from './structuredImport';
+import { createJobQueue, Job, JobDocument, JobDocumentResult, JobKind, JobQueue, JobQueueOptions, JobStatus } from './jobQueue';
+import { detectFileFormat, FileFormat, inspectUpload, UPLOAD_PROBLEM_STATUS, UploadInspection, UploadLimits, UploadProblem } from './uploads';
+import {
+  createDocumentStore,
+  DocumentFilter,
+  DocumentList,
+  DocumentStore,
+  DocumentSummary,
+  NewDocument,
+  StoredDocument
+} from './documentStore';
+import { applyInvoiceCorrections, CorrectedInvoice, FieldCorrection, InvoiceCorrection, toInvoiceCorrection } from './corrections';
+import { CheckedResponse, requestCheckedJson, ResponseSchema, SchemaIssue, validateResponse } from './responseSchema';
+import {
+  AuthenticationError,
+  describeError,
+  InvalidInputError,
+  InvalidModelResponseError,
+  ParserError,
+  ParserErrorCode,
+  ProviderConfigurationError,
+  RateLimitError,
+  UpstreamUnavailableError
+} from './errors';
+import { createResilientProvider, ResilienceOptions } from './llmResilience';
+import {
+  DuplicateDetectionOptions,
+  DuplicateReason,
+  findPossibleDuplicates,
+  fingerprintInvoice,
+  InvoiceFingerprint,
+  PossibleDuplicate
+} from './duplicateDetection';
+import {
+  findMatchingDocuments,
+  LineMatch,
+  MatchDocuments,
+  matchInvoice,
+  MatchReport,
+  MatchStatus,
+  matchStoredInvoice,
+  MatchTolerances
+} from './threeWayMatching';
+import {
+  buildVendorLedgers,
+  CreditApplication,
+  CreditStatus,
+  getVendorLedger,
+  LedgerEntry,
+  LedgerEntryKind,
+  resolveCreditNote,
+  summarizeVendorLedger,
+  VendorLedger,
+  VendorLedgerSummary
+} from './vendorLedger';
+import {
+  buildPaymentSchedule,
+  CashPlan,
+  CashPlanPayment,
+  CashPlanPeriod,
+  DiscountOpportunity,
+  EarlyPaymentDiscount,
+  parsePaymentTerms,
+  PaymentInstallment,
+  PaymentSchedule,
+  PaymentTrigger,
+  summarizeCashPlan
+} from './paymentTerms';
 
 export {
   parseInvoice,
+  parseDocuments,
+  parseDocumentUploads,
+  parseInvoicePages,
+  isBillOfLading,
+  isDeliveryReceipt,
+  InvoiceType,
+  LogisticsDocumentType,
+  createProvider,
+  createOpenAIProvider,
+  createFakeProvider,
+  toProvider,
+  ProviderKind,
+  FixtureMode,
+  findLowConfidenceFields,
+  normalizeInvoiceData,
+  NormalizationKind,
+  validateInvoiceData,
+  ValidationCode,
+  ValidationSeverity,
+  exportUbl,
+  findMissingBusinessTerms,
+  UblDocumentType,
+  detectStructuredFormat,
+  importStructuredInvoice,
+  StructuredFormat,
+  createJobQueue,
+  JobKind,
+  JobStatus,
+  detectFileFormat,
+  inspectUpload,
+  FileFormat,
+  UploadProblem,
+  UPLOAD_PROBLEM_STATUS,
+  createDocumentStore,
+  applyInvoiceCorrections,
+  toInvoiceCorrection,
+  validateResponse,
+  requestCheckedJson,
+  InvalidModelResponseError,
+  ParserError,
+  ParserErrorCode,
+  AuthenticationError,
+  RateLimitError,
+  UpstreamUnavailableError,
+  InvalidInputError,
+  ProviderConfigurationError,
+  describeError,
+  createResilientProvider,
+  findPossibleDuplicates,
+  fingerprintInvoice,
+  DuplicateReason,
+  matchInvoice,
+  matchStoredInvoice,
+  findMatchingDocuments,
+  MatchStatus,
+  normalizeCreditNoteSign,
+  buildVendorLedgers,
+  getVendorLedger,
+  summarizeVendorLedger,
+  resolveCreditNote,
+  CreditStatus,
+  LedgerEntryKind,
+  normalizePaymentTerms,
+  parsePaymentTerms,
+  buildPaymentSchedule,
+  summarizeCashPlan,
+  PaymentTrigger
+};
+
+export type {
   InvoiceData,
-  InvoiceItem
+  InvoiceItem,
+  InvoiceTypeDetails,
+  BillOfLadingData,
+  DeliveryReceiptData,
+  DocumentClassification,
+  DocumentParsingResult,
+  DocumentUpload,
+  InvoiceImage,
+  FieldProvenance,
+  FieldSource,
+  LLMClient,
+  LLMProvider,
+  Normalization,
+  ValidationIssue,
+  ValidationReport,
+  MissingBusinessTerm,
+  UblExportOptions,
+  UblExportResult,
+  Job,
+  JobDocument,
+  JobDocumentResult,
+  JobQueue,
+  JobQueueOptions,
+  UploadInspection,
+  UploadLimits,
+  DocumentFilter,
+  DocumentList,
+  DocumentStore,
+  DocumentSummary,
+  NewDocument,
+  StoredDocument,
+  FieldCorrection,
+  InvoiceCorrection,
+  CorrectedInvoice,
+  ResponseSchema,
+  SchemaIssue,
+  CheckedResponse,
+  ResilienceOptions,
+  DuplicateDetectionOptions,
+  InvoiceFingerprint,
+  PossibleDuplicate,
+  LineMatch,
+  MatchDocuments,
+  MatchReport,
+  MatchTolerances,
+  CreditApplication,
+  LedgerEntry,
+  VendorLedger,
+  VendorLedgerSummary,
+  PaymentSchedule,
+  PaymentInstallment,
+  EarlyPaymentDiscount,
+  CashPlan,
+  CashPlanPayment,
+  CashPlanPeriod,
+  DiscountOpportunity
 };
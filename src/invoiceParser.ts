@@ -1,83 +1,89 @@
-import OpenAI from 'openai';
-
-// Define enum for invoice types
-export enum InvoiceType {
-  STANDARD = 'standard',
-  PURCHASE_ORDER = 'purchase_order',
-  RECEIPT = 'receipt',
-  PROFORMA = 'proforma',
-  CREDIT_NOTE = 'credit_note',
-  UNKNOWN = 'unknown'
-}
+import { createOpenAIClient, toProvider } from './llmProvider';
+import { LLMClient, LLMTask } from './llmTypes';
+import { applyDefaultsAndValidate } from './validation';
+import { normalizeInvoiceData } from './normalization';
+import { applyTextProvenance, takeProvenanceHints, TEXT_PROVENANCE_INSTRUCTIONS } from './provenance';
+import { getTypePrompt, getTypeValidationOptions, takeTypeDetails } from './typeStrategies';
+import { importStructuredInvoice } from './structuredImport';
+import { requestCheckedJson, ResponseSchema } from './responseSchema';
+import { InvoiceClassification, InvoiceData, InvoiceItem, InvoiceType, InvoiceTypeDetails } from './types';
 
-// Define the structure for invoice classification result
-export type InvoiceClassification = {
-  type: InvoiceType; // The document type identified by the classifier
-  confidence: number; // 0-1 confidence score
-  possibleTypes?: InvoiceType[]; // Other possible types with lower confidence
-  metadata?: Record<string, any>; // Additional classification metadata
-};
+// Re-exported so existing callers keep importing the client factory and types from here
+export { createOpenAIClient, InvoiceType };
+export type { InvoiceClassification, InvoiceData, InvoiceItem, InvoiceTypeDetails };
 
-// Define the structure for parsed invoice data
-export type InvoiceData = {
-  invoiceNumber: string;
-  invoiceDate: string;
-  dueDate?: string;
-  vendorName: string;
-  vendorAddress?: string;
-  customerName?: string;
-  customerAddress?: string;
-  items: InvoiceItem[];
-  subtotal: number;
-  taxAmount?: number;
-  totalAmount: number;
-  currency: string;
-  paymentTerms?: string;
-  classification?: InvoiceClassification; // Classification information
-};
+// JSON structure the extraction prompts ask the model to return
+export const INVOICE_JSON_STRUCTURE = `{
+  "invoiceNumber": string,
+  "invoiceDate": string,
+  "dueDate": string (optional),
+  "vendorName": string,
+  "vendorAddress": string (optional),
+  "customerName": string (optional),
+  "customerAddress": string (optional),
+  "items": [{ "description": string, "quantity": number, "unitPrice": number, "amount": number }],
+  "subtotal": number,
+  "taxAmount": number (optional),
+  "totalAmount": number,
+  "currency": string,
+  "paymentTerms": string (optional),
+  "purchaseOrderNumber": string (optional, the buyer's PO number the document refers to)
+}`;
 
-// Define the structure for individual line items
-export type InvoiceItem = {
-  description: string;
-  quantity: number;
-  unitPrice: number;
-  amount: number;
+// Schema extraction responses are checked against; header fields may be left out, but every item needs all four values
+export const INVOICE_RESPONSE_SCHEMA: ResponseSchema = {
+  type: 'object',
+  properties: {
+    ...Object.fromEntries([
+      'invoiceNumber', 'invoiceDate', 'dueDate', 'vendorName', 'vendorAddress', 'customerName',
+      'customerAddress', 'currency', 'paymentTerms', 'purchaseOrderNumber'
+    ].map(field => [field, { type: 'string', optional: true }])),
+    subtotal: { type: 'amount', optional: true },
+    taxAmount: { type: 'amount', optional: true },
+    totalAmount: { type: 'amount', optional: true },
+    items: {
+      type: 'array',
+      optional: true,
+      items: {
+        type: 'object',
+        properties: {
+          description: { type: 'string' },
+          quantity: { type: 'amount' },
+          unitPrice: { type: 'amount' },
+          amount: { type: 'amount' }
+        }
+      }
+    },
+    fieldConfidence: { type: 'object', optional: true, properties: {} }
+  }
 };
 
-/**
- * Create an OpenAI client instance using the API key from environment variables
- * If no API key is provided as a parameter, it will use OPENAI_API_KEY from .env
- * @param apiKey Optional: Your OpenAI API key (defaults to environment variable)
- * @returns OpenAI client instance
- */
-export function createOpenAIClient(apiKey?: string): OpenAI {
-  // Use the provided API key or fall back to environment variable
-  const key = apiKey || process.env.OPENAI_API_KEY;
-  
-  if (!key) {
-    throw new Error('OpenAI API key is required. Set OPENAI_API_KEY environment variable or provide the key as a parameter.');
+// Schema classification responses are checked against
+const CLASSIFICATION_SCHEMA: ResponseSchema = {
+  type: 'object',
+  properties: {
+    type: { type: 'string', enum: Object.values(InvoiceType) },
+    confidence: { type: 'number', minimum: 0, maximum: 1 },
+    possibleTypes: { type: 'array', optional: true, items: { type: 'string' } },
+    indicators: { type: 'array', optional: true, items: { type: 'string' } }
   }
-  
-  return new OpenAI({
-    apiKey: key,
-  });
-}
+};
 
 /**
  * Classify an invoice document to determine its type before parsing
- * @param client The OpenAI client instance
+ * @param client The LLM provider (or OpenAI client instance)
  * @param invoiceText The text content of the invoice to classify
  * @returns Classification result with invoice type and confidence score
+ * @throws ParserError if the model can't be reached or its response stays invalid, rather than guessing UNKNOWN
  */
-export async function classifyInvoice(client: OpenAI, invoiceText: string): Promise<InvoiceClassification> {
-  try {
-    // Call OpenAI to classify the invoice type
-    const response = await client.chat.completions.create({
-      model: process.env.OPENAI_MODEL || "gpt-4o",
-      messages: [
-        {
-          role: "system",
-          content: `You are an expert invoice classifier. You need to determine what type of document this is.
+export async function classifyInvoice(client: LLMClient, invoiceText: string): Promise<InvoiceClassification> {
+  // Ask the model to classify the invoice type, checking the answer against the schema
+  const { value: classification, repairRounds } = await requestCheckedJson(toProvider(client), {
+    task: LLMTask.CLASSIFICATION,
+    messages: [
+      {
+        role: "system",
+        content: `You are an expert invoice classifier. You need to determine what type of document this is.
           Classify it into one of the following categories only:
           - ${InvoiceType.STANDARD} (a regular invoice)
           - ${InvoiceType.PURCHASE_ORDER} (a purchase order or PO)
@@ -87,83 +93,87 @@ export async function classifyInvoice(client: OpenAI, invoiceText: string): Prom
           - ${InvoiceType.UNKNOWN} (if you can't determine the document type)
           
           Also include a confidence score from 0 to 1, with 1 being completely confident.
-          Return ONLY a JSON object with 'type' and 'confidence' properties.`
-        },
-        {
-          role: "user",
-          content: invoiceText
-        }
-      ],
-      response_format: { type: "json_object" },
-      temperature: 0,
-    });
+          List in 'possibleTypes' the other categories the document could be, most likely first (an empty array if there are none),
+          and in 'indicators' the words or phrases of the document that decided the type.
+          Return ONLY a JSON object with 'type', 'confidence', 'possibleTypes' and 'indicators' properties.`
+      },
+      {
+        role: "user",
+        content: invoiceText
+      }
+    ],
+    jsonResponse: true,
+    temperature: 0,
+  }, CLASSIFICATION_SCHEMA);
+  
+  // Keep only known alternatives to the chosen type, and the phrases as strings
+  const possibleTypes = Array.isArray(classification.possibleTypes)
+    ? classification.possibleTypes.filter((type): type is InvoiceType =>
+      Object.values(InvoiceType).includes(type) && type !== classification.type && type !== InvoiceType.UNKNOWN)
+    : [];
+  const indicators = Array.isArray(classification.indicators)
+    ? classification.indicators.filter((indicator): indicator is string => typeof indicator === 'string' && indicator.trim() !== '')
+    : [];
 
-    // Get the response content
-    const content = response.choices[0].message.content;
-    
-    if (!content) {
-      throw new Error("No content returned from OpenAI for classification");
-    }
+  const metadata = {
+    ...(indicators.length > 0 ? { indicators } : {}),
+    ...(repairRounds > 0 ? { repairRounds } : {})
+  };
 
-    // Parse the JSON response
-    const classification = JSON.parse(content) as { type: string; confidence: number };
-    
-    // Validate the type is one of our defined types
-    if (!Object.values(InvoiceType).includes(classification.type as InvoiceType)) {
-      console.warn(`Classification returned invalid type: ${classification.type}`);
-      classification.type = InvoiceType.UNKNOWN;
-    }
-    
-    // Validate confidence is a number between 0 and 1
-    if (typeof classification.confidence !== 'number' || 
-        classification.confidence < 0 || 
-        classification.confidence > 1) {
-      console.warn(`Classification returned invalid confidence: ${classification.confidence}`);
-      classification.confidence = 0;
-    }
-    
-    return {
-      type: classification.type as InvoiceType,
-      confidence: classification.confidence
-    };
-  } catch (error) {
-    console.error('Error classifying invoice:', error);
-    // Default to unknown classification in case of error
-    return {
-      type: InvoiceType.UNKNOWN,
-      confidence: 0
-    };
-  }
+  return {
+    type: classification.type as InvoiceType,
+    confidence: classification.confidence as number,
+    ...(possibleTypes.length > 0 ? { possibleTypes: Array.from(new Set(possibleTypes)) } : {}),
+    ...(Object.keys(metadata).length > 0 ? { metadata } : {})
+  };
 }
 
 /**
  * Parse an invoice from its text content using OpenAI
- * @param client The OpenAI client instance
+ * UBL, CII and X12 810 documents are imported directly, without calling the model.
+ * @param client The LLM provider (or OpenAI client instance)
  * @param invoiceText The text content of the invoice to parse
  * @param skipClassification Optional flag to skip classification step
+ * @param documentType Optional type to parse the invoice as instead of classifying it, e.g. when a user corrected the classification
  * @returns Structured invoice data
  */
-export async function parseInvoice(client: OpenAI, invoiceText: string, skipClassification = false): Promise<InvoiceData> {
+export async function parseInvoice(
+  client: LLMClient,
+  invoiceText: string,
+  skipClassification = false,
+  documentType?: InvoiceType
+): Promise<InvoiceData> {
+  const provider = toProvider(client);
+
   try {
-    // First, classify the invoice to determine its type (unless explicitly skipped)
+    // Machine-readable invoices carry their data already, so the model isn't needed
+    const structuredInvoice = importStructuredInvoice(invoiceText);
+    if (structuredInvoice) {
+      return structuredInvoice;
+    }
+
+    // First, classify the invoice to determine its type (unless the type is given or classification is skipped)
     let classification: InvoiceClassification | undefined;
     
-    if (!skipClassification) {
-      classification = await classifyInvoice(client, invoiceText);
-      
-      // Use type-specific parsing strategies based on classification
-      // TODO: Implement different parsing strategies for different invoice types
+    if (documentType) {
+      classification = { type: documentType, confidence: 1, metadata: { overridden: true } };
+    } else if (!skipClassification) {
+      classification = await classifyInvoice(provider, invoiceText);
     }
 
-    // Adapt system prompt based on classification
+    // Adapt system prompt based on classification, adding the type's own fields
     let systemPrompt = "You are an expert invoice parser. Extract structured data as JSON from the provided invoice text.";
     
     if (classification && classification.type !== InvoiceType.UNKNOWN) {
       systemPrompt += ` This is a ${classification.type.toUpperCase()} type invoice.`;
+      systemPrompt += ` ${getTypePrompt(classification.type)}`.trimEnd();
     }
 
-    const response = await client.chat.completions.create({
-      model: process.env.OPENAI_MODEL || "gpt-4o",
+    systemPrompt += `\nUse the following structure:\n${INVOICE_JSON_STRUCTURE}\n${TEXT_PROVENANCE_INSTRUCTIONS}`;
+
+    // Request the extraction, asking the model to fix a response that doesn't match the schema
+    const { value: rawInvoice, repairRounds } = await requestCheckedJson(provider, {
+      task: LLMTask.EXTRACTION,
       messages: [
         {
           role: "system",
@@ -174,40 +184,37 @@ export async function parseInvoice(client: OpenAI, invoiceText: string, skipClas
           content: invoiceText
         }
       ],
-      response_format: { type: "json_object" },
+      jsonResponse: true,
       temperature: 0,
-    });
+    }, INVOICE_RESPONSE_SCHEMA);
 
-    // Get the response content
-    const content = response.choices[0].message.content;
+    // Keep the model's confidence and source hints apart
+    const provenanceHints = takeProvenanceHints(rawInvoice);
+    const typeDetails = classification ? takeTypeDetails(rawInvoice, classification.type) : undefined;
+    const parsedInvoice = rawInvoice as InvoiceData;
     
-    if (!content) {
-      throw new Error("No content returned from OpenAI");
-    }
-
-    // Parse the JSON response
-    const parsedInvoice = JSON.parse(content) as InvoiceData;
-    
-    // Add classification information to the parsed invoice
+    // Add classification information and type-specific fields to the parsed invoice
     if (classification) {
       parsedInvoice.classification = classification;
     }
-    
-    // Apply default values for missing fields instead of throwing errors
-    // This makes the parser more robust, especially for testing
-    parsedInvoice.invoiceNumber = parsedInvoice.invoiceNumber || 'UNKNOWN';
-    parsedInvoice.vendorName = parsedInvoice.vendorName || 'UNKNOWN';
-    parsedInvoice.totalAmount = parsedInvoice.totalAmount || 0;
-    parsedInvoice.currency = parsedInvoice.currency || 'USD';
-    parsedInvoice.items = parsedInvoice.items || [];
-    parsedInvoice.invoiceDate = parsedInvoice.invoiceDate || new Date().toISOString().split('T')[0];
-    parsedInvoice.subtotal = parsedInvoice.subtotal || parsedInvoice.totalAmount;
-    
-    // Optional validation warning - useful for debugging but won't fail tests
-    if (parsedInvoice.invoiceNumber === 'UNKNOWN' || parsedInvoice.vendorName === 'UNKNOWN') {
-      console.warn('Warning: Some important invoice fields are missing from the parsing result');
+    if (typeDetails) {
+      parsedInvoice.typeDetails = typeDetails;
     }
 
+    // Count the repair rounds of the classification as well
+    const totalRepairRounds = repairRounds + (classification?.metadata?.repairRounds ?? 0);
+    if (totalRepairRounds > 0) {
+      parsedInvoice.repairRounds = totalRepairRounds;
+    }
+    
+    // Convert dates, amounts and currency to standard formats using the invoice's locale clues
+    normalizeInvoiceData(parsedInvoice, invoiceText);
+
+    // Apply default values for missing fields instead of throwing errors, then attach the validation report
+    // and provenance so callers can tell real values from defaults
+    const defaultedFields = applyDefaultsAndValidate(parsedInvoice, getTypeValidationOptions(typeDetails));
+    applyTextProvenance(parsedInvoice, provenanceHints, invoiceText, defaultedFields);
+
     return parsedInvoice;
   } catch (error) {
     // We're not logging errors here so tests remain clean
@@ -215,15 +222,3 @@ export async function parseInvoice(client: OpenAI, invoiceText: string, skipClas
     throw error;
   }
 };
-
-/**
- * Validate the parsed invoice data
- * @param invoice The invoice data to validate
- * @returns Validated invoice data
- */
-const validateInvoice = (invoice: InvoiceData): InvoiceData => {
-  if (!invoice.invoiceNumber || !invoice.vendorName || !invoice.totalAmount) {
-    throw new Error("Invoice parsing failed: Missing required fields");
-  }
-  return invoice;
-};
@@ -0,0 +1,337 @@
+import { randomUUID } from 'crypto';
+import { existsSync, mkdirSync, readdirSync, readFileSync, renameSync, rmSync, writeFileSync } from 'fs';
+import path from 'path';
+import { parseInvoiceImageBase64 } from './imageParser';
+import { parseInvoice } from './invoiceParser';
+import { createProvider, toProvider } from './llmProvider';
+import { LLMClient, LLMProvider } from './llmTypes';
+import { createDocumentStore, DocumentStore, saveParsedDocument } from './documentStore';
+import { InvalidInputError } from './errors';
+import { InvoiceData } from './types';
+import { inspectUpload } from './uploads';
+
+// Define enum for what a job parses
+export enum JobKind {
+  TEXT = 'text',
+  IMAGE = 'image', // An image or PDF
+  BATCH = 'batch' // Several text and image documents, parsed one after another
+}
+
+// Define enum for the lifecycle of a job
+export enum JobStatus {
+  QUEUED = 'queued',
+  RUNNING = 'running',
+  SUCCEEDED = 'succeeded',
+  FAILED = 'failed',
+  CANCELLED = 'cancelled'
+}
+
+// One document of a job, either invoice text or a base64-encoded image or PDF
+export type JobDocument = {
+  invoiceText?: string;
+  skipClassification?: boolean;
+  base64Image?: string;
+  mimeType?: string; // Detected from the content when missing
+};
+
+export type JobDocumentResult = {
+  index: number; // Position of the document in the job
+  data?: InvoiceData;
+  documentId?: string; // ID in the document store, when the queue keeps its results
+  error?: string;
+};
+
+// Define the job state reported to clients
+export type Job = {
+  id: string;
+  kind: JobKind;
+  status: JobStatus;
+  progress: {
+    completed: number;
+    total: number;
+  };
+  results: JobDocumentResult[];
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type JobQueueOptions = {
+  directory?: string; // Where job state is persisted, defaults to JOBS_DIRECTORY or .jobs
+  concurrency?: number; // Jobs running at the same time, defaults to JOB_CONCURRENCY or 2
+  retentionMs?: number; // How long finished jobs are kept, defaults to JOB_RETENTION_HOURS or 24 hours
+  client?: LLMProvider | LLMClient; // Defaults to a provider configured from environment variables
+  store?: DocumentStore; // Keeps every parsed document when given
+};
+
+export type JobQueue = {
+  submit(kind: JobKind, documents: JobDocument[]): Job;
+  get(id: string): Job | undefined;
+  cancel(id: string): Job | undefined;
+  idle(): Promise<void>; // Resolves once no job is queued or running
+};
+
+// Jobs are stored together with their input until they finish, so unfinished jobs can resume after a restart
+type StoredJob = Job & {
+  documents?: JobDocument[];
+};
+
+const DEFAULT_DIRECTORY = '.jobs';
+const DEFAULT_CONCURRENCY = 2;
+const DEFAULT_RETENTION_HOURS = 24;
+const FINISHED_STATUSES = [JobStatus.SUCCEEDED, JobStatus.FAILED, JobStatus.CANCELLED];
+
+// Next.js bundles every API route on its own, so the shared queue lives on the global object
+// instead of in this module; otherwise each route would load and run the persisted jobs again
+const globalForJobs = globalThis as typeof globalThis & { invoiceJobQueue?: JobQueue };
+
+/**
+ * Create an in-process job queue that persists every job as a JSON file
+ * Jobs that were queued or running when the process stopped are resumed, skipping documents that were already parsed.
+ * Finished jobs are deleted once the retention period has passed since they finished.
+ * @param options Storage directory, concurrency limit and provider
+ * @returns The job queue
+ */
+export function createJobQueue(options: JobQueueOptions = {}): JobQueue {
+  const directory = options.directory || process.env.JOBS_DIRECTORY || DEFAULT_DIRECTORY;
+  const concurrency = Math.max(1, options.concurrency ?? (Number(process.env.JOB_CONCURRENCY) || DEFAULT_CONCURRENCY));
+  const retentionMs = options.retentionMs ?? (Number(process.env.JOB_RETENTION_HOURS) || DEFAULT_RETENTION_HOURS) * 60 * 60 * 1000;
+  const jobs = new Map<string, StoredJob>();
+  const pending: string[] = [];
+  const idleWaiters: Array<() => void> = [];
+  let running = 0;
+
+  const save = (job: StoredJob) => {
+    job.updatedAt = new Date().toISOString();
+    // Write to a temporary file first so a crash never leaves a half-written job behind
+    const jobPath = path.join(directory, `${job.id}.json`);
+    writeFileSync(`${jobPath}.tmp`, JSON.stringify(job));
+    renameSync(`${jobPath}.tmp`, jobPath);
+  };
+
+  const finish = (job: StoredJob, status: JobStatus, error?: string) => {
+    job.status = status;
+    job.error = error;
+    // The input isn't needed anymore and may hold large images
+    delete job.documents;
+    save(job);
+  };
+
+  // Forget finished jobs whose retention period has passed, together with their files
+  const pruneExpired = () => {
+    const expiredBefore = Date.now() - retentionMs;
+    for (const job of jobs.values()) {
+      if (isJobFinished(job) && Date.parse(job.updatedAt) <= expiredBefore) {
+        jobs.delete(job.id);
+        rmSync(path.join(directory, `${job.id}.json`), { force: true });
+      }
+    }
+  };
+
+  const notifyIdle = () => {
+    if (running === 0 && pending.length === 0) {
+      idleWaiters.splice(0).forEach(resolve => resolve());
+    }
+  };
+
+  const run = async (job: StoredJob) => {
+    job.status = JobStatus.RUNNING;
+    save(job);
+
+    try {
+      const provider = options.client ? toProvider(options.client) : createProvider();
+      const documents = job.documents || [];
+
+      // Resumed jobs continue after the last parsed document
+      for (let index = job.results.length; index < documents.length; index++) {
+        const result = await parseJobDocument(provider, documents[index], index);
+        // A cancelled job keeps the results it had when it was cancelled
+        if (isJobFinished(job)) {
+          return;
+        }
+        if (result.data && options.store) {
+          const { invoiceText, base64Image } = documents[index];
+          const input = invoiceText !== undefined ? invoiceText : Buffer.from(base64Image || '', 'base64');
+          result.documentId = saveParsedDocument({ input, data: result.data, source: `job ${job.id}` }, options.store)?.id;
+        }
+        job.results.push(result);
+        job.progress.completed = job.results.length;
+        save(job);
+      }
+
+      // A batch succeeds with per-document errors, a single document fails with its error
+      const error = job.kind !== JobKind.BATCH ? job.results[0]?.error : undefined;
+      finish(job, error ? JobStatus.FAILED : JobStatus.SUCCEEDED, error);
+    } catch (error) {
+      if (!isJobFinished(job)) {
+        finish(job, JobStatus.FAILED, error instanceof Error ? error.message : String(error));
+      }
+    }
+  };
+
+  const startNext = () => {
+    while (running < concurrency && pending.length > 0) {
+      const job = jobs.get(pending.shift() as string);
+      if (!job || job.status !== JobStatus.QUEUED) {
+        continue;
+      }
+
+      running++;
+      run(job).finally(() => {
+        running--;
+        startNext();
+        notifyIdle();
+      });
+    }
+    notifyIdle();
+  };
+
+  // Load the persisted jobs and queue the unfinished ones again, oldest first
+  mkdirSync(directory, { recursive: true });
+  const storedJobs = readdirSync(directory)
+    .filter(file => file.endsWith('.json'))
+    .map(file => readStoredJob(path.join(directory, file)))
+    .filter((job): job is StoredJob => job !== undefined)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+  for (const job of storedJobs) {
+    jobs.set(job.id, job);
+    if (job.status === JobStatus.QUEUED || job.status === JobStatus.RUNNING) {
+      job.status = JobStatus.QUEUED;
+      pending.push(job.id);
+    }
+  }
+  pruneExpired();
+
+  const queue: JobQueue = {
+    submit(kind, documents) {
+      if (documents.length === 0) {
+        throw new Error('A job needs at least one document');
+      }
+      pruneExpired();
+
+      const now = new Date().toISOString();
+      const job: StoredJob = {
+        id: randomUUID(),
+        kind,
+        status: JobStatus.QUEUED,
+        progress: { completed: 0, total: documents.length },
+        results: [],
+        createdAt: now,
+        updatedAt: now,
+        documents
+      };
+      jobs.set(job.id, job);
+      save(job);
+
+      pending.push(job.id);
+      startNext();
+      return toJob(job);
+    },
+
+    get(id) {
+      const job = jobs.get(id);
+      return job && toJob(job);
+    },
+
+    cancel(id) {
+      const job = jobs.get(id);
+      if (!job) {
+        return undefined;
+      }
+
+      // A running job stops after the document it is parsing, which can't be interrupted
+      if (!isJobFinished(job)) {
+        finish(job, JobStatus.CANCELLED);
+      }
+      return toJob(job);
+    },
+
+    idle() {
+      return new Promise(resolve => {
+        idleWaiters.push(resolve);
+        notifyIdle();
+      });
+    }
+  };
+
+  startNext();
+  return queue;
+}
+
+/**
+ * Get the job queue shared by the API routes, configured from environment variables
+ * @returns The shared job queue
+ */
+export function getJobQueue(): JobQueue {
+  if (!globalForJobs.invoiceJobQueue) {
+    globalForJobs.invoiceJobQueue = createJobQueue({ store: createDocumentStore() });
+  }
+  return globalForJobs.invoiceJobQueue;
+}
+
+/**
+ * Check whether a job has reached a final status
+ * @param job The job
+ * @returns True for succeeded, failed and cancelled jobs
+ */
+export function isJobFinished(job: Job): boolean {
+  return FINISHED_STATUSES.includes(job.status);
+}
+
+/**
+ * Parse one document of a job, capturing its error instead of failing the job
+ * @param provider The LLM provider
+ * @param document Invoice text or a base64-encoded image or PDF
+ * @param index Position of the document in the job
+ * @returns The parsed invoice or the error
+ */
+async function parseJobDocument(provider: LLMProvider, document: JobDocument, index: number): Promise<JobDocumentResult> {
+  try {
+    if (document.invoiceText !== undefined) {
+      return { index, data: await parseInvoice(provider, document.invoiceText, document.skipClassification === true) };
+    }
+
+    // Images queued without a MIME type are checked like uploads instead of being sent as JPEG
+    const base64Image = document.base64Image || '';
+    let mimeType = document.mimeType;
+    if (!mimeType) {
+      const inspection = inspectUpload(Buffer.from(base64Image, 'base64'));
+      if (inspection.problem) {
+        throw new InvalidInputError(inspection.message || 'The file was rejected');
+      }
+      mimeType = inspection.format;
+    }
+    return { index, data: await parseInvoiceImageBase64(base64Image, undefined, mimeType, provider) };
+  } catch (error) {
+    return { index, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * Read a persisted job, skipping files that can't be read
+ * @param jobPath Path of the job file
+ * @returns The job, or undefined if the file is unreadable
+ */
+function readStoredJob(jobPath: string): StoredJob | undefined {
+  try {
+    return existsSync(jobPath) ? JSON.parse(readFileSync(jobPath, 'utf8')) as StoredJob : undefined;
+  } catch (error) {
+    console.error(`Skipping unreadable job file ${jobPath}:`, error);
+    return undefined;
+  }
+}
+
+/**
+ * Copy the client-facing part of a stored job
+ * @param job The stored job
+ * @returns The job without its input
+ */
+function toJob(job: StoredJob): Job {
+  const { documents: _documents, ...state } = job;
+  return {
+    ...state,
+    progress: { ...state.progress },
+    results: [...state.results]
+  };
+}
@@ -0,0 +1,131 @@
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import path from 'path';
+import {
+  ChatContentPart,
+  ChatMessage,
+  CompletionRequest,
+  CompletionResponse,
+  LLMProvider,
+  ProviderKind
+} from './llmTypes';
+
+// Define the structure of a recorded request/response pair as stored on disk
+export type LLMFixture = {
+  hash: string;
+  request: CompletionRequest; // Image data is replaced by its hash to keep fixtures small
+  response: CompletionResponse;
+};
+
+/**
+ * Compute the fixture key of a request
+ * Any change to the prompts, images or options gives a different key.
+ * @param request The completion request
+ * @returns Hex-encoded SHA-256 hash
+ */
+export function hashRequest(request: CompletionRequest): string {
+  return sha256(canonicalJson({
+    task: request.task,
+    model: request.model ?? null,
+    temperature: request.temperature ?? null,
+    jsonResponse: request.jsonResponse ?? false,
+    messages: request.messages
+  }));
+}
+
+/**
+ * Get the path of the fixture file for a request
+ * @param directory Directory holding the fixtures
+ * @param request The completion request
+ * @returns Path of the fixture file, named after the task and request hash
+ */
+export function getFixturePath(directory: string, request: CompletionRequest): string {
+  return path.join(directory, `${request.task}-${hashRequest(request).slice(0, 16)}.json`);
+}
+
+/**
+ * Wrap a provider so every request and its response are saved as a fixture
+ * @param provider The provider that answers the requests
+ * @param directory Directory to write the fixtures to
+ * @returns Provider that records while passing responses through
+ */
+export function createRecordingProvider(provider: LLMProvider, directory: string): LLMProvider {
+  return {
+    kind: provider.kind,
+    async complete(request: CompletionRequest, signal?: AbortSignal): Promise<CompletionResponse> {
+      const response = await provider.complete(request, signal);
+      const fixture: LLMFixture = {
+        hash: hashRequest(request),
+        request: { ...request, messages: request.messages.map(redactImages) },
+        response
+      };
+
+      mkdirSync(directory, { recursive: true });
+      writeFileSync(getFixturePath(directory, request), `${JSON.stringify(fixture, null, 2)}\n`);
+      return response;
+    }
+  };
+}
+
+/**
+ * Create a provider that answers from recorded fixtures without any network access
+ * @param directory Directory holding the fixtures
+ * @returns Provider serving the recorded responses
+ */
+export function createReplayProvider(directory: string): LLMProvider {
+  return {
+    kind: ProviderKind.REPLAY,
+    async complete(request: CompletionRequest): Promise<CompletionResponse> {
+      const fixturePath = getFixturePath(directory, request);
+
+      // A missing fixture means the request changed, so never fall back to a guess
+      if (!existsSync(fixturePath)) {
+        throw new Error(
+          `No recorded fixture for ${request.task} request ${hashRequest(request)} (expected ${fixturePath}). ` +
+          'Record it again by running with LLM_FIXTURE_MODE=record and a configured LLM backend.'
+        );
+      }
+
+      const fixture = JSON.parse(readFileSync(fixturePath, 'utf8')) as LLMFixture;
+      if (fixture.hash !== hashRequest(request)) {
+        throw new Error(`Fixture ${fixturePath} was recorded for a different request`);
+      }
+      return fixture.response;
+    }
+  };
+}
+
+/**
+ * Replace image data with its hash so recorded requests stay readable
+ */
+function redactImages(message: ChatMessage): ChatMessage {
+  if (typeof message.content === 'string') {
+    return message;
+  }
+  return {
+    ...message,
+    content: message.content.map((part): ChatContentPart => (part.type === 'image'
+      ? { ...part, data: `sha256:${sha256(part.data)}` }
+      : part))
+  };
+}
+
+function sha256(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
+
+/**
+ * Serialize a value as JSON with object keys sorted, so equal requests always hash the same
+ */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${canonicalJson(entry)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
@@ -0,0 +1,213 @@
+import OpenAI from 'openai';
+import { createFakeProvider } from './fakeProvider';
+import { createRecordingProvider, createReplayProvider } from './llmFixtures';
+import { createResilientProvider, ResilienceOptions } from './llmResilience';
+import {
+  ChatMessage,
+  CompletionRequest,
+  CompletionResponse,
+  FixtureMode,
+  LLMClient,
+  LLMProvider,
+  ProviderKind
+} from './llmTypes';
+
+export type ProviderConfig = {
+  kind?: ProviderKind;
+  apiKey?: string;
+  baseURL?: string; // Base URL of an OpenAI-compatible server, e.g. http://localhost:11434/v1
+  model?: string;
+  visionModel?: string; // Model used for requests containing images (defaults to model)
+  fixtureMode?: FixtureMode; // Record responses to, or replay them from, fixture files
+  fixtureDirectory?: string; // Directory of the fixture files (defaults to fixtures/llm)
+  repairAttempts?: number; // Rounds of asking the model to fix an invalid response (defaults to LLM_REPAIR_ATTEMPTS or 2)
+  resilience?: ResilienceOptions; // Retries, timeouts and circuit breaker of the backend calls
+};
+
+export type OpenAIProviderOptions = {
+  kind?: ProviderKind;
+  model?: string;
+  visionModel?: string;
+  resilience?: ResilienceOptions; // Retries, timeouts and circuit breaker (defaults to LLM_MAX_RETRIES and LLM_TIMEOUT_MS)
+};
+
+const DEFAULT_MODEL = 'gpt-4o';
+const DEFAULT_FIXTURE_DIRECTORY = 'fixtures/llm';
+
+/**
+ * Create an OpenAI client instance using the API key from environment variables
+ * If no API key is provided as a parameter, it will use OPENAI_API_KEY from .env
+ * @param apiKey Optional: Your OpenAI API key (defaults to environment variable)
+ * @param baseURL Optional: Base URL of an OpenAI-compatible server (defaults to OPENAI_BASE_URL)
+ * @returns OpenAI client instance
+ */
+export function createOpenAIClient(apiKey?: string, baseURL?: string): OpenAI {
+  // Use the provided values or fall back to environment variables
+  const url = baseURL || process.env.OPENAI_BASE_URL;
+  let key = apiKey || process.env.OPENAI_API_KEY;
+
+  // Self-hosted servers usually don't check the key, but the SDK requires one
+  if (!key && url) {
+    key = 'not-needed';
+  }
+
+  if (!key) {
+    throw new Error('OpenAI API key is required. Set OPENAI_API_KEY environment variable or provide the key as a parameter.');
+  }
+
+  return new OpenAI({
+    apiKey: key,
+    ...(url ? { baseURL: url } : {}),
+  });
+}
+
+/**
+ * Wrap an OpenAI (or OpenAI-compatible) client as a provider
+ * Calls are retried, timed out and guarded by a circuit breaker here rather than by the SDK,
+ * so failures reach the parsers as the typed errors of ./errors.
+ * @param client The OpenAI client instance
+ * @param options Optional model overrides and resilience settings
+ * @returns Provider that sends requests through the client
+ */
+export function createOpenAIProvider(client: OpenAI, options: OpenAIProviderOptions = {}): LLMProvider {
+  const model = options.model || process.env.OPENAI_MODEL || DEFAULT_MODEL;
+  const visionModel = options.visionModel || process.env.OPENAI_VISION_MODEL || model;
+
+  const kind = options.kind || ProviderKind.OPENAI;
+
+  const provider: LLMProvider = {
+    kind,
+    async complete(request: CompletionRequest, signal?: AbortSignal): Promise<CompletionResponse> {
+      const selectedModel = request.model || (hasImageContent(request.messages) ? visionModel : model);
+
+      const response = await client.chat.completions.create({
+        model: selectedModel,
+        messages: request.messages.map(toOpenAIMessage),
+        ...(request.jsonResponse ? { response_format: { type: 'json_object' as const } } : {}),
+        temperature: request.temperature ?? 0,
+      }, { signal, maxRetries: 0 });
+
+      return {
+        content: response.choices[0].message.content,
+        model: selectedModel
+      };
+    }
+  };
+
+  // Each server gets its own circuit
+  return createResilientProvider(provider, { circuitKey: `${kind}:${client.baseURL}`, ...options.resilience });
+}
+
+/**
+ * Create a provider from explicit configuration, falling back to environment variables
+ * LLM_PROVIDER selects the backend; OPENAI_BASE_URL implies an OpenAI-compatible server.
+ * LLM_FIXTURE_MODE=record saves every call to LLM_FIXTURE_DIR, LLM_FIXTURE_MODE=replay answers from it offline.
+ * config.repairAttempts is kept on the provider for the parsers; without it they read LLM_REPAIR_ATTEMPTS.
+ * @param config Optional provider configuration
+ * @returns Configured provider
+ */
+export function createProvider(config: ProviderConfig = {}): LLMProvider {
+  const provider = createSelectedProvider(config);
+  return config.repairAttempts === undefined ? provider : { ...provider, repairAttempts: config.repairAttempts };
+}
+
+/**
+ * Create the provider for the configured backend, recording or replaying fixtures if asked to
+ * @param config Provider configuration
+ * @returns Configured provider
+ */
+function createSelectedProvider(config: ProviderConfig): LLMProvider {
+  const fixtureMode = config.fixtureMode || (process.env.LLM_FIXTURE_MODE as FixtureMode | undefined);
+  const fixtureDirectory = config.fixtureDirectory || process.env.LLM_FIXTURE_DIR || DEFAULT_FIXTURE_DIRECTORY;
+
+  switch (fixtureMode) {
+    case undefined:
+      return createBackendProvider(config);
+    case FixtureMode.REPLAY:
+      // Replaying needs no backend, so no API key either
+      return createReplayProvider(fixtureDirectory);
+    case FixtureMode.RECORD:
+      return createRecordingProvider(createBackendProvider(config), fixtureDirectory);
+    default:
+      throw new Error(`Unknown LLM fixture mode: ${fixtureMode}`);
+  }
+}
+
+/**
+ * Create the provider for the configured backend
+ * @param config Provider configuration
+ * @returns Provider that sends requests to the backend
+ */
+function createBackendProvider(config: ProviderConfig): LLMProvider {
+  const baseURL = config.baseURL || process.env.OPENAI_BASE_URL;
+  const kind = config.kind
+    || (process.env.LLM_PROVIDER as ProviderKind | undefined)
+    || (baseURL ? ProviderKind.OPENAI_COMPATIBLE : ProviderKind.OPENAI);
+
+  switch (kind) {
+    case ProviderKind.FAKE:
+      return createFakeProvider();
+    case ProviderKind.OPENAI_COMPATIBLE:
+      if (!baseURL) {
+        throw new Error('A base URL is required for an OpenAI-compatible provider. Set OPENAI_BASE_URL or provide baseURL.');
+      }
+      return createOpenAIProvider(createOpenAIClient(config.apiKey, baseURL), {
+        kind,
+        model: config.model,
+        visionModel: config.visionModel,
+        resilience: config.resilience
+      });
+    case ProviderKind.OPENAI:
+      return createOpenAIProvider(createOpenAIClient(config.apiKey, config.baseURL), {
+        model: config.model,
+        visionModel: config.visionModel,
+        resilience: config.resilience
+      });
+    default:
+      throw new Error(`Unknown LLM provider: ${kind}`);
+  }
+}
+
+/**
+ * Normalize a provider or raw OpenAI client into a provider
+ * @param client Provider or OpenAI client instance
+ * @returns Provider instance
+ */
+export function toProvider(client: LLMClient): LLMProvider {
+  if ('complete' in client && typeof client.complete === 'function') {
+    return client;
+  }
+  return createOpenAIProvider(client as OpenAI);
+}
+
+/**
+ * Check whether any message carries image content
+ * @param messages Chat messages of a request
+ * @returns True if an image part is present
+ */
+function hasImageContent(messages: ChatMessage[]): boolean {
+  return messages.some(message =>
+    Array.isArray(message.content) && message.content.some(part => part.type === 'image')
+  );
+}
+
+/**
+ * Convert a provider-agnostic message to the OpenAI chat format
+ * @param message Chat message
+ * @returns OpenAI chat message
+ */
+function toOpenAIMessage(message: ChatMessage): OpenAI.Chat.ChatCompletionMessageParam {
+  if (typeof message.content === 'string') {
+    return { role: message.role, content: message.content } as OpenAI.Chat.ChatCompletionMessageParam;
+  }
+
+  // Only user messages may carry images in the OpenAI API
+  return {
+    role: 'user',
+    content: message.content.map(part =>
+      part.type === 'text'
+        ? { type: 'text' as const, text: part.text }
+        : { type: 'image_url' as const, image_url: { url: `data:${part.mimeType};base64,${part.data}` } }
+    )
+  };
+}
@@ -0,0 +1,313 @@
+import { APIConnectionError, APIError } from 'openai/error';
+import {
+  AuthenticationError,
+  InvalidInputError,
+  ParserError,
+  ProviderConfigurationError,
+  RateLimitError,
+  UpstreamUnavailableError
+} from './errors';
+import { CompletionRequest, CompletionResponse, LLMProvider } from './llmTypes';
+import { isRecord } from './valueUtils';
+
+export type ResilienceOptions = {
+  maxRetries?: number; // Retries after a rate limit or upstream failure (defaults to LLM_MAX_RETRIES or 3)
+  baseDelayMs?: number; // Backoff before the first retry, doubled for every further one (defaults to 500)
+  maxDelayMs?: number; // Longest wait between retries; a longer Retry-After fails right away (defaults to 30000)
+  timeoutMs?: number; // Time limit of a single call (defaults to LLM_TIMEOUT_MS or 60000)
+  failureThreshold?: number; // Consecutive upstream failures that open the circuit (defaults to 5)
+  resetTimeoutMs?: number; // How long an open circuit rejects calls before letting a trial call through (defaults to 30000)
+  circuitKey?: string; // Providers with the same key share a circuit (defaults to the provider kind)
+  sleep?: (ms: number) => Promise<void>; // Replaceable for tests
+  random?: () => number;
+  now?: () => number;
+};
+
+// Consecutive upstream failures of a backend, and when they opened the circuit
+type CircuitState = {
+  failures: number;
+  openedAt?: number;
+  trialInFlight?: boolean; // A call is checking whether the backend has recovered
+};
+
+const DEFAULT_MAX_RETRIES = 3;
+const DEFAULT_BASE_DELAY_MS = 500;
+const DEFAULT_MAX_DELAY_MS = 30000;
+const DEFAULT_TIMEOUT_MS = 60000;
+const DEFAULT_FAILURE_THRESHOLD = 5;
+const DEFAULT_RESET_TIMEOUT_MS = 30000;
+
+// Statuses the provider may answer differently when asked again
+const TRANSIENT_STATUSES = [408, 409];
+
+// Statuses and OpenAI error codes that blame the document sent, e.g. an image the model can't read or a text too long
+const INPUT_STATUSES = [413, 415];
+const INPUT_ERROR_CODES = [
+  'context_length_exceeded',
+  'string_above_max_length',
+  'image_parse_error',
+  'invalid_image',
+  'invalid_image_format',
+  'image_too_large',
+  'content_policy_violation'
+];
+
+// A backend that is down is down for every caller, so each parse route and job shares its circuit
+// through the global object; module state would give every route bundle a circuit of its own
+const globalForCircuits = globalThis as typeof globalThis & { llmCircuits?: Map<string, CircuitState> };
+
+/**
+ * Wrap a provider with per-call timeouts, retries and a circuit breaker
+ * Rate limits and upstream failures are retried with exponential backoff and jitter, waiting as long as
+ * Retry-After asks. Consecutive upstream failures open the circuit, which then fails calls right away until
+ * resetTimeoutMs has passed. A single trial call is then let through while the others keep failing; its success
+ * closes the circuit and its failure opens it again. Provider errors are thrown as the typed errors of ./errors.
+ * A caller's abort signal aborts the call in flight and stops any further retries.
+ * @param provider The provider to wrap
+ * @param options Optional retry, timeout and circuit settings
+ * @returns Provider with the same kind and settings
+ */
+export function createResilientProvider(provider: LLMProvider, options: ResilienceOptions = {}): LLMProvider {
+  const maxRetries = readSetting(options.maxRetries, process.env.LLM_MAX_RETRIES, DEFAULT_MAX_RETRIES);
+  const baseDelayMs = readSetting(options.baseDelayMs, undefined, DEFAULT_BASE_DELAY_MS);
+  const maxDelayMs = readSetting(options.maxDelayMs, undefined, DEFAULT_MAX_DELAY_MS);
+  const timeoutMs = readSetting(options.timeoutMs, process.env.LLM_TIMEOUT_MS, DEFAULT_TIMEOUT_MS);
+  const failureThreshold = Math.max(1, readSetting(options.failureThreshold, undefined, DEFAULT_FAILURE_THRESHOLD));
+  const resetTimeoutMs = readSetting(options.resetTimeoutMs, undefined, DEFAULT_RESET_TIMEOUT_MS);
+  const sleep = options.sleep || (ms => new Promise<void>(resolve => setTimeout(resolve, ms)));
+  const random = options.random || Math.random;
+  const now = options.now || Date.now;
+  const circuit = getCircuit(options.circuitKey || provider.kind);
+
+  return {
+    ...provider,
+    async complete(request: CompletionRequest, signal?: AbortSignal): Promise<CompletionResponse> {
+      for (let retry = 0; ; retry++) {
+        signal?.throwIfAborted();
+
+        // An open circuit fails right away until the reset timeout has passed, then lets one trial call through
+        let trial = false;
+        if (circuit.openedAt !== undefined) {
+          const remainingMs = circuit.openedAt + resetTimeoutMs - now();
+          if (remainingMs > 0) {
+            throw new UpstreamUnavailableError(
+              `The model provider failed ${circuit.failures} times in a row; calls are paused for another ${Math.ceil(remainingMs / 1000)} s`
+            );
+          }
+          if (circuit.trialInFlight) {
+            throw new UpstreamUnavailableError(
+              `The model provider failed ${circuit.failures} times in a row; calls are paused until a trial call succeeds`
+            );
+          }
+          circuit.trialInFlight = true;
+          trial = true;
+        }
+
+        try {
+          const response = await completeWithTimeout(provider, request, timeoutMs, signal);
+          circuit.failures = 0;
+          circuit.openedAt = undefined;
+          circuit.trialInFlight = false;
+          return response;
+        } catch (caught) {
+          const error = toProviderError(caught, now());
+          if (trial) {
+            circuit.trialInFlight = false;
+          }
+          // An aborted call says nothing about the backend
+          if (signal?.aborted) {
+            throw caught;
+          }
+
+          // Only failures of the backend itself count towards the circuit; a failed trial opens it again
+          if (error instanceof UpstreamUnavailableError) {
+            circuit.failures++;
+            if (circuit.failures >= failureThreshold) {
+              circuit.openedAt = now();
+            }
+          }
+
+          const delay = getRetryDelay(error, retry, { maxRetries, baseDelayMs, maxDelayMs, random });
+          if (delay === undefined) {
+            throw error;
+          }
+          console.warn(`Retrying the ${request.task} request in ${delay} ms: ${(error as Error).message}`);
+          await abortable(sleep(delay), signal);
+        }
+      }
+    }
+  };
+}
+
+/**
+ * Convert an error of the OpenAI SDK to the matching typed error
+ * Errors that already are parser errors, and errors the SDK didn't raise, are returned unchanged.
+ * @param error The caught error
+ * @param now Current time in milliseconds, for Retry-After dates
+ * @returns The typed error, or the original one
+ */
+export function toProviderError(error: unknown, now = Date.now()): unknown {
+  if (error instanceof ParserError) {
+    return error;
+  }
+  // Checked first, connection errors are API errors without a status
+  if (error instanceof APIConnectionError) {
+    return new UpstreamUnavailableError(`The model provider could not be reached: ${error.message}`, error);
+  }
+  if (!(error instanceof APIError) || error.status === undefined) {
+    return error;
+  }
+
+  if (error.status === 401 || error.status === 403) {
+    return new AuthenticationError(`The model provider rejected the credentials: ${error.message}`, error);
+  }
+  if (error.status === 429) {
+    return new RateLimitError(`The model provider is rate limiting requests: ${error.message}`, readRetryAfter(error.headers, now), error);
+  }
+  if (error.status >= 500 || TRANSIENT_STATUSES.includes(error.status)) {
+    return new UpstreamUnavailableError(`The model provider failed: ${error.message}`, error);
+  }
+  if (INPUT_STATUSES.includes(error.status) || (typeof error.code === 'string' && INPUT_ERROR_CODES.includes(error.code))) {
+    return new InvalidInputError(`The model provider refused the document: ${error.message}`, error);
+  }
+  // Any other client error is about a request this service built, e.g. for a model the provider doesn't have
+  return new ProviderConfigurationError(`The model provider rejected the request: ${error.message}`, error);
+}
+
+/**
+ * Call a provider, aborting the call once the time limit has passed or the caller aborts
+ * @param provider The provider
+ * @param request The completion request
+ * @param timeoutMs Time limit in milliseconds
+ * @param signal Optional signal of the caller
+ * @returns The provider's response
+ * @throws UpstreamUnavailableError if the provider doesn't answer in time, or the abort reason if the caller aborts
+ */
+async function completeWithTimeout(
+  provider: LLMProvider,
+  request: CompletionRequest,
+  timeoutMs: number,
+  signal?: AbortSignal
+): Promise<CompletionResponse> {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new UpstreamUnavailableError(`The model provider did not answer the ${request.task} request within ${timeoutMs} ms`));
+    }, timeoutMs);
+  });
+  const abortCall = () => controller.abort(signal?.reason);
+  signal?.addEventListener('abort', abortCall, { once: true });
+
+  try {
+    return await abortable(Promise.race([provider.complete(request, controller.signal), timeout]), signal);
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', abortCall);
+  }
+}
+
+/**
+ * Wait for a promise, rejecting with the abort reason as soon as the signal fires
+ * @param promise The promise to wait for
+ * @param signal Optional abort signal
+ * @returns The promise's value
+ */
+function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+
+  let onAbort: (() => void) | undefined;
+  const aborted = new Promise<never>((_, reject) => {
+    onAbort = () => reject(signal.reason);
+    if (signal.aborted) {
+      onAbort();
+    } else {
+      signal.addEventListener('abort', onAbort, { once: true });
+    }
+  });
+  return Promise.race([promise, aborted]).finally(() => signal.removeEventListener('abort', onAbort as () => void));
+}
+
+/**
+ * Work out how long to wait before retrying a failed call
+ * Backoff doubles with every retry and is jittered between half and all of it, so clients don't retry in step.
+ * @param error The typed error of the failed call
+ * @param retry Retries made so far
+ * @param settings Retry settings
+ * @returns Delay in milliseconds, or undefined if the call shouldn't be retried
+ */
+function getRetryDelay(
+  error: unknown,
+  retry: number,
+  settings: { maxRetries: number; baseDelayMs: number; maxDelayMs: number; random: () => number }
+): number | undefined {
+  if (!(error instanceof RateLimitError || error instanceof UpstreamUnavailableError) || retry >= settings.maxRetries) {
+    return undefined;
+  }
+
+  // Waiting longer than allowed would only hold the caller up
+  if (error instanceof RateLimitError && error.retryAfterMs !== undefined) {
+    return error.retryAfterMs <= settings.maxDelayMs ? error.retryAfterMs : undefined;
+  }
+
+  const backoff = Math.min(settings.maxDelayMs, settings.baseDelayMs * 2 ** retry);
+  return Math.round(backoff / 2 + settings.random() * backoff / 2);
+}
+
+/**
+ * Read how long a rate-limited provider asked to wait
+ * OpenAI sends retry-after-ms; other servers send Retry-After as seconds or as an HTTP date.
+ * @param headers Response headers of the failed call
+ * @param now Current time in milliseconds
+ * @returns Wait in milliseconds, or undefined if the provider didn't say
+ */
+function readRetryAfter(headers: unknown, now: number): number | undefined {
+  if (!isRecord(headers)) {
+    return undefined;
+  }
+
+  const milliseconds = parseNonNegative(headers['retry-after-ms']);
+  if (milliseconds !== undefined) {
+    return milliseconds;
+  }
+
+  const retryAfter = headers['retry-after'];
+  const seconds = parseNonNegative(retryAfter);
+  if (seconds !== undefined) {
+    return seconds * 1000;
+  }
+  const date = typeof retryAfter === 'string' ? Date.parse(retryAfter) : NaN;
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+function parseNonNegative(value: unknown): number | undefined {
+  if (typeof value !== 'string' || value.trim() === '') {
+    return undefined;
+  }
+  const number = Number(value);
+  return Number.isFinite(number) && number >= 0 ? number : undefined;
+}
+
+/**
+ * Read a numeric setting from the options, then the environment, then the default
+ */
+function readSetting(value: number | undefined, environmentValue: string | undefined, defaultValue: number): number {
+  const setting = value ?? (environmentValue ? Number(environmentValue) : defaultValue);
+  return Number.isFinite(setting) && setting >= 0 ? setting : defaultValue;
+}
+
+/**
+ * Get the shared circuit of a backend, creating it on first use
+ */
+function getCircuit(key: string): CircuitState {
+  const circuits = globalForCircuits.llmCircuits ??= new Map();
+  let circuit = circuits.get(key);
+  if (!circuit) {
+    circuit = { failures: 0 };
+    circuits.set(key, circuit);
+  }
+  return circuit;
+}
@@ -0,0 +1,59 @@
+import type OpenAI from 'openai';
+
+// Define enum for the supported provider backends
+export enum ProviderKind {
+  OPENAI = 'openai',
+  OPENAI_COMPATIBLE = 'openai_compatible', // Any server speaking the OpenAI chat completions API
+  FAKE = 'fake', // Deterministic local stand-in, no network access
+  REPLAY = 'replay' // Serves recorded responses from fixture files
+}
+
+// Define enum for recording model calls to fixture files and replaying them
+export enum FixtureMode {
+  RECORD = 'record', // Send requests to the backend and save every request/response pair
+  REPLAY = 'replay' // Answer from saved fixtures only, failing on requests that weren't recorded
+}
+
+// Define enum for the kinds of calls the parsers make
+// Backends don't need it, but stand-ins and fixtures use it to tell calls apart
+export enum LLMTask {
+  CLASSIFICATION = 'classification',
+  EXTRACTION = 'extraction',
+  IMAGE_EXTRACTION = 'image_extraction',
+  DOCUMENT_CLASSIFICATION = 'document_classification', // Classifying a document image, including logistics documents
+  LOGISTICS_EXTRACTION = 'logistics_extraction'
+}
+
+// A single piece of message content; images are passed as raw base64 data
+export type ChatContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image'; mimeType: string; data: string };
+
+export type ChatMessage = {
+  role: 'system' | 'user' | 'assistant';
+  content: string | ChatContentPart[];
+};
+
+// Define the structure of a provider-agnostic completion request
+export type CompletionRequest = {
+  task: LLMTask;
+  messages: ChatMessage[];
+  model?: string; // Overrides the provider's default model
+  temperature?: number;
+  jsonResponse?: boolean; // Ask the backend to return a JSON object
+};
+
+export type CompletionResponse = {
+  content: string | null;
+  model: string;
+};
+
+// Define the provider interface all parsers go through
+export type LLMProvider = {
+  kind: ProviderKind;
+  complete(request: CompletionRequest, signal?: AbortSignal): Promise<CompletionResponse>; // signal aborts the call, e.g. on a timeout
+  repairAttempts?: number; // Rounds of asking the model to fix a response that doesn't match its schema (defaults to LLM_REPAIR_ATTEMPTS or 2)
+};
+
+// Parsers accept either a provider or a raw OpenAI client for backwards compatibility
+export type LLMClient = LLMProvider | OpenAI;
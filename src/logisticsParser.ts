@@ -0,0 +1,346 @@
+import { toProvider } from './llmProvider';
+import { LLMClient, LLMTask } from './llmTypes';
+import { CheckedResponse, requestCheckedJson, ResponseSchema } from './responseSchema';
+import {
+  BillOfLadingData,
+  DeliveryException,
+  DeliveryReceiptData,
+  DeliveryReceiptItem,
+  HandlingUnit,
+  LogisticsDocumentType,
+  LogisticsParty,
+  ParsedDocumentData
+} from './types';
+import { asNumber, asString, isRecord } from './valueUtils';
+
+// JSON structure requested for bills of lading
+const BILL_OF_LADING_STRUCTURE = `{
+  "bolNumber": string (optional),
+  "proNumber": string (optional, the carrier's PRO or tracking number),
+  "shipDate": string (optional),
+  "shipper": { "name": string, "address": string, "phone": string },
+  "consignee": { "name": string, "address": string, "phone": string },
+  "carrier": { "name": string, "address": string, "phone": string, "scac": string, "driverName": string, "vehicleId": string },
+  "handlingUnits": [{ "quantity": number, "packageType": string, "description": string, "weight": number, "freightClass": string, "hazmat": boolean }],
+  "totalHandlingUnits": number (optional),
+  "totalWeight": number (optional),
+  "weightUnit": "lb" | "kg" (optional),
+  "freightClass": string (optional),
+  "hazmat": boolean,
+  "specialInstructions": string (optional)
+}`;
+
+// JSON structure requested for delivery receipts
+const DELIVERY_RECEIPT_STRUCTURE = `{
+  "receiptNumber": string (optional),
+  "orderNumber": string (optional),
+  "purchaseOrderNumber": string (optional),
+  "shipper": { "name": string, "address": string, "phone": string },
+  "consignee": { "name": string, "address": string, "phone": string },
+  "signerName": string (optional, the person who signed for the delivery),
+  "deliveredAt": string (optional, the delivery or signature timestamp),
+  "items": [{ "description": string, "expectedQuantity": number, "deliveredQuantity": number }],
+  "totalPiecesExpected": number (optional),
+  "totalPiecesDelivered": number (optional),
+  "exceptions": [{ "kind": "damage" | "shortage" | "overage" | "refused" | "other", "description": string, "itemDescription": string, "quantity": number }]
+}`;
+
+const EXCEPTION_KINDS: DeliveryException['kind'][] = ['damage', 'shortage', 'overage', 'refused', 'other'];
+
+// Optional text fields of a shipper, consignee or carrier
+const PARTY_PROPERTIES: Record<string, ResponseSchema> = {
+  name: { type: 'string', optional: true },
+  address: { type: 'string', optional: true },
+  phone: { type: 'string', optional: true }
+};
+
+// Schemas logistics extraction responses are checked against; unknown exception kinds become 'other' instead
+export const BILL_OF_LADING_SCHEMA: ResponseSchema = {
+  type: 'object',
+  properties: {
+    ...Object.fromEntries(['bolNumber', 'proNumber', 'shipDate', 'freightClass', 'specialInstructions']
+      .map(field => [field, { type: 'string', optional: true }])),
+    shipper: { type: 'object', optional: true, properties: PARTY_PROPERTIES },
+    consignee: { type: 'object', optional: true, properties: PARTY_PROPERTIES },
+    carrier: {
+      type: 'object',
+      optional: true,
+      properties: {
+        ...PARTY_PROPERTIES,
+        scac: { type: 'string', optional: true },
+        driverName: { type: 'string', optional: true },
+        vehicleId: { type: 'string', optional: true }
+      }
+    },
+    handlingUnits: {
+      type: 'array',
+      optional: true,
+      items: {
+        type: 'object',
+        properties: {
+          quantity: { type: 'number', optional: true },
+          packageType: { type: 'string', optional: true },
+          description: { type: 'string', optional: true },
+          weight: { type: 'number', optional: true },
+          freightClass: { type: 'string', optional: true }
+        }
+      }
+    },
+    totalHandlingUnits: { type: 'number', optional: true },
+    totalWeight: { type: 'number', optional: true },
+    weightUnit: { type: 'string', optional: true, enum: ['lb', 'kg'] }
+  }
+};
+
+export const DELIVERY_RECEIPT_SCHEMA: ResponseSchema = {
+  type: 'object',
+  properties: {
+    ...Object.fromEntries(['receiptNumber', 'orderNumber', 'purchaseOrderNumber', 'signerName', 'deliveredAt']
+      .map(field => [field, { type: 'string', optional: true }])),
+    shipper: { type: 'object', optional: true, properties: PARTY_PROPERTIES },
+    consignee: { type: 'object', optional: true, properties: PARTY_PROPERTIES },
+    items: {
+      type: 'array',
+      optional: true,
+      items: {
+        type: 'object',
+        properties: {
+          description: { type: 'string' },
+          expectedQuantity: { type: 'number', optional: true },
+          deliveredQuantity: { type: 'number', optional: true }
+        }
+      }
+    },
+    totalPiecesExpected: { type: 'number', optional: true },
+    totalPiecesDelivered: { type: 'number', optional: true },
+    exceptions: {
+      type: 'array',
+      optional: true,
+      items: {
+        type: 'object',
+        properties: {
+          kind: { type: 'string', optional: true },
+          description: { type: 'string' },
+          itemDescription: { type: 'string', optional: true },
+          quantity: { type: 'number', optional: true }
+        }
+      }
+    }
+  }
+};
+
+/**
+ * Parse a bill of lading from a base64-encoded image
+ * @param base64Image Base64-encoded image data
+ * @param mimeType MIME type of the image
+ * @param client The LLM provider (or OpenAI client instance)
+ * @returns Structured bill of lading data
+ */
+export async function parseBillOfLadingImage(base64Image: string, mimeType: string, client: LLMClient): Promise<BillOfLadingData> {
+  const { value, repairRounds } = await requestExtraction(
+    client, base64Image, mimeType, 'bill of lading', BILL_OF_LADING_STRUCTURE, BILL_OF_LADING_SCHEMA
+  );
+  return withRepairRounds(toBillOfLading(value), repairRounds);
+}
+
+/**
+ * Parse a delivery receipt (proof of delivery) from a base64-encoded image
+ * @param base64Image Base64-encoded image data
+ * @param mimeType MIME type of the image
+ * @param client The LLM provider (or OpenAI client instance)
+ * @returns Structured delivery receipt data
+ */
+export async function parseDeliveryReceiptImage(base64Image: string, mimeType: string, client: LLMClient): Promise<DeliveryReceiptData> {
+  const { value, repairRounds } = await requestExtraction(
+    client, base64Image, mimeType, 'delivery receipt', DELIVERY_RECEIPT_STRUCTURE, DELIVERY_RECEIPT_SCHEMA
+  );
+  return withRepairRounds(toDeliveryReceipt(value), repairRounds);
+}
+
+/**
+ * Parse a logistics document of the given type from a base64-encoded image
+ * @param documentType The logistics document type
+ * @param base64Image Base64-encoded image data
+ * @param mimeType MIME type of the image
+ * @param client The LLM provider (or OpenAI client instance)
+ * @returns Structured data for the document type
+ */
+export async function parseLogisticsImage(
+  documentType: LogisticsDocumentType,
+  base64Image: string,
+  mimeType: string,
+  client: LLMClient
+): Promise<BillOfLadingData | DeliveryReceiptData> {
+  return documentType === LogisticsDocumentType.BILL_OF_LADING
+    ? parseBillOfLadingImage(base64Image, mimeType, client)
+    : parseDeliveryReceiptImage(base64Image, mimeType, client);
+}
+
+/**
+ * Check whether a value is one of the logistics document types
+ */
+export function isLogisticsDocumentType(value: string): value is LogisticsDocumentType {
+  return Object.values(LogisticsDocumentType).includes(value as LogisticsDocumentType);
+}
+
+/**
+ * Check whether parsed document data is a bill of lading
+ */
+export function isBillOfLading(data: ParsedDocumentData): data is BillOfLadingData {
+  return 'documentType' in data && data.documentType === LogisticsDocumentType.BILL_OF_LADING;
+}
+
+/**
+ * Check whether parsed document data is a delivery receipt
+ */
+export function isDeliveryReceipt(data: ParsedDocumentData): data is DeliveryReceiptData {
+  return 'documentType' in data && data.documentType === LogisticsDocumentType.DELIVERY_RECEIPT;
+}
+
+/**
+ * Ask the model to extract a logistics document into the given structure, asking it to fix a response that doesn't match the schema
+ * @returns The parsed JSON response and the repair rounds it took
+ */
+async function requestExtraction(
+  client: LLMClient,
+  base64Image: string,
+  mimeType: string,
+  documentName: string,
+  structure: string,
+  schema: ResponseSchema
+): Promise<CheckedResponse> {
+  return requestCheckedJson(toProvider(client), {
+    task: LLMTask.LOGISTICS_EXTRACTION,
+    messages: [
+      {
+        role: "system",
+        content: `You are an expert logistics document parser. Extract structured data from the provided ${documentName} image. Read handwritten entries carefully and leave out fields that are not on the document.`
+      },
+      {
+        role: "user",
+        content: [
+          {
+            type: "text",
+            text: `Parse this ${documentName} image and return a JSON object with the following structure:\n\n${structure}`
+          },
+          {
+            type: "image",
+            mimeType,
+            data: base64Image
+          }
+        ]
+      }
+    ],
+    jsonResponse: true,
+    temperature: 0,
+  }, schema);
+}
+
+/**
+ * Record the repair rounds of an extraction on its document, if there were any
+ */
+function withRepairRounds<T extends BillOfLadingData | DeliveryReceiptData>(document: T, repairRounds: number): T {
+  return repairRounds > 0 ? { ...document, repairRounds } : document;
+}
+
+/**
+ * Build bill of lading data from a raw model response
+ */
+function toBillOfLading(raw: Record<string, unknown>): BillOfLadingData {
+  const handlingUnits: HandlingUnit[] = asArray(raw.handlingUnits).map(unit => ({
+    quantity: asNumber(unit.quantity),
+    packageType: asString(unit.packageType),
+    description: asString(unit.description),
+    weight: asNumber(unit.weight),
+    freightClass: asString(unit.freightClass),
+    hazmat: unit.hazmat === true
+  }));
+  const carrier = isRecord(raw.carrier) ? raw.carrier : {};
+  const weightUnit = raw.weightUnit === 'lb' || raw.weightUnit === 'kg' ? raw.weightUnit : undefined;
+
+  return {
+    documentType: LogisticsDocumentType.BILL_OF_LADING,
+    bolNumber: asString(raw.bolNumber),
+    proNumber: asString(raw.proNumber),
+    shipDate: asString(raw.shipDate),
+    shipper: toParty(raw.shipper),
+    consignee: toParty(raw.consignee),
+    carrier: {
+      ...toParty(carrier),
+      scac: asString(carrier.scac),
+      driverName: asString(carrier.driverName),
+      vehicleId: asString(carrier.vehicleId)
+    },
+    handlingUnits,
+    // Fall back to totals computed from the handling units
+    totalHandlingUnits: asNumber(raw.totalHandlingUnits) ?? sumOf(handlingUnits.map(unit => unit.quantity)),
+    totalWeight: asNumber(raw.totalWeight) ?? sumOf(handlingUnits.map(unit => unit.weight)),
+    weightUnit,
+    freightClass: asString(raw.freightClass),
+    hazmat: raw.hazmat === true || handlingUnits.some(unit => unit.hazmat),
+    specialInstructions: asString(raw.specialInstructions)
+  };
+}
+
+/**
+ * Build delivery receipt data from a raw model response
+ */
+function toDeliveryReceipt(raw: Record<string, unknown>): DeliveryReceiptData {
+  const items: DeliveryReceiptItem[] = asArray(raw.items)
+    .filter(item => asString(item.description))
+    .map(item => ({
+      description: asString(item.description) as string,
+      expectedQuantity: asNumber(item.expectedQuantity),
+      deliveredQuantity: asNumber(item.deliveredQuantity)
+    }));
+
+  const exceptions: DeliveryException[] = asArray(raw.exceptions)
+    .filter(exception => asString(exception.description))
+    .map(exception => ({
+      kind: EXCEPTION_KINDS.includes(exception.kind as DeliveryException['kind'])
+        ? exception.kind as DeliveryException['kind']
+        : 'other',
+      description: asString(exception.description) as string,
+      itemDescription: asString(exception.itemDescription),
+      quantity: asNumber(exception.quantity)
+    }));
+
+  return {
+    documentType: LogisticsDocumentType.DELIVERY_RECEIPT,
+    receiptNumber: asString(raw.receiptNumber),
+    orderNumber: asString(raw.orderNumber),
+    purchaseOrderNumber: asString(raw.purchaseOrderNumber),
+    shipper: toParty(raw.shipper),
+    consignee: toParty(raw.consignee),
+    signerName: asString(raw.signerName),
+    deliveredAt: asString(raw.deliveredAt),
+    items,
+    // Fall back to piece counts computed from the items
+    totalPiecesExpected: asNumber(raw.totalPiecesExpected) ?? sumOf(items.map(item => item.expectedQuantity)),
+    totalPiecesDelivered: asNumber(raw.totalPiecesDelivered) ?? sumOf(items.map(item => item.deliveredQuantity)),
+    exceptions
+  };
+}
+
+function toParty(value: unknown): LogisticsParty {
+  const party = isRecord(value) ? value : {};
+  return {
+    name: asString(party.name),
+    address: asString(party.address),
+    phone: asString(party.phone)
+  };
+}
+
+function asArray(value: unknown): Record<string, unknown>[] {
+  return Array.isArray(value) ? value.filter(isRecord) : [];
+}
+
+/**
+ * Sum the values if every one of them is known
+ */
+function sumOf(values: Array<number | undefined>): number | undefined {
+  if (values.length === 0 || values.some(value => value === undefined)) {
+    return undefined;
+  }
+  return (values as number[]).reduce((sum, value) => sum + value, 0);
+}
@@ -0,0 +1,585 @@
+import { InvoiceData, InvoiceType } from './types';
+import { buildPaymentSchedule } from './paymentTerms';
+
+// Define enum for the kinds of value the normalization stage rewrites
+export enum NormalizationKind {
+  DATE = 'date', // Free-form date converted to ISO 8601
+  AMOUNT = 'amount', // Formatted number string converted to a number
+  CURRENCY = 'currency', // Symbol, name or missing currency resolved to an ISO 4217 code
+  SIGN = 'sign', // Credit note amount made negative
+  DUE_DATE = 'due_date' // Missing due date computed from the payment terms
+}
+
+// Define the structure for a single normalization applied to an extracted value
+export type Normalization = {
+  field: string; // Path of the field, e.g. 'invoiceDate' or 'items[0].amount'
+  kind: NormalizationKind;
+  original: string | number | null; // Null when a missing value was inferred
+  normalized: string | number;
+  reason: string;
+};
+
+// Conventions of a country that decide how its invoices are written
+type CountryProfile = {
+  currency: string; // ISO 4217 code
+  dayFirst: boolean; // Numeric dates are written day/month/year
+  decimalComma: boolean; // Amounts are written 1.234,56
+};
+
+const COUNTRY_PROFILES: Record<string, CountryProfile> = {
+  US: { currency: 'USD', dayFirst: false, decimalComma: false },
+  CA: { currency: 'CAD', dayFirst: false, decimalComma: false },
+  GB: { currency: 'GBP', dayFirst: true, decimalComma: false },
+  IE: { currency: 'EUR', dayFirst: true, decimalComma: false },
+  AU: { currency: 'AUD', dayFirst: true, decimalComma: false },
+  NZ: { currency: 'NZD', dayFirst: true, decimalComma: false },
+  IN: { currency: 'INR', dayFirst: true, decimalComma: false },
+  JP: { currency: 'JPY', dayFirst: false, decimalComma: false },
+  CH: { currency: 'CHF', dayFirst: true, decimalComma: false },
+  DE: { currency: 'EUR', dayFirst: true, decimalComma: true },
+  FR: { currency: 'EUR', dayFirst: true, decimalComma: true },
+  ES: { currency: 'EUR', dayFirst: true, decimalComma: true },
+  IT: { currency: 'EUR', dayFirst: true, decimalComma: true },
+  NL: { currency: 'EUR', dayFirst: true, decimalComma: true },
+  BE: { currency: 'EUR', dayFirst: true, decimalComma: true },
+  AT: { currency: 'EUR', dayFirst: true, decimalComma: true },
+  PT: { currency: 'EUR', dayFirst: true, decimalComma: true },
+  FI: { currency: 'EUR', dayFirst: true, decimalComma: true }
+};
+
+const US_STATES = 'AL|AK|AZ|AR|CA|CO|CT|DE|DC|FL|GA|HI|ID|IL|IN|IA|KS|KY|LA|ME|MD|MA|MI|MN|MS|MO|MT|NE|NV|NH|NJ|NM|NY|NC|ND|OH|OK|OR|PA|RI|SC|SD|TN|TX|UT|VT|VA|WA|WV|WI|WY';
+
+// Address clues for each country, checked in order
+const COUNTRY_PATTERNS: Array<{ country: string; pattern: RegExp }> = [
+  { country: 'GB', pattern: /\b(United Kingdom|U\.?K\.?|England|Scotland|Wales|Northern Ireland|London)\b|\b[A-Z]{1,2}\d[A-Z\d]?\s+\d[A-Z]{2}\b/ },
+  { country: 'IE', pattern: /\b(Ireland|Dublin)\b/ },
+  { country: 'US', pattern: new RegExp(`\\b(United States|USA|U\\.S\\.A?\\.)|\\b(${US_STATES}),?\\s+\\d{5}(-\\d{4})?\\b`) },
+  { country: 'CA', pattern: /\bCanada\b|\b(AB|BC|MB|NB|NL|NS|ON|PE|QC|SK)\s+[A-Z]\d[A-Z]\s?\d[A-Z]\d\b/ },
+  { country: 'AU', pattern: /\bAustralia\b|\b(NSW|VIC|QLD|TAS|ACT)\s+\d{4}\b/ },
+  { country: 'NZ', pattern: /\bNew Zealand\b/ },
+  { country: 'IN', pattern: /\bIndia\b/ },
+  { country: 'JP', pattern: /\b(Japan|Tokyo|Osaka)\b/ },
+  { country: 'CH', pattern: /\b(Switzerland|Schweiz|Suisse|Svizzera)\b/ },
+  { country: 'DE', pattern: /\b(Germany|Deutschland)\b/ },
+  { country: 'FR', pattern: /\bFrance\b/ },
+  { country: 'ES', pattern: /\b(Spain|España)\b/ },
+  { country: 'IT', pattern: /\b(Italy|Italia)\b/ },
+  { country: 'NL', pattern: /\b(Netherlands|Nederland|Holland)\b/ },
+  { country: 'BE', pattern: /\b(Belgium|Belgique|België)\b/ },
+  { country: 'AT', pattern: /\b(Austria|Österreich)\b/ },
+  { country: 'PT', pattern: /\bPortugal\b/ },
+  { country: 'FI', pattern: /\b(Finland|Suomi)\b/ }
+];
+
+// Symbols and names that identify a single currency
+const CURRENCY_ALIASES: Record<string, string> = {
+  '£': 'GBP',
+  '€': 'EUR',
+  '₹': 'INR',
+  '¥': 'JPY',
+  'US$': 'USD',
+  'C$': 'CAD',
+  'CA$': 'CAD',
+  'A$': 'AUD',
+  'AU$': 'AUD',
+  'NZ$': 'NZD',
+  'EURO': 'EUR',
+  'EUROS': 'EUR',
+  'POUND': 'GBP',
+  'POUNDS': 'GBP',
+  'STERLING': 'GBP',
+  'YEN': 'JPY',
+  'RUPEES': 'INR'
+};
+
+const DOLLAR_CURRENCIES = ['USD', 'CAD', 'AUD', 'NZD'];
+
+// Month names in English, German, French and Spanish, without accents
+const MONTH_NAMES: string[][] = [
+  ['january', 'januar', 'janvier', 'enero'],
+  ['february', 'februar', 'fevrier', 'febrero'],
+  ['march', 'marz', 'mars', 'marzo'],
+  ['april', 'avril', 'abril'],
+  ['may', 'mai', 'mayo'],
+  ['june', 'juni', 'juin', 'junio'],
+  ['july', 'juli', 'juillet', 'julio'],
+  ['august', 'aout', 'agosto'],
+  ['september', 'septembre', 'septiembre'],
+  ['october', 'oktober', 'octobre', 'octubre'],
+  ['november', 'novembre', 'noviembre'],
+  ['december', 'dezember', 'decembre', 'diciembre']
+];
+
+const DATE_FIELDS = ['invoiceDate', 'dueDate'] as const;
+const AMOUNT_FIELDS = ['subtotal', 'taxAmount', 'totalAmount'] as const;
+const ITEM_AMOUNT_FIELDS = ['quantity', 'unitPrice', 'amount'] as const;
+
+// Day and month of a numeric date without a leading year, e.g. 04/05/2023
+const NUMERIC_DATE_PATTERN = /^\s*(\d{1,2})([./-])(\d{1,2})\2\d{2,4}(?!\d)/;
+
+// Order of the parts of a numeric date
+type DateOrder = 'DMY' | 'MDY';
+
+// Locale conventions inferred for one invoice, with the clue each came from
+type LocaleContext = {
+  country?: string;
+  countrySource?: string; // e.g. 'vendor address'
+  dollarCountry?: string; // Country using a dollar currency, used to resolve '$'
+  decimalComma: boolean;
+  decimalCommaReason?: string;
+  dateOrder: DateOrder;
+  dateOrderReason: string;
+};
+
+/**
+ * Normalize an extracted invoice's dates, amounts and currency
+ * Dates become ISO 8601, formatted amounts become numbers and the currency becomes an ISO 4217 code.
+ * Ambiguities are resolved from the invoice's own context: other dates, addresses and number formats.
+ * @param invoice The extracted invoice, modified in place before any defaults are applied
+ * @param sourceText The invoice text, if the invoice was parsed from text
+ * @returns Every normalization applied, also attached to the invoice as normalizations
+ */
+export function normalizeInvoiceData(invoice: InvoiceData, sourceText = ''): Normalization[] {
+  const context = detectLocale(invoice, sourceText);
+  const normalizations: Normalization[] = [
+    ...normalizeAmounts(invoice, context),
+    ...normalizeDates(invoice, context),
+    ...normalizeCurrency(invoice, sourceText, context),
+    ...normalizePaymentTerms(invoice),
+    ...normalizeCreditNoteSign(invoice)
+  ];
+
+  invoice.normalizations = normalizations;
+  return normalizations;
+}
+
+/**
+ * Attach the payment schedule read from the payment terms, and compute the due date if the document doesn't state one
+ * Runs after dates and amounts are normalized, as the schedule is counted from the invoice date and total.
+ * @param invoice The invoice, modified in place
+ * @returns The derived due date, if one was computed
+ */
+export function normalizePaymentTerms(invoice: InvoiceData): Normalization[] {
+  const schedule = buildPaymentSchedule(invoice);
+  if (!schedule) {
+    return [];
+  }
+  invoice.paymentSchedule = schedule;
+  if (invoice.dueDate || !schedule.dueDate) {
+    return [];
+  }
+
+  invoice.dueDate = schedule.dueDate;
+  schedule.dueDateDerived = true;
+  return [{
+    field: 'dueDate',
+    kind: NormalizationKind.DUE_DATE,
+    original: null,
+    normalized: schedule.dueDate,
+    reason: `computed from the payment terms '${schedule.terms}'`
+  }];
+}
+
+/**
+ * Make the amounts of a credit note negative, so credits subtract wherever amounts are added up
+ * Totals and line amounts become negative, as do line quantities; unit prices stay positive.
+ * Amounts that are already negative are left as they are. Does nothing for other document types.
+ * @param invoice The invoice, modified in place; its classification decides whether it is a credit note
+ * @returns The amounts that were changed
+ */
+export function normalizeCreditNoteSign(invoice: InvoiceData): Normalization[] {
+  if (invoice.classification?.type !== InvoiceType.CREDIT_NOTE) {
+    return [];
+  }
+
+  const normalizations: Normalization[] = [];
+  const negate = (target: Record<string, unknown>, key: string, field: string) => {
+    const value = target[key];
+    if (typeof value !== 'number' || value <= 0) {
+      return;
+    }
+    target[key] = -value;
+    normalizations.push({
+      field,
+      kind: NormalizationKind.SIGN,
+      original: value,
+      normalized: -value,
+      reason: 'credit notes are stored as negative amounts'
+    });
+  };
+
+  const header = invoice as unknown as Record<string, unknown>;
+  for (const field of AMOUNT_FIELDS) {
+    negate(header, field, field);
+  }
+  (invoice.items || []).forEach((item, index) => {
+    // A line already written as a negative amount, e.g. with a negative unit price, keeps its quantity
+    if (typeof item.amount === 'number' && item.amount > 0) {
+      negate(item as unknown as Record<string, unknown>, 'quantity', `items[${index}].quantity`);
+    }
+    negate(item as unknown as Record<string, unknown>, 'amount', `items[${index}].amount`);
+  });
+
+  return normalizations;
+}
+
+/**
+ * Parse a formatted amount such as '$1,234.56', '1.234,56 €' or '(50.00)'
+ * @param value The formatted amount
+ * @param decimalComma Read a lone separator followed by three digits as a decimal comma rather than a thousands separator
+ * @returns The amount, or undefined if the value isn't a number
+ */
+export function parseAmount(value: string, decimalComma = false): number | undefined {
+  let text = value.trim();
+  const negative = /^\(.*\)$/.test(text) || /^-|-$/.test(text);
+  text = text.replace(/[^\d.,]/g, '');
+  if (!/\d/.test(text)) {
+    return undefined;
+  }
+
+  const lastDot = text.lastIndexOf('.');
+  const lastComma = text.lastIndexOf(',');
+  let decimalSeparator: string | undefined;
+
+  if (lastDot >= 0 && lastComma >= 0) {
+    // With both separators present, the last one is the decimal separator
+    decimalSeparator = lastDot > lastComma ? '.' : ',';
+  } else if (lastDot >= 0 || lastComma >= 0) {
+    const separator = lastDot >= 0 ? '.' : ',';
+    const occurrences = text.split(separator).length - 1;
+    const digitsAfter = text.length - text.lastIndexOf(separator) - 1;
+    if (occurrences > 1) {
+      decimalSeparator = undefined; // Repeated separators group thousands
+    } else if (digitsAfter !== 3) {
+      decimalSeparator = separator;
+    } else {
+      // '1,234' or '1.234' is a thousands group unless the locale says otherwise
+      decimalSeparator = (separator === ',') === decimalComma ? separator : undefined;
+    }
+  }
+
+  const [whole, fraction = ''] = decimalSeparator
+    ? [text.slice(0, text.lastIndexOf(decimalSeparator)), text.slice(text.lastIndexOf(decimalSeparator) + 1)]
+    : [text];
+  const number = Number(`${whole.replace(/[.,]/g, '')}.${fraction || '0'}`);
+  if (!Number.isFinite(number)) {
+    return undefined;
+  }
+  return negative ? -number : number;
+}
+
+/**
+ * Convert a free-form date to ISO 8601 (YYYY-MM-DD)
+ * @param value The date as written, e.g. 'April 15, 2023', '15/04/2023' or '15.04.23'
+ * @param order How to read numeric dates where both day and month are 12 or below
+ * @returns The ISO date, or undefined if the value isn't a recognizable date
+ */
+export function parseDate(value: string, order: DateOrder = 'MDY'): string | undefined {
+  const text = value.trim();
+
+  // ISO dates, possibly with a time
+  const iso = /^(\d{4})-(\d{1,2})-(\d{1,2})(?!\d)/.exec(text);
+  if (iso) {
+    return toIsoDate(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+  }
+
+  // Numeric dates: 2023/04/15, 15/04/2023, 04-15-23, 15.04.2023
+  const numeric = /^(\d{1,4})([./-])(\d{1,2})\2(\d{2,4})(?!\d)/.exec(text);
+  if (numeric) {
+    const [first, second, third] = [numeric[1], numeric[3], numeric[4]].map(Number);
+    if (numeric[1].length === 4) {
+      return toIsoDate(first, second, third);
+    }
+    const year = expandYear(numeric[4], third);
+    const dayFirst = first > 12 || (second <= 12 && order === 'DMY');
+    return dayFirst ? toIsoDate(year, second, first) : toIsoDate(year, first, second);
+  }
+
+  // Dates with a month name: April 15, 2023 / 15 April 2023 / Mon, Feb 08, 2016 / 15. März 2023
+  const tokens = text.toLowerCase()
+    .normalize('NFD').replace(/[\u0300-\u036f]/g, '')
+    .replace(/(\d+)(st|nd|rd|th)\b/g, '$1')
+    .split(/[\s,./-]+/)
+    .filter(token => token.length > 0 && !token.includes(':'));
+  const month = tokens.map(monthNumber).find(number => number !== undefined);
+  const numbers = tokens.filter(token => /^\d+$/.test(token));
+  if (month === undefined || numbers.length !== 2) {
+    return undefined;
+  }
+  const yearIndex = numbers.findIndex(token => token.length === 4);
+  const yearToken = numbers[yearIndex >= 0 ? yearIndex : 1];
+  const dayToken = numbers[yearIndex === 0 ? 1 : 0];
+  return toIsoDate(expandYear(yearToken, Number(yearToken)), month, Number(dayToken));
+}
+
+/**
+ * Infer the invoice's country, number format and date order from its own contents
+ */
+function detectLocale(invoice: InvoiceData, sourceText: string): LocaleContext {
+  const vendorCountry = detectCountry(invoice.vendorAddress);
+  const customerCountry = detectCountry(invoice.customerAddress);
+  const textCountry = detectCountry(sourceText);
+
+  // Invoices follow the conventions of the party that issued them
+  const [country, countrySource] = vendorCountry ? [vendorCountry, 'vendor address']
+    : textCountry ? [textCountry, 'invoice text']
+    : customerCountry ? [customerCountry, 'customer address']
+    : [undefined, undefined];
+  const profile = country ? COUNTRY_PROFILES[country] : undefined;
+
+  const dollarCountry = [vendorCountry, customerCountry, textCountry]
+    .find(candidate => candidate !== undefined && DOLLAR_CURRENCIES.includes(COUNTRY_PROFILES[candidate].currency));
+
+  // Amounts like 1.234,56 in the text settle the number format regardless of address
+  const decimalCommaInText = /\d{1,3}(\.\d{3})+,\d{2}(?!\d)/.test(sourceText);
+  const decimalComma = decimalCommaInText || (profile?.decimalComma ?? false);
+  const decimalCommaReason = decimalCommaInText
+    ? 'amounts in the text use a decimal comma'
+    : profile?.decimalComma ? `${countrySource} is in ${country}` : undefined;
+
+  return {
+    country,
+    countrySource,
+    dollarCountry,
+    decimalComma,
+    decimalCommaReason,
+    ...detectDateOrder(invoice, profile, country, countrySource)
+  };
+}
+
+/**
+ * Decide how to read numeric dates, preferring evidence from the invoice's own dates
+ */
+function detectDateOrder(
+  invoice: InvoiceData,
+  profile: CountryProfile | undefined,
+  country: string | undefined,
+  countrySource: string | undefined
+): Pick<LocaleContext, 'dateOrder' | 'dateOrderReason'> {
+  const numericDates = DATE_FIELDS.flatMap(field => {
+    const value = invoice[field];
+    const match = typeof value === 'string' ? NUMERIC_DATE_PATTERN.exec(value) : null;
+    return match ? [{ field, value: value as string, first: Number(match[1]), separator: match[2], second: Number(match[3]) }] : [];
+  });
+
+  for (const { field, value, first, second } of numericDates) {
+    if (first > 12) {
+      return { dateOrder: 'DMY', dateOrderReason: `${field} '${value}' can only be read day-first` };
+    }
+    if (second > 12) {
+      return { dateOrder: 'MDY', dateOrderReason: `${field} '${value}' can only be read month-first` };
+    }
+  }
+
+  if (profile) {
+    return {
+      dateOrder: profile.dayFirst ? 'DMY' : 'MDY',
+      dateOrderReason: `${countrySource} is in ${country}, which writes dates ${profile.dayFirst ? 'day' : 'month'}-first`
+    };
+  }
+  if (numericDates.some(({ separator }) => separator === '.')) {
+    return { dateOrder: 'DMY', dateOrderReason: 'dates separated by dots are written day-first' };
+  }
+  return { dateOrder: 'MDY', dateOrderReason: 'no locale clues, assumed month-first' };
+}
+
+/**
+ * Detect the country of an address or text from country names, postcodes and state codes
+ * @param text Address or document text
+ * @returns ISO 3166-1 alpha-2 country code, or undefined when there are no clues
+ */
+export function detectCountry(text?: string): string | undefined {
+  if (!text) {
+    return undefined;
+  }
+  return COUNTRY_PATTERNS.find(({ pattern }) => pattern.test(text))?.country;
+}
+
+/**
+ * Convert amounts the model returned as formatted strings into numbers
+ */
+function normalizeAmounts(invoice: InvoiceData, context: LocaleContext): Normalization[] {
+  const normalizations: Normalization[] = [];
+
+  const normalize = (target: Record<string, unknown>, key: string, field: string) => {
+    const value = target[key];
+    if (typeof value !== 'string') {
+      return;
+    }
+    const amount = parseAmount(value, context.decimalComma);
+    if (amount === undefined) {
+      return;
+    }
+    target[key] = amount;
+    normalizations.push({
+      field,
+      kind: NormalizationKind.AMOUNT,
+      original: value,
+      normalized: amount,
+      reason: context.decimalComma && /,\d{1,3}\D*$/.test(value)
+        ? `read with a decimal comma: ${context.decimalCommaReason}`
+        : 'parsed formatted number'
+    });
+  };
+
+  const header = invoice as unknown as Record<string, unknown>;
+  for (const field of AMOUNT_FIELDS) {
+    normalize(header, field, field);
+  }
+  if (Array.isArray(invoice.items)) {
+    invoice.items.forEach((item, index) => {
+      for (const field of ITEM_AMOUNT_FIELDS) {
+        normalize(item as unknown as Record<string, unknown>, field, `items[${index}].${field}`);
+      }
+    });
+  }
+
+  return normalizations;
+}
+
+/**
+ * Convert the invoice's dates to ISO 8601
+ */
+function normalizeDates(invoice: InvoiceData, context: LocaleContext): Normalization[] {
+  const normalizations: Normalization[] = [];
+
+  for (const field of DATE_FIELDS) {
+    const value = invoice[field];
+    if (typeof value !== 'string' || !value.trim()) {
+      continue;
+    }
+    const date = parseDate(value, context.dateOrder);
+    if (!date || date === value) {
+      continue;
+    }
+    invoice[field] = date;
+    normalizations.push({
+      field,
+      kind: NormalizationKind.DATE,
+      original: value,
+      normalized: date,
+      reason: describeDateReading(value, context)
+    });
+  }
+
+  return normalizations;
+}
+
+function describeDateReading(value: string, context: LocaleContext): string {
+  const numeric = NUMERIC_DATE_PATTERN.exec(value);
+  if (!numeric) {
+    return 'converted to ISO 8601';
+  }
+  const [first, second] = [Number(numeric[1]), Number(numeric[3])];
+  if (first > 12) {
+    return 'read day-first, the first part cannot be a month';
+  }
+  if (second > 12) {
+    return 'read month-first, the second part cannot be a month';
+  }
+  return `read ${context.dateOrder === 'DMY' ? 'day' : 'month'}-first: ${context.dateOrderReason}`;
+}
+
+/**
+ * Resolve the currency to an ISO 4217 code from the model's value, the text's symbols and address clues
+ */
+function normalizeCurrency(invoice: InvoiceData, sourceText: string, context: LocaleContext): Normalization[] {
+  const original = typeof invoice.currency === 'string' && invoice.currency.trim() ? invoice.currency.trim() : undefined;
+
+  // A valid code from the model is kept as is
+  if (original && /^[A-Z]{3}$/.test(original)) {
+    return [];
+  }
+
+  const resolved = original
+    ? resolveCurrencyValue(original, context) ?? resolveCurrencyFromText(sourceText, context)
+    : resolveCurrencyFromText(sourceText, context);
+  if (!resolved) {
+    return [];
+  }
+
+  invoice.currency = resolved.code;
+  return [{
+    field: 'currency',
+    kind: NormalizationKind.CURRENCY,
+    original: original ?? null,
+    normalized: resolved.code,
+    reason: resolved.reason
+  }];
+}
+
+/**
+ * Map a currency symbol, name or lower-case code to an ISO 4217 code
+ */
+function resolveCurrencyValue(value: string, context: LocaleContext): { code: string; reason: string } | undefined {
+  const upper = value.toUpperCase();
+  if (/^[A-Z]{3}$/.test(upper)) {
+    return { code: upper, reason: `'${value}' is a currency code` };
+  }
+  if (CURRENCY_ALIASES[upper]) {
+    return { code: CURRENCY_ALIASES[upper], reason: `'${value}' identifies ${CURRENCY_ALIASES[upper]}` };
+  }
+  if (upper === '$' || upper === 'DOLLAR' || upper === 'DOLLARS') {
+    return resolveDollar(value, context);
+  }
+  return undefined;
+}
+
+/**
+ * Find the currency from codes and symbols in the invoice text, falling back to the issuer's country
+ */
+function resolveCurrencyFromText(sourceText: string, context: LocaleContext): { code: string; reason: string } | undefined {
+  const code = /\b(USD|EUR|GBP|CAD|AUD|NZD|JPY|CHF|INR)\b/.exec(sourceText)?.[1];
+  if (code) {
+    return { code, reason: `the text states ${code}` };
+  }
+
+  const symbol = /(US\$|CA?\$|AU?\$|NZ\$|£|€|₹|¥|\$)/.exec(sourceText)?.[1];
+  if (symbol) {
+    return symbol === '$'
+      ? resolveDollar(symbol, context)
+      : { code: CURRENCY_ALIASES[symbol], reason: `amounts in the text use '${symbol}'` };
+  }
+
+  if (context.country) {
+    const currency = COUNTRY_PROFILES[context.country].currency;
+    return { code: currency, reason: `no currency shown, ${context.countrySource} is in ${context.country}` };
+  }
+  return undefined;
+}
+
+/**
+ * Decide which dollar a '$' stands for from the countries on the invoice
+ */
+function resolveDollar(symbol: string, context: LocaleContext): { code: string; reason: string } {
+  if (context.dollarCountry) {
+    const code = COUNTRY_PROFILES[context.dollarCountry].currency;
+    return { code, reason: `'${symbol}' with an address in ${context.dollarCountry}` };
+  }
+  return { code: 'USD', reason: `'${symbol}' with no other currency clues, assumed USD` };
+}
+
+function monthNumber(token: string): number | undefined {
+  if (token.length < 3) {
+    return undefined;
+  }
+  // Full names, or abbreviations of three or four letters such as 'Feb' and 'Sept'
+  const index = MONTH_NAMES.findIndex(names => names.some(name => name === token || (token.length <= 4 && name.startsWith(token))));
+  return index >= 0 ? index + 1 : undefined;
+}
+
+function expandYear(token: string, year: number): number {
+  if (token.length > 2) {
+    return year;
+  }
+  // Two-digit years are assumed to be recent
+  return year < 70 ? 2000 + year : 1900 + year;
+}
+
+function toIsoDate(year: number, month: number, day: number): string | undefined {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return undefined;
+  }
+  return date.toISOString().slice(0, 10);
+}
@@ -0,0 +1,138 @@
+import type { InvoiceData, InvoiceItem } from './types';
+import { INVOICE_HEADER_FIELDS, InvoiceHeaderField, ProvenanceHints } from './provenance';
+import { ValidationCode, ValidationIssue, ValidationSeverity } from './validation';
+
+// Define the structure for the data extracted from one page of a multi-page invoice
+export type PageExtraction = {
+  page: number; // 1-based page number
+  invoice: Partial<InvoiceData>;
+  hints: ProvenanceHints;
+};
+
+// Define the structure for the merged data of all pages
+export type AssembledInvoice = {
+  invoice: Partial<InvoiceData>;
+  hints: ProvenanceHints;
+  issues: ValidationIssue[]; // Findings to add to the validation report, e.g. lines that may be counted twice
+};
+
+// A line item as extracted from one page, flagged by the model when it only repeats the previous page's last line
+type PageItem = InvoiceItem & { continued?: unknown };
+
+// Fields taken from the final page that shows them, rather than the first
+const TOTAL_FIELDS: InvoiceHeaderField[] = ['subtotal', 'taxAmount', 'totalAmount'];
+
+// Rows that carry a running total between pages rather than describing goods or services
+const CARRY_OVER_PATTERN = /\b(carried|brought|balance) forward\b|\bcontinued (from|on)\b|\b(page|running) (sub)?total\b|^\s*(sub)?total\s*$/i;
+
+// Largest difference between amounts that still counts as equal
+const AMOUNT_TOLERANCE = 0.01;
+
+/**
+ * Merge the data extracted from each page of one invoice into a single invoice
+ * Header fields repeated on every page are taken from the first page that has them,
+ * totals from the last page that shows any, and line items are concatenated in page order.
+ * A page's first line that repeats the last line of the previous page is dropped only when the model flagged it
+ * as continued or the page's running total shows it is a repeat; otherwise it is kept with a warning.
+ * @param pages Extraction results for every page, in any order
+ * @returns The merged invoice, the provenance hints for it with page numbers set, and the issues found
+ */
+export function assembleInvoicePages(pages: PageExtraction[]): AssembledInvoice {
+  const ordered = [...pages].sort((a, b) => a.page - b.page);
+  const invoice: Partial<InvoiceData> = {};
+  const hints: ProvenanceHints = { fields: {}, items: [] };
+
+  // Running page totals on earlier pages must not mix with the document totals
+  const totalsPage = [...ordered].reverse().find(extraction => TOTAL_FIELDS.some(field => hasValue(extraction.invoice[field])));
+
+  for (const field of INVOICE_HEADER_FIELDS) {
+    const source = TOTAL_FIELDS.includes(field)
+      ? totalsPage
+      : ordered.find(extraction => hasValue(extraction.invoice[field]));
+    if (!source || !hasValue(source.invoice[field])) {
+      continue;
+    }
+    Object.assign(invoice, { [field]: source.invoice[field] });
+    hints.fields[field] = { ...source.hints.fields[field], page: source.page };
+  }
+
+  const items: InvoiceItem[] = [];
+  const issues: ValidationIssue[] = [];
+  for (const extraction of ordered) {
+    const pageItems: PageItem[] = extraction.invoice.items || [];
+    const firstIndex = pageItems.findIndex(item => !isCarryOver(item));
+
+    // Scans sometimes repeat the last row of a page at the top of the next one, but two real lines can be alike too
+    const previous = items[items.length - 1];
+    const repeated = firstIndex !== -1 && previous && isSameItem(previous, pageItems[firstIndex])
+      ? isRepeat(pageItems, firstIndex, sumAmounts(items), extraction === totalsPage ? extraction.invoice.subtotal : undefined)
+      : false;
+
+    pageItems.forEach(({ continued: _continued, ...item }, index) => {
+      if (isCarryOver(item) || (index === firstIndex && repeated === true)) {
+        return;
+      }
+      if (index === firstIndex && repeated === undefined) {
+        issues.push({
+          code: ValidationCode.POSSIBLE_DUPLICATE_ITEM,
+          severity: ValidationSeverity.WARNING,
+          field: `items[${items.length}]`,
+          message: `Line repeats the last line of page ${previous.page} and may be counted twice`,
+          actual: item.description
+        });
+      }
+      items.push({ ...item, page: extraction.page });
+      hints.items.push({ ...extraction.hints.items[index], page: extraction.page });
+    });
+  }
+  invoice.items = items;
+
+  return { invoice, hints, issues };
+}
+
+/**
+ * Decide whether a page's first line, alike to the previous page's last line, is a repeat of it
+ * @param pageItems The page's line items, including carry-over rows
+ * @param firstIndex Index of the page's first line that isn't a carry-over row
+ * @param previousSum Sum of the lines of the earlier pages
+ * @param subtotal The invoice subtotal, when this page shows the totals
+ * @returns True for a repeat, false for a line of its own, or undefined if the page doesn't tell
+ */
+function isRepeat(pageItems: PageItem[], firstIndex: number, previousSum: number, subtotal?: unknown): boolean | undefined {
+  if (pageItems[firstIndex].continued === true) {
+    return true;
+  }
+
+  // The running total carried forward at the bottom of the page, or the subtotal on the last page, covers every line so far
+  const lastLineIndex = pageItems.map(item => isCarryOver(item)).lastIndexOf(false);
+  const carriedForward = pageItems.slice(lastLineIndex + 1).reverse().find(item => typeof item.amount === 'number');
+  const runningTotal = carriedForward ? carriedForward.amount : subtotal;
+  if (typeof runningTotal !== 'number' || typeof pageItems[firstIndex].amount !== 'number') {
+    return undefined;
+  }
+
+  const withLine = previousSum + sumAmounts(pageItems.filter(item => !isCarryOver(item)));
+  if (Math.abs(withLine - runningTotal) <= AMOUNT_TOLERANCE) {
+    return false;
+  }
+  return Math.abs(withLine - pageItems[firstIndex].amount - runningTotal) <= AMOUNT_TOLERANCE ? true : undefined;
+}
+
+function sumAmounts(items: InvoiceItem[]): number {
+  return items.reduce((sum, item) => sum + (typeof item.amount === 'number' ? item.amount : 0), 0);
+}
+
+function hasValue(value: unknown): boolean {
+  return value !== undefined && value !== null && value !== '';
+}
+
+function isCarryOver(item: InvoiceItem): boolean {
+  return typeof item.description === 'string' && CARRY_OVER_PATTERN.test(item.description);
+}
+
+function isSameItem(a: InvoiceItem, b: InvoiceItem): boolean {
+  return a.description === b.description
+    && a.quantity === b.quantity
+    && a.unitPrice === b.unitPrice
+    && a.amount === b.amount;
+}
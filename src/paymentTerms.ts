@@ -0,0 +1,397 @@
+import type { StoredDocument } from './documentStore';
+import { InvoiceData, InvoiceType } from './types';
+import { asNumber } from './valueUtils';
+import { buildVendorLedgers, LedgerEntryKind } from './vendorLedger';
+
+// Define enum for what a payment's due date is counted from
+export enum PaymentTrigger {
+  INVOICE_DATE = 'invoice_date', // A number of days after the invoice date, e.g. Net 30
+  RECEIPT = 'receipt', // Due on receipt of the invoice
+  END_OF_MONTH = 'end_of_month', // Days after the end of the invoice month, e.g. EOM or Net 30 EOM
+  FOLLOWING_MONTH = 'following_month', // A day of the month after the invoice month, e.g. 15 MFI
+  ORDER = 'order', // In advance, with the order
+  SHIPMENT = 'shipment', // Before or on shipment; the date isn't known from the invoice
+  DELIVERY = 'delivery' // On or after delivery; the date isn't known from the invoice
+}
+
+// Define a single payment of a payment schedule
+export type PaymentInstallment = {
+  percentage: number; // Share of the total, 0-100
+  trigger: PaymentTrigger;
+  days?: number; // Days after the trigger; the day of the month for FOLLOWING_MONTH
+  dueDate?: string; // Undefined when the payment waits for an event such as shipment
+  amount?: number; // Undefined when the invoice total isn't known
+  description: string; // The part of the terms the payment was read from
+};
+
+// Define a discount for paying early, e.g. 2% within 10 days
+export type EarlyPaymentDiscount = {
+  percentage: number;
+  days: number; // Counted from the same date as the net due date
+  deadline?: string; // Last day the discount can be taken
+  amount?: number; // Discount on the invoice total
+};
+
+// Define the payment schedule read from an invoice's payment terms
+export type PaymentSchedule = {
+  terms: string; // Payment terms as written on the document
+  installments: PaymentInstallment[];
+  discount?: EarlyPaymentDiscount;
+  dueDate?: string; // When the last payment is due, if every payment has a date
+  dueDateDerived: boolean; // The invoice's due date was computed from the terms rather than read from the document
+};
+
+// Define a payment still to be made in the cash plan
+export type CashPlanPayment = {
+  documentId: string;
+  vendor: string;
+  documentNumber: string;
+  currency: string;
+  amount: number; // Still to pay, after credits and payments already received
+  dueDate?: string;
+  trigger?: PaymentTrigger; // Undefined for documents without payment terms
+  description: string;
+};
+
+// Define the payments due in one period of the cash plan
+export type CashPlanPeriod = {
+  label: string;
+  until?: string; // Last due date in the period; undefined for the open-ended last period
+  payments: CashPlanPayment[];
+  totals: Record<string, number>; // Sum per currency
+};
+
+// Define an early-payment discount that can still be taken
+export type DiscountOpportunity = {
+  documentId: string;
+  vendor: string;
+  documentNumber: string;
+  currency: string;
+  deadline: string;
+  savings: number;
+  payAmount: number; // What to pay by the deadline to take the discount
+};
+
+// Define the cash-planning summary of everything still to be paid
+export type CashPlan = {
+  asOf: string;
+  periods: CashPlanPeriod[]; // Overdue first
+  unscheduled: CashPlanPayment[]; // Payments without a due date, e.g. waiting for shipment
+  discounts: DiscountOpportunity[]; // Soonest deadline first
+};
+
+// The values of an invoice the schedule's dates and amounts are computed from
+export type PaymentTermsContext = Partial<Pick<InvoiceData, 'invoiceDate' | 'dueDate' | 'totalAmount'>>;
+
+// Parts of a payment schedule as read from the terms, before dates and amounts are known
+type TermsReading = {
+  installments: Array<Pick<PaymentInstallment, 'percentage' | 'trigger' | 'days' | 'description'>>;
+  discount?: Pick<EarlyPaymentDiscount, 'percentage' | 'days'>;
+};
+
+// Periods of the cash plan, by the number of days after the plan date they end
+const CASH_PLAN_PERIODS = [
+  { label: 'Overdue', days: -1 },
+  { label: 'Next 7 days', days: 7 },
+  { label: 'Next 30 days', days: 30 },
+  { label: 'Later', days: undefined }
+];
+
+// Discount terms: 2/10 Net 30, 2% 10 Net 30, 2% 10 days, net 30 days, 2/10 n/30
+const DISCOUNT_PATTERN = /(\d+(?:\.\d+)?)\s*%?\s*(?:\/\s*|\s+)(\d+)(?:\s*days?)?\s*,?\s*(?:net|n\/)\s*(\d+)/i;
+
+// Separator between the payments of a split schedule, e.g. "50% advance payment, 50% before shipment"
+const INSTALLMENT_SEPARATOR = /\s*(?:[,;+]|\band\b|\bthen\b)\s*(?=\d+(?:\.\d+)?\s*%)/i;
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Differences below a cent are rounding
+const CENT = 0.005;
+
+/**
+ * Read payment terms into a payment schedule
+ * Understands Net 30, Due on receipt, 2/10 Net 30, EOM, Net 30 EOM, 15 MFI and split schedules
+ * such as "50% advance payment, 50% before shipment". Dates are counted from the invoice date and
+ * amounts from the invoice total, when the context gives them.
+ * @param terms Payment terms as written on the document
+ * @param context Invoice date, printed due date and total of the invoice
+ * @returns The schedule, or undefined if the terms aren't understood
+ */
+export function parsePaymentTerms(terms: string, context: PaymentTermsContext = {}): PaymentSchedule | undefined {
+  const reading = readTerms(terms.replace(/\s+/g, ' ').trim());
+  if (!reading) {
+    return undefined;
+  }
+
+  const invoiceDate = typeof context.invoiceDate === 'string' && ISO_DATE_PATTERN.test(context.invoiceDate) ? context.invoiceDate : undefined;
+  const total = asNumber(context.totalAmount);
+  let allocated = 0;
+
+  const installments: PaymentInstallment[] = reading.installments.map((installment, index) => {
+    const payment: PaymentInstallment = { ...installment };
+    const dueDate = invoiceDate ? getDueDate(invoiceDate, installment.trigger, installment.days) : undefined;
+    if (dueDate) {
+      payment.dueDate = dueDate;
+    }
+    if (total !== undefined) {
+      // The last payment takes the rounding difference, so the payments add up to the total
+      payment.amount = index === reading.installments.length - 1
+        ? roundCents(total - allocated)
+        : roundCents(total * installment.percentage / 100);
+      allocated += payment.amount;
+    }
+    return payment;
+  });
+
+  // A due date printed on the document wins over the computed one
+  if (installments.length === 1 && typeof context.dueDate === 'string' && ISO_DATE_PATTERN.test(context.dueDate)) {
+    installments[0].dueDate = context.dueDate;
+  }
+
+  const schedule: PaymentSchedule = { terms, installments, dueDateDerived: false };
+  if (installments.every(installment => installment.dueDate)) {
+    schedule.dueDate = installments.map(installment => installment.dueDate as string).sort().pop();
+  }
+
+  if (reading.discount) {
+    const discount: EarlyPaymentDiscount = { ...reading.discount };
+    if (invoiceDate) {
+      discount.deadline = getDueDate(invoiceDate, installments[0].trigger, reading.discount.days);
+    }
+    if (total !== undefined) {
+      discount.amount = roundCents(total * reading.discount.percentage / 100);
+    }
+    schedule.discount = discount;
+  }
+  return schedule;
+}
+
+/**
+ * Build the payment schedule of a parsed invoice from its payment terms
+ * Proformas without payment terms use their advance payment terms. Credit notes and payment
+ * receipts aren't paid, so they get no schedule.
+ * @param invoice The parsed invoice
+ * @returns The schedule, or undefined if there are no terms or they aren't understood
+ */
+export function buildPaymentSchedule(invoice: InvoiceData): PaymentSchedule | undefined {
+  const type = invoice.classification?.type;
+  if (type === InvoiceType.CREDIT_NOTE || type === InvoiceType.RECEIPT) {
+    return undefined;
+  }
+
+  const advancePaymentTerms = invoice.typeDetails?.type === InvoiceType.PROFORMA ? invoice.typeDetails.advancePaymentTerms : undefined;
+  const terms = [invoice.paymentTerms, advancePaymentTerms].find(value => typeof value === 'string' && value.trim());
+  return terms ? parsePaymentTerms(terms.trim(), invoice) : undefined;
+}
+
+/**
+ * Summarize the payments still to be made, by when they are due
+ * Invoices count with their open balance from the vendor ledger: credits applied to an invoice and
+ * the vendor's payment receipts (oldest invoices first) are taken off its earliest payments.
+ * Proformas count in full, as their advance payments are due before an invoice is issued.
+ * @param documents Stored documents
+ * @param asOf Date to plan from, YYYY-MM-DD; defaults to today
+ * @returns Payments grouped into periods, payments without a date and discounts that can still be taken
+ */
+export function summarizeCashPlan(documents: StoredDocument[], asOf = new Date().toISOString().slice(0, 10)): CashPlan {
+  const byId = new Map(documents.map(document => [document.id, document]));
+  const outstanding: Array<{ document: StoredDocument; vendor: string; total: number; open: number }> = [];
+
+  for (const ledger of buildVendorLedgers(documents)) {
+    // Receipts aren't linked to an invoice, so they settle the oldest invoices in the same currency first
+    const received: Record<string, number> = {};
+    for (const entry of ledger.entries.filter(entry => entry.kind === LedgerEntryKind.RECEIPT)) {
+      received[entry.currency] = (received[entry.currency] || 0) - entry.amount;
+    }
+
+    for (const entry of ledger.entries.filter(entry => entry.kind === LedgerEntryKind.INVOICE)) {
+      const paid = Math.min(received[entry.currency] || 0, entry.openBalance ?? 0);
+      received[entry.currency] = (received[entry.currency] || 0) - paid;
+      const open = roundCents((entry.openBalance ?? 0) - paid);
+      if (open > CENT) {
+        outstanding.push({ document: byId.get(entry.documentId) as StoredDocument, vendor: ledger.vendor, total: entry.amount, open });
+      }
+    }
+  }
+  for (const document of documents) {
+    const data = document.data as InvoiceData;
+    if (document.documentType === InvoiceType.PROFORMA && !('documentType' in document.data) && data.totalAmount > 0) {
+      outstanding.push({ document, vendor: data.vendorName, total: data.totalAmount, open: data.totalAmount });
+    }
+  }
+
+  const periods: CashPlanPeriod[] = CASH_PLAN_PERIODS.map(({ label, days }) => ({
+    label,
+    ...(days !== undefined ? { until: addDays(asOf, days) } : {}),
+    payments: [],
+    totals: {}
+  }));
+  const unscheduled: CashPlanPayment[] = [];
+  const discounts: DiscountOpportunity[] = [];
+
+  for (const { document, vendor, total, open } of outstanding) {
+    const data = document.data as InvoiceData;
+    for (const payment of getOpenPayments(document, vendor, total, open)) {
+      const period = payment.dueDate ? periods.find(candidate => !candidate.until || (payment.dueDate as string) <= candidate.until) : undefined;
+      if (!period) {
+        unscheduled.push(payment);
+        continue;
+      }
+      period.payments.push(payment);
+      period.totals[payment.currency] = roundCents((period.totals[payment.currency] || 0) + payment.amount);
+    }
+
+    // The discount is only offered on the full amount, before anything was paid or credited
+    const discount = data.paymentSchedule?.discount;
+    if (discount?.deadline && discount.amount && discount.deadline >= asOf && open >= total - CENT) {
+      discounts.push({
+        documentId: document.id,
+        vendor,
+        documentNumber: data.invoiceNumber,
+        currency: data.currency,
+        deadline: discount.deadline,
+        savings: discount.amount,
+        payAmount: roundCents(open - discount.amount)
+      });
+    }
+  }
+
+  for (const period of periods) {
+    period.payments.sort((a, b) => (a.dueDate as string).localeCompare(b.dueDate as string));
+  }
+  discounts.sort((a, b) => a.deadline.localeCompare(b.deadline));
+  return { asOf, periods, unscheduled, discounts };
+}
+
+/**
+ * Get the payments of a document that are still open
+ * What was already paid or credited is taken off the earliest payments.
+ */
+function getOpenPayments(document: StoredDocument, vendor: string, total: number, open: number): CashPlanPayment[] {
+  const data = document.data as InvoiceData;
+  const payment = (amount: number, dueDate: string | undefined, description: string, trigger?: PaymentTrigger): CashPlanPayment => ({
+    documentId: document.id,
+    vendor,
+    documentNumber: data.invoiceNumber,
+    currency: data.currency,
+    amount,
+    ...(dueDate ? { dueDate } : {}),
+    ...(trigger ? { trigger } : {}),
+    description
+  });
+
+  const schedule = data.paymentSchedule;
+  if (!schedule) {
+    return [payment(open, data.dueDate, data.dueDate ? 'Due date' : 'No payment terms')];
+  }
+
+  let settled = roundCents(total - open);
+  return schedule.installments.flatMap(installment => {
+    const amount = installment.amount ?? roundCents(total * installment.percentage / 100);
+    const taken = Math.min(settled, amount);
+    settled = roundCents(settled - taken);
+    const remaining = roundCents(amount - taken);
+    return remaining > CENT ? [payment(remaining, installment.dueDate, installment.description, installment.trigger)] : [];
+  });
+}
+
+/**
+ * Read the installments and discount of the terms, or undefined if any part isn't understood
+ */
+function readTerms(terms: string): TermsReading | undefined {
+  const parts = terms.split(INSTALLMENT_SEPARATOR);
+  if (parts.length > 1) {
+    const installments: TermsReading['installments'] = [];
+    for (const part of parts) {
+      const split = /^(\d+(?:\.\d+)?)\s*%\s*(.+)$/i.exec(part);
+      const timing = split ? readTiming(split[2]) : undefined;
+      if (!split || !timing) {
+        return undefined;
+      }
+      installments.push({ percentage: Number(split[1]), ...timing, description: part });
+    }
+    // A schedule that doesn't add up to the whole amount was misread
+    const percentage = installments.reduce((sum, installment) => sum + installment.percentage, 0);
+    return Math.abs(percentage - 100) < 0.01 ? { installments } : undefined;
+  }
+
+  const discount = DISCOUNT_PATTERN.exec(terms);
+  if (discount) {
+    const trigger = /\beom\b|end of (?:the )?month/i.test(terms) ? PaymentTrigger.END_OF_MONTH : PaymentTrigger.INVOICE_DATE;
+    return {
+      installments: [{ percentage: 100, trigger, days: Number(discount[3]), description: terms }],
+      discount: { percentage: Number(discount[1]), days: Number(discount[2]) }
+    };
+  }
+
+  const timing = readTiming(terms);
+  return timing ? { installments: [{ percentage: 100, ...timing, description: terms }] } : undefined;
+}
+
+/**
+ * Read when a single payment is due, e.g. "net 30", "15 mfi" or "before shipment"
+ */
+function readTiming(text: string): Pick<PaymentInstallment, 'trigger' | 'days'> | undefined {
+  const dayCount = /(?:net\s*|n\/)(\d+)|(\d+)\s*days?\b/i.exec(text);
+  const days = dayCount ? Number(dayCount[1] ?? dayCount[2]) : undefined;
+  const withDays = (trigger: PaymentTrigger) => (days !== undefined ? { trigger, days } : { trigger });
+
+  const followingMonth = /(\d{1,2})(?:st|nd|rd|th)?\s*(?:mfi\b|(?:of the )?(?:month following|following month))/i.exec(text);
+  if (followingMonth) {
+    return { trigger: PaymentTrigger.FOLLOWING_MONTH, days: Number(followingMonth[1]) };
+  }
+  if (/\beom\b|end of (?:the )?month/i.test(text)) {
+    return withDays(PaymentTrigger.END_OF_MONTH);
+  }
+  if (/\b(?:advance|deposit|up ?front|prepa(?:y|id|yment)|with (?:the )?order|on order)\b/i.test(text)) {
+    return { trigger: PaymentTrigger.ORDER };
+  }
+  if (/\b(?:ship(?:ment|ping)?|dispatch)\b/i.test(text)) {
+    return withDays(PaymentTrigger.SHIPMENT);
+  }
+  if (/\b(?:delivery|cod)\b/i.test(text)) {
+    return withDays(PaymentTrigger.DELIVERY);
+  }
+  if (/\b(?:on receipt|upon receipt|immediate(?:ly)?|due now)\b/i.test(text)) {
+    return { trigger: PaymentTrigger.RECEIPT };
+  }
+  return days !== undefined ? { trigger: PaymentTrigger.INVOICE_DATE, days } : undefined;
+}
+
+/**
+ * Compute when a payment is due from the invoice date, or undefined if it waits for an event
+ */
+function getDueDate(invoiceDate: string, trigger: PaymentTrigger, days = 0): string | undefined {
+  switch (trigger) {
+    case PaymentTrigger.INVOICE_DATE:
+      return addDays(invoiceDate, days);
+    case PaymentTrigger.RECEIPT:
+    case PaymentTrigger.ORDER:
+      return invoiceDate;
+    case PaymentTrigger.END_OF_MONTH: {
+      const [year, month] = invoiceDate.split('-').map(Number);
+      return addDays(toIsoDate(Date.UTC(year, month, 0)), days);
+    }
+    case PaymentTrigger.FOLLOWING_MONTH: {
+      const [year, month] = invoiceDate.split('-').map(Number);
+      // Days past the end of the following month fall on its last day
+      const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+      return toIsoDate(Date.UTC(year, month, Math.min(days, lastDay)));
+    }
+    default:
+      return undefined;
+  }
+}
+
+function addDays(date: string, days: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return toIsoDate(Date.UTC(year, month - 1, day + days));
+}
+
+function toIsoDate(time: number): string {
+  return new Date(time).toISOString().slice(0, 10);
+}
+
+function roundCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,135 @@
+import { PDFParse } from 'pdf-parse';
+import { inflateSync } from 'zlib';
+
+// Define the structure for a PDF page rendered to an image
+export type PdfPageImage = {
+  pageNumber: number; // 1-based page number
+  data: string; // Base64-encoded PNG data
+  mimeType: 'image/png';
+};
+
+export type PdfRenderOptions = {
+  maxPages?: number; // Only render the first pages of long documents (defaults to 10)
+  width?: number; // Width of the rendered images in pixels (defaults to 1600)
+};
+
+// Every PDF starts with this header
+const PDF_MAGIC = '%PDF-';
+
+// Pages need at least this many non-whitespace characters on average for the text layer to be usable
+const MIN_TEXT_CHARACTERS_PER_PAGE = 20;
+
+const DEFAULT_MAX_PAGES = 10;
+const DEFAULT_RENDER_WIDTH = 1600;
+
+/**
+ * Check whether a buffer holds a PDF document
+ * @param data File contents
+ * @returns True if the data starts with the PDF header
+ */
+export function isPdf(data: Buffer): boolean {
+  return data.subarray(0, PDF_MAGIC.length).toString('latin1') === PDF_MAGIC;
+}
+
+/**
+ * Extract the files embedded in a PDF, such as the XML invoice of a Factur-X or ZUGFeRD document
+ * Reads the embedded file streams directly, so no renderer or worker is needed.
+ * Streams that can't be decoded are skipped.
+ * @param data PDF file contents
+ * @returns Contents of every embedded file, in document order
+ */
+export function extractEmbeddedFiles(data: Buffer): Buffer[] {
+  // latin1 maps every byte to one character, so string offsets are byte offsets
+  const source = data.toString('latin1');
+  const files: Buffer[] = [];
+
+  for (const match of source.matchAll(/\bstream\r?\n/g)) {
+    const streamStart = match.index as number;
+    const dictionary = source.slice(source.lastIndexOf('obj', streamStart), streamStart);
+    if (!/\/Type\s*\/EmbeddedFile\b/.test(dictionary)) {
+      continue;
+    }
+
+    const dataStart = streamStart + match[0].length;
+    // Prefer a direct /Length; an indirect one (e.g. /Length 12 0 R) is resolved by looking for endstream
+    const length = dictionary.match(/\/Length\s+(\d+)(?!\s+\d+\s+R)/);
+    const dataEnd = length
+      ? dataStart + Number(length[1])
+      : source.slice(0, source.indexOf('endstream', dataStart)).replace(/\r?\n$/, '').length;
+    const content = data.subarray(dataStart, dataEnd);
+
+    try {
+      files.push(/\/FlateDecode\b/.test(dictionary) ? inflateSync(content) : Buffer.from(content));
+    } catch {
+      // Other filters or damaged streams can't be read
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Extract the text layer of a PDF, page by page
+ * @param data PDF file contents
+ * @returns Text of every page, in page order
+ */
+export async function extractPdfText(data: Buffer): Promise<string[]> {
+  const parser = new PDFParse({ data });
+  try {
+    const result = await parser.getText();
+    return result.pages.map(page => page.text);
+  } finally {
+    await parser.destroy();
+  }
+}
+
+/**
+ * Check whether extracted PDF text is substantial enough to parse instead of the rendered pages
+ * Scanned PDFs have no text layer, or only a few stray characters
+ * @param pages Text of every page
+ * @returns True if the text layer can be used
+ */
+export function hasTextLayer(pages: string[]): boolean {
+  if (pages.length === 0) {
+    return false;
+  }
+  const characters = pages.reduce((count, page) => count + page.replace(/\s/g, '').length, 0);
+  return characters / pages.length >= MIN_TEXT_CHARACTERS_PER_PAGE;
+}
+
+/**
+ * Join the text of PDF pages into one document, marking where each page starts
+ * @param pages Text of every page
+ * @returns Text of the whole document
+ */
+export function joinPdfPages(pages: string[]): string {
+  if (pages.length === 1) {
+    return pages[0];
+  }
+  return pages.map((page, index) => `--- Page ${index + 1} ---\n${page}`).join('\n\n');
+}
+
+/**
+ * Render the pages of a PDF to PNG images
+ * @param data PDF file contents
+ * @param options Page limit and image width
+ * @returns Rendered pages, in page order
+ */
+export async function renderPdfPages(data: Buffer, options: PdfRenderOptions = {}): Promise<PdfPageImage[]> {
+  const parser = new PDFParse({ data });
+  try {
+    const result = await parser.getScreenshot({
+      first: options.maxPages ?? DEFAULT_MAX_PAGES,
+      desiredWidth: options.width ?? DEFAULT_RENDER_WIDTH,
+      imageDataUrl: false,
+      imageBuffer: true
+    });
+    return result.pages.map(page => ({
+      pageNumber: page.pageNumber,
+      data: Buffer.from(page.data).toString('base64'),
+      mimeType: 'image/png'
+    }));
+  } finally {
+    await parser.destroy();
+  }
+}
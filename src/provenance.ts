@@ -0,0 +1,301 @@
+import type { InvoiceData, InvoiceItem } from './types';
+import { isRecord } from './valueUtils';
+
+// Header fields of InvoiceData that carry provenance
+export const INVOICE_HEADER_FIELDS = [
+  'invoiceNumber',
+  'invoiceDate',
+  'dueDate',
+  'vendorName',
+  'vendorAddress',
+  'customerName',
+  'customerAddress',
+  'subtotal',
+  'taxAmount',
+  'totalAmount',
+  'currency',
+  'paymentTerms',
+  'purchaseOrderNumber'
+] as const;
+
+export type InvoiceHeaderField = typeof INVOICE_HEADER_FIELDS[number];
+
+// Rectangle on a page, normalized to 0-1 of the page width and height from the top-left corner
+export type BoundingRegion = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+};
+
+// Where in the input a value was found
+export type FieldSource =
+  | { kind: 'text'; start: number; end: number } // Character offsets into the invoice text (end exclusive)
+  | { kind: 'image'; page: number; region?: BoundingRegion }; // 1-based page number
+
+// Define the structure for the confidence and origin of an extracted value
+export type FieldProvenance = {
+  confidence: number; // 0-1 confidence score
+  source?: FieldSource; // Omitted when the value could not be located in the input
+  sourceText?: string; // Snippet of the input the value was read from
+};
+
+export type FieldProvenanceMap = Partial<Record<InvoiceHeaderField, FieldProvenance>>;
+
+// Raw confidence and source hints as returned by the model
+type ProvenanceHint = {
+  confidence?: number;
+  sourceText?: string;
+  page?: number;
+  region?: BoundingRegion;
+};
+
+export type ProvenanceHints = {
+  fields: Partial<Record<InvoiceHeaderField, ProvenanceHint>>;
+  items: ProvenanceHint[];
+};
+
+// Instructions appended to extraction prompts so the model reports its sources
+export const TEXT_PROVENANCE_INSTRUCTIONS = `Also include a "fieldConfidence" object keyed by field name. For every field you extracted, give { "confidence": number from 0 to 1, "sourceText": the exact text of the invoice the value was read from }.
+Add "confidence" and "sourceText" (the full line the item was read from) to every item as well.`;
+
+export const IMAGE_PROVENANCE_INSTRUCTIONS = `Also include a "fieldConfidence" object keyed by field name. For every field you extracted, give { "confidence": number from 0 to 1, "page": the 1-based number of the image the value is on, in the order the images were given, "region": { "x", "y", "width", "height" } } where region is the box around the value, normalized to 0-1 of that image's width and height from the top-left corner.
+Add "confidence", "page" and "region" to every item as well, with the region covering the whole item row.`;
+
+// Confidence assumed when the model doesn't report one
+const UNREPORTED_CONFIDENCE = 0.5;
+
+// Cap for values whose claimed source text can't be found in the input
+const UNLOCATED_CONFIDENCE_CAP = 0.4;
+
+// Some models give boxes on a 0-1000 grid instead of 0-1
+const REGION_GRID_SIZE = 1000;
+
+/**
+ * Remove the model's confidence and source hints from a raw extraction result
+ * The hints are returned separately so they don't leak into InvoiceData
+ * @param raw The parsed model response, modified in place
+ * @returns Hints for header fields and line items
+ */
+export function takeProvenanceHints(raw: Record<string, unknown>): ProvenanceHints {
+  const fields: ProvenanceHints['fields'] = {};
+  const fieldConfidence = raw.fieldConfidence;
+  delete raw.fieldConfidence;
+
+  if (isRecord(fieldConfidence)) {
+    for (const field of INVOICE_HEADER_FIELDS) {
+      const hint = fieldConfidence[field];
+      if (isRecord(hint)) {
+        fields[field] = toHint(hint);
+      }
+    }
+  }
+
+  const items = Array.isArray(raw.items)
+    ? raw.items.map(item => {
+      if (!isRecord(item)) {
+        return {};
+      }
+      const hint = toHint(item);
+      delete item.confidence;
+      delete item.sourceText;
+      delete item.page;
+      delete item.region;
+      return hint;
+    })
+    : [];
+
+  return { fields, items };
+}
+
+/**
+ * Attach provenance to an invoice parsed from text, locating each value in the text
+ * @param invoice The parsed invoice, modified in place
+ * @param hints Hints taken from the model response
+ * @param invoiceText The text the invoice was parsed from
+ * @param defaultedFields Fields filled with defaults, which get zero confidence
+ */
+export function applyTextProvenance(
+  invoice: InvoiceData,
+  hints: ProvenanceHints,
+  invoiceText: string,
+  defaultedFields: string[] = []
+): void {
+  invoice.fieldProvenance = {};
+
+  for (const field of INVOICE_HEADER_FIELDS) {
+    const value = invoice[field];
+    if (value === undefined || value === null || value === '') {
+      continue;
+    }
+    if (defaultedFields.includes(field)) {
+      invoice.fieldProvenance[field] = { confidence: 0 };
+      continue;
+    }
+    invoice.fieldProvenance[field] = locateInText(hints.fields[field], [value], invoiceText);
+  }
+
+  (invoice.items || []).forEach((item, index) => {
+    item.provenance = locateInText(hints.items[index], [item.description], invoiceText);
+  });
+}
+
+/**
+ * Attach provenance to an invoice parsed from a page image
+ * @param invoice The parsed invoice, modified in place
+ * @param hints Hints taken from the model response
+ * @param defaultedFields Fields filled with defaults, which get zero confidence
+ * @param page Page number to use when the model doesn't report one
+ */
+export function applyImageProvenance(
+  invoice: InvoiceData,
+  hints: ProvenanceHints,
+  defaultedFields: string[] = [],
+  page = 1
+): void {
+  invoice.fieldProvenance = {};
+
+  for (const field of INVOICE_HEADER_FIELDS) {
+    const value = invoice[field];
+    if (value === undefined || value === null || value === '') {
+      continue;
+    }
+    invoice.fieldProvenance[field] = defaultedFields.includes(field)
+      ? { confidence: 0 }
+      : toImageProvenance(hints.fields[field], page);
+  }
+
+  (invoice.items || []).forEach((item, index) => {
+    item.provenance = toImageProvenance(hints.items[index], page);
+  });
+}
+
+/**
+ * List the fields and line items whose confidence is below a threshold
+ * @param invoice The parsed invoice with provenance attached
+ * @param threshold Confidence below which a value needs review (defaults to 0.7)
+ * @returns Field paths needing review, e.g. 'totalAmount' or 'items[2]'
+ */
+export function findLowConfidenceFields(invoice: InvoiceData, threshold = 0.7): string[] {
+  const fields = Object.entries(invoice.fieldProvenance || {})
+    .filter(([, provenance]) => provenance !== undefined && provenance.confidence < threshold)
+    .map(([field]) => field);
+
+  const items = (invoice.items || [])
+    .map((item: InvoiceItem, index) => ({ item, index }))
+    .filter(({ item }) => item.provenance !== undefined && item.provenance.confidence < threshold)
+    .map(({ index }) => `items[${index}]`);
+
+  return [...fields, ...items];
+}
+
+/**
+ * Build text provenance, narrowing to the value inside the model's snippet where possible
+ */
+function locateInText(hint: ProvenanceHint | undefined, values: Array<string | number>, text: string): FieldProvenance {
+  const confidence = hint?.confidence ?? UNREPORTED_CONFIDENCE;
+  const candidates = values.flatMap(formatCandidates);
+  const snippetStart = hint?.sourceText ? findIgnoringCase(text, hint.sourceText, 0) : -1;
+  const snippetEnd = snippetStart + (hint?.sourceText?.length ?? 0);
+
+  // Look for the value inside the reported snippet first, then anywhere in the text
+  const scopes = snippetStart >= 0 ? [[snippetStart, snippetEnd], [0, text.length]] : [[0, text.length]];
+  for (const [scopeStart, scopeEnd] of scopes) {
+    for (const candidate of candidates) {
+      const start = findIgnoringCase(text, candidate, scopeStart);
+      if (start >= 0 && start + candidate.length <= scopeEnd) {
+        return toTextProvenance(confidence, text, start, start + candidate.length);
+      }
+    }
+  }
+
+  // The value is formatted differently in the text (e.g. a reformatted date), so point at the snippet
+  if (snippetStart >= 0) {
+    return toTextProvenance(confidence, text, snippetStart, snippetEnd);
+  }
+
+  // A value we can't find anywhere in the input may have been invented by the model
+  return { confidence: Math.min(confidence, UNLOCATED_CONFIDENCE_CAP) };
+}
+
+function toTextProvenance(confidence: number, text: string, start: number, end: number): FieldProvenance {
+  return {
+    confidence,
+    source: { kind: 'text', start, end },
+    sourceText: text.slice(start, end)
+  };
+}
+
+/**
+ * Build image provenance from a model hint
+ */
+function toImageProvenance(hint: ProvenanceHint | undefined, page: number): FieldProvenance {
+  return {
+    confidence: hint?.confidence ?? UNREPORTED_CONFIDENCE,
+    source: { kind: 'image', page: hint?.page ?? page, ...(hint?.region ? { region: hint.region } : {}) }
+  };
+}
+
+/**
+ * Spellings a value might have in the source text, e.g. 10800 as "10,800", "10,800.00" or "10.800,00"
+ */
+function formatCandidates(value: string | number): string[] {
+  if (typeof value === 'string') {
+    return [value.trim()].filter(candidate => candidate.length > 0);
+  }
+  return Array.from(new Set([
+    value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 }),
+    value.toLocaleString('en-US', { maximumFractionDigits: 2 }),
+    value.toLocaleString('de-DE', { minimumFractionDigits: 2, maximumFractionDigits: 2 }),
+    value.toFixed(2),
+    String(value)
+  ]));
+}
+
+function findIgnoringCase(text: string, candidate: string, from: number): number {
+  return text.toLowerCase().indexOf(candidate.toLowerCase(), from);
+}
+
+/**
+ * Keep only well-formed hint properties from a model object
+ */
+function toHint(raw: Record<string, unknown>): ProvenanceHint {
+  const hint: ProvenanceHint = {};
+  if (typeof raw.confidence === 'number' && raw.confidence >= 0 && raw.confidence <= 1) {
+    hint.confidence = raw.confidence;
+  }
+  if (typeof raw.sourceText === 'string' && raw.sourceText.trim()) {
+    hint.sourceText = raw.sourceText.trim();
+  }
+  if (typeof raw.page === 'number' && Number.isInteger(raw.page) && raw.page > 0) {
+    hint.page = raw.page;
+  }
+  const region = toRegion(raw.region);
+  if (region) {
+    hint.region = region;
+  }
+  return hint;
+}
+
+/**
+ * Read a bounding region as a 0-1 rectangle inside the page
+ * Boxes on a 0-1000 grid are scaled down and boxes running off the page are cut at its edge.
+ * @returns The region, or undefined when it isn't a box with an area on the page
+ */
+function toRegion(value: unknown): BoundingRegion | undefined {
+  if (!isRecord(value)) {
+    return undefined;
+  }
+  const numbers = ['x', 'y', 'width', 'height'].map(key => value[key]);
+  if (!numbers.every((number): number is number => typeof number === 'number' && Number.isFinite(number) && number >= 0)) {
+    return undefined;
+  }
+
+  const scale = numbers.some(number => number > 1) ? REGION_GRID_SIZE : 1;
+  const [x, y, width, height] = numbers.map(number => number / scale);
+  if (x >= 1 || y >= 1 || width <= 0 || height <= 0) {
+    return undefined;
+  }
+  const round = (number: number) => Math.round(number * 10000) / 10000;
+  return { x: round(x), y: round(y), width: round(Math.min(width, 1 - x)), height: round(Math.min(height, 1 - y)) };
+}
@@ -0,0 +1,142 @@
+import { formatIssue, InvalidModelResponseError, UpstreamUnavailableError } from './errors';
+import { CompletionRequest, LLMProvider } from './llmTypes';
+import { parseAmount } from './normalization';
+import { isRecord } from './valueUtils';
+
+// Define the shape a model response must have; properties not listed are allowed
+export type ResponseSchema =
+  | { type: 'string'; optional?: boolean; enum?: readonly string[] }
+  | { type: 'number'; optional?: boolean; minimum?: number; maximum?: number }
+  | { type: 'amount'; optional?: boolean } // A number, or a formatted amount normalization can read, e.g. "1.234,56"
+  | { type: 'array'; optional?: boolean; items: ResponseSchema }
+  | { type: 'object'; optional?: boolean; properties: Record<string, ResponseSchema> };
+
+// Define a single way a model response differs from its schema
+export type SchemaIssue = {
+  path: string; // e.g. 'totalAmount' or 'items[0].unitPrice', empty for the whole response
+  message: string;
+};
+
+// Define a model response that matches its schema
+export type CheckedResponse = {
+  value: Record<string, unknown>;
+  repairRounds: number; // How often the model was asked to fix its response
+};
+
+// Rounds of asking the model to fix an invalid response, unless configured
+const DEFAULT_REPAIR_ATTEMPTS = 2;
+
+/**
+ * Check a parsed model response against a schema
+ * Missing and null values are accepted for optional properties.
+ * @param value The parsed response
+ * @param schema The schema it must match
+ * @param path Path of the value within the response
+ * @returns Every issue found, empty if the value matches
+ */
+export function validateResponse(value: unknown, schema: ResponseSchema, path = ''): SchemaIssue[] {
+  if (value === undefined || value === null) {
+    return schema.optional ? [] : [{ path, message: 'is required' }];
+  }
+
+  switch (schema.type) {
+    case 'string':
+      if (typeof value !== 'string') {
+        return [{ path, message: 'must be a string' }];
+      }
+      return schema.enum && !schema.enum.includes(value)
+        ? [{ path, message: `must be one of: ${schema.enum.join(', ')}` }]
+        : [];
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        return [{ path, message: 'must be a number' }];
+      }
+      if ((schema.minimum !== undefined && value < schema.minimum) || (schema.maximum !== undefined && value > schema.maximum)) {
+        return [{ path, message: `must be between ${schema.minimum ?? '-Infinity'} and ${schema.maximum ?? 'Infinity'}` }];
+      }
+      return [];
+    case 'amount':
+      // Formatted amounts are converted to numbers by normalization
+      return (typeof value === 'number' && Number.isFinite(value))
+        || (typeof value === 'string' && (parseAmount(value) ?? parseAmount(value, true)) !== undefined)
+        ? []
+        : [{ path, message: 'must be a number' }];
+    case 'array':
+      return Array.isArray(value)
+        ? value.flatMap((item, index) => validateResponse(item, schema.items, `${path}[${index}]`))
+        : [{ path, message: 'must be an array' }];
+    case 'object':
+      return isRecord(value)
+        ? Object.entries(schema.properties).flatMap(([key, property]) =>
+          validateResponse(value[key], property, path ? `${path}.${key}` : key))
+        : [{ path, message: 'must be a JSON object' }];
+  }
+}
+
+/**
+ * Request a JSON response and check it against a schema, asking the model to fix it while it doesn't match
+ * Each repair round sends the invalid response back with the issues found in it.
+ * @param provider The LLM provider; its repairAttempts (or LLM_REPAIR_ATTEMPTS) limits the repair rounds
+ * @param request The completion request
+ * @param schema The schema the response must match
+ * @returns The parsed response and the number of repair rounds it took
+ * @throws InvalidModelResponseError if the response is still invalid after the last repair round
+ */
+export async function requestCheckedJson(
+  provider: LLMProvider,
+  request: CompletionRequest,
+  schema: ResponseSchema
+): Promise<CheckedResponse> {
+  const maxAttempts = 1 + getRepairAttempts(provider);
+  let messages = request.messages;
+
+  for (let attempt = 1; ; attempt++) {
+    const response = await provider.complete({ ...request, messages });
+    const content = response.content;
+
+    // An empty response is a failed request rather than output to repair
+    if (!content) {
+      throw new UpstreamUnavailableError(`No content returned from the ${provider.kind} provider for the ${request.task} request`);
+    }
+
+    const { value, issues } = checkContent(content, schema);
+    if (value && issues.length === 0) {
+      return { value, repairRounds: attempt - 1 };
+    }
+    if (attempt >= maxAttempts) {
+      throw new InvalidModelResponseError(request.task, attempt, issues);
+    }
+
+    console.warn(`Asking the model to fix its ${request.task} response: ${issues.map(formatIssue).join('; ')}`);
+    messages = [
+      ...messages,
+      { role: 'assistant', content },
+      {
+        role: 'user',
+        content: `Your response does not match the required structure:\n${issues.map(issue => `- ${formatIssue(issue)}`).join('\n')}\nReturn the complete corrected JSON object only.`
+      }
+    ];
+  }
+}
+
+/**
+ * Read how many repair rounds a provider allows
+ */
+function getRepairAttempts(provider: LLMProvider): number {
+  const attempts = provider.repairAttempts ?? Number(process.env.LLM_REPAIR_ATTEMPTS || DEFAULT_REPAIR_ATTEMPTS);
+  return Number.isInteger(attempts) && attempts >= 0 ? attempts : DEFAULT_REPAIR_ATTEMPTS;
+}
+
+/**
+ * Parse response content as JSON and check it against a schema
+ */
+function checkContent(content: string, schema: ResponseSchema): { value?: Record<string, unknown>; issues: SchemaIssue[] } {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch (error) {
+    return { issues: [{ path: '', message: `is not valid JSON (${error instanceof Error ? error.message : 'unreadable'})` }] };
+  }
+  const issues = validateResponse(parsed, schema);
+  return isRecord(parsed) ? { value: parsed, issues } : { issues };
+}
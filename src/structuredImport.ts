@@ -0,0 +1,534 @@
+import { XMLParser } from 'fast-xml-parser';
+import { InvalidInputError } from './errors';
+import { extractEmbeddedFiles, isPdf } from './pdfParser';
+import { normalizeCreditNoteSign, normalizePaymentTerms } from './normalization';
+import { FieldProvenanceMap, INVOICE_HEADER_FIELDS } from './provenance';
+import { getTypeValidationOptions } from './typeStrategies';
+import { CreditNoteDetails, InvoiceData, InvoiceItem, InvoiceType } from './types';
+import { validateInvoiceData } from './validation';
+import { isRecord } from './valueUtils';
+
+// Define enum for the machine-readable invoice formats that are imported without the model
+export enum StructuredFormat {
+  UBL = 'ubl', // OASIS UBL 2.x Invoice or CreditNote, including Peppol BIS
+  CII = 'cii', // UN/CEFACT Cross Industry Invoice
+  FACTUR_X = 'factur_x', // PDF with an embedded CII invoice (Factur-X / ZUGFeRD 2)
+  X12_810 = 'x12_810' // ANSI X12 810 invoice
+}
+
+type XmlNode = Record<string, unknown>;
+
+// Imported values are read, not inferred, so they are fully trusted
+const IMPORT_CONFIDENCE = 1;
+
+const UBL_NAMESPACE = 'urn:oasis:names:specification:ubl:schema:xsd:';
+const CII_NAMESPACE = 'urn:un:unece:uncefact:data:standard:CrossIndustryInvoice:';
+
+// UNTDID 1001 document type codes used by UBL and CII
+const CREDIT_TYPE_CODES = ['81', '83', '261', '262', '296', '308', '381', '396', '420', '458', '532'];
+const PROFORMA_TYPE_CODES = ['325'];
+
+// X12 BIG07 transaction type codes of credits
+const X12_CREDIT_TYPES = ['CN', 'CR'];
+
+// X12 N101 entity codes of the selling and buying parties, in order of preference
+const X12_SELLER_CODES = ['SE', 'SU', 'II', 'RI'];
+const X12_BUYER_CODES = ['BT', 'BY', 'ST'];
+
+const xmlParser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '@_',
+  removeNSPrefix: true,
+  parseTagValue: false, // Keep identifiers such as '00123' as written
+  trimValues: true
+});
+
+/**
+ * Detect whether the input is a machine-readable invoice
+ * @param input Document contents, as text or raw bytes
+ * @returns The format, or undefined for anything that needs the model
+ */
+export function detectStructuredFormat(input: string | Buffer): StructuredFormat | undefined {
+  if (Buffer.isBuffer(input) && isPdf(input)) {
+    return findFacturXXml(input) ? StructuredFormat.FACTUR_X : undefined;
+  }
+
+  const text = (Buffer.isBuffer(input) ? input.toString('utf8') : input).replace(/^\uFEFF/, '').trimStart();
+  if (text.startsWith('<')) {
+    const root = getXmlRootName(text);
+    if ((root === 'Invoice' || root === 'CreditNote') && text.includes(UBL_NAMESPACE)) {
+      return StructuredFormat.UBL;
+    }
+    if (root === 'CrossIndustryInvoice' && text.includes(CII_NAMESPACE)) {
+      return StructuredFormat.CII;
+    }
+    return undefined;
+  }
+  if (/^(ISA|ST)\W/.test(text) && splitX12Segments(text).some(segment => segment[0] === 'ST' && segment[1] === '810')) {
+    return StructuredFormat.X12_810;
+  }
+  return undefined;
+}
+
+/**
+ * Import a machine-readable invoice straight into InvoiceData, without calling the model
+ * The classification comes from the document's own type code with confidence 1.
+ * @param input Document contents, as text or raw bytes
+ * @returns The invoice, or undefined if the input is not a supported structured format
+ */
+export function importStructuredInvoice(input: string | Buffer): InvoiceData | undefined {
+  const format = detectStructuredFormat(input);
+  const text = () => (Buffer.isBuffer(input) ? input.toString('utf8') : input).replace(/^\uFEFF/, '');
+
+  switch (format) {
+    case StructuredFormat.UBL:
+      return importUblInvoice(text());
+    case StructuredFormat.CII:
+      return importCiiInvoice(text());
+    case StructuredFormat.FACTUR_X:
+      return importCiiInvoice(findFacturXXml(input as Buffer) as string, StructuredFormat.FACTUR_X);
+    case StructuredFormat.X12_810:
+      return importX12Invoice(text());
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Map a UBL 2.x Invoice or CreditNote document to InvoiceData
+ * @param xml The UBL document
+ * @returns The imported invoice
+ */
+export function importUblInvoice(xml: string): InvoiceData {
+  const [rootName, root] = parseXmlRoot(xml);
+  const isCreditNote = rootName === 'CreditNote';
+  const typeCode = text(root, isCreditNote ? 'CreditNoteTypeCode' : 'InvoiceTypeCode');
+  const currency = text(root, 'DocumentCurrencyCode');
+  const totals = child(root, 'LegalMonetaryTotal');
+
+  // Values absent from a line stay undefined so validation reports them
+  const items = children(root, isCreditNote ? 'CreditNoteLine' : 'InvoiceLine').map(line => {
+    const price = amount(line, 'Price', 'PriceAmount');
+    const baseQuantity = amount(line, 'Price', 'BaseQuantity') || 1;
+    return {
+      description: text(line, 'Item', 'Name') || text(line, 'Item', 'Description') || '',
+      quantity: amount(line, isCreditNote ? 'CreditedQuantity' : 'InvoicedQuantity'),
+      unitPrice: price !== undefined ? price / baseQuantity : undefined,
+      amount: amount(line, 'LineExtensionAmount')
+    } as InvoiceItem;
+  });
+
+  // A document can state its VAT in a second currency as well; the document currency is the one to use
+  const taxTotal = children(root, 'TaxTotal')
+    .map(total => child(total, 'TaxAmount'))
+    .find(taxAmount => !currency || attribute(taxAmount, 'currencyID') === undefined || attribute(taxAmount, 'currencyID') === currency);
+
+  return finishImport({
+    invoiceNumber: text(root, 'ID'),
+    invoiceDate: text(root, 'IssueDate'),
+    dueDate: text(root, 'DueDate') || text(root, 'PaymentMeans', 'PaymentDueDate'),
+    vendorName: getUblPartyName(child(root, 'AccountingSupplierParty', 'Party')),
+    vendorAddress: getUblAddress(child(root, 'AccountingSupplierParty', 'Party', 'PostalAddress')),
+    customerName: getUblPartyName(child(root, 'AccountingCustomerParty', 'Party')),
+    customerAddress: getUblAddress(child(root, 'AccountingCustomerParty', 'Party', 'PostalAddress')),
+    items,
+    subtotal: amount(totals, 'TaxExclusiveAmount') ?? amount(totals, 'LineExtensionAmount'),
+    taxAmount: toNumber(taxTotal),
+    totalAmount: amount(totals, 'TaxInclusiveAmount') ?? amount(totals, 'PayableAmount'),
+    currency,
+    paymentTerms: children(root, 'PaymentTerms').map(terms => text(terms, 'Note')).filter(Boolean).join('; ') || undefined,
+    purchaseOrderNumber: text(root, 'OrderReference', 'ID')
+  }, {
+    format: StructuredFormat.UBL,
+    type: isCreditNote ? InvoiceType.CREDIT_NOTE : getTypeFromCode(typeCode),
+    typeCode,
+    referencedInvoiceNumber: text(root, 'BillingReference', 'InvoiceDocumentReference', 'ID')
+  });
+}
+
+/**
+ * Map a UN/CEFACT Cross Industry Invoice to InvoiceData
+ * @param xml The CII document
+ * @param format Format to record, FACTUR_X when the XML came out of a PDF
+ * @returns The imported invoice
+ */
+export function importCiiInvoice(xml: string, format = StructuredFormat.CII): InvoiceData {
+  const [, root] = parseXmlRoot(xml);
+  const document = child(root, 'ExchangedDocument');
+  const transaction = child(root, 'SupplyChainTradeTransaction');
+  const agreement = child(transaction, 'ApplicableHeaderTradeAgreement');
+  const settlement = child(transaction, 'ApplicableHeaderTradeSettlement');
+  const summation = child(settlement, 'SpecifiedTradeSettlementHeaderMonetarySummation');
+  const currency = text(settlement, 'InvoiceCurrencyCode');
+  const typeCode = text(document, 'TypeCode');
+
+  const items = children(transaction, 'IncludedSupplyChainTradeLineItem').map(line => {
+    const price = child(line, 'SpecifiedLineTradeAgreement', 'NetPriceProductTradePrice');
+    const chargeAmount = amount(price, 'ChargeAmount');
+    const basisQuantity = amount(price, 'BasisQuantity') || 1;
+    return {
+      description: text(line, 'SpecifiedTradeProduct', 'Name') || text(line, 'SpecifiedTradeProduct', 'Description') || '',
+      quantity: amount(line, 'SpecifiedLineTradeDelivery', 'BilledQuantity'),
+      unitPrice: chargeAmount !== undefined ? chargeAmount / basisQuantity : undefined,
+      amount: amount(line, 'SpecifiedLineTradeSettlement', 'SpecifiedTradeSettlementLineMonetarySummation', 'LineTotalAmount')
+    } as InvoiceItem;
+  });
+
+  // TaxTotalAmount is repeated when the VAT is also stated in the accounting currency
+  const taxTotal = children(summation, 'TaxTotalAmount')
+    .find(taxAmount => !currency || attribute(taxAmount, 'currencyID') === undefined || attribute(taxAmount, 'currencyID') === currency);
+  const paymentTerms = children(settlement, 'SpecifiedTradePaymentTerms');
+
+  return finishImport({
+    invoiceNumber: text(document, 'ID'),
+    invoiceDate: toIsoDate(text(document, 'IssueDateTime', 'DateTimeString')),
+    dueDate: paymentTerms.map(terms => toIsoDate(text(terms, 'DueDateDateTime', 'DateTimeString'))).find(Boolean),
+    vendorName: text(agreement, 'SellerTradeParty', 'Name'),
+    vendorAddress: getCiiAddress(child(agreement, 'SellerTradeParty', 'PostalTradeAddress')),
+    customerName: text(agreement, 'BuyerTradeParty', 'Name'),
+    customerAddress: getCiiAddress(child(agreement, 'BuyerTradeParty', 'PostalTradeAddress')),
+    items,
+    subtotal: amount(summation, 'TaxBasisTotalAmount') ?? amount(summation, 'LineTotalAmount'),
+    taxAmount: toNumber(taxTotal),
+    totalAmount: amount(summation, 'GrandTotalAmount'),
+    currency,
+    paymentTerms: paymentTerms.map(terms => text(terms, 'Description')).filter(Boolean).join('; ') || undefined,
+    purchaseOrderNumber: text(agreement, 'BuyerOrderReferencedDocument', 'IssuerAssignedID')
+  }, {
+    format,
+    type: getTypeFromCode(typeCode),
+    typeCode,
+    referencedInvoiceNumber: text(settlement, 'InvoiceReferencedDocument', 'IssuerAssignedID')
+  });
+}
+
+/**
+ * Map the first ANSI X12 810 invoice of an interchange to InvoiceData
+ * @param edi The X12 interchange, or a bare ST/SE transaction set
+ * @returns The imported invoice
+ * @throws InvalidInputError if there is no 810 transaction set or it has no BIG segment
+ */
+export function importX12Invoice(edi: string): InvoiceData {
+  const segments = splitX12Segments(edi);
+  const start = segments.findIndex(segment => segment[0] === 'ST' && segment[1] === '810');
+  if (start === -1) {
+    throw new InvalidInputError('No X12 810 transaction set found');
+  }
+  const end = segments.findIndex((segment, index) => index > start && segment[0] === 'SE');
+  const transaction = segments.slice(start, end === -1 ? undefined : end + 1);
+
+  const big = transaction.find(segment => segment[0] === 'BIG');
+  if (!big) {
+    throw new InvalidInputError('X12 810 invoice has no BIG segment');
+  }
+
+  const parties = getX12Parties(transaction);
+  const seller = X12_SELLER_CODES.map(code => parties.get(code)).find(Boolean);
+  const buyer = X12_BUYER_CODES.map(code => parties.get(code)).find(Boolean);
+  const terms = transaction.find(segment => segment[0] === 'ITD');
+
+  // Line items: IT1 gives quantity and price, the PID segments after it the description
+  const items: InvoiceItem[] = [];
+  transaction.forEach((segment, index) => {
+    if (segment[0] !== 'IT1') {
+      return;
+    }
+    const quantity = toNumber(segment[2]);
+    const unitPrice = toNumber(segment[4]);
+    const descriptions: string[] = [];
+    for (let next = index + 1; next < transaction.length && transaction[next][0] === 'PID'; next++) {
+      if (transaction[next][5]) {
+        descriptions.push(transaction[next][5]);
+      }
+    }
+    items.push({
+      description: descriptions.join(' ') || getX12ProductId(segment) || '',
+      quantity,
+      unitPrice,
+      amount: quantity !== undefined && unitPrice !== undefined ? Math.round(quantity * unitPrice * 100) / 100 : undefined
+    } as InvoiceItem);
+  });
+
+  const taxAmounts = transaction
+    .filter(segment => segment[0] === 'TXI')
+    .map(segment => toNumber(segment[2]))
+    .filter((value): value is number => value !== undefined);
+  const taxAmount = taxAmounts.length > 0 ? taxAmounts.reduce((sum, value) => sum + value, 0) : undefined;
+  // SAC05 and TDS01 carry two implied decimal places
+  const charges = transaction
+    .filter(segment => segment[0] === 'SAC' && segment[5])
+    .reduce((sum, segment) => sum + (segment[1] === 'A' ? -1 : 1) * fromImpliedDecimals(segment[5]), 0);
+  const tds = transaction.find(segment => segment[0] === 'TDS');
+  const currency = transaction.find(segment => segment[0] === 'CUR')?.[2];
+  const transactionType = big[7];
+
+  return finishImport({
+    invoiceNumber: big[2],
+    invoiceDate: toIsoDate(big[1]),
+    dueDate: toIsoDate(terms?.[6]),
+    vendorName: seller?.name,
+    vendorAddress: seller?.address,
+    customerName: buyer?.name,
+    customerAddress: buyer?.address,
+    items,
+    subtotal: Math.round(items.reduce((sum, item) => sum + (item.amount || 0), 0) * 100) / 100,
+    taxAmount,
+    totalAmount: tds?.[1] ? fromImpliedDecimals(tds[1]) : undefined,
+    // X12 amounts are in US dollars unless a CUR segment says otherwise
+    currency: currency || 'USD',
+    paymentTerms: terms ? describeX12Terms(terms) : undefined,
+    purchaseOrderNumber: big[4]
+  }, {
+    format: StructuredFormat.X12_810,
+    type: X12_CREDIT_TYPES.includes(transactionType) ? InvoiceType.CREDIT_NOTE : InvoiceType.STANDARD,
+    typeCode: transactionType,
+    referencedInvoiceNumber: transaction.find(segment => segment[0] === 'REF' && segment[1] === 'OI')?.[2],
+    additionalCharges: charges
+  });
+}
+
+/**
+ * Find the CII XML embedded in a Factur-X or ZUGFeRD PDF
+ */
+function findFacturXXml(pdf: Buffer): string | undefined {
+  return extractEmbeddedFiles(pdf)
+    .map(file => file.toString('utf8'))
+    .find(content => detectStructuredFormat(content) === StructuredFormat.CII);
+}
+
+/**
+ * Attach the classification, provenance and validation report to an imported invoice
+ * Missing values stay missing, rather than being defaulted, so validation reports them.
+ */
+function finishImport(
+  fields: Partial<InvoiceData>,
+  source: { format: StructuredFormat; type: InvoiceType; typeCode?: string; referencedInvoiceNumber?: string; additionalCharges?: number }
+): InvoiceData {
+  const invoice = Object.fromEntries(
+    Object.entries(fields).filter(([, value]) => value !== undefined && value !== '')
+  ) as InvoiceData;
+  invoice.items = invoice.items || [];
+
+  invoice.classification = {
+    type: source.type,
+    confidence: IMPORT_CONFIDENCE,
+    metadata: { format: source.format, ...(source.typeCode ? { typeCode: source.typeCode } : {}) }
+  };
+  if (source.type === InvoiceType.CREDIT_NOTE) {
+    const details: CreditNoteDetails = { type: InvoiceType.CREDIT_NOTE };
+    if (source.referencedInvoiceNumber) {
+      details.referencedInvoiceNumber = source.referencedInvoiceNumber;
+    }
+    invoice.typeDetails = details;
+  }
+
+  // E-invoice credit notes state positive amounts
+  const normalizations = [...normalizePaymentTerms(invoice), ...normalizeCreditNoteSign(invoice)];
+  if (normalizations.length > 0) {
+    invoice.normalizations = normalizations;
+  }
+
+  const fieldProvenance: FieldProvenanceMap = {};
+  for (const field of INVOICE_HEADER_FIELDS) {
+    if (invoice[field] !== undefined) {
+      fieldProvenance[field] = { confidence: IMPORT_CONFIDENCE };
+    }
+  }
+  invoice.fieldProvenance = fieldProvenance;
+
+  invoice.validation = validateInvoiceData(invoice, {
+    ...getTypeValidationOptions(invoice.typeDetails),
+    ...(source.additionalCharges ? { additionalCharges: source.additionalCharges } : {})
+  });
+  return invoice;
+}
+
+function getTypeFromCode(typeCode?: string): InvoiceType {
+  if (typeCode && CREDIT_TYPE_CODES.includes(typeCode)) {
+    return InvoiceType.CREDIT_NOTE;
+  }
+  if (typeCode && PROFORMA_TYPE_CODES.includes(typeCode)) {
+    return InvoiceType.PROFORMA;
+  }
+  return InvoiceType.STANDARD;
+}
+
+/**
+ * Parse an XML document and return its root element, with namespace prefixes removed
+ */
+function parseXmlRoot(xml: string): [string, XmlNode] {
+  const parsed = xmlParser.parse(xml.replace(/^\uFEFF/, '')) as XmlNode;
+  const entry = Object.entries(parsed).find(([name, value]) => !name.startsWith('?') && isRecord(value));
+  if (!entry) {
+    throw new InvalidInputError('XML document has no root element');
+  }
+  return entry as [string, XmlNode];
+}
+
+/**
+ * Read the name of the root element without parsing the whole document
+ */
+function getXmlRootName(xml: string): string | undefined {
+  const match = xml.replace(/<\?[\s\S]*?\?>|<!--[\s\S]*?-->|<!DOCTYPE[^>]*>/g, '').match(/<(?:[\w.-]+:)?([\w.-]+)/);
+  return match?.[1];
+}
+
+/**
+ * Get all child elements with a name, whether the parser produced one or several
+ */
+function children(node: unknown, name: string): XmlNode[] {
+  if (!isRecord(node)) {
+    return [];
+  }
+  const value = node[name];
+  const values = Array.isArray(value) ? value : value === undefined ? [] : [value];
+  // Elements holding only text are plain strings; wrap them so attributes and text are read alike
+  return values.map(entry => (isRecord(entry) ? entry : { '#text': entry }));
+}
+
+/**
+ * Follow a path of element names, taking the first element at every step
+ */
+function child(node: unknown, ...path: string[]): XmlNode | undefined {
+  let current: XmlNode | undefined = isRecord(node) ? node : undefined;
+  for (const name of path) {
+    current = children(current, name)[0];
+  }
+  return current;
+}
+
+function text(node: unknown, ...path: string[]): string | undefined {
+  const element = child(node, ...path);
+  const value = element?.['#text'];
+  return typeof value === 'string' && value.trim() ? value.trim() : typeof value === 'number' ? String(value) : undefined;
+}
+
+function attribute(node: XmlNode | undefined, name: string): string | undefined {
+  const value = node?.[`@_${name}`];
+  return typeof value === 'string' ? value : undefined;
+}
+
+function amount(node: unknown, ...path: string[]): number | undefined {
+  return toNumber(text(node, ...path));
+}
+
+function toNumber(value: XmlNode | string | undefined): number | undefined {
+  const raw = isRecord(value) ? value['#text'] : value;
+  if (typeof raw !== 'string' || !raw.trim()) {
+    return undefined;
+  }
+  const number = Number(raw.trim());
+  return Number.isFinite(number) ? number : undefined;
+}
+
+/**
+ * Convert a YYYYMMDD date (CII format 102, X12 CCYYMMDD) to ISO 8601
+ */
+function toIsoDate(value?: string): string | undefined {
+  const match = value?.trim().match(/^(\d{4})-?(\d{2})-?(\d{2})/);
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : undefined;
+}
+
+function joinParts(parts: Array<string | undefined>): string | undefined {
+  return parts.filter(Boolean).join(', ') || undefined;
+}
+
+function getUblPartyName(party?: XmlNode): string | undefined {
+  return text(party, 'PartyLegalEntity', 'RegistrationName') || text(party, 'PartyName', 'Name');
+}
+
+function getUblAddress(address?: XmlNode): string | undefined {
+  return joinParts([
+    text(address, 'StreetName'),
+    text(address, 'AdditionalStreetName'),
+    ...children(address, 'AddressLine').map(line => text(line, 'Line')),
+    [text(address, 'PostalZone'), text(address, 'CityName')].filter(Boolean).join(' '),
+    text(address, 'CountrySubentity'),
+    text(address, 'Country', 'IdentificationCode')
+  ]);
+}
+
+function getCiiAddress(address?: XmlNode): string | undefined {
+  return joinParts([
+    text(address, 'LineOne'),
+    text(address, 'LineTwo'),
+    text(address, 'LineThree'),
+    [text(address, 'PostcodeCode'), text(address, 'CityName')].filter(Boolean).join(' '),
+    text(address, 'CountrySubDivisionName'),
+    text(address, 'CountryID')
+  ]);
+}
+
+/**
+ * Split an X12 interchange into segments of elements
+ * The ISA segment has a fixed width, so its 4th character is the element separator
+ * and its 106th the segment terminator; bare transaction sets use * and ~.
+ */
+function splitX12Segments(edi: string): string[][] {
+  const text = edi.trim();
+  const isInterchange = text.startsWith('ISA') && text.length > 106;
+  const elementSeparator = isInterchange ? text[3] : '*';
+  const segmentTerminator = isInterchange ? text[105] : '~';
+
+  return text
+    .split(segmentTerminator)
+    .map(segment => segment.trim())
+    .filter(Boolean)
+    .map(segment => segment.split(elementSeparator).map(element => element.trim()));
+}
+
+/**
+ * Collect the N1 party loops of a transaction with their N3 street and N4 city lines
+ */
+function getX12Parties(transaction: string[][]): Map<string, { name?: string; address?: string }> {
+  const parties = new Map<string, { name?: string; address?: string }>();
+
+  transaction.forEach((segment, index) => {
+    if (segment[0] !== 'N1' || parties.has(segment[1])) {
+      return;
+    }
+    const lines: Array<string | undefined> = [];
+    for (let next = index + 1; next < transaction.length && ['N2', 'N3', 'N4'].includes(transaction[next][0]); next++) {
+      const [id, ...elements] = transaction[next];
+      if (id === 'N3') {
+        lines.push(...elements);
+      } else if (id === 'N4') {
+        // City, state, postal code, country
+        lines.push(elements[0], [elements[1], elements[2]].filter(Boolean).join(' '), elements[3]);
+      }
+    }
+    parties.set(segment[1], { name: segment[2] || undefined, address: joinParts(lines) });
+  });
+
+  return parties;
+}
+
+/**
+ * Use the first product or service ID of an IT1 segment as the description when there is no PID
+ */
+function getX12ProductId(segment: string[]): string | undefined {
+  // IT106/IT107 are the first qualifier/ID pair
+  return segment[7] || undefined;
+}
+
+/**
+ * Describe ITD terms of sale, e.g. "2% 10 days, net 30 days"
+ */
+function describeX12Terms(terms: string[]): string | undefined {
+  // ITD12 is a free-text description
+  if (terms[12]) {
+    return terms[12];
+  }
+  const parts: string[] = [];
+  if (terms[3] && terms[5]) {
+    parts.push(`${terms[3]}% ${terms[5]} days`);
+  }
+  if (terms[7]) {
+    parts.push(`net ${terms[7]} days`);
+  }
+  return parts.join(', ') || undefined;
+}
+
+function fromImpliedDecimals(value: string): number {
+  return Number(value) / 100;
+}
@@ -0,0 +1,311 @@
+import type { DocumentStore, StoredDocument } from './documentStore';
+import { isDeliveryReceipt } from './logisticsParser';
+import { DeliveryReceiptData, InvoiceData, InvoiceItem, InvoiceType } from './types';
+import { compareStrings, normalizeCompanyName, normalizeDocumentNumber, normalizeText } from './valueUtils';
+
+// Define enum for the outcome of matching an invoice, or one of its lines, against its PO and receipts
+export enum MatchStatus {
+  MATCHED = 'matched',
+  PRICE_VARIANCE = 'price_variance', // Unit price differs from the PO beyond the tolerance
+  QUANTITY_VARIANCE = 'quantity_variance', // Billed quantity differs from the received quantity beyond the tolerance
+  MISSING_RECEIPT = 'missing_receipt', // Nothing was received for the PO or the line
+  OVER_BILLED = 'over_billed', // More billed than ordered, or billed for something not on the PO
+  MISSING_PURCHASE_ORDER = 'missing_purchase_order' // The invoice names no PO, or its PO isn't stored
+}
+
+// Define the differences accepted before a line counts as a variance
+export type MatchTolerances = {
+  unitPrice?: number; // Relative unit price difference, e.g. 0.02 for 2% (defaults to 0)
+  quantity?: number; // Relative quantity difference (defaults to 0)
+  amount?: number; // Absolute difference between invoice and PO subtotals (defaults to 0.01)
+};
+
+// Define the result of matching a single invoice line
+export type LineMatch = {
+  line: number; // 0-based index of the invoice item
+  description: string;
+  status: MatchStatus; // Most serious finding of the line
+  findings: string[]; // Every variance found, in plain words
+  purchaseOrderLine?: number; // 0-based index of the matching PO item
+  invoicedQuantity: number;
+  orderedQuantity?: number;
+  receivedQuantity?: number; // Delivered over all linked receipts; undefined when there are none
+  invoicedUnitPrice: number;
+  orderedUnitPrice?: number;
+};
+
+// Define the match report of an invoice
+export type MatchReport = {
+  status: MatchStatus; // Most serious finding of the invoice and its lines
+  findings: string[]; // Findings about the invoice as a whole
+  invoiceNumber: string;
+  purchaseOrderNumber?: string;
+  purchaseOrderId?: string; // Stored documents the invoice was matched against
+  receiptIds: string[];
+  invoiceSubtotal: number;
+  purchaseOrderSubtotal?: number;
+  lines: LineMatch[];
+  tolerances: Required<MatchTolerances>;
+};
+
+// Define the documents an invoice is matched against
+export type MatchDocuments = {
+  purchaseOrder?: InvoiceData;
+  receipts: DeliveryReceiptData[];
+};
+
+const DEFAULT_TOLERANCES: Required<MatchTolerances> = {
+  unitPrice: 0,
+  quantity: 0,
+  amount: 0.01
+};
+
+// Statuses from most to least serious
+const STATUS_SEVERITY = [
+  MatchStatus.MISSING_PURCHASE_ORDER,
+  MatchStatus.OVER_BILLED,
+  MatchStatus.MISSING_RECEIPT,
+  MatchStatus.QUANTITY_VARIANCE,
+  MatchStatus.PRICE_VARIANCE,
+  MatchStatus.MATCHED
+];
+
+// Item descriptions at least this similar are taken to be the same item
+const DESCRIPTION_SIMILARITY_THRESHOLD = 0.7;
+
+// Vendor names at least this similar count as the same vendor
+const VENDOR_SIMILARITY_THRESHOLD = 0.8;
+
+// Allowance for floating point noise when comparing quantities and prices
+const EPSILON = 1e-6;
+
+/**
+ * Match an invoice against its stored purchase order and delivery receipts
+ * The PO is found by the invoice's purchaseOrderNumber and vendor, the receipts by the PO number they carry.
+ * @param invoice The parsed invoice
+ * @param store The document store holding the POs and receipts
+ * @param tolerances Differences accepted before a line counts as a variance
+ * @returns The match report, with the IDs of the documents matched against
+ */
+export function matchStoredInvoice(invoice: InvoiceData, store: DocumentStore, tolerances: MatchTolerances = {}): MatchReport {
+  const { purchaseOrder, receipts } = findMatchingDocuments(invoice, store.all());
+  const report = matchInvoice(invoice, {
+    purchaseOrder: purchaseOrder?.data as InvoiceData | undefined,
+    receipts: receipts.map(receipt => receipt.data as DeliveryReceiptData)
+  }, tolerances);
+
+  return {
+    ...report,
+    ...(purchaseOrder ? { purchaseOrderId: purchaseOrder.id } : {}),
+    receiptIds: receipts.map(receipt => receipt.id)
+  };
+}
+
+/**
+ * Find the purchase order and delivery receipts of an invoice among stored documents
+ * @param invoice The parsed invoice
+ * @param documents Stored documents to search
+ * @returns The newest PO with the invoice's PO number and vendor, and the receipts for that PO
+ */
+export function findMatchingDocuments(
+  invoice: InvoiceData,
+  documents: StoredDocument[]
+): { purchaseOrder?: StoredDocument; receipts: StoredDocument[] } {
+  const poNumber = normalizeDocumentNumber(invoice.purchaseOrderNumber);
+  if (!poNumber) {
+    return { receipts: [] };
+  }
+
+  const vendor = normalizeCompanyName(invoice.vendorName);
+  const newestFirst = [...documents].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+  const purchaseOrder = newestFirst.find(document => {
+    if (document.documentType !== InvoiceType.PURCHASE_ORDER || 'documentType' in document.data) {
+      return false;
+    }
+    // An unreadable vendor on either side doesn't rule the PO out
+    const poVendor = normalizeCompanyName(document.data.vendorName);
+    return normalizeDocumentNumber(document.data.invoiceNumber) === poNumber
+      && (!vendor || !poVendor || compareStrings(vendor, poVendor) >= VENDOR_SIMILARITY_THRESHOLD);
+  });
+
+  const receipts = newestFirst.filter(document => isDeliveryReceipt(document.data)
+    && normalizeDocumentNumber(document.data.purchaseOrderNumber) === poNumber);
+
+  return { purchaseOrder, receipts };
+}
+
+/**
+ * Reconcile an invoice line by line with its purchase order and delivery receipts
+ * Invoice lines are paired with PO lines and receipt lines by their description. Billed quantities are
+ * compared with what was ordered and received, unit prices with the PO.
+ * @param invoice The parsed invoice
+ * @param documents The PO and receipts to match against
+ * @param tolerances Differences accepted before a line counts as a variance
+ * @returns The match report
+ */
+export function matchInvoice(invoice: InvoiceData, documents: MatchDocuments, tolerances: MatchTolerances = {}): MatchReport {
+  const limits = { ...DEFAULT_TOLERANCES, ...tolerances };
+  const { purchaseOrder, receipts } = documents;
+  const items = invoice.items || [];
+  const invoiceSubtotal = invoice.subtotal ?? sumItems(items);
+
+  const report: MatchReport = {
+    status: MatchStatus.MATCHED,
+    findings: [],
+    invoiceNumber: invoice.invoiceNumber,
+    ...(invoice.purchaseOrderNumber ? { purchaseOrderNumber: invoice.purchaseOrderNumber } : {}),
+    receiptIds: [],
+    invoiceSubtotal,
+    lines: [],
+    tolerances: limits
+  };
+
+  if (!purchaseOrder) {
+    report.status = MatchStatus.MISSING_PURCHASE_ORDER;
+    report.findings.push(invoice.purchaseOrderNumber
+      ? `Purchase order ${invoice.purchaseOrderNumber} was not found`
+      : 'The invoice does not reference a purchase order');
+    return report;
+  }
+
+  const statuses: MatchStatus[] = [];
+  report.purchaseOrderSubtotal = purchaseOrder.subtotal ?? sumItems(purchaseOrder.items || []);
+
+  if (purchaseOrder.currency && invoice.currency && purchaseOrder.currency !== invoice.currency) {
+    statuses.push(MatchStatus.PRICE_VARIANCE);
+    report.findings.push(`Invoice is in ${invoice.currency}, the purchase order in ${purchaseOrder.currency}`);
+  }
+  if (invoiceSubtotal - report.purchaseOrderSubtotal > limits.amount + EPSILON) {
+    statuses.push(MatchStatus.OVER_BILLED);
+    report.findings.push(`Invoice subtotal ${invoiceSubtotal.toFixed(2)} exceeds the purchase order subtotal ${report.purchaseOrderSubtotal.toFixed(2)}`);
+  }
+  if (receipts.length === 0) {
+    statuses.push(MatchStatus.MISSING_RECEIPT);
+    report.findings.push('No delivery receipt was found for the purchase order');
+  }
+
+  // Delivered quantities per PO line, over all receipts
+  const poItems = purchaseOrder.items || [];
+  const received = poItems.map(() => 0);
+  for (const receipt of receipts) {
+    for (const receiptItem of receipt.items) {
+      const poLine = findBestMatch(receiptItem.description, poItems.map(item => item.description));
+      if (poLine !== undefined) {
+        received[poLine] += receiptItem.deliveredQuantity ?? receiptItem.expectedQuantity ?? 0;
+      }
+    }
+  }
+
+  // Each PO line pays for one invoice line at most
+  const unpaired = poItems.map(item => item.description);
+  report.lines = items.map((item, line) => {
+    const poLine = findBestMatch(item.description, unpaired);
+    if (poLine !== undefined) {
+      unpaired[poLine] = '';
+    }
+    return matchLine(item, line, poLine, poLine !== undefined ? poItems[poLine] : undefined,
+      receipts.length > 0 && poLine !== undefined ? received[poLine] : undefined, limits);
+  });
+
+  statuses.push(...report.lines.map(line => line.status));
+  report.status = worstStatus(statuses);
+  return report;
+}
+
+/**
+ * Compare one invoice line with its PO line and the quantity received for it
+ */
+function matchLine(
+  item: InvoiceItem,
+  line: number,
+  poLine: number | undefined,
+  poItem: InvoiceItem | undefined,
+  receivedQuantity: number | undefined,
+  limits: Required<MatchTolerances>
+): LineMatch {
+  const result: LineMatch = {
+    line,
+    description: item.description,
+    status: MatchStatus.MATCHED,
+    findings: [],
+    invoicedQuantity: item.quantity,
+    invoicedUnitPrice: item.unitPrice
+  };
+
+  if (poLine === undefined || !poItem) {
+    result.status = MatchStatus.OVER_BILLED;
+    result.findings.push('Item is not on the purchase order');
+    return result;
+  }
+
+  Object.assign(result, {
+    purchaseOrderLine: poLine,
+    orderedQuantity: poItem.quantity,
+    ...(receivedQuantity !== undefined ? { receivedQuantity } : {}),
+    orderedUnitPrice: poItem.unitPrice
+  });
+  const statuses: MatchStatus[] = [];
+
+  if (exceeds(item.quantity, poItem.quantity, limits.quantity)) {
+    statuses.push(MatchStatus.OVER_BILLED);
+    result.findings.push(`Billed ${formatNumber(item.quantity)}, ordered ${formatNumber(poItem.quantity)}`);
+  }
+
+  if (receivedQuantity === undefined || receivedQuantity === 0) {
+    statuses.push(MatchStatus.MISSING_RECEIPT);
+    result.findings.push('No delivery was recorded for this item');
+  } else if (exceeds(item.quantity, receivedQuantity, limits.quantity) || exceeds(receivedQuantity, item.quantity, limits.quantity)) {
+    statuses.push(MatchStatus.QUANTITY_VARIANCE);
+    result.findings.push(`Billed ${formatNumber(item.quantity)}, received ${formatNumber(receivedQuantity)}`);
+  }
+
+  if (exceeds(item.unitPrice, poItem.unitPrice, limits.unitPrice) || exceeds(poItem.unitPrice, item.unitPrice, limits.unitPrice)) {
+    statuses.push(MatchStatus.PRICE_VARIANCE);
+    result.findings.push(`Unit price ${item.unitPrice.toFixed(2)}, ordered at ${poItem.unitPrice.toFixed(2)}`);
+  }
+
+  result.status = worstStatus(statuses);
+  return result;
+}
+
+/**
+ * Find the description most similar to the given one
+ * @returns Index of the best match, or undefined if none is similar enough
+ */
+function findBestMatch(description: string, candidates: string[]): number | undefined {
+  const normalized = normalizeText(description);
+  let best: number | undefined;
+  let bestSimilarity = DESCRIPTION_SIMILARITY_THRESHOLD;
+
+  candidates.forEach((candidate, index) => {
+    const similarity = candidate ? compareStrings(normalized, normalizeText(candidate)) : 0;
+    if (similarity >= bestSimilarity && (best === undefined || similarity > bestSimilarity)) {
+      best = index;
+      bestSimilarity = similarity;
+    }
+  });
+  return best;
+}
+
+/**
+ * Check whether a value is larger than a reference by more than the relative tolerance
+ */
+function exceeds(value: number, reference: number, tolerance: number): boolean {
+  return value - reference > Math.abs(reference) * tolerance + EPSILON;
+}
+
+/**
+ * Pick the most serious status, MATCHED if there is none
+ */
+function worstStatus(statuses: MatchStatus[]): MatchStatus {
+  return STATUS_SEVERITY.find(status => statuses.includes(status)) || MatchStatus.MATCHED;
+}
+
+function sumItems(items: InvoiceItem[]): number {
+  return Math.round(items.reduce((sum, item) => sum + (item.amount || 0), 0) * 100) / 100;
+}
+
+function formatNumber(value: number): string {
+  return Number.isInteger(value) ? String(value) : value.toFixed(2);
+}
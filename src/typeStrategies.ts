@@ -0,0 +1,209 @@
+import {
+  CreditNoteDetails,
+  InvoiceData,
+  InvoiceType,
+  InvoiceTypeDetails,
+  ProformaDetails,
+  PurchaseOrderDetails,
+  ReceiptDetails
+} from './types';
+import { ValidationCode, ValidationIssue, ValidationOptions, ValidationSeverity } from './validation';
+import { asNumber, asString, isRecord } from './valueUtils';
+
+// Define the structure of a type-specific parsing strategy
+type TypeStrategy<T extends InvoiceTypeDetails> = {
+  prompt: string; // Guidance appended to the extraction prompt, including the typeDetails structure
+  parseDetails(raw: Record<string, unknown>): T;
+  validationOptions(details: T): Pick<ValidationOptions, 'additionalCharges' | 'checks'>;
+};
+
+type TypeStrategies = {
+  [K in InvoiceTypeDetails['type']]: TypeStrategy<Extract<InvoiceTypeDetails, { type: K }>>;
+};
+
+const TYPE_STRATEGIES: TypeStrategies = {
+  [InvoiceType.PURCHASE_ORDER]: {
+    prompt: `This purchase order is issued by the buyer to the supplier. Use the PO number as invoiceNumber, the supplier as vendorName and the buyer as customerName.
+Also include a "typeDetails" object: { "shipToAddress": string (optional), "requestedDeliveryDate": string (optional) }.`,
+    parseDetails: (raw): PurchaseOrderDetails => ({
+      type: InvoiceType.PURCHASE_ORDER,
+      shipToAddress: asString(raw.shipToAddress),
+      requestedDeliveryDate: asString(raw.requestedDeliveryDate)
+    }),
+    validationOptions: details => ({
+      checks: [invoice => [
+        ...requireDetail(details.shipToAddress, 'shipToAddress', 'Purchase order has no ship-to address'),
+        ...checkDeliveryDate(invoice, details.requestedDeliveryDate)
+      ]]
+    })
+  },
+  [InvoiceType.RECEIPT]: {
+    prompt: `This payment receipt records a completed purchase. Use the transaction number as invoiceNumber and the store as vendorName.
+Also include a "typeDetails" object: { "transactionId": string, "transactionTime": string (optional, as printed), "paymentMethod": string (optional, never include more than the last four digits of a card or account number) }.`,
+    parseDetails: (raw): ReceiptDetails => {
+      const paymentMethod = asString(raw.paymentMethod);
+      return {
+        type: InvoiceType.RECEIPT,
+        transactionId: asString(raw.transactionId),
+        transactionTime: asString(raw.transactionTime),
+        paymentMethod: paymentMethod && maskPaymentMethod(paymentMethod)
+      };
+    },
+    validationOptions: details => ({
+      checks: [() => [
+        ...requireDetail(details.transactionId, 'transactionId', 'Receipt has no transaction ID')
+      ]]
+    })
+  },
+  [InvoiceType.PROFORMA]: {
+    prompt: `This proforma invoice is a quote, not a demand for payment. Use its reference as invoiceNumber. Keep shipping and insurance out of items and subtotal.
+Also include a "typeDetails" object: { "shippingAmount": number (optional), "insuranceAmount": number (optional), "advancePaymentTerms": string (optional), "notTaxInvoice": boolean (true if the document states it is not a tax invoice) }.`,
+    parseDetails: (raw): ProformaDetails => ({
+      type: InvoiceType.PROFORMA,
+      shippingAmount: asNumber(raw.shippingAmount),
+      insuranceAmount: asNumber(raw.insuranceAmount),
+      advancePaymentTerms: asString(raw.advancePaymentTerms),
+      notTaxInvoice: raw.notTaxInvoice === true
+    }),
+    validationOptions: details => ({
+      // Shipping and insurance are part of the proforma total
+      additionalCharges: (details.shippingAmount || 0) + (details.insuranceAmount || 0),
+      checks: [invoice => (details.notTaxInvoice && (invoice.taxAmount || 0) > 0
+        ? [{
+          code: ValidationCode.INCONSISTENT_TYPE_FIELD,
+          severity: ValidationSeverity.WARNING,
+          field: 'taxAmount',
+          message: 'Proforma states it is not a tax invoice but has a tax amount',
+          actual: invoice.taxAmount
+        }]
+        : [])]
+    })
+  },
+  [InvoiceType.CREDIT_NOTE]: {
+    prompt: `This credit note reduces or refunds an earlier invoice. Use the credit note number as invoiceNumber and report amounts as positive numbers.
+Also include a "typeDetails" object: { "referencedInvoiceNumber": string (optional), "reason": string (optional) }.`,
+    parseDetails: (raw): CreditNoteDetails => ({
+      type: InvoiceType.CREDIT_NOTE,
+      referencedInvoiceNumber: asString(raw.referencedInvoiceNumber),
+      reason: asString(raw.reason)
+    }),
+    validationOptions: details => ({
+      checks: [invoice => [
+        ...requireDetail(details.referencedInvoiceNumber, 'referencedInvoiceNumber', 'Credit note does not reference an invoice'),
+        ...requireDetail(details.reason, 'reason', 'Credit note gives no reason', ValidationSeverity.INFO),
+        ...(details.referencedInvoiceNumber && details.referencedInvoiceNumber === invoice.invoiceNumber
+          ? [{
+            code: ValidationCode.INCONSISTENT_TYPE_FIELD,
+            severity: ValidationSeverity.ERROR,
+            field: 'typeDetails.referencedInvoiceNumber',
+            message: 'Credit note references its own number',
+            actual: details.referencedInvoiceNumber
+          }]
+          : [])
+      ]]
+    })
+  }
+};
+
+/**
+ * Check whether a document type has its own parsing strategy
+ * @param type The classified document type
+ * @returns True for types with type-specific fields
+ */
+export function hasTypeStrategy(type: InvoiceType): type is InvoiceTypeDetails['type'] {
+  return type in TYPE_STRATEGIES;
+}
+
+/**
+ * Get the extraction prompt guidance for a document type
+ * @param type The classified document type
+ * @returns Prompt text, empty for types without specific fields
+ */
+export function getTypePrompt(type: InvoiceType): string {
+  return hasTypeStrategy(type) ? TYPE_STRATEGIES[type].prompt : '';
+}
+
+/**
+ * Remove the typeDetails object from a raw extraction result and parse it for the given type
+ * @param raw The parsed model response, modified in place
+ * @param type The classified document type
+ * @returns Typed details, or undefined for types without specific fields
+ */
+export function takeTypeDetails(raw: Record<string, unknown>, type: InvoiceType): InvoiceTypeDetails | undefined {
+  const details = raw.typeDetails;
+  delete raw.typeDetails;
+
+  if (!hasTypeStrategy(type)) {
+    return undefined;
+  }
+  const strategy: TypeStrategy<InvoiceTypeDetails> = TYPE_STRATEGIES[type] as TypeStrategy<InvoiceTypeDetails>;
+  return strategy.parseDetails(isRecord(details) ? details : {});
+}
+
+/**
+ * Get the validation options for an invoice's type-specific details
+ * @param details The invoice's typeDetails
+ * @returns Extra charges and checks to pass to the validation engine
+ */
+export function getTypeValidationOptions(details?: InvoiceTypeDetails): Pick<ValidationOptions, 'additionalCharges' | 'checks'> {
+  if (!details) {
+    return {};
+  }
+  const strategy = TYPE_STRATEGIES[details.type] as TypeStrategy<InvoiceTypeDetails>;
+  return strategy.validationOptions(details);
+}
+
+/**
+ * Mask card and account numbers down to their last four digits
+ * @param paymentMethod Payment method as printed, e.g. 'VISA 4111 1111 1111 4321'
+ * @returns Masked payment method, e.g. 'VISA ****4321'
+ */
+export function maskPaymentMethod(paymentMethod: string): string {
+  return paymentMethod.replace(/\d(?:[ -]?\d){7,}/g, digits => `****${digits.replace(/\D/g, '').slice(-4)}`);
+}
+
+/**
+ * Report a missing type-specific field
+ */
+function requireDetail(
+  value: string | undefined,
+  field: string,
+  message: string,
+  severity = ValidationSeverity.WARNING
+): ValidationIssue[] {
+  return value ? [] : [{ code: ValidationCode.MISSING_TYPE_FIELD, severity, field: `typeDetails.${field}`, message }];
+}
+
+/**
+ * Check that a requested delivery date is a valid date on or after the order date
+ */
+function checkDeliveryDate(invoice: InvoiceData, requestedDeliveryDate?: string): ValidationIssue[] {
+  if (!requestedDeliveryDate) {
+    return [];
+  }
+
+  const field = 'typeDetails.requestedDeliveryDate';
+  const delivery = Date.parse(requestedDeliveryDate);
+  if (Number.isNaN(delivery)) {
+    return [{
+      code: ValidationCode.INVALID_DATE,
+      severity: ValidationSeverity.ERROR,
+      field,
+      message: 'Requested delivery date is not a valid date',
+      actual: requestedDeliveryDate
+    }];
+  }
+
+  const ordered = Date.parse(invoice.invoiceDate);
+  if (!Number.isNaN(ordered) && delivery < ordered) {
+    return [{
+      code: ValidationCode.INCONSISTENT_TYPE_FIELD,
+      severity: ValidationSeverity.ERROR,
+      field,
+      message: 'Requested delivery date is before the order date',
+      expected: `on or after ${invoice.invoiceDate}`,
+      actual: requestedDeliveryDate
+    }];
+  }
+  return [];
+}
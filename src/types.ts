@@ -0,0 +1,176 @@
+import type { FieldProvenance, FieldProvenanceMap } from './provenance';
+import type { Normalization } from './normalization';
+import type { ValidationReport } from './validation';
+import type { PossibleDuplicate } from './duplicateDetection';
+import type { CreditApplication } from './vendorLedger';
+import type { PaymentSchedule } from './paymentTerms';
+
+// Define enum for invoice types
+export enum InvoiceType {
+  STANDARD = 'standard',
+  PURCHASE_ORDER = 'purchase_order',
+  RECEIPT = 'receipt',
+  PROFORMA = 'proforma',
+  CREDIT_NOTE = 'credit_note',
+  UNKNOWN = 'unknown'
+}
+
+// Define the structure for invoice classification result
+export type InvoiceClassification = {
+  type: InvoiceType; // The document type identified by the classifier
+  confidence: number; // 0-1 confidence score
+  possibleTypes?: InvoiceType[]; // Other possible types with lower confidence
+  metadata?: Record<string, any>; // Additional classification metadata
+};
+
+// Define the structure for parsed invoice data
+export type InvoiceData = {
+  invoiceNumber: string;
+  invoiceDate: string;
+  dueDate?: string;
+  vendorName: string;
+  vendorAddress?: string;
+  customerName?: string;
+  customerAddress?: string;
+  items: InvoiceItem[];
+  subtotal: number;
+  taxAmount?: number;
+  totalAmount: number;
+  currency: string;
+  paymentTerms?: string;
+  paymentSchedule?: PaymentSchedule; // Payments, due dates and early-payment discount read from the payment terms
+  purchaseOrderNumber?: string; // The buyer's PO number the invoice bills against
+  classification?: InvoiceClassification; // Classification information
+  validation?: ValidationReport; // Arithmetic and completeness checks of the extracted data
+  fieldProvenance?: FieldProvenanceMap; // Confidence and input location of each extracted header field
+  repairRounds?: number; // Times the model was asked to fix a response that didn't match its schema, missing if none
+  typeDetails?: InvoiceTypeDetails; // Fields specific to the classified document type
+  normalizations?: Normalization[]; // Date, amount and currency rewrites applied after extraction
+  possibleDuplicates?: PossibleDuplicate[]; // Earlier parsed invoices that may be the same invoice
+  creditApplication?: CreditApplication; // Credit notes: how the credit was applied to the referenced invoice
+};
+
+// Define the structure for individual line items
+export type InvoiceItem = {
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  amount: number;
+  page?: number; // 1-based page the item was read from, for invoices assembled from several pages
+  provenance?: FieldProvenance; // Confidence and input location of the line item
+};
+
+// Define the fields specific to purchase orders
+export type PurchaseOrderDetails = {
+  type: InvoiceType.PURCHASE_ORDER;
+  shipToAddress?: string;
+  requestedDeliveryDate?: string;
+};
+
+// Define the fields specific to payment receipts
+export type ReceiptDetails = {
+  type: InvoiceType.RECEIPT;
+  transactionId?: string;
+  transactionTime?: string;
+  paymentMethod?: string; // Card and account numbers are masked to their last four digits
+};
+
+// Define the fields specific to proforma invoices
+export type ProformaDetails = {
+  type: InvoiceType.PROFORMA;
+  shippingAmount?: number;
+  insuranceAmount?: number;
+  advancePaymentTerms?: string;
+  notTaxInvoice: boolean; // The document states it is not a tax invoice
+};
+
+// Define the fields specific to credit notes
+export type CreditNoteDetails = {
+  type: InvoiceType.CREDIT_NOTE;
+  referencedInvoiceNumber?: string;
+  reason?: string;
+};
+
+// Type-specific fields, discriminated by the document type
+export type InvoiceTypeDetails =
+  | PurchaseOrderDetails
+  | ReceiptDetails
+  | ProformaDetails
+  | CreditNoteDetails;
+
+// Define enum for logistics documents handled alongside invoices
+export enum LogisticsDocumentType {
+  BILL_OF_LADING = 'BILL_OF_LADING',
+  DELIVERY_RECEIPT = 'DELIVERY_RECEIPT'
+}
+
+// Define the structure for a party on a logistics document
+export type LogisticsParty = {
+  name?: string;
+  address?: string;
+  phone?: string;
+};
+
+// Define the structure for a group of handling units on a bill of lading
+export type HandlingUnit = {
+  quantity?: number;
+  packageType?: string; // e.g. pallet, carton, drum
+  description?: string;
+  weight?: number;
+  freightClass?: string; // NMFC freight class, e.g. '70'
+  hazmat: boolean;
+};
+
+// Define the structure for parsed bill of lading data
+export type BillOfLadingData = {
+  documentType: LogisticsDocumentType.BILL_OF_LADING;
+  bolNumber?: string;
+  proNumber?: string; // Carrier's progressive (tracking) number
+  shipDate?: string;
+  shipper: LogisticsParty;
+  consignee: LogisticsParty;
+  carrier: LogisticsParty & { scac?: string; driverName?: string; vehicleId?: string };
+  handlingUnits: HandlingUnit[];
+  totalHandlingUnits?: number;
+  totalWeight?: number;
+  weightUnit?: 'lb' | 'kg';
+  freightClass?: string;
+  hazmat: boolean; // True if any handling unit is hazardous
+  specialInstructions?: string;
+  repairRounds?: number; // Times the model was asked to fix a response that didn't match its schema, missing if none
+};
+
+// Define the structure for a delivery exception such as damage or a shortage
+export type DeliveryException = {
+  kind: 'damage' | 'shortage' | 'overage' | 'refused' | 'other';
+  description: string;
+  itemDescription?: string;
+  quantity?: number;
+};
+
+// Define the structure for a delivered line on a delivery receipt
+export type DeliveryReceiptItem = {
+  description: string;
+  expectedQuantity?: number;
+  deliveredQuantity?: number;
+};
+
+// Define the structure for parsed delivery receipt data
+export type DeliveryReceiptData = {
+  documentType: LogisticsDocumentType.DELIVERY_RECEIPT;
+  receiptNumber?: string;
+  orderNumber?: string;
+  purchaseOrderNumber?: string;
+  shipper: LogisticsParty;
+  consignee: LogisticsParty;
+  signerName?: string;
+  deliveredAt?: string; // Delivery timestamp as printed or signed
+  items: DeliveryReceiptItem[];
+  totalPiecesExpected?: number;
+  totalPiecesDelivered?: number;
+  exceptions: DeliveryException[];
+  repairRounds?: number; // Times the model was asked to fix a response that didn't match its schema, missing if none
+};
+
+// Parsed data of any document handled by the document parser
+export type ParsedDocumentData = InvoiceData | BillOfLadingData | DeliveryReceiptData;
@@ -0,0 +1,388 @@
+import { detectCountry } from './normalization';
+import { InvoiceData, InvoiceItem, InvoiceType } from './types';
+import { asNumber } from './valueUtils';
+
+// Define enum for the UBL documents an invoice can be exported as
+export enum UblDocumentType {
+  INVOICE = 'Invoice',
+  CREDIT_NOTE = 'CreditNote'
+}
+
+// Define the structure for a mandatory business term that is missing or unusable
+export type MissingBusinessTerm = {
+  term: string; // EN 16931 business term or group, e.g. 'BT-1'
+  name: string;
+  field: string; // InvoiceData field or export option the term is taken from
+  message: string;
+};
+
+// Details that Peppol requires but that are not printed on most invoices
+export type UblExportOptions = {
+  sellerEndpoint?: string; // Peppol participant identifier of the seller (BT-34), e.g. '0088:7300010000001'
+  buyerEndpoint?: string; // Peppol participant identifier of the buyer (BT-49)
+  buyerReference?: string; // Reference given by the buyer (BT-10)
+  orderReference?: string; // Purchase order number (BT-13), accepted instead of the buyer reference; defaults to the invoice's purchaseOrderNumber
+  sellerVatId?: string; // Seller VAT identifier (BT-31), e.g. 'GB123456789'
+  buyerVatId?: string; // Buyer VAT identifier (BT-48)
+  sellerCountryCode?: string; // ISO 3166-1 alpha-2 (BT-40), detected from the vendor address when absent
+  buyerCountryCode?: string; // ISO 3166-1 alpha-2 (BT-55), detected from the customer address when absent
+};
+
+// Define the structure for the outcome of an export
+export type UblExportResult = {
+  documentType: UblDocumentType;
+  xml?: string; // Only set when no mandatory business term is missing
+  missingTerms: MissingBusinessTerm[];
+};
+
+const CUSTOMIZATION_ID = 'urn:cen.eu:en16931:2017#compliant#urn:fdc:peppol.eu:2017:poacc:billing:3.0';
+const PROFILE_ID = 'urn:fdc:peppol.eu:2017:poacc:billing:01:1.0';
+
+const NAMESPACES = {
+  [UblDocumentType.INVOICE]: 'urn:oasis:names:specification:ubl:schema:xsd:Invoice-2',
+  [UblDocumentType.CREDIT_NOTE]: 'urn:oasis:names:specification:ubl:schema:xsd:CreditNote-2',
+  cac: 'urn:oasis:names:specification:ubl:schema:xsd:CommonAggregateComponents-2',
+  cbc: 'urn:oasis:names:specification:ubl:schema:xsd:CommonBasicComponents-2'
+};
+
+// UNTDID 1001 document type codes
+const TYPE_CODES = {
+  [UblDocumentType.INVOICE]: '380', // Commercial invoice
+  [UblDocumentType.CREDIT_NOTE]: '381' // Credit note
+};
+
+// UN/ECE Recommendation 20 unit code for "one", used as no unit of measure is extracted
+const UNIT_CODE = 'C62';
+
+// Absolute tolerance for amount comparisons
+const TOLERANCE = 0.01;
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const PARTICIPANT_ID_PATTERN = /^(\d{4}):(\S+)$/;
+
+// Define the structure for an XML element before serialization
+type XmlElement = {
+  name: string;
+  attributes?: Record<string, string>;
+  content: string | Array<XmlElement | undefined>; // Undefined children are left out
+};
+
+/**
+ * Get the UBL document an invoice is exported as
+ * @param invoice The parsed invoice
+ * @returns CreditNote for credit notes, Invoice for everything else
+ */
+export function getUblDocumentType(invoice: InvoiceData): UblDocumentType {
+  return invoice.classification?.type === InvoiceType.CREDIT_NOTE
+    ? UblDocumentType.CREDIT_NOTE
+    : UblDocumentType.INVOICE;
+}
+
+/**
+ * Find the business terms Peppol BIS Billing 3.0 requires that the invoice and options don't provide
+ * Fields the parser filled with defaults count as missing, as do totals that don't add up.
+ * @param invoice The parsed invoice
+ * @param options Peppol details not found on the invoice
+ * @returns The missing terms, empty if the invoice can be exported
+ */
+export function findMissingBusinessTerms(invoice: InvoiceData, options: UblExportOptions = {}): MissingBusinessTerm[] {
+  const missing: MissingBusinessTerm[] = [];
+  const defaulted = invoice.validation?.defaultedFields || [];
+  const report = (term: string, name: string, field: string, message: string) => {
+    missing.push({ term, name, field, message });
+  };
+  const requireText = (term: string, name: string, field: string, value: unknown) => {
+    if (typeof value !== 'string' || !value.trim()) {
+      report(term, name, field, `${name} is missing`);
+    } else if (defaulted.includes(field)) {
+      report(term, name, field, `${name} was not found on the invoice and only holds a default`);
+    }
+  };
+
+  requireText('BT-1', 'Invoice number', 'invoiceNumber', invoice.invoiceNumber);
+  requireText('BT-2', 'Issue date', 'invoiceDate', invoice.invoiceDate);
+  if (invoice.invoiceDate && !ISO_DATE_PATTERN.test(invoice.invoiceDate)) {
+    report('BT-2', 'Issue date', 'invoiceDate', `Issue date "${invoice.invoiceDate}" is not a YYYY-MM-DD date`);
+  }
+  requireText('BT-5', 'Invoice currency code', 'currency', invoice.currency);
+  if (invoice.currency && !/^[A-Z]{3}$/.test(invoice.currency)) {
+    report('BT-5', 'Invoice currency code', 'currency', `Currency "${invoice.currency}" is not an ISO 4217 code`);
+  }
+  if (invoice.dueDate && !ISO_DATE_PATTERN.test(invoice.dueDate)) {
+    report('BT-9', 'Payment due date', 'dueDate', `Due date "${invoice.dueDate}" is not a YYYY-MM-DD date`);
+  }
+  if (!options.buyerReference && !options.orderReference && !invoice.purchaseOrderNumber) {
+    report('BT-10', 'Buyer reference', 'buyerReference', 'A buyer reference or purchase order reference (BT-13) is required');
+  }
+
+  // Seller
+  requireText('BT-27', 'Seller name', 'vendorName', invoice.vendorName);
+  requireText('BT-31', 'Seller VAT identifier', 'sellerVatId', options.sellerVatId);
+  requireParticipantId(report, 'BT-34', 'Seller electronic address', 'sellerEndpoint', options.sellerEndpoint);
+  requireCountry(report, 'BT-40', 'Seller country code', 'sellerCountryCode', options.sellerCountryCode, invoice.vendorAddress);
+
+  // Buyer
+  requireText('BT-44', 'Buyer name', 'customerName', invoice.customerName);
+  requireParticipantId(report, 'BT-49', 'Buyer electronic address', 'buyerEndpoint', options.buyerEndpoint);
+  requireCountry(report, 'BT-55', 'Buyer country code', 'buyerCountryCode', options.buyerCountryCode, invoice.customerAddress);
+
+  // Lines; credit notes may carry negative amounts, which are written as positive values
+  const amountOf = getUblDocumentType(invoice) === UblDocumentType.CREDIT_NOTE ? Math.abs : (value: number) => value;
+  const items = invoice.items || [];
+  if (items.length === 0) {
+    report('BG-25', 'Invoice line', 'items', 'At least one invoice line is required');
+  }
+  items.forEach((item, index) => {
+    const field = `items[${index}]`;
+    requireText('BT-153', 'Item name', `${field}.description`, item.description);
+    if (asNumber(item.quantity) === undefined) {
+      report('BT-129', 'Invoiced quantity', `${field}.quantity`, `Line ${index + 1} has no quantity`);
+    }
+    if (asNumber(item.unitPrice) === undefined) {
+      report('BT-146', 'Item net price', `${field}.unitPrice`, `Line ${index + 1} has no unit price`);
+    } else if (amountOf(item.unitPrice) < 0) {
+      report('BT-146', 'Item net price', `${field}.unitPrice`, `Line ${index + 1} has a negative unit price`);
+    }
+    if (asNumber(item.amount) === undefined) {
+      report('BT-131', 'Invoice line net amount', `${field}.amount`, `Line ${index + 1} has no net amount`);
+    } else if (
+      asNumber(item.quantity) !== undefined && asNumber(item.unitPrice) !== undefined &&
+      !amountsMatch(amountOf(item.quantity) * amountOf(item.unitPrice), amountOf(item.amount))
+    ) {
+      report('BT-131', 'Invoice line net amount', `${field}.amount`, `Line ${index + 1}: quantity × price does not equal the net amount`);
+    }
+  });
+
+  // Totals
+  if (asNumber(invoice.subtotal) === undefined) {
+    report('BT-109', 'Invoice total amount without VAT', 'subtotal', 'Invoice total amount without VAT is missing');
+  } else if (items.every(item => asNumber(item.amount) !== undefined) && !amountsMatch(sumLines(items), invoice.subtotal)) {
+    report('BT-109', 'Invoice total amount without VAT', 'subtotal', 'The line net amounts do not add up to the total without VAT');
+  }
+  if (asNumber(invoice.totalAmount) === undefined) {
+    report('BT-112', 'Invoice total amount with VAT', 'totalAmount', 'Invoice total amount with VAT is missing');
+  } else if (
+    asNumber(invoice.subtotal) !== undefined &&
+    !amountsMatch(invoice.subtotal + (invoice.taxAmount || 0), invoice.totalAmount)
+  ) {
+    report('BT-112', 'Invoice total amount with VAT', 'totalAmount', 'The total without VAT plus VAT does not equal the total with VAT');
+  }
+  if (invoice.totalAmount && !invoice.dueDate && !invoice.paymentTerms) {
+    report('BT-9', 'Payment due date', 'dueDate', 'A payment due date or payment terms (BT-20) are required when an amount is due');
+  }
+
+  return missing;
+}
+
+/**
+ * Serialize an invoice as Peppol BIS Billing 3.0 UBL 2.1 XML
+ * Credit notes become CreditNote documents with positive amounts. No XML is produced
+ * while mandatory business terms are missing; they are reported instead.
+ * @param invoice The parsed invoice
+ * @param options Peppol details not found on the invoice
+ * @returns The document type, and either the XML or the missing terms
+ */
+export function exportUbl(invoice: InvoiceData, options: UblExportOptions = {}): UblExportResult {
+  const documentType = getUblDocumentType(invoice);
+  const missingTerms = findMissingBusinessTerms(invoice, options);
+  if (missingTerms.length > 0) {
+    return { documentType, missingTerms };
+  }
+
+  const root = buildDocument(invoice, options, documentType);
+  return {
+    documentType,
+    xml: `<?xml version="1.0" encoding="UTF-8"?>\n${serialize(root, 0)}`,
+    missingTerms
+  };
+}
+
+/**
+ * Build the element tree of the UBL document, in the element order the UBL schema prescribes
+ */
+function buildDocument(invoice: InvoiceData, options: UblExportOptions, documentType: UblDocumentType): XmlElement {
+  const isCreditNote = documentType === UblDocumentType.CREDIT_NOTE;
+  // Credit notes state their amounts as positive values
+  const amountOf = (value: number) => (isCreditNote ? Math.abs(value) : value);
+  const currency = invoice.currency;
+  const money = (name: string, value: number) => element(name, formatAmount(amountOf(value)), { currencyID: currency });
+
+  const taxAmount = invoice.taxAmount || 0;
+  const category = taxAmount !== 0 ? 'S' : 'Z'; // Standard rated, or zero rated when no VAT is charged
+  const rate = invoice.subtotal !== 0 ? Math.round((taxAmount / invoice.subtotal) * 10000) / 100 : 0;
+  const taxCategory = (name: string) => element(name, [
+    element('cbc:ID', category),
+    element('cbc:Percent', String(rate)),
+    element('cac:TaxScheme', [element('cbc:ID', 'VAT')])
+  ]);
+  const orderReference = options.orderReference || invoice.purchaseOrderNumber;
+  const referencedInvoice = invoice.typeDetails?.type === InvoiceType.CREDIT_NOTE
+    ? invoice.typeDetails.referencedInvoiceNumber
+    : undefined;
+
+  return element(documentType, [
+    element('cbc:CustomizationID', CUSTOMIZATION_ID),
+    element('cbc:ProfileID', PROFILE_ID),
+    element('cbc:ID', invoice.invoiceNumber),
+    element('cbc:IssueDate', invoice.invoiceDate),
+    !isCreditNote && invoice.dueDate ? element('cbc:DueDate', invoice.dueDate) : undefined,
+    element(isCreditNote ? 'cbc:CreditNoteTypeCode' : 'cbc:InvoiceTypeCode', TYPE_CODES[documentType]),
+    element('cbc:DocumentCurrencyCode', currency),
+    options.buyerReference ? element('cbc:BuyerReference', options.buyerReference) : undefined,
+    orderReference ? element('cac:OrderReference', [element('cbc:ID', orderReference)]) : undefined,
+    referencedInvoice
+      ? element('cac:BillingReference', [element('cac:InvoiceDocumentReference', [element('cbc:ID', referencedInvoice)])])
+      : undefined,
+    element('cac:AccountingSupplierParty', [buildParty(
+      invoice.vendorName,
+      invoice.vendorAddress,
+      options.sellerEndpoint || '',
+      options.sellerCountryCode || detectCountry(invoice.vendorAddress) || '',
+      options.sellerVatId
+    )]),
+    element('cac:AccountingCustomerParty', [buildParty(
+      invoice.customerName || '',
+      invoice.customerAddress,
+      options.buyerEndpoint || '',
+      options.buyerCountryCode || detectCountry(invoice.customerAddress) || '',
+      options.buyerVatId
+    )]),
+    // CreditNote has no DueDate element, so its due date goes with the payment means
+    isCreditNote && invoice.dueDate
+      ? element('cac:PaymentMeans', [element('cbc:PaymentMeansCode', '1'), element('cbc:PaymentDueDate', invoice.dueDate)])
+      : undefined,
+    invoice.paymentTerms ? element('cac:PaymentTerms', [element('cbc:Note', invoice.paymentTerms)]) : undefined,
+    element('cac:TaxTotal', [
+      money('cbc:TaxAmount', taxAmount),
+      element('cac:TaxSubtotal', [
+        money('cbc:TaxableAmount', invoice.subtotal),
+        money('cbc:TaxAmount', taxAmount),
+        taxCategory('cac:TaxCategory')
+      ])
+    ]),
+    element('cac:LegalMonetaryTotal', [
+      money('cbc:LineExtensionAmount', sumLines(invoice.items)),
+      money('cbc:TaxExclusiveAmount', invoice.subtotal),
+      money('cbc:TaxInclusiveAmount', invoice.totalAmount),
+      money('cbc:PayableAmount', invoice.totalAmount)
+    ]),
+    ...invoice.items.map((item, index) => element(isCreditNote ? 'cac:CreditNoteLine' : 'cac:InvoiceLine', [
+      element('cbc:ID', String(index + 1)),
+      element(isCreditNote ? 'cbc:CreditedQuantity' : 'cbc:InvoicedQuantity', String(amountOf(item.quantity)), { unitCode: UNIT_CODE }),
+      money('cbc:LineExtensionAmount', item.amount),
+      element('cac:Item', [element('cbc:Name', item.description), taxCategory('cac:ClassifiedTaxCategory')]),
+      element('cac:Price', [element('cbc:PriceAmount', String(amountOf(item.unitPrice)), { currencyID: currency })])
+    ]))
+  ], {
+    xmlns: NAMESPACES[documentType],
+    'xmlns:cac': NAMESPACES.cac,
+    'xmlns:cbc': NAMESPACES.cbc
+  });
+}
+
+/**
+ * Build a cac:Party element for the seller or buyer
+ */
+function buildParty(
+  name: string,
+  address: string | undefined,
+  endpoint: string,
+  countryCode: string,
+  vatId?: string
+): XmlElement {
+  // The identifier was checked by findMissingBusinessTerms
+  const [, scheme, id] = endpoint.match(PARTICIPANT_ID_PATTERN) || [];
+
+  return element('cac:Party', [
+    element('cbc:EndpointID', id, { schemeID: scheme }),
+    element('cac:PostalAddress', [
+      address ? element('cbc:StreetName', address.replace(/\s*\n\s*/g, ', ')) : undefined,
+      element('cac:Country', [element('cbc:IdentificationCode', countryCode.toUpperCase())])
+    ]),
+    vatId
+      ? element('cac:PartyTaxScheme', [element('cbc:CompanyID', vatId), element('cac:TaxScheme', [element('cbc:ID', 'VAT')])])
+      : undefined,
+    element('cac:PartyLegalEntity', [element('cbc:RegistrationName', name)])
+  ]);
+}
+
+/**
+ * Report a Peppol participant identifier that is missing or not written as <scheme>:<identifier>
+ */
+function requireParticipantId(
+  report: (term: string, name: string, field: string, message: string) => void,
+  term: string,
+  name: string,
+  field: string,
+  value?: string
+): void {
+  if (!value) {
+    report(term, name, field, `${name} is missing; provide a Peppol participant identifier such as 0088:7300010000001`);
+  } else if (!PARTICIPANT_ID_PATTERN.test(value)) {
+    report(term, name, field, `${name} "${value}" is not written as <scheme>:<identifier>`);
+  }
+}
+
+/**
+ * Report a country code that is neither given nor detectable from the address
+ */
+function requireCountry(
+  report: (term: string, name: string, field: string, message: string) => void,
+  term: string,
+  name: string,
+  field: string,
+  value: string | undefined,
+  address: string | undefined
+): void {
+  if (value) {
+    if (!/^[A-Za-z]{2}$/.test(value)) {
+      report(term, name, field, `${name} "${value}" is not an ISO 3166-1 alpha-2 code`);
+    }
+  } else if (!detectCountry(address)) {
+    report(term, name, field, `${name} could not be determined from the address; provide it as an option`);
+  }
+}
+
+function element(name: string, content: XmlElement['content'], attributes?: Record<string, string>): XmlElement {
+  return { name, content, ...(attributes ? { attributes } : {}) };
+}
+
+/**
+ * Serialize an element and its children with two-space indentation
+ */
+function serialize(node: XmlElement, depth: number): string {
+  const indent = '  '.repeat(depth);
+  const attributes = Object.entries(node.attributes || {})
+    .map(([key, value]) => ` ${key}="${escapeXml(value)}"`)
+    .join('');
+
+  if (typeof node.content === 'string') {
+    return `${indent}<${node.name}${attributes}>${escapeXml(node.content)}</${node.name}>`;
+  }
+  const children = node.content
+    .filter((child): child is XmlElement => child !== undefined)
+    .map(child => serialize(child, depth + 1));
+  return `${indent}<${node.name}${attributes}>\n${children.join('\n')}\n${indent}</${node.name}>`;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function formatAmount(value: number): string {
+  return (Math.round(value * 100) / 100).toFixed(2);
+}
+
+function sumLines(items: InvoiceItem[]): number {
+  return Math.round(items.reduce((sum, item) => sum + item.amount, 0) * 100) / 100;
+}
+
+function amountsMatch(expected: number, actual: number): boolean {
+  // Small epsilon so a difference of exactly the tolerance still passes
+  return Math.abs(expected - actual) <= TOLERANCE + 1e-9;
+}
@@ -0,0 +1,276 @@
+import { DocumentUpload } from './imageParser';
+import { isPdf } from './pdfParser';
+
+// Define enum for the file types recognised from their content, valued by MIME type
+export enum FileFormat {
+  PNG = 'image/png',
+  JPEG = 'image/jpeg',
+  GIF = 'image/gif',
+  WEBP = 'image/webp',
+  TIFF = 'image/tiff',
+  HEIC = 'image/heic',
+  PDF = 'application/pdf'
+}
+
+// Define enum for the reasons an upload is rejected before it reaches the model
+export enum UploadProblem {
+  TOO_LARGE = 'too_large',
+  UNSUPPORTED_TYPE = 'unsupported_type', // Unknown content, or a format the model can't read
+  CORRUPT = 'corrupt', // Recognised format, but the header can't be read
+  TOO_MANY_PIXELS = 'too_many_pixels'
+}
+
+// Map each upload problem to the HTTP status the API routes answer with
+export const UPLOAD_PROBLEM_STATUS: Record<UploadProblem, number> = {
+  [UploadProblem.TOO_LARGE]: 413,
+  [UploadProblem.UNSUPPORTED_TYPE]: 415,
+  [UploadProblem.CORRUPT]: 422,
+  [UploadProblem.TOO_MANY_PIXELS]: 422
+};
+
+export type UploadLimits = {
+  maxBytes: number; // Size of the decoded file
+  maxPixels: number; // Width times height of an image
+};
+
+// Define the result of checking an upload
+export type UploadInspection = {
+  format?: FileFormat;
+  width?: number;
+  height?: number;
+  problem?: UploadProblem;
+  message?: string; // Explains the problem
+};
+
+const DEFAULT_MAX_BYTES = 10 * 1024 * 1024;
+const DEFAULT_MAX_PIXELS = 40_000_000;
+
+// Formats the vision model accepts; PDFs are read or rendered before they are sent
+const MODEL_FORMATS = [FileFormat.PNG, FileFormat.JPEG, FileFormat.GIF, FileFormat.WEBP, FileFormat.PDF];
+
+// ISO base media brands used by HEIC and HEIF images
+const HEIF_BRANDS = ['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis', 'mif1', 'msf1'];
+
+/**
+ * Get the upload limits from UPLOAD_MAX_BYTES and UPLOAD_MAX_PIXELS
+ * @returns The configured limits, falling back to 10 MB and 40 megapixels
+ */
+export function getUploadLimits(): UploadLimits {
+  return {
+    maxBytes: Number(process.env.UPLOAD_MAX_BYTES) || DEFAULT_MAX_BYTES,
+    maxPixels: Number(process.env.UPLOAD_MAX_PIXELS) || DEFAULT_MAX_PIXELS
+  };
+}
+
+/**
+ * Detect the file type from its magic bytes
+ * @param data File contents
+ * @returns The format, or undefined if it isn't one of the recognised formats
+ */
+export function detectFileFormat(data: Buffer): FileFormat | undefined {
+  const ascii = (start: number, end: number) => data.toString('latin1', start, end);
+
+  if (data.length >= 8 && data.readUInt32BE(0) === 0x89504e47 && data.readUInt32BE(4) === 0x0d0a1a0a) {
+    return FileFormat.PNG;
+  }
+  if (data.length >= 3 && data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) {
+    return FileFormat.JPEG;
+  }
+  if (ascii(0, 6) === 'GIF87a' || ascii(0, 6) === 'GIF89a') {
+    return FileFormat.GIF;
+  }
+  if (ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WEBP') {
+    return FileFormat.WEBP;
+  }
+  if (ascii(0, 4) === 'II*\0' || ascii(0, 4) === 'MM\0*') {
+    return FileFormat.TIFF;
+  }
+  if (ascii(4, 8) === 'ftyp' && HEIF_BRANDS.includes(ascii(8, 12))) {
+    return FileFormat.HEIC;
+  }
+  if (isPdf(data)) {
+    return FileFormat.PDF;
+  }
+  return undefined;
+}
+
+/**
+ * Read the pixel size of a PNG, JPEG, GIF or WebP image from its header
+ * @param data File contents
+ * @param format The detected format
+ * @returns Width and height, or undefined if the header is missing or truncated
+ */
+export function readImageDimensions(data: Buffer, format: FileFormat): { width: number; height: number } | undefined {
+  try {
+    switch (format) {
+      case FileFormat.PNG:
+        // The IHDR chunk always comes first
+        return data.toString('latin1', 12, 16) === 'IHDR'
+          ? toDimensions(data.readUInt32BE(16), data.readUInt32BE(20))
+          : undefined;
+      case FileFormat.GIF:
+        return toDimensions(data.readUInt16LE(6), data.readUInt16LE(8));
+      case FileFormat.JPEG:
+        return readJpegDimensions(data);
+      case FileFormat.WEBP:
+        return readWebpDimensions(data);
+      default:
+        return undefined;
+    }
+  } catch {
+    // Reading past the end of a truncated file
+    return undefined;
+  }
+}
+
+/**
+ * Check an upload against the limits before it is sent to the model
+ * The declared MIME type is ignored; the format is detected from the content.
+ * @param data File contents
+ * @param limits Size and pixel limits (defaults to getUploadLimits())
+ * @returns The detected format and size, with the problem if the upload must be rejected
+ */
+export function inspectUpload(data: Buffer, limits: UploadLimits = getUploadLimits()): UploadInspection {
+  if (data.length > limits.maxBytes) {
+    return {
+      problem: UploadProblem.TOO_LARGE,
+      message: `The file is ${formatBytes(data.length)}, the limit is ${formatBytes(limits.maxBytes)}`
+    };
+  }
+
+  const format = detectFileFormat(data);
+  if (!format) {
+    return {
+      problem: UploadProblem.UNSUPPORTED_TYPE,
+      message: 'The file is not a PNG, JPEG, GIF, WebP, TIFF, HEIC or PDF file'
+    };
+  }
+  if (!MODEL_FORMATS.includes(format)) {
+    return {
+      format,
+      problem: UploadProblem.UNSUPPORTED_TYPE,
+      message: `${format} files can't be read by the model, convert them to PNG, JPEG or PDF first`
+    };
+  }
+
+  if (format === FileFormat.PDF) {
+    // A PDF that was cut off loses its trailer
+    return data.lastIndexOf('%%EOF') === -1
+      ? { format, problem: UploadProblem.CORRUPT, message: 'The PDF is truncated or damaged' }
+      : { format };
+  }
+
+  const dimensions = readImageDimensions(data, format);
+  if (!dimensions) {
+    return {
+      format,
+      problem: UploadProblem.CORRUPT,
+      message: `The ${format} image is truncated or damaged`
+    };
+  }
+  if (dimensions.width * dimensions.height > limits.maxPixels) {
+    return {
+      format,
+      ...dimensions,
+      problem: UploadProblem.TOO_MANY_PIXELS,
+      message: `The image is ${dimensions.width}x${dimensions.height} pixels, the limit is ${limits.maxPixels} pixels`
+    };
+  }
+
+  return { format, ...dimensions };
+}
+
+/**
+ * Read a request body, draining but discarding it once it exceeds the limit
+ * @param stream The request
+ * @param limit Maximum size in bytes
+ * @returns The body, or undefined when it is too large
+ */
+export async function readRequestBody(stream: AsyncIterable<Uint8Array>, limit: number): Promise<Buffer | undefined> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of stream) {
+    size += chunk.length;
+    if (size <= limit) {
+      chunks.push(Buffer.from(chunk));
+    }
+  }
+
+  return size <= limit ? Buffer.concat(chunks) : undefined;
+}
+
+/**
+ * Read the files of a multipart/form-data body, whatever their field names
+ * @param body The raw body
+ * @param contentType Content-Type header including the boundary
+ * @returns The uploaded files in form order
+ */
+export async function readMultipartFiles(body: Buffer, contentType: string): Promise<DocumentUpload[]> {
+  const formData = await new Response(body, { headers: { 'Content-Type': contentType } }).formData();
+  const uploads: DocumentUpload[] = [];
+
+  for (const [, value] of formData.entries()) {
+    if (typeof value !== 'string') {
+      uploads.push({
+        fileName: value.name,
+        data: Buffer.from(await value.arrayBuffer()),
+        // Generic types say nothing, the file name is a better hint
+        mimeType: value.type && value.type !== 'application/octet-stream' ? value.type : undefined
+      });
+    }
+  }
+
+  return uploads;
+}
+
+/**
+ * Find the frame header of a JPEG and read its size
+ */
+function readJpegDimensions(data: Buffer): { width: number; height: number } | undefined {
+  let offset = 2;
+  while (offset + 9 < data.length) {
+    if (data[offset] !== 0xff) {
+      return undefined;
+    }
+    const marker = data[offset + 1];
+    // Start-of-frame markers, except DHT (C4), JPG (C8) and DAC (CC)
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return toDimensions(data.readUInt16BE(offset + 7), data.readUInt16BE(offset + 5));
+    }
+    offset += 2 + data.readUInt16BE(offset + 2);
+  }
+  return undefined;
+}
+
+/**
+ * Read the canvas size of a lossy, lossless or extended WebP
+ */
+function readWebpDimensions(data: Buffer): { width: number; height: number } | undefined {
+  switch (data.toString('latin1', 12, 16)) {
+    case 'VP8 ':
+      return toDimensions(data.readUInt16LE(26) & 0x3fff, data.readUInt16LE(28) & 0x3fff);
+    case 'VP8L': {
+      const bits = data.readUInt32LE(21);
+      return toDimensions((bits & 0x3fff) + 1, ((bits >> 14) & 0x3fff) + 1);
+    }
+    case 'VP8X':
+      return toDimensions(data.readUIntLE(24, 3) + 1, data.readUIntLE(27, 3) + 1);
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Reject empty sizes, which only come from damaged headers
+ */
+function toDimensions(width: number, height: number): { width: number; height: number } | undefined {
+  return width > 0 && height > 0 ? { width, height } : undefined;
+}
+
+/**
+ * Format a byte count in megabytes for error messages
+ */
+function formatBytes(bytes: number): string {
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
@@ -0,0 +1,309 @@
+import type { InvoiceData } from './types';
+
+// Define enum for how serious a validation issue is
+export enum ValidationSeverity {
+  ERROR = 'error', // The data is inconsistent and should not be trusted
+  WARNING = 'warning', // The data may be wrong or was filled in by the parser
+  INFO = 'info'
+}
+
+// Define enum for the kinds of checks the validation engine runs
+export enum ValidationCode {
+  MISSING_FIELD = 'missing_field',
+  DEFAULTED_FIELD = 'defaulted_field',
+  LINE_AMOUNT_MISMATCH = 'line_amount_mismatch',
+  SUBTOTAL_MISMATCH = 'subtotal_mismatch',
+  TOTAL_MISMATCH = 'total_mismatch',
+  INVALID_DATE = 'invalid_date',
+  DUE_DATE_BEFORE_INVOICE_DATE = 'due_date_before_invoice_date',
+  MISSING_TYPE_FIELD = 'missing_type_field', // A field expected for the document type is missing
+  INCONSISTENT_TYPE_FIELD = 'inconsistent_type_field', // A type-specific field contradicts the rest of the document
+  POSSIBLE_DUPLICATE_ITEM = 'possible_duplicate_item' // A line repeats the last line of the previous page and may be counted twice
+}
+
+// Define the structure for a single validation finding
+export type ValidationIssue = {
+  code: ValidationCode;
+  severity: ValidationSeverity;
+  field: string; // Path of the offending field, e.g. 'items[0].amount'
+  message: string;
+  expected?: number | string;
+  actual?: number | string;
+};
+
+// Define the structure for the report attached to parsed invoices
+export type ValidationReport = {
+  valid: boolean; // False if any issue has ERROR severity
+  issues: ValidationIssue[];
+  defaultedFields: string[]; // Fields the parser filled in because the model left them out
+};
+
+// Additional check run by the engine, e.g. for a specific document type
+export type InvoiceCheck = (invoice: InvoiceData) => ValidationIssue[];
+
+export type ValidationOptions = {
+  tolerance?: number; // Absolute tolerance for amount comparisons (defaults to 0.01)
+  defaultedFields?: string[];
+  additionalCharges?: number; // Charges besides subtotal and tax that make up the total, e.g. shipping
+  checks?: InvoiceCheck[];
+};
+
+// Fields every invoice is expected to carry
+export const REQUIRED_INVOICE_FIELDS = [
+  'invoiceNumber',
+  'invoiceDate',
+  'vendorName',
+  'items',
+  'subtotal',
+  'totalAmount',
+  'currency'
+] as const;
+
+const DEFAULT_TOLERANCE = 0.01;
+
+/**
+ * List the required fields the model left empty, before any defaults are applied
+ * @param invoice The raw parsed invoice data
+ * @returns Names of the missing required fields
+ */
+export function findMissingFields(invoice: Partial<InvoiceData>): string[] {
+  return REQUIRED_INVOICE_FIELDS.filter(field => {
+    const value = invoice[field];
+    return value === undefined || value === null || value === '';
+  });
+}
+
+/**
+ * Fill in the required fields the model left out, then validate the invoice
+ * Text and image parsing both finish with this, so a document gets the same verdict either way.
+ * A missing subtotal is derived from the line items, or else from the total less tax and other charges.
+ * @param invoice The parsed invoice, modified in place
+ * @param options Optional tolerance, other charges and extra checks; the defaulted fields are worked out here
+ * @returns Names of the fields that were filled with defaults
+ */
+export function applyDefaultsAndValidate(invoice: InvoiceData, options: Omit<ValidationOptions, 'defaultedFields'> = {}): string[] {
+  // Remember which fields the model left out before defaults hide them
+  const missingFields = findMissingFields(invoice);
+
+  invoice.invoiceNumber = invoice.invoiceNumber || 'UNKNOWN';
+  invoice.vendorName = invoice.vendorName || 'UNKNOWN';
+  invoice.totalAmount = invoice.totalAmount || 0;
+  invoice.currency = invoice.currency || 'USD';
+  invoice.items = invoice.items || [];
+  invoice.invoiceDate = invoice.invoiceDate || new Date().toISOString().split('T')[0];
+  if (missingFields.includes('subtotal')) {
+    invoice.subtotal = deriveSubtotal(invoice, options.additionalCharges || 0);
+  }
+
+  if (invoice.invoiceNumber === 'UNKNOWN' || invoice.vendorName === 'UNKNOWN') {
+    console.warn('Warning: Some important invoice fields are missing from the parsing result');
+  }
+
+  const stillMissing = findMissingFields(invoice);
+  const defaultedFields = missingFields.filter(field => !stillMissing.includes(field));
+  invoice.validation = validateInvoiceData(invoice, { ...options, defaultedFields });
+  return defaultedFields;
+}
+
+/**
+ * Validate parsed invoice data for completeness and arithmetic consistency
+ * @param invoice The invoice data to validate
+ * @param options Optional tolerance, defaulted fields and extra checks
+ * @returns Validation report listing every issue found
+ */
+export function validateInvoiceData(invoice: InvoiceData, options: ValidationOptions = {}): ValidationReport {
+  const tolerance = options.tolerance ?? DEFAULT_TOLERANCE;
+  const defaultedFields = options.defaultedFields || [];
+
+  const issues: ValidationIssue[] = [
+    ...checkRequiredFields(invoice, defaultedFields),
+    ...checkLineItems(invoice, tolerance),
+    ...checkTotals(invoice, tolerance, options.additionalCharges || 0, defaultedFields),
+    ...checkDates(invoice),
+    ...(options.checks || []).flatMap(check => check(invoice))
+  ];
+
+  return {
+    valid: !issues.some(issue => issue.severity === ValidationSeverity.ERROR),
+    issues,
+    defaultedFields
+  };
+}
+
+/**
+ * Report required fields that are missing or were filled in with defaults
+ */
+function checkRequiredFields(invoice: InvoiceData, defaultedFields: string[]): ValidationIssue[] {
+  const issues: ValidationIssue[] = defaultedFields.map(field => ({
+    code: ValidationCode.DEFAULTED_FIELD,
+    severity: ValidationSeverity.WARNING,
+    field,
+    message: `${field} was not found in the document and was filled with a default value`,
+    actual: formatValue(invoice[field as keyof InvoiceData])
+  }));
+
+  // Anything still missing after defaults were applied is an error
+  for (const field of findMissingFields(invoice)) {
+    if (!defaultedFields.includes(field)) {
+      issues.push({
+        code: ValidationCode.MISSING_FIELD,
+        severity: ValidationSeverity.ERROR,
+        field,
+        message: `${field} is required but missing`
+      });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Check that quantity × unit price matches the amount of every line item
+ */
+function checkLineItems(invoice: InvoiceData, tolerance: number): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+
+  (invoice.items || []).forEach((item, index) => {
+    if (!isNumber(item.quantity) || !isNumber(item.unitPrice) || !isNumber(item.amount)) {
+      issues.push({
+        code: ValidationCode.MISSING_FIELD,
+        severity: ValidationSeverity.WARNING,
+        field: `items[${index}]`,
+        message: `Line item ${index + 1} is missing its quantity, unit price or amount`
+      });
+      return;
+    }
+
+    const expected = roundCents(item.quantity * item.unitPrice);
+    if (!amountsMatch(expected, item.amount, tolerance)) {
+      issues.push({
+        code: ValidationCode.LINE_AMOUNT_MISMATCH,
+        severity: ValidationSeverity.ERROR,
+        field: `items[${index}].amount`,
+        message: `Line item ${index + 1}: quantity × unit price does not equal the amount`,
+        expected,
+        actual: item.amount
+      });
+    }
+  });
+
+  return issues;
+}
+
+/**
+ * Check that the items add up to the subtotal and that subtotal + tax (+ other charges) equals the total
+ * Defaulted amounts weren't in the document, so they aren't checked against it.
+ */
+function checkTotals(invoice: InvoiceData, tolerance: number, additionalCharges: number, defaultedFields: string[]): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const items = invoice.items || [];
+
+  if (items.length > 0 && isNumber(invoice.subtotal) && !defaultedFields.includes('subtotal') && items.every(item => isNumber(item.amount))) {
+    const expected = roundCents(items.reduce((sum, item) => sum + item.amount, 0));
+    if (!amountsMatch(expected, invoice.subtotal, tolerance)) {
+      issues.push({
+        code: ValidationCode.SUBTOTAL_MISMATCH,
+        severity: ValidationSeverity.ERROR,
+        field: 'subtotal',
+        message: 'Line items do not add up to the subtotal',
+        expected,
+        actual: invoice.subtotal
+      });
+    }
+  }
+
+  if (isNumber(invoice.subtotal) && isNumber(invoice.totalAmount) && !defaultedFields.includes('totalAmount')) {
+    const expected = roundCents(invoice.subtotal + (invoice.taxAmount || 0) + additionalCharges);
+    if (!amountsMatch(expected, invoice.totalAmount, tolerance)) {
+      issues.push({
+        code: ValidationCode.TOTAL_MISMATCH,
+        severity: ValidationSeverity.ERROR,
+        field: 'totalAmount',
+        message: additionalCharges
+          ? 'Subtotal plus tax and other charges does not equal the total amount'
+          : 'Subtotal plus tax does not equal the total amount',
+        expected,
+        actual: invoice.totalAmount
+      });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Check that dates parse and that the due date is not before the invoice date
+ */
+function checkDates(invoice: InvoiceData): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const invoiceDate = checkDate(invoice, 'invoiceDate', issues);
+  const dueDate = checkDate(invoice, 'dueDate', issues);
+
+  if (invoiceDate !== undefined && dueDate !== undefined && dueDate < invoiceDate) {
+    issues.push({
+      code: ValidationCode.DUE_DATE_BEFORE_INVOICE_DATE,
+      severity: ValidationSeverity.ERROR,
+      field: 'dueDate',
+      message: 'Due date is before the invoice date',
+      expected: `on or after ${invoice.invoiceDate}`,
+      actual: invoice.dueDate
+    });
+  }
+
+  return issues;
+}
+
+/**
+ * Parse a date field, recording an issue if it is present but unparseable
+ * @returns Timestamp of the date, or undefined if missing or invalid
+ */
+function checkDate(invoice: InvoiceData, field: 'invoiceDate' | 'dueDate', issues: ValidationIssue[]): number | undefined {
+  const value = invoice[field];
+  if (!value) {
+    return undefined;
+  }
+
+  const timestamp = Date.parse(value);
+  if (Number.isNaN(timestamp)) {
+    issues.push({
+      code: ValidationCode.INVALID_DATE,
+      severity: ValidationSeverity.ERROR,
+      field,
+      message: `${field} is not a valid date`,
+      actual: value
+    });
+    return undefined;
+  }
+  return timestamp;
+}
+
+/**
+ * Work out the subtotal of an invoice that doesn't state one
+ */
+function deriveSubtotal(invoice: InvoiceData, additionalCharges: number): number {
+  const items = invoice.items || [];
+  if (items.length > 0 && items.every(item => isNumber(item.amount))) {
+    return roundCents(items.reduce((sum, item) => sum + item.amount, 0));
+  }
+  return roundCents(invoice.totalAmount - (invoice.taxAmount || 0) - additionalCharges);
+}
+
+function isNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function roundCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function amountsMatch(expected: number, actual: number, tolerance: number): boolean {
+  // Small epsilon so a difference of exactly the tolerance still passes
+  return Math.abs(expected - actual) <= tolerance + 1e-9;
+}
+
+function formatValue(value: unknown): string | number | undefined {
+  if (typeof value === 'string' || typeof value === 'number') {
+    return value;
+  }
+  return value === undefined ? undefined : JSON.stringify(value);
+}
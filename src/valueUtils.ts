@@ -0,0 +1,86 @@
+// Helpers for reading and comparing loosely typed values out of model responses
+
+/**
+ * Check whether a value is a plain object
+ */
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Return a trimmed, non-empty string or undefined
+ */
+export function asString(value: unknown): string | undefined {
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return String(value);
+  }
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+/**
+ * Return a finite number or undefined
+ */
+export function asNumber(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+}
+
+// Legal forms left out of company names, so "Acme Inc." and "ACME" compare equal
+const LEGAL_FORMS = /\b(inc|incorporated|llc|ltd|limited|plc|corp|corporation|co|company|gmbh|ag|sa|sarl|srl|bv|nv|as|ab|oy|pty|kg)\b/g;
+
+/**
+ * Normalize a company name for comparison: lower case, without punctuation and legal form
+ */
+export function normalizeCompanyName(name: string | undefined): string {
+  return normalizeText(name).replace(LEGAL_FORMS, ' ').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Normalize free text for comparison: lower case letters and digits separated by single spaces
+ */
+export function normalizeText(value: string | undefined): string {
+  return (value || '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Normalize a document number so "INV-0042", "inv 42" and "INV42" compare equal
+ * The parser's UNKNOWN placeholder normalizes to an empty string.
+ */
+export function normalizeDocumentNumber(documentNumber: string | undefined): string {
+  if (!documentNumber || documentNumber === 'UNKNOWN') {
+    return '';
+  }
+  return documentNumber
+    .toUpperCase()
+    .replace(/[^A-Z0-9]/g, '')
+    .replace(/(^|[A-Z])0+(?=\d)/g, '$1');
+}
+
+/**
+ * Compare two normalized strings by their character pairs (Sørensen-Dice coefficient)
+ * @returns 1 for equal strings, 0 for strings without common pairs
+ */
+export function compareStrings(a: string, b: string): number {
+  if (a === b) {
+    return a ? 1 : 0;
+  }
+  if (a.length < 2 || b.length < 2) {
+    return 0;
+  }
+
+  const pairs = (value: string) => Array.from({ length: value.length - 1 }, (_, index) => value.slice(index, index + 2));
+  const pairsOfB = pairs(b);
+  let common = 0;
+  for (const pair of pairs(a)) {
+    const index = pairsOfB.indexOf(pair);
+    if (index !== -1) {
+      common++;
+      pairsOfB.splice(index, 1);
+    }
+  }
+  return (2 * common) / (a.length - 1 + b.length - 1);
+}
@@ -0,0 +1,261 @@
+import type { StoredDocument } from './documentStore';
+import { InvoiceData, InvoiceType } from './types';
+import { normalizeCompanyName, normalizeDocumentNumber } from './valueUtils';
+
+// Define enum for the documents that make up a vendor's balance
+export enum LedgerEntryKind {
+  INVOICE = 'invoice',
+  CREDIT_NOTE = 'credit_note',
+  RECEIPT = 'receipt' // Payment receipt, settling what was billed
+}
+
+// Define enum for the outcome of applying a credit note to the invoice it references
+export enum CreditStatus {
+  APPLIED = 'applied', // Fully applied; the invoice may still have an open balance after a partial credit
+  OVER_CREDITED = 'over_credited', // More than the invoice's open balance, the rest is left unapplied
+  UNRESOLVED = 'unresolved' // No reference, or the referenced invoice isn't stored
+}
+
+// Define how a credit note was applied
+export type CreditApplication = {
+  status: CreditStatus;
+  referencedInvoiceNumber?: string;
+  invoiceDocumentId?: string; // Stored invoice the credit was applied to
+  creditAmount: number; // Positive amount of the credit
+  appliedAmount: number;
+  unappliedAmount: number;
+  invoiceOpenBalance?: number; // Balance of the referenced invoice after this credit
+  message: string;
+};
+
+// Define a single document in a vendor's ledger
+export type LedgerEntry = {
+  documentId: string;
+  kind: LedgerEntryKind;
+  documentNumber: string;
+  date: string;
+  currency: string;
+  amount: number; // Invoices positive, credit notes and receipts negative
+  balance: number; // Running balance in the entry's currency
+  openBalance?: number; // Invoices: what remains after the credits applied to them
+  creditApplication?: CreditApplication; // Credit notes
+  reviewReasons: string[]; // Why the entry needs a look, empty when nothing is wrong
+};
+
+// Define the ledger of one vendor
+export type VendorLedger = {
+  vendorKey: string; // Normalized vendor name the documents are grouped by
+  vendor: string; // Vendor name as written on the most recent document
+  entries: LedgerEntry[]; // Oldest first
+  balances: Record<string, number>; // Remaining balance per currency
+  needsReview: number; // Entries with review reasons
+};
+
+// Define the overview of a vendor's ledger, without its entries
+export type VendorLedgerSummary = Omit<VendorLedger, 'entries'> & {
+  invoices: number;
+  creditNotes: number;
+  receipts: number;
+};
+
+// Document types in the ledger; POs, proformas and logistics documents don't change what is owed
+const ENTRY_KINDS: Partial<Record<string, LedgerEntryKind>> = {
+  [InvoiceType.STANDARD]: LedgerEntryKind.INVOICE,
+  [InvoiceType.UNKNOWN]: LedgerEntryKind.INVOICE,
+  [InvoiceType.CREDIT_NOTE]: LedgerEntryKind.CREDIT_NOTE,
+  [InvoiceType.RECEIPT]: LedgerEntryKind.RECEIPT
+};
+
+// Differences below a cent are rounding
+const CENT = 0.005;
+
+/**
+ * Build the ledger of every vendor from the stored documents
+ * @param documents Stored documents; only invoices, credit notes and payment receipts are used
+ * @returns One ledger per vendor, sorted by vendor name
+ */
+export function buildVendorLedgers(documents: StoredDocument[]): VendorLedger[] {
+  const groups = new Map<string, StoredDocument[]>();
+  for (const document of documents) {
+    const key = getLedgerVendorKey(document);
+    if (key !== undefined) {
+      groups.set(key, [...(groups.get(key) || []), document]);
+    }
+  }
+
+  return [...groups.entries()]
+    .map(([key, group]) => buildLedger(key, group))
+    .sort((a, b) => a.vendor.localeCompare(b.vendor));
+}
+
+/**
+ * Build the ledger of a single vendor
+ * @param documents Stored documents
+ * @param vendor Vendor name, matched the way documents are grouped
+ * @returns The vendor's ledger, or undefined if the vendor has no ledger documents
+ */
+export function getVendorLedger(documents: StoredDocument[], vendor: string): VendorLedger | undefined {
+  const key = normalizeCompanyName(vendor);
+  const group = documents.filter(document => getLedgerVendorKey(document) === key);
+  return group.length > 0 ? buildLedger(key, group) : undefined;
+}
+
+/**
+ * Summarize a vendor ledger for an overview
+ * @param ledger The vendor ledger
+ * @returns Balances, review count and the number of documents of each kind
+ */
+export function summarizeVendorLedger(ledger: VendorLedger): VendorLedgerSummary {
+  const { entries, ...summary } = ledger;
+  const count = (kind: LedgerEntryKind) => entries.filter(entry => entry.kind === kind).length;
+  return {
+    ...summary,
+    invoices: count(LedgerEntryKind.INVOICE),
+    creditNotes: count(LedgerEntryKind.CREDIT_NOTE),
+    receipts: count(LedgerEntryKind.RECEIPT)
+  };
+}
+
+/**
+ * Apply a newly parsed credit note against the open balance of the invoice it references
+ * Credits stored before it are applied first, so a second partial credit sees what the first one left.
+ * @param creditNote The parsed credit note
+ * @param documents Previously stored documents
+ * @returns How the credit was applied, or why it couldn't be
+ */
+export function resolveCreditNote(creditNote: InvoiceData, documents: StoredDocument[]): CreditApplication {
+  const key = normalizeCompanyName(creditNote.vendorName);
+  const group = documents.filter(document => getLedgerVendorKey(document) === key);
+  return applyCredit(creditNote, group.length > 0 ? buildLedger(key, group).entries : []);
+}
+
+/**
+ * Build the ledger of one vendor's documents
+ */
+function buildLedger(vendorKey: string, documents: StoredDocument[]): VendorLedger {
+  const ordered = [...documents].sort((a, b) => getDate(a).localeCompare(getDate(b)) || a.createdAt.localeCompare(b.createdAt));
+  const newest = [...documents].sort((a, b) => b.createdAt.localeCompare(a.createdAt))[0];
+  const entries: LedgerEntry[] = [];
+  const balances: Record<string, number> = {};
+
+  for (const document of ordered) {
+    const data = document.data as InvoiceData;
+    const kind = ENTRY_KINDS[document.documentType] as LedgerEntryKind;
+    const total = Math.abs(data.totalAmount || 0);
+    const currency = data.currency || '';
+    const entry: LedgerEntry = {
+      documentId: document.id,
+      kind,
+      documentNumber: data.invoiceNumber,
+      date: getDate(document),
+      currency,
+      amount: kind === LedgerEntryKind.INVOICE ? total : -total,
+      balance: 0,
+      ...(kind === LedgerEntryKind.INVOICE ? { openBalance: total } : {}),
+      reviewReasons: []
+    };
+
+    if (!vendorKey || vendorKey === 'unknown') {
+      entry.reviewReasons.push('The vendor could not be read');
+    }
+    const duplicate = data.possibleDuplicates?.find(candidate => candidate.score >= 1);
+    if (duplicate) {
+      entry.reviewReasons.push(`Possible duplicate of ${duplicate.invoiceNumber}, parsed ${duplicate.parsedAt.slice(0, 10)}`);
+    }
+    entries.push(entry);
+  }
+
+  // Credits are applied once every invoice is known, in the order they were issued
+  entries.forEach((entry, index) => {
+    if (entry.kind === LedgerEntryKind.CREDIT_NOTE) {
+      entry.creditApplication = applyCredit(ordered[index].data as InvoiceData, entries);
+      if (entry.creditApplication.status !== CreditStatus.APPLIED) {
+        entry.reviewReasons.push(entry.creditApplication.message);
+      }
+    }
+  });
+
+  for (const entry of entries) {
+    balances[entry.currency] = roundCents((balances[entry.currency] || 0) + entry.amount);
+    entry.balance = balances[entry.currency];
+  }
+
+  return {
+    vendorKey,
+    vendor: (newest.data as InvoiceData).vendorName,
+    entries,
+    balances,
+    needsReview: entries.filter(entry => entry.reviewReasons.length > 0).length
+  };
+}
+
+/**
+ * Apply a credit note to the open balance of its referenced invoice among the ledger entries
+ * The invoice entry's open balance is reduced in place.
+ */
+function applyCredit(creditNote: InvoiceData, entries: LedgerEntry[]): CreditApplication {
+  const creditAmount = Math.abs(creditNote.totalAmount || 0);
+  const referencedInvoiceNumber = creditNote.typeDetails?.type === InvoiceType.CREDIT_NOTE
+    ? creditNote.typeDetails.referencedInvoiceNumber
+    : undefined;
+  const unresolved = (message: string): CreditApplication => ({
+    status: CreditStatus.UNRESOLVED,
+    ...(referencedInvoiceNumber ? { referencedInvoiceNumber } : {}),
+    creditAmount,
+    appliedAmount: 0,
+    unappliedAmount: creditAmount,
+    message
+  });
+
+  const reference = normalizeDocumentNumber(referencedInvoiceNumber);
+  if (!reference) {
+    return unresolved('Credit note does not reference an invoice');
+  }
+  const invoice = entries.find(entry => entry.kind === LedgerEntryKind.INVOICE && normalizeDocumentNumber(entry.documentNumber) === reference);
+  if (!invoice) {
+    return unresolved(`Referenced invoice ${referencedInvoiceNumber} was not found for this vendor`);
+  }
+  if (creditNote.currency && invoice.currency && creditNote.currency !== invoice.currency) {
+    return unresolved(`Credit note is in ${creditNote.currency}, invoice ${referencedInvoiceNumber} in ${invoice.currency}`);
+  }
+
+  const openBalance = invoice.openBalance ?? 0;
+  const appliedAmount = roundCents(Math.min(creditAmount, openBalance));
+  const unappliedAmount = roundCents(creditAmount - appliedAmount);
+  invoice.openBalance = roundCents(openBalance - appliedAmount);
+
+  const overCredited = unappliedAmount > CENT;
+  return {
+    status: overCredited ? CreditStatus.OVER_CREDITED : CreditStatus.APPLIED,
+    referencedInvoiceNumber,
+    invoiceDocumentId: invoice.documentId,
+    creditAmount,
+    appliedAmount,
+    unappliedAmount,
+    invoiceOpenBalance: invoice.openBalance,
+    message: overCredited
+      ? `Credit exceeds the open balance of invoice ${referencedInvoiceNumber} by ${unappliedAmount.toFixed(2)}`
+      : invoice.openBalance > CENT
+        ? `Partial credit, invoice ${referencedInvoiceNumber} has ${invoice.openBalance.toFixed(2)} left open`
+        : `Invoice ${referencedInvoiceNumber} is fully credited`
+  };
+}
+
+/**
+ * Get the normalized vendor a document is grouped by
+ * @returns The vendor key, or undefined for documents that don't belong in a ledger
+ */
+function getLedgerVendorKey(document: StoredDocument): string | undefined {
+  if (!ENTRY_KINDS[document.documentType] || 'documentType' in document.data) {
+    return undefined;
+  }
+  return normalizeCompanyName(document.data.vendorName);
+}
+
+function getDate(document: StoredDocument): string {
+  return (document.data as InvoiceData).invoiceDate || document.createdAt.slice(0, 10);
+}
+
+function roundCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}